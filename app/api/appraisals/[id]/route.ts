@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AppraisalResponse } from '@/types/appraisal'
+import { deleteAppraisal, getAppraisal, updateAppraisal } from '@/lib/appraisal-store'
+import { validateAppraisalData } from '@/lib/validation'
+import { statusLabel } from '@/lib/appraisal-workflow'
+import { canViewAppraisal, forbidden, managesEmployee, requireUser } from '@/lib/access'
+import { changedFields, hashText, recordAudit } from '@/lib/audit-log'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+function errorResponse(error: unknown, status = 500) {
+  const response: AppraisalResponse = {
+    success: false,
+    error: error instanceof Error ? error.message : String(error)
+  }
+  return NextResponse.json(response, { status })
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request)
+    if (auth.response) return auth.response
+
+    const appraisal = await getAppraisal(params.id)
+    if (!appraisal) {
+      return errorResponse('Appraisal not found', 404)
+    }
+    if (!canViewAppraisal(auth.user, appraisal)) {
+      return forbidden()
+    }
+
+    const response: AppraisalResponse = { success: true, appraisal }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error loading appraisal:', error)
+    return errorResponse(error)
+  }
+}
+
+// The review may not be moved to an employee outside the user's reporting line either
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const validation = validateAppraisalData(await request.json().catch(() => undefined), 'draft')
+
+    if (!validation.valid) {
+      const response: AppraisalResponse = { success: false, error: 'Invalid appraisal data', errors: validation.errors }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const data = validation.value
+    const current = await getAppraisal(params.id)
+    if (!current) {
+      return errorResponse('Appraisal not found', 404)
+    }
+    if (!managesEmployee(auth.user, current.employeeId) || !managesEmployee(auth.user, data.employeeId)) {
+      return forbidden()
+    }
+
+    const result = await updateAppraisal(params.id, data)
+
+    if (result.status === 'not-found') {
+      return errorResponse('Appraisal not found', 404)
+    }
+    if (result.status === 'locked') {
+      return errorResponse(`The review is no longer a draft (${statusLabel(result.appraisalStatus)}) and cannot be edited`, 423)
+    }
+    if (result.status === 'conflict') {
+      const response: AppraisalResponse = {
+        success: false,
+        error: `An appraisal for ${data.employeeId} in ${data.reviewPeriod} already exists`,
+        existingId: result.existingId
+      }
+      return NextResponse.json(response, { status: 409 })
+    }
+
+    // Autosaves that change nothing are left out of the audit log
+    const changes = changedFields(current, result.appraisal)
+    if (changes.length > 0) {
+      await recordAudit(auth.user, {
+        action: 'edit',
+        employeeId: result.appraisal.employeeId,
+        appraisalId: params.id,
+        ...(changes.indexOf('generatedFeedback') !== -1 ? { feedbackHash: hashText(result.appraisal.generatedFeedback) } : {}),
+        detail: changes.join(', ')
+      })
+    }
+
+    const response: AppraisalResponse = { success: true, appraisal: result.appraisal }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error saving appraisal:', error)
+    return errorResponse(error)
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const appraisal = await getAppraisal(params.id)
+    if (appraisal && !managesEmployee(auth.user, appraisal.employeeId)) {
+      return forbidden()
+    }
+
+    const result = await deleteAppraisal(params.id)
+    if (result.status === 'not-found') {
+      return errorResponse('Appraisal not found', 404)
+    }
+    if (result.status === 'locked') {
+      return errorResponse(`The review is no longer a draft (${statusLabel(result.appraisalStatus)}) and cannot be deleted`, 423)
+    }
+    if (appraisal) {
+      await recordAudit(auth.user, {
+        action: 'delete',
+        employeeId: appraisal.employeeId,
+        appraisalId: params.id,
+        feedbackHash: hashText(appraisal.generatedFeedback),
+        detail: `${appraisal.employeeName}, ${appraisal.reviewPeriod}`
+      })
+    }
+
+    const response: AppraisalResponse = { success: true }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error deleting appraisal:', error)
+    return errorResponse(error)
+  }
+}
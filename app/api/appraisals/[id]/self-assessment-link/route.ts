@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SelfAssessmentLink, SelfAssessmentLinkResponse } from '@/types/appraisal'
+import { getAppraisal } from '@/lib/appraisal-store'
+import { isLocked, statusOf } from '@/lib/appraisal-workflow'
+import { DEFAULT_LINK_DAYS, MAX_LINK_DAYS, createLink, latestLink, linkStatus } from '@/lib/self-assessment-links'
+import { forbidden, managesEmployee, requireUser } from '@/lib/access'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export const dynamic = 'force-dynamic'
+
+function errorResponse(error: unknown, status = 500) {
+  const response: SelfAssessmentLinkResponse = {
+    success: false,
+    error: error instanceof Error ? error.message : String(error)
+  }
+  return NextResponse.json(response, { status })
+}
+
+function linkResponse(link: SelfAssessmentLink | null, status = 200) {
+  const response: SelfAssessmentLinkResponse = {
+    success: true,
+    ...(link ? { link: { ...link, status: linkStatus(link) } } : {})
+  }
+  return NextResponse.json(response, { status })
+}
+
+// GET /api/appraisals/:id/self-assessment-link - the most recent link, if one was created
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const appraisal = await getAppraisal(params.id)
+    if (!appraisal) {
+      return errorResponse('Appraisal not found', 404)
+    }
+    if (!managesEmployee(auth.user, appraisal.employeeId)) {
+      return forbidden()
+    }
+    return linkResponse(await latestLink(params.id))
+  } catch (error) {
+    console.error('Error loading self-assessment link:', error)
+    return errorResponse(error)
+  }
+}
+
+// POST /api/appraisals/:id/self-assessment-link - body: { expiresInDays?: number }
+// Replaces any earlier link that has not been used
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    // The body is optional; without one the link gets the default expiry
+    const body: unknown = await request.json().catch(() => ({}))
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      const response: SelfAssessmentLinkResponse = {
+        success: false,
+        error: 'Invalid link settings',
+        errors: [{ path: '', message: 'request body must be a JSON object' }]
+      }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const { expiresInDays } = body as { expiresInDays?: unknown }
+    const days = expiresInDays === undefined ? DEFAULT_LINK_DAYS : expiresInDays
+
+    if (typeof days !== 'number' || !Number.isInteger(days) || days <= 0 || days > MAX_LINK_DAYS) {
+      const response: SelfAssessmentLinkResponse = {
+        success: false,
+        error: 'Invalid link settings',
+        errors: [{ path: 'expiresInDays', message: `must be a whole number of days between 1 and ${MAX_LINK_DAYS}` }]
+      }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const appraisal = await getAppraisal(params.id)
+    if (!appraisal) {
+      return errorResponse('Appraisal not found', 404)
+    }
+    if (!managesEmployee(auth.user, appraisal.employeeId)) {
+      return forbidden()
+    }
+    if (appraisal.employeeSubmission) {
+      return errorResponse('The employee has already submitted a self-assessment for this appraisal', 409)
+    }
+    if (isLocked(statusOf(appraisal))) {
+      return errorResponse('The review has been submitted; self-assessment links can only be created for drafts', 409)
+    }
+
+    return linkResponse(await createLink(params.id, days), 201)
+  } catch (error) {
+    console.error('Error creating self-assessment link:', error)
+    return errorResponse(error)
+  }
+}
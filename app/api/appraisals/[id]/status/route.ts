@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AppraisalResponse, ValidationIssue } from '@/types/appraisal'
+import { getAppraisal, transitionAppraisal } from '@/lib/appraisal-store'
+import { validateAppraisalData, validateStatusChange } from '@/lib/validation'
+import { statusOf } from '@/lib/appraisal-workflow'
+import { actingRole, canViewAppraisal, forbidden, requireUser } from '@/lib/access'
+import { recordAudit } from '@/lib/audit-log'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+const REJECTION_STATUS = { invalid: 409, forbidden: 403, incomplete: 409 }
+
+function errorResponse(error: unknown, status = 500, errors?: ValidationIssue[]) {
+  const response: AppraisalResponse = {
+    success: false,
+    error: error instanceof Error ? error.message : String(error),
+    ...(errors ? { errors } : {})
+  }
+  return NextResponse.json(response, { status })
+}
+
+// POST /api/appraisals/:id/status - body: { to, note? }
+// Moves the review through the workflow in lib/appraisal-workflow.ts as the signed-in user: 403 when
+// their role may not make the transition, 409 when the review is not in a state it can move from
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request)
+    if (auth.response) return auth.response
+
+    const validation = validateStatusChange(await request.json().catch(() => undefined))
+    if (!validation.valid) {
+      return errorResponse('Invalid status change', 400, validation.errors)
+    }
+    const change = validation.value
+
+    const appraisal = await getAppraisal(params.id)
+    if (!appraisal) {
+      return errorResponse('Appraisal not found', 404)
+    }
+    if (!canViewAppraisal(auth.user, appraisal)) {
+      return forbidden()
+    }
+
+    // A submitted review must be complete enough to generate from, not just an autosaved draft
+    if (change.to === 'manager-submitted') {
+      const validation = validateAppraisalData(appraisal, 'generate')
+      if (!validation.valid) {
+        return errorResponse('Complete the appraisal before submitting it', 409, validation.errors)
+      }
+    }
+
+    const result = await transitionAppraisal(params.id, change.to, { name: auth.user.name, role: actingRole(auth.user, appraisal) }, change.note)
+
+    if (result.status === 'not-found') {
+      return errorResponse('Appraisal not found', 404)
+    }
+    if (result.status === 'rejected') {
+      return errorResponse(result.error, REJECTION_STATUS[result.reason])
+    }
+
+    await recordAudit(auth.user, {
+      action: 'status-change',
+      employeeId: appraisal.employeeId,
+      appraisalId: params.id,
+      detail: `${statusOf(appraisal)} -> ${change.to}${change.note ? `: ${change.note}` : ''}`
+    })
+
+    const response: AppraisalResponse = { success: true, appraisal: result.appraisal }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error changing appraisal status:', error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AppraisalListResponse, AppraisalResponse } from '@/types/appraisal'
+import { createAppraisal, listAppraisals, toSummary } from '@/lib/appraisal-store'
+import { validateAppraisalData } from '@/lib/validation'
+import { canViewAppraisal, managesEmployee, notManaged, requireUser } from '@/lib/access'
+import { hashText, recordAudit } from '@/lib/audit-log'
+
+// Only the reviews the signed-in user may see are listed
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser(request)
+    if (auth.response) return auth.response
+
+    const params = request.nextUrl.searchParams
+    const appraisals = await listAppraisals({
+      employeeId: params.get('employeeId') || undefined,
+      reviewPeriod: params.get('reviewPeriod') || undefined
+    })
+
+    const response: AppraisalListResponse = {
+      success: true,
+      appraisals: appraisals.filter(appraisal => canViewAppraisal(auth.user, appraisal)).map(toSummary)
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error listing appraisals:', error)
+
+    const response: AppraisalListResponse = {
+      success: false,
+      appraisals: [],
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const validation = validateAppraisalData(await request.json().catch(() => undefined), 'draft')
+
+    if (!validation.valid) {
+      const response: AppraisalResponse = { success: false, error: 'Invalid appraisal data', errors: validation.errors }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const data = validation.value
+    if (!managesEmployee(auth.user, data.employeeId)) {
+      return notManaged(data.employeeId)
+    }
+
+    const result = await createAppraisal(data)
+
+    if (result.status === 'conflict') {
+      const response: AppraisalResponse = {
+        success: false,
+        error: `An appraisal for ${data.employeeId} in ${data.reviewPeriod} already exists`,
+        existingId: result.existingId
+      }
+      return NextResponse.json(response, { status: 409 })
+    }
+
+    if (result.status === 'saved') {
+      await recordAudit(auth.user, {
+        action: 'create',
+        employeeId: data.employeeId,
+        appraisalId: result.appraisal.id,
+        ...(data.generatedFeedback ? { feedbackHash: hashText(data.generatedFeedback) } : {}),
+        detail: data.reviewPeriod
+      })
+    }
+
+    const response: AppraisalResponse = {
+      success: true,
+      appraisal: result.status === 'saved' ? result.appraisal : undefined
+    }
+
+    return NextResponse.json(response, { status: 201 })
+  } catch (error) {
+    console.error('Error creating appraisal:', error)
+
+    const response: AppraisalResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
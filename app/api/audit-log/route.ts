@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuditAction, AuditLogResponse } from '@/types/appraisal'
+import { auditCsv, listAuditEntries } from '@/lib/audit-log'
+import { requireUser } from '@/lib/access'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/audit-log?action=&user=&employeeId=&from=&to=[&format=csv] - HR admin only
+// Newest first; format=csv downloads the same entries as a spreadsheet
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser(request, ['hr-admin'])
+    if (auth.response) return auth.response
+
+    const params = request.nextUrl.searchParams
+    const entries = await listAuditEntries({
+      action: (params.get('action') || undefined) as AuditAction | undefined,
+      user: params.get('user') || undefined,
+      employeeId: params.get('employeeId') || undefined,
+      from: params.get('from') || undefined,
+      to: params.get('to') || undefined
+    })
+
+    if (params.get('format') === 'csv') {
+      return new NextResponse(auditCsv(entries), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit-log-${new Date().toISOString().split('T')[0]}.csv"`,
+          'Cache-Control': 'no-store'
+        }
+      })
+    }
+
+    const response: AuditLogResponse = { success: true, entries }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error reading the audit log:', error)
+
+    const response: AuditLogResponse = {
+      success: false,
+      entries: [],
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SessionResponse, ValidationIssue } from '@/types/appraisal'
+import { authenticateLocal, localLoginEnabled } from '@/lib/users'
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, cookieOptions, createSession } from '@/lib/session'
+
+function errorResponse(error: unknown, status = 500) {
+  const response: SessionResponse = {
+    success: false,
+    error: error instanceof Error ? error.message : String(error)
+  }
+  return NextResponse.json(response, { status })
+}
+
+// POST /api/auth/login - body: { username, password }; signs in against the local credential store
+export async function POST(request: NextRequest) {
+  try {
+    if (!localLoginEnabled()) {
+      return errorResponse('Password sign-in is turned off; use single sign-on', 403)
+    }
+
+    const parsed: unknown = await request.json().catch(() => ({}))
+    const body = (typeof parsed === 'object' && parsed !== null ? parsed : {}) as { username?: unknown; password?: unknown }
+    const username = typeof body.username === 'string' ? body.username.trim() : ''
+    const password = typeof body.password === 'string' ? body.password : ''
+    const errors: ValidationIssue[] = []
+    if (!username) errors.push({ path: 'username', message: 'is required' })
+    if (!password) errors.push({ path: 'password', message: 'is required' })
+    if (errors.length > 0) {
+      const response: SessionResponse = { success: false, error: 'Enter your username and password', errors }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const account = await authenticateLocal(username, password)
+    if (!account) {
+      return errorResponse('Unknown username or wrong password', 401)
+    }
+
+    const response: SessionResponse = { success: true }
+    const signedIn = NextResponse.json(response)
+    signedIn.cookies.set(SESSION_COOKIE, createSession({ userId: account.id, method: 'local' }), cookieOptions(SESSION_TTL_SECONDS))
+    return signedIn
+  } catch (error) {
+    console.error('Error signing in:', error)
+    return errorResponse(error)
+  }
+}
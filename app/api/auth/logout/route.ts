@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server'
+import { SessionResponse } from '@/types/appraisal'
+import { SESSION_COOKIE, cookieOptions } from '@/lib/session'
+
+// POST /api/auth/logout - ends the session. A single sign-on session at the provider stays open.
+export async function POST() {
+  const response: SessionResponse = { success: true }
+  const signedOut = NextResponse.json(response)
+  signedOut.cookies.set(SESSION_COOKIE, '', cookieOptions(0))
+  return signedOut
+}
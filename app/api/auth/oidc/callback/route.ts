@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { OIDC_COOKIE, OidcTransaction, completeSignIn, oidcConfigFromEnv } from '@/lib/oidc'
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, cookieOptions, createSession, unseal } from '@/lib/session'
+import { findOidcUser } from '@/lib/users'
+
+export const dynamic = 'force-dynamic'
+
+function failed(request: NextRequest, error: string): NextResponse {
+  const response = NextResponse.redirect(new URL('/login?error=' + encodeURIComponent(error), request.url))
+  response.cookies.set(OIDC_COOKIE, '', cookieOptions(0))
+  return response
+}
+
+// GET /api/auth/oidc/callback?code=...&state=... - where the identity provider sends the user back.
+// Signs in the directory account linked to the identity, or matched by its verified email.
+export async function GET(request: NextRequest) {
+  const config = oidcConfigFromEnv()
+  const params = request.nextUrl.searchParams
+  const transaction = unseal<OidcTransaction>(request.cookies.get(OIDC_COOKIE)?.value)
+
+  if (!config) {
+    return failed(request, 'Single sign-on is not configured')
+  }
+  if (params.get('error')) {
+    return failed(request, `The identity provider refused the sign-in: ${params.get('error_description') || params.get('error')}`)
+  }
+  if (!transaction || transaction.state !== params.get('state') || !params.get('code')) {
+    return failed(request, 'The sign-in expired or did not start here. Please try again.')
+  }
+
+  try {
+    const identity = await completeSignIn(config, transaction, params.get('code') as string)
+    const account = await findOidcUser(identity.subject, identity.email)
+    if (!account) {
+      return failed(request, `No account is set up for ${identity.email || identity.name || identity.subject}. Ask HR to add you.`)
+    }
+
+    const response = NextResponse.redirect(new URL(transaction.returnTo, request.url))
+    response.cookies.set(OIDC_COOKIE, '', cookieOptions(0))
+    response.cookies.set(SESSION_COOKIE, createSession({ userId: account.id, method: 'oidc' }), cookieOptions(SESSION_TTL_SECONDS))
+    return response
+  } catch (error) {
+    console.error('Error completing single sign-on:', error)
+    return failed(request, 'Single sign-on failed. Please try again.')
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { OIDC_COOKIE, OIDC_TRANSACTION_TTL_SECONDS, authorizationUrl, oidcConfigFromEnv } from '@/lib/oidc'
+import { cookieOptions, seal } from '@/lib/session'
+
+export const dynamic = 'force-dynamic'
+
+// Only paths within the app, so the login link cannot be used to send people elsewhere.
+// The value is resolved the way the callback's redirect will resolve it; "/\evil.com" and the
+// like land on another origin and are refused.
+function safeReturnTo(value: string | null, origin: string): string {
+  if (!value || !value.startsWith('/')) return '/'
+  const url = new URL(value, origin)
+  return url.origin === origin ? url.pathname + url.search : '/'
+}
+
+// GET /api/auth/oidc/login?returnTo=/path - redirects to the identity provider
+export async function GET(request: NextRequest) {
+  const config = oidcConfigFromEnv()
+  if (!config) {
+    return NextResponse.redirect(new URL('/login?error=' + encodeURIComponent('Single sign-on is not configured'), request.url))
+  }
+
+  try {
+    const returnTo = safeReturnTo(request.nextUrl.searchParams.get('returnTo'), request.nextUrl.origin)
+    const { url, transaction } = await authorizationUrl(config, request.nextUrl.origin, returnTo)
+    const response = NextResponse.redirect(url)
+    response.cookies.set(OIDC_COOKIE, seal(transaction, OIDC_TRANSACTION_TTL_SECONDS), cookieOptions(OIDC_TRANSACTION_TTL_SECONDS))
+    return response
+  } catch (error) {
+    console.error('Error starting single sign-on:', error)
+    return NextResponse.redirect(new URL('/login?error=' + encodeURIComponent('The identity provider could not be reached'), request.url))
+  }
+}
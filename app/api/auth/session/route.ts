@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SessionResponse } from '@/types/appraisal'
+import { currentUser } from '@/lib/access'
+import { localLoginEnabled } from '@/lib/users'
+import { oidcConfigFromEnv } from '@/lib/oidc'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/auth/session - the signed-in user, if any, and the sign-in options
+export async function GET(request: NextRequest) {
+  try {
+    const user = await currentUser(request)
+    const oidc = oidcConfigFromEnv()
+    const response: SessionResponse = {
+      success: true,
+      ...(user ? { user } : {}),
+      providers: {
+        local: localLoginEnabled(),
+        ...(oidc ? { oidc: { name: oidc.displayName } } : {})
+      }
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error loading session:', error)
+
+    const response: SessionResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AppraisalData, BulkJobResponse, SessionUser } from '@/types/appraisal'
+import { BulkJob, buildCombinedCsv, buildResultsZip, getBulkJob } from '@/lib/bulk-jobs'
+import { requireUser } from '@/lib/access'
+import { hashText, recordAudit } from '@/lib/audit-log'
+
+interface RouteContext {
+  params: { jobId: string }
+}
+
+function errorResponse(error: string, status: number) {
+  const response: BulkJobResponse = { success: false, error }
+  return NextResponse.json(response, { status })
+}
+
+// One export entry per generated review in the download, so each is found under its employee
+async function recordDownload(user: SessionUser, job: BulkJob, format: string) {
+  const generated = job.rows.filter(row => row.result.status === 'done' && row.data)
+  await Promise.all(generated.map(row => recordAudit(user, {
+    action: 'export',
+    employeeId: row.result.employeeId,
+    feedbackHash: hashText((row.data as AppraisalData).generatedFeedback),
+    detail: `bulk ${format}`
+  })))
+}
+
+// GET /api/bulk-generate/:jobId/download?format=zip|csv
+// zip: summary.csv plus a PDF and a text file per generated review; csv: one combined file
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const job = getBulkJob(params.jobId, auth.user.id)
+    if (!job) {
+      return errorResponse('Bulk job not found or expired', 404)
+    }
+    if (!job.finished) {
+      return errorResponse('Bulk job is still running', 409)
+    }
+
+    const format = request.nextUrl.searchParams.get('format') || 'zip'
+    const fileName = `appraisals-${new Date(job.createdAt).toISOString().split('T')[0]}`
+
+    if (format === 'csv') {
+      const body = buildCombinedCsv(job)
+      await recordDownload(auth.user, job, format)
+      return new NextResponse(body, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}.csv"`
+        }
+      })
+    }
+    if (format === 'zip') {
+      const body = await buildResultsZip(job)
+      await recordDownload(auth.user, job, format)
+      return new NextResponse(body, {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${fileName}.zip"`
+        }
+      })
+    }
+
+    return errorResponse(`Unsupported format "${format}" (expected zip or csv)`, 400)
+  } catch (error) {
+    console.error('Error downloading bulk results:', error)
+    return errorResponse(error instanceof Error ? error.message : 'Unknown error occurred', 500)
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BulkJobResponse } from '@/types/appraisal'
+import { getBulkJob, summarizeBulkJob } from '@/lib/bulk-jobs'
+import { requireUser } from '@/lib/access'
+
+interface RouteContext {
+  params: { jobId: string }
+}
+
+// GET /api/bulk-generate/:jobId - current status of every row, e.g. after the progress stream dropped
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const auth = await requireUser(request, ['manager', 'hr-admin'])
+  if (auth.response) return auth.response
+
+  const job = getBulkJob(params.jobId, auth.user.id)
+  if (!job) {
+    const response: BulkJobResponse = { success: false, error: 'Bulk job not found or expired' }
+    return NextResponse.json(response, { status: 404 })
+  }
+
+  const response: BulkJobResponse = { success: true, job: summarizeBulkJob(job) }
+  return NextResponse.json(response)
+}
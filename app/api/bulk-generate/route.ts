@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AppraisalTemplate, BulkJobResponse } from '@/types/appraisal'
+import { parseBulkFile } from '@/lib/bulk-import'
+import { bulkConcurrencyFromEnv, createBulkJob, runBulkJob, summarizeBulkJob } from '@/lib/bulk-jobs'
+import { encodeSSE } from '@/lib/sse'
+import { getTemplate } from '@/lib/template-store'
+import { managesEmployee, requireUser } from '@/lib/access'
+
+function errorResponse(error: string, status: number) {
+  const response: BulkJobResponse = { success: false, error }
+  return NextResponse.json(response, { status })
+}
+
+function formText(form: FormData, name: string): string {
+  const value = form.get(name)
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+// POST /api/bulk-generate - multipart form with the CSV/JSON `file`, the library `templateId`
+// (optionally `templateVersion`) and the `reviewerName`, `reviewDate` and `reviewPeriod` shared
+// by every row. Responds with server-sent events: `job` (all rows, invalid ones already marked),
+// `row` for every status change, and `done` with the final summary. The job keeps running if the
+// client disconnects; its results stay downloadable from /api/bulk-generate/:jobId/download.
+// Rows for employees outside the user's reporting line are marked invalid.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const form = await request.formData().catch(() => null)
+    const file = form?.get('file')
+    if (!form || !file || typeof file === 'string') {
+      return errorResponse('Upload a CSV or JSON file in the "file" field', 400)
+    }
+
+    const templateId = formText(form, 'templateId')
+    const templateVersion = parseInt(formText(form, 'templateVersion'))
+    const record = templateId ? await getTemplate(templateId, isNaN(templateVersion) ? undefined : templateVersion) : null
+    if (!record) {
+      return errorResponse(templateId ? `Template "${templateId}" not found` : 'templateId is required', 400)
+    }
+
+    const template: AppraisalTemplate = {
+      id: record.id,
+      name: record.name,
+      description: record.description,
+      categories: record.categories,
+      version: record.version,
+      promptTemplateId: record.promptTemplateId
+    }
+
+    const parsed = parseBulkFile(file.name, await file.text(), {
+      template,
+      reviewerName: formText(form, 'reviewerName'),
+      reviewDate: formText(form, 'reviewDate'),
+      reviewPeriod: formText(form, 'reviewPeriod')
+    })
+    if (!parsed.ok) {
+      return errorResponse(parsed.error, 400)
+    }
+
+    const rows = parsed.rows.map(row => row.data && !managesEmployee(auth.user, row.employeeId)
+      ? { ...row, data: undefined, errors: [{ path: 'employeeId', message: 'is not in your reporting line' }] }
+      : row)
+    const job = createBulkJob(rows, auth.user)
+    const encoder = new TextEncoder()
+    let connected = true
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, payload: unknown) => {
+          if (connected) {
+            controller.enqueue(encoder.encode(encodeSSE(event, payload)))
+          }
+        }
+
+        send('job', summarizeBulkJob(job))
+        try {
+          await runBulkJob(job, bulkConcurrencyFromEnv(), row => send('row', row))
+          send('done', summarizeBulkJob(job))
+        } catch (error) {
+          console.error('Bulk generation failed:', error)
+          send('error', { error: error instanceof Error ? error.message : 'Unknown error occurred' })
+        }
+
+        if (connected) {
+          controller.close()
+        }
+      },
+      cancel() {
+        connected = false
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    })
+  } catch (error) {
+    console.error('Error starting bulk generation:', error)
+    return errorResponse(error instanceof Error ? error.message : 'Unknown error occurred', 500)
+  }
+}
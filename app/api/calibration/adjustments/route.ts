@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CalibrationResponse } from '@/types/appraisal'
+import { adjustRating, getAppraisal, listAppraisals } from '@/lib/appraisal-store'
+import { buildCalibrationReport } from '@/lib/calibration'
+import { validateCalibrationAdjustment } from '@/lib/validation'
+import { forbidden, managesEmployee, requireUser } from '@/lib/access'
+import { recordAudit } from '@/lib/audit-log'
+
+function errorResponse(error: unknown, status = 500) {
+  const response: CalibrationResponse = {
+    success: false,
+    error: error instanceof Error ? error.message : String(error)
+  }
+  return NextResponse.json(response, { status })
+}
+
+// POST /api/calibration/adjustments - body: { appraisalId, categoryId, score, reason }
+// HR changes one category score of a submitted review. Answers with the refreshed report for the
+// review's period so the dashboard reflects the new weighted score at once.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request, ['hr-admin'])
+    if (auth.response) return auth.response
+
+    const validation = validateCalibrationAdjustment(await request.json().catch(() => undefined))
+    if (!validation.valid) {
+      const response: CalibrationResponse = { success: false, error: 'Invalid adjustment', errors: validation.errors }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const adjustment = validation.value
+    const appraisal = await getAppraisal(adjustment.appraisalId)
+    if (appraisal && !managesEmployee(auth.user, appraisal.employeeId)) {
+      return forbidden('You cannot calibrate your own review')
+    }
+
+    const result = await adjustRating(adjustment.appraisalId, adjustment.categoryId, adjustment.score, auth.user.name, adjustment.reason)
+
+    if (result.status === 'not-found') {
+      return errorResponse('Appraisal not found', 404)
+    }
+    if (result.status === 'rejected') {
+      return errorResponse(result.error, 409)
+    }
+
+    const recorded = (result.appraisal.calibrationAdjustments || []).slice(-1)[0]
+    await recordAudit(auth.user, {
+      action: 'calibration',
+      employeeId: result.appraisal.employeeId,
+      appraisalId: adjustment.appraisalId,
+      detail: `${recorded.categoryId} ${recorded.from} -> ${recorded.to}: ${recorded.reason}${recorded.feedbackStale ? ' (generated feedback predates the change)' : ''}`
+    })
+
+    const reviewPeriod = result.appraisal.reviewPeriod
+    const response: CalibrationResponse = {
+      success: true,
+      report: buildCalibrationReport(reviewPeriod, (await listAppraisals({ reviewPeriod })).filter(a => managesEmployee(auth.user, a.employeeId)))
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error adjusting score:', error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CalibrationResponse } from '@/types/appraisal'
+import { listAppraisals } from '@/lib/appraisal-store'
+import { buildCalibrationReport } from '@/lib/calibration'
+import { managesEmployee, requireUser } from '@/lib/access'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/calibration?reviewPeriod=2025 - score spread, reviewer averages, outliers and the
+// forced-distribution comparison for every review in the period past draft. HR admin only; their
+// own review is left out.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser(request, ['hr-admin'])
+    if (auth.response) return auth.response
+
+    const reviewPeriod = request.nextUrl.searchParams.get('reviewPeriod') || ''
+    if (!reviewPeriod) {
+      const response: CalibrationResponse = {
+        success: false,
+        error: 'Choose a review period',
+        errors: [{ path: 'reviewPeriod', message: 'is required' }]
+      }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const response: CalibrationResponse = {
+      success: true,
+      report: buildCalibrationReport(reviewPeriod, (await listAppraisals({ reviewPeriod })).filter(a => managesEmployee(auth.user, a.employeeId)))
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error building calibration report:', error)
+
+    const response: CalibrationResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EmployeeHistoryResponse } from '@/types/appraisal'
+import { listAppraisals } from '@/lib/appraisal-store'
+import { buildEmployeeHistory } from '@/lib/employee-history'
+import { canViewAppraisal, requireUser } from '@/lib/access'
+
+interface RouteContext {
+  params: { employeeId: string }
+}
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/employees/:employeeId/history - every saved review of the employee the user may see,
+// oldest first; for employees looking at their own history that is the reviews shared with them
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request)
+    if (auth.response) return auth.response
+
+    const appraisals = (await listAppraisals({ employeeId: params.employeeId })).filter(appraisal => canViewAppraisal(auth.user, appraisal))
+    const history = buildEmployeeHistory(params.employeeId, appraisals)
+
+    if (!history) {
+      const response: EmployeeHistoryResponse = { success: false, error: `No appraisals found for ${params.employeeId}` }
+      return NextResponse.json(response, { status: 404 })
+    }
+
+    const response: EmployeeHistoryResponse = { success: true, history }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error loading employee history:', error)
+
+    const response: EmployeeHistoryResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ExportErrorResponse } from '@/types/appraisal'
+import { ExportFormat, exportFileName, renderDocx, renderPdf } from '@/lib/appraisal-export'
+import { validateAppraisalData } from '@/lib/validation'
+import { canExport, forbidden, requireUser } from '@/lib/access'
+import { hashText, recordAudit } from '@/lib/audit-log'
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+}
+
+// POST /api/export?format=pdf|docx with an AppraisalData body; the document is rendered locally.
+// Managers export their reporting line's reviews, employees their own.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request)
+    if (auth.response) return auth.response
+
+    const format = (request.nextUrl.searchParams.get('format') || 'pdf') as ExportFormat
+    if (!CONTENT_TYPES[format]) {
+      const response: ExportErrorResponse = { success: false, error: `Unsupported format "${format}" (expected pdf or docx)` }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const validation = validateAppraisalData(await request.json().catch(() => undefined), 'generate')
+
+    if (!validation.valid) {
+      const response: ExportErrorResponse = { success: false, error: 'Invalid appraisal data', errors: validation.errors }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const data = validation.value
+    if (!canExport(auth.user, data)) {
+      return forbidden()
+    }
+    const body = format === 'pdf' ? await renderPdf(data) : await renderDocx(data)
+    await recordAudit(auth.user, {
+      action: 'export',
+      employeeId: data.employeeId,
+      feedbackHash: hashText(data.generatedFeedback),
+      detail: format
+    })
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${exportFileName(data, format)}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting appraisal:', error)
+
+    const response: ExportErrorResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { LintResponse } from '@/types/appraisal'
+import { checkFeedbackLanguage } from '@/lib/feedback-generator'
+import { validateAppraisalData } from '@/lib/validation'
+import { managesEmployee, notManaged, requireUser } from '@/lib/access'
+
+// POST /api/generate-feedback/lint - { appraisal, assisted? }
+// Inclusive-language check of appraisal.generatedFeedback. The rule-based issues are the same
+// ones the page computes locally; assisted: true adds the model's second pass.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const body = await request.json().catch(() => undefined)
+    const validation = validateAppraisalData(body?.appraisal, 'generate')
+
+    if (!validation.valid) {
+      const response: LintResponse = {
+        success: false,
+        issues: [],
+        error: 'Invalid appraisal data',
+        errors: validation.errors
+      }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    if (!managesEmployee(auth.user, validation.value.employeeId)) {
+      return notManaged(validation.value.employeeId)
+    }
+
+    if (!validation.value.generatedFeedback.trim()) {
+      const response: LintResponse = { success: false, issues: [], error: 'Generate the feedback before checking it' }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const response: LintResponse = {
+      success: true,
+      ...await checkFeedbackLanguage(validation.value, body.assisted === true)
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error checking feedback language:', error)
+
+    const response: LintResponse = {
+      success: false,
+      issues: [],
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RequestPreviewResponse } from '@/types/appraisal'
+import { previewFeedbackRequest } from '@/lib/feedback-generator'
+import { validateAppraisalData } from '@/lib/validation'
+import { managesEmployee, notManaged, requireUser } from '@/lib/access'
+
+// POST /api/generate-feedback/preview - same body as /api/generate-feedback
+// Shows the prompt each configured provider would be sent, with personal data already replaced
+// for the providers redaction applies to. Nothing is sent to any provider.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const body = await request.json().catch(() => undefined)
+    const validation = validateAppraisalData(body, 'generate')
+
+    if (!validation.valid) {
+      const response: RequestPreviewResponse = {
+        success: false,
+        previews: [],
+        error: 'Invalid appraisal data',
+        errors: validation.errors
+      }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    if (!managesEmployee(auth.user, validation.value.employeeId)) {
+      return notManaged(validation.value.employeeId)
+    }
+
+    const response: RequestPreviewResponse = {
+      success: true,
+      previews: await previewFeedbackRequest(validation.value)
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error previewing the generation request:', error)
+
+    const response: RequestPreviewResponse = {
+      success: false,
+      previews: [],
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RefineResponse } from '@/types/appraisal'
+import { refineFeedback } from '@/lib/feedback-generator'
+import { validateAppraisalData } from '@/lib/validation'
+import { managesEmployee, notManaged, requireUser } from '@/lib/access'
+import { hashText, recordAudit } from '@/lib/audit-log'
+
+// POST /api/generate-feedback/refine - { appraisal, message }
+// One turn of the refinement chat. The earlier turns come from appraisal.refinementMessages
+// and the draft being refined is appraisal.generatedFeedback.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const body = await request.json().catch(() => undefined)
+    const message = typeof body?.message === 'string' ? body.message.trim() : ''
+    if (!message) {
+      const response: RefineResponse = { success: false, reply: '', error: 'message is required' }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const validation = validateAppraisalData(body.appraisal, 'generate')
+
+    if (!validation.valid) {
+      const response: RefineResponse = {
+        success: false,
+        reply: '',
+        error: 'Invalid appraisal data',
+        errors: validation.errors
+      }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    if (!managesEmployee(auth.user, validation.value.employeeId)) {
+      return notManaged(validation.value.employeeId)
+    }
+
+    if (!validation.value.generatedFeedback.trim()) {
+      const response: RefineResponse = { success: false, reply: '', error: 'Generate the feedback before refining it' }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const started = Date.now()
+    const result = await refineFeedback(validation.value, message)
+    await recordAudit(auth.user, {
+      action: 'refine',
+      employeeId: validation.value.employeeId,
+      ...(result.provider ? { provider: result.provider, model: result.model } : {}),
+      ...(result.prompt ? { prompt: result.prompt } : {}),
+      latencyMs: Date.now() - started,
+      outcome: result.source === 'llm' ? 'llm' : 'mock',
+      ...(result.fallbackReason ? { reason: result.fallbackReason } : {}),
+      ...(result.feedback ? { feedbackHash: hashText(result.feedback) } : { detail: 'Draft unchanged' })
+    })
+
+    const response: RefineResponse = {
+      success: true,
+      ...result
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error refining feedback:', error)
+
+    const response: RefineResponse = {
+      success: false,
+      reply: '',
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
@@ -1,32 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { AppraisalData, LLMResponse } from '@/types/appraisal'
-import { LLMClient, createLLMClientFromEnv } from '@/lib/llm-client'
-
+import { AppraisalData, LLMResponse, PromptTemplateRecord, SessionUser } from '@/types/appraisal'
+import { GenerationResult, createFeedbackPrompt, feedbackOutput, generateFeedback, generationAudit, loadPriorReview, mockResult, parseFeedbackSections, promptSectionKeys, readPartialSections } from '@/lib/feedback-generator'
+import { composeFeedback } from '@/lib/feedback-sections'
+import { createLLMChainFromEnv } from '@/lib/llm-client'
+import { promptVersionOf, resolvePromptTemplate } from '@/lib/prompt-template-store'
+import { redactionFor } from '@/lib/redaction'
+import { encodeSSE } from '@/lib/sse'
+import { validateAppraisalData } from '@/lib/validation'
+import { managesEmployee, notManaged, requireUser } from '@/lib/access'
+import { AuditInput, hashText, recordAudit } from '@/lib/audit-log'
+
+// Managers generate for their reporting line, HR admins for anyone
 export async function POST(request: NextRequest) {
   try {
-    const data: AppraisalData = await request.json()
-    
-    // Try to use LLM client if available, otherwise fall back to mock feedback
-    let feedback: string
-    
-    try {
-      const llmClient = createLLMClientFromEnv()
-      
-      if (llmClient && llmClient.isAvailable()) {
-        const prompt = createFeedbackPrompt(data)
-        feedback = await llmClient.callLLM(prompt)
-      } else {
-        // Fall back to mock feedback if no LLM client is available
-        feedback = generateMockFeedback(data)
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const body = await request.json().catch(() => undefined)
+    const validation = validateAppraisalData(body, 'generate')
+
+    if (!validation.valid) {
+      const response: LLMResponse = {
+        success: false,
+        feedback: '',
+        error: 'Invalid appraisal data',
+        errors: validation.errors
       }
-    } catch (error) {
-      console.warn('LLM client failed, falling back to mock feedback:', error)
-      feedback = generateMockFeedback(data)
+      return NextResponse.json(response, { status: 400 })
     }
-    
+
+    // overallScore has been recomputed from the ratings and template weights
+    const data: AppraisalData = validation.value
+    if (!managesEmployee(auth.user, data.employeeId)) {
+      return notManaged(data.employeeId)
+    }
+
+    // ?stream=true returns server-sent events (sections / done / error) instead of a single JSON body
+    if (request.nextUrl.searchParams.get('stream') === 'true') {
+      return streamFeedback(auth.user, data, await resolvePromptTemplate(data.template.promptTemplateId), request.signal)
+    }
+
+    const started = Date.now()
+    const result = await generateFeedback(data)
+    await recordAudit(auth.user, generationAudit(data, started, result))
+
     const response: LLMResponse = {
       success: true,
-      feedback: feedback
+      ...result
     }
     
     return NextResponse.json(response)
@@ -43,140 +63,104 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function createFeedbackPrompt(data: AppraisalData): string {
-  const categoryDetails = data.ratings.map(rating => {
-    const category = data.template.categories.find(c => c.id === rating.categoryId)
-    return `${category?.name} (${category?.description}): ${rating.score}/5 - ${rating.comments}`
-  }).join('\n')
-
-  let selfAssessmentDetails = ''
-  if (data.selfAssessment && data.selfAssessment.length > 0) {
-    selfAssessmentDetails = '\n\nEmployee Self-Assessment:\n' + data.selfAssessment
-  }
-
-  let additionalComments = ''
-  if (data.additionalManagerComments && data.additionalManagerComments.trim()) {
-    additionalComments = '\n\nAdditional Manager Comments:\n' + data.additionalManagerComments
-  }
-
-  const categoryDescriptions = data.template.categories.map(category => 
-    `• ${category.name}: ${category.description}`
-  ).join('\n')
-
-  // Determine appropriate pronouns based on gender
-  let pronouns = { subject: 'they', object: 'them', possessive: 'their', reflexive: 'themselves' }
-  if (data.employeeGender === 'male') {
-    pronouns = { subject: 'he', object: 'him', possessive: 'his', reflexive: 'himself' }
-  } else if (data.employeeGender === 'female') {
-    pronouns = { subject: 'she', object: 'her', possessive: 'her', reflexive: 'herself' }
-  }
-
-  return `You are a compassionate and experienced manager writing a performance review for ${data.employeeName}. Write a warm, professional, and humanized feedback that feels like it comes from a caring mentor who truly knows and values this person.
-
-Employee: ${data.employeeName} (ID: ${data.employeeId})
-Gender: ${data.employeeGender}
-Use these pronouns: ${pronouns.subject}/${pronouns.object}/${pronouns.possessive}
-
-Overall Performance Score: ${data.overallScore.toFixed(2)}/5
-
-Evaluation Categories:
-${categoryDescriptions}
-
-Manager's Assessment:
-${categoryDetails}${selfAssessmentDetails}${additionalComments}
-
-CRITICAL INSTRUCTION: Write this performance review in THIRD PERSON ONLY. Never use "you" or "your". Always refer to the employee as "${pronouns.subject}", "${pronouns.object}", or "${pronouns.possessive}". This is a formal performance review document, not a direct conversation.
-
-Please write a natural, professional performance review organized under these four sections:
+function streamFeedback(user: SessionUser, data: AppraisalData, prompt: PromptTemplateRecord, requestSignal: AbortSignal): Response {
+  const encoder = new TextEncoder()
+  // Aborted when the client cancels or disconnects, which aborts the upstream LLM request
+  const upstream = new AbortController()
+  requestSignal.addEventListener('abort', () => upstream.abort())
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, payload: unknown) => {
+        if (!upstream.signal.aborted) {
+          controller.enqueue(encoder.encode(encodeSSE(event, payload)))
+        }
+      }
 
-1. **Success & Achievements** - Highlight ${pronouns.possessive} key accomplishments, strengths, and what ${pronouns.subject} has done exceptionally well
-2. **Areas for Focus** - Identify specific areas where ${pronouns.subject} can grow and improve, with actionable suggestions
-3. **Risk Overlay** - Address any potential challenges, concerns, or areas that need immediate attention
-4. **Overall Summary** - Provide a balanced conclusion with encouragement and next steps
+      // The entry is written before the result goes out, so no feedback leaves unrecorded
+      const started = Date.now()
+      let promptHash: string | undefined
+      const finish = async (result: GenerationResult) => {
+        await recordAudit(user, generationAudit(data, started, result))
+        send('done', result)
+      }
 
-Write as if you're writing about someone you genuinely want to see succeed. Use natural transitions, avoid corporate jargon, and make it feel like a real human wrote this with care and attention.
+      const sendMock = (fallbackReason: string) => finish({ ...mockResult(data, fallbackReason, prompt), ...(promptHash ? { promptHash } : {}) })
+
+      // The model streams JSON; clients get the sections parsed so far whenever they grow
+      let streamed = ''
+      let lastSent = ''
+      try {
+        const chain = createLLMChainFromEnv()
+
+        if (chain.isAvailable()) {
+          const keys = promptSectionKeys(prompt)
+          const prior = await loadPriorReview(data)
+          const input = createFeedbackPrompt(data, prompt, prior)
+          promptHash = hashText(input)
+          const result = await chain.streamStructured(input, feedbackOutput(prompt), text => parseFeedbackSections(text, keys), {
+            redaction: redactionFor(data, prior),
+            signal: upstream.signal,
+            onToken: token => {
+              streamed += token
+              const sections = readPartialSections(streamed)
+              const snapshot = JSON.stringify(sections)
+              if (snapshot !== lastSent && Object.keys(sections).length > 0) {
+                lastSent = snapshot
+                send('sections', { sections })
+              }
+            }
+          })
+          const done: GenerationResult = {
+            feedback: composeFeedback(result.value, '', data.language),
+            sections: result.value,
+            source: 'llm',
+            provider: result.provider,
+            model: result.model,
+            prompt: promptVersionOf(prompt),
+            ...(prior ? { priorReview: prior.reference } : {}),
+            ...(result.redacted ? { redacted: true } : {}),
+            promptHash
+          }
+          await finish(done)
+        } else {
+          await sendMock('No LLM provider is configured')
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Unknown error occurred'
+        const failed: AuditInput = { action: 'generate', employeeId: data.employeeId, ...(promptHash ? { promptHash } : {}), latencyMs: Date.now() - started, outcome: 'failed', reason }
+        try {
+          if (upstream.signal.aborted) {
+            // Client went away - nothing left to deliver
+            await recordAudit(user, { ...failed, reason: 'Cancelled by the client' })
+          } else if (!streamed) {
+            console.warn('LLM providers failed, falling back to mock feedback:', error)
+            await sendMock(error instanceof Error ? error.message : 'LLM call failed')
+          } else {
+            console.error('LLM stream failed mid-response:', error)
+            await recordAudit(user, failed)
+            send('error', { error: reason })
+          }
+        } catch (auditError) {
+          console.error('Error writing the audit log:', auditError)
+          send('error', { error: auditError instanceof Error ? auditError.message : 'Unknown error occurred' })
+        }
+      }
 
-Focus on the person, not just the metrics. Show that you see ${pronouns.possessive} potential and believe in ${pronouns.possessive} growth. Start directly with your observations and feedback - no generic greetings or formalities.
+      if (!upstream.signal.aborted) {
+        controller.close()
+      }
+    },
+    cancel() {
+      upstream.abort()
+    }
+  })
 
-REMEMBER: Use third-person language throughout. Refer to the employee as "${pronouns.subject}" not "you". This is a formal performance review document.`
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  })
 }
-
-function generateMockFeedback(data: AppraisalData): string {
-  const categoryDetails = data.ratings.map(rating => {
-    const category = data.template.categories.find(c => c.id === rating.categoryId)
-    return `${category?.name} (${category?.description}): ${rating.score}/5 - ${rating.comments}`
-  }).join('\n')
-
-  let selfAssessmentDetails = ''
-  if (data.selfAssessment && data.selfAssessment.length > 0) {
-    selfAssessmentDetails = '\n\nEmployee Self-Assessment:\n' + data.selfAssessment
-  }
-
-  let additionalComments = ''
-  if (data.additionalManagerComments && data.additionalManagerComments.trim()) {
-    additionalComments = '\n\nAdditional Manager Comments:\n' + data.additionalManagerComments
-  }
-
-  const overallScore = data.overallScore
-  const employeeName = data.employeeName
-  const reviewerName = data.reviewerName
-
-  // Determine appropriate pronouns based on gender
-  let pronouns = { subject: 'they', object: 'them', possessive: 'their', reflexive: 'themselves' }
-  if (data.employeeGender === 'male') {
-    pronouns = { subject: 'he', object: 'him', possessive: 'his', reflexive: 'himself' }
-  } else if (data.employeeGender === 'female') {
-    pronouns = { subject: 'she', object: 'her', possessive: 'her', reflexive: 'herself' }
-  }
-
-  let performanceLevel = ''
-  if (overallScore >= 4.5) performanceLevel = 'Outstanding'
-  else if (overallScore >= 4.0) performanceLevel = 'Excellent'
-  else if (overallScore >= 3.5) performanceLevel = 'Good'
-  else if (overallScore >= 3.0) performanceLevel = 'Satisfactory'
-  else if (overallScore >= 2.0) performanceLevel = 'Needs Improvement'
-  else performanceLevel = 'Poor'
-
-  // Generate strengths and areas for focus based on ratings
-  const strengths = data.ratings.filter(r => r.score >= 4.0).map(rating => {
-    const category = data.template.categories.find(c => c.id === rating.categoryId)
-    return `• ${pronouns.subject.charAt(0).toUpperCase() + pronouns.subject.slice(1)} ${category?.name.toLowerCase()} is truly exceptional - ${pronouns.subject} has a natural talent here that sets ${pronouns.object} apart`
-  }).join('\n')
-
-  const focusAreas = data.ratings.filter(r => r.score < 4.0).map(rating => {
-    const category = data.template.categories.find(c => c.id === rating.categoryId)
-    return `• ${category?.name} - With some focused effort, ${pronouns.subject} can really excel in this area`
-  }).join('\n')
-
-  const risks = data.ratings.filter(r => r.score < 3.0).map(rating => {
-    const category = data.template.categories.find(c => c.id === rating.categoryId)
-    return `• ${category?.name} needs immediate attention to prevent it from becoming a significant barrier`
-  }).join('\n')
-
-  // Consider additional manager comments in the feedback
-  let additionalContext = ''
-  if (data.additionalManagerComments && data.additionalManagerComments.trim()) {
-    additionalContext = `\n\nAdditional Context: ${data.additionalManagerComments}`
-  }
-
-  return `${employeeName} has demonstrated ${performanceLevel.toLowerCase()} performance this period. Here's the assessment organized to help understand where ${pronouns.subject} shines and where efforts can be focused together.
-
-**Success & Achievements**
-${strengths || `${pronouns.subject.charAt(0).toUpperCase() + pronouns.subject.slice(1)} has shown strong potential and dedication to ${pronouns.possessive} role with ${performanceLevel.toLowerCase()} overall performance`}
-
-**Areas for Focus**
-${focusAreas || `${pronouns.subject.charAt(0).toUpperCase() + pronouns.subject.slice(1)} can continue building on ${pronouns.possessive} current foundation - there's always room for growth`}
-
-**Risk Overlay**
-${risks || `No immediate risks identified - ${pronouns.possessive} performance is on a positive trajectory`}
-
-**Overall Summary**
-${pronouns.subject.charAt(0).toUpperCase() + pronouns.subject.slice(1)} ${performanceLevel.toLowerCase()} performance demonstrates that ${pronouns.subject} has what it takes to succeed here. The organization is excited about ${pronouns.possessive} potential and committed to supporting ${pronouns.possessive} continued growth. 
-
-Growth is a journey, and the organization is here to help ${pronouns.object} navigate any challenges ${pronouns.subject} faces. There is confidence in ${pronouns.possessive} ability to overcome obstacles and achieve ${pronouns.possessive} goals.
-
-${pronouns.subject.charAt(0).toUpperCase() + pronouns.subject.slice(1)} should keep up the great work and continue to focus on areas for improvement. The organization looks forward to seeing what ${pronouns.subject} accomplishes in the coming period.
-
-Best regards,
-${reviewerName}`
-} 
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SectionResponse } from '@/types/appraisal'
+import { FEEDBACK_SECTIONS, FeedbackSectionKey } from '@/lib/feedback-sections'
+import { regenerateSection } from '@/lib/feedback-generator'
+import { validateAppraisalData } from '@/lib/validation'
+import { managesEmployee, notManaged, requireUser } from '@/lib/access'
+import { hashText, recordAudit } from '@/lib/audit-log'
+
+// POST /api/generate-feedback/section - { appraisal, section, instruction? }
+// Rewrites one section of appraisal.generatedFeedback; the other sections are sent as context
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const body = await request.json().catch(() => undefined)
+    const section = body?.section as FeedbackSectionKey
+    if (!FEEDBACK_SECTIONS.some(s => s.key === section)) {
+      const response: SectionResponse = {
+        success: false,
+        text: '',
+        error: `section must be one of ${FEEDBACK_SECTIONS.map(s => s.key).join(', ')}`
+      }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const instruction = typeof body.instruction === 'string' ? body.instruction : undefined
+    const validation = validateAppraisalData(body.appraisal, 'generate')
+
+    if (!validation.valid) {
+      const response: SectionResponse = {
+        success: false,
+        text: '',
+        error: 'Invalid appraisal data',
+        errors: validation.errors
+      }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    if (!managesEmployee(auth.user, validation.value.employeeId)) {
+      return notManaged(validation.value.employeeId)
+    }
+
+    const started = Date.now()
+    const result = await regenerateSection(validation.value, section, instruction)
+    await recordAudit(auth.user, {
+      action: 'regenerate-section',
+      employeeId: validation.value.employeeId,
+      ...(result.provider ? { provider: result.provider, model: result.model } : {}),
+      ...(result.prompt ? { prompt: result.prompt } : {}),
+      latencyMs: Date.now() - started,
+      outcome: result.source === 'llm' ? 'llm' : 'mock',
+      ...(result.fallbackReason ? { reason: result.fallbackReason } : {}),
+      feedbackHash: hashText(result.text),
+      detail: section
+    })
+
+    const response: SectionResponse = {
+      success: true,
+      section,
+      ...result
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error regenerating section:', error)
+
+    const response: SectionResponse = {
+      success: false,
+      text: '',
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
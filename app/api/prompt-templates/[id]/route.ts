@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PromptTemplateResponse } from '@/types/appraisal'
+import { getPromptTemplate, savePromptTemplateVersion } from '@/lib/prompt-template-store'
+import { validatePromptTemplateInput } from '@/lib/validation'
+import { requireUser } from '@/lib/access'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+function errorResponse(error: unknown, status = 500) {
+  const response: PromptTemplateResponse = {
+    success: false,
+    error: error instanceof Error ? error.message : String(error)
+  }
+  return NextResponse.json(response, { status })
+}
+
+// GET /api/prompt-templates/:id?version=N - a specific version, or the latest when omitted
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request)
+    if (auth.response) return auth.response
+
+    const versionParam = request.nextUrl.searchParams.get('version')
+    const promptTemplate = await getPromptTemplate(params.id, versionParam ? parseInt(versionParam) : undefined)
+    if (!promptTemplate) {
+      return errorResponse('Prompt template not found', 404)
+    }
+
+    const response: PromptTemplateResponse = { success: true, promptTemplate }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error loading prompt template:', error)
+    return errorResponse(error)
+  }
+}
+
+// PUT /api/prompt-templates/:id - save the body as the next version of the prompt template
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const validation = validatePromptTemplateInput(await request.json().catch(() => undefined))
+
+    if (!validation.valid) {
+      const response: PromptTemplateResponse = { success: false, error: 'Invalid prompt template', errors: validation.errors }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const promptTemplate = await savePromptTemplateVersion(params.id, validation.value)
+    if (!promptTemplate) {
+      return errorResponse('Prompt template not found', 404)
+    }
+
+    const response: PromptTemplateResponse = { success: true, promptTemplate }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error saving prompt template version:', error)
+    return errorResponse(error)
+  }
+}
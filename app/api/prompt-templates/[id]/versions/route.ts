@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PromptTemplateListResponse } from '@/types/appraisal'
+import { listPromptTemplateVersions } from '@/lib/prompt-template-store'
+import { requireUser } from '@/lib/access'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// GET /api/prompt-templates/:id/versions - every version of a prompt template, newest first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request)
+    if (auth.response) return auth.response
+
+    const promptTemplates = await listPromptTemplateVersions(params.id)
+    if (promptTemplates.length === 0) {
+      const response: PromptTemplateListResponse = { success: false, promptTemplates: [], error: 'Prompt template not found' }
+      return NextResponse.json(response, { status: 404 })
+    }
+
+    const response: PromptTemplateListResponse = { success: true, promptTemplates }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error listing prompt template versions:', error)
+
+    const response: PromptTemplateListResponse = {
+      success: false,
+      promptTemplates: [],
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PromptTemplateListResponse, PromptTemplateResponse } from '@/types/appraisal'
+import { createPromptTemplate, listPromptTemplates } from '@/lib/prompt-template-store'
+import { validatePromptTemplateInput } from '@/lib/validation'
+import { requireUser } from '@/lib/access'
+
+// The library changes at runtime, so never serve a build-time snapshot
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser(request)
+    if (auth.response) return auth.response
+
+    const response: PromptTemplateListResponse = {
+      success: true,
+      promptTemplates: await listPromptTemplates()
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error listing prompt templates:', error)
+
+    const response: PromptTemplateListResponse = {
+      success: false,
+      promptTemplates: [],
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const validation = validatePromptTemplateInput(await request.json().catch(() => undefined))
+
+    if (!validation.valid) {
+      const response: PromptTemplateResponse = { success: false, error: 'Invalid prompt template', errors: validation.errors }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const response: PromptTemplateResponse = {
+      success: true,
+      promptTemplate: await createPromptTemplate(validation.value)
+    }
+
+    return NextResponse.json(response, { status: 201 })
+  } catch (error) {
+    console.error('Error creating prompt template:', error)
+
+    const response: PromptTemplateResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SelfAssessmentFormResponse } from '@/types/appraisal'
+import { getForm, submitSelfAssessment } from '@/lib/self-assessment-links'
+import { validateSelfAssessmentSubmission } from '@/lib/validation'
+
+interface RouteContext {
+  params: { token: string }
+}
+
+export const dynamic = 'force-dynamic'
+
+const NOT_FOUND = 'This self-assessment link is not valid'
+
+function errorResponse(error: unknown, status = 500) {
+  const response: SelfAssessmentFormResponse = {
+    success: false,
+    error: error instanceof Error ? error.message : String(error)
+  }
+  return NextResponse.json(response, { status })
+}
+
+// GET /api/self-assessment/:token - the employee's form. Expired and submitted links still
+// answer so the page can say why it is closed.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const form = await getForm(params.token)
+    if (!form) {
+      return errorResponse(NOT_FOUND, 404)
+    }
+
+    const response: SelfAssessmentFormResponse = { success: true, form }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error loading self-assessment form:', error)
+    return errorResponse(error)
+  }
+}
+
+// POST /api/self-assessment/:token - body: { selfAssessment: string, ratings?: EmployeeSelfRating[] }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const form = await getForm(params.token)
+    if (!form) {
+      return errorResponse(NOT_FOUND, 404)
+    }
+
+    const validation = validateSelfAssessmentSubmission(await request.json().catch(() => undefined), form.categories)
+    if (!validation.valid) {
+      const response: SelfAssessmentFormResponse = { success: false, error: 'Invalid self-assessment', errors: validation.errors }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const result = await submitSelfAssessment(params.token, validation.value)
+
+    if (result.status === 'not-found') {
+      return errorResponse(NOT_FOUND, 404)
+    }
+    if (result.status === 'expired') {
+      return errorResponse('This self-assessment link has expired; ask your manager for a new one', 410)
+    }
+    if (result.status === 'already-submitted') {
+      return errorResponse('This self-assessment has already been submitted', 409)
+    }
+    if (result.status === 'locked') {
+      return errorResponse('Your manager has already submitted the review, so the self-assessment is closed', 409)
+    }
+
+    const response: SelfAssessmentFormResponse = { success: true, form: result.form }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error submitting self-assessment:', error)
+    return errorResponse(error)
+  }
+}
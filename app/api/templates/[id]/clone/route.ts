@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TemplateResponse } from '@/types/appraisal'
+import { cloneTemplate } from '@/lib/template-store'
+import { validateTemplateClone } from '@/lib/validation'
+import { requireUser } from '@/lib/access'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// POST /api/templates/:id/clone - body: { name?: string, version?: number }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    // An empty or unparseable body clones the latest version under a default name
+    const validation = validateTemplateClone(await request.json().catch(() => undefined))
+    if (!validation.valid) {
+      const response: TemplateResponse = { success: false, error: 'Invalid clone request', errors: validation.errors }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const template = await cloneTemplate(params.id, validation.value)
+
+    if (!template) {
+      const response: TemplateResponse = { success: false, error: 'Template not found' }
+      return NextResponse.json(response, { status: 404 })
+    }
+
+    const response: TemplateResponse = { success: true, template }
+    return NextResponse.json(response, { status: 201 })
+  } catch (error) {
+    console.error('Error cloning template:', error)
+
+    const response: TemplateResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TemplateResponse } from '@/types/appraisal'
+import { getTemplate, saveTemplateVersion } from '@/lib/template-store'
+import { validateTemplateInput } from '@/lib/validation'
+import { requireUser } from '@/lib/access'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+function errorResponse(error: unknown, status = 500) {
+  const response: TemplateResponse = {
+    success: false,
+    error: error instanceof Error ? error.message : String(error)
+  }
+  return NextResponse.json(response, { status })
+}
+
+// GET /api/templates/:id?version=N - a specific version, or the latest when omitted
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request)
+    if (auth.response) return auth.response
+
+    const versionParam = request.nextUrl.searchParams.get('version')
+    const template = await getTemplate(params.id, versionParam ? parseInt(versionParam) : undefined)
+    if (!template) {
+      return errorResponse('Template not found', 404)
+    }
+
+    const response: TemplateResponse = { success: true, template }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error loading template:', error)
+    return errorResponse(error)
+  }
+}
+
+// PUT /api/templates/:id - save the body as the next version of the template
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const validation = validateTemplateInput(await request.json().catch(() => undefined))
+
+    if (!validation.valid) {
+      const response: TemplateResponse = { success: false, error: 'Invalid template', errors: validation.errors }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const template = await saveTemplateVersion(params.id, validation.value)
+    if (!template) {
+      return errorResponse('Template not found', 404)
+    }
+
+    const response: TemplateResponse = { success: true, template }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error saving template version:', error)
+    return errorResponse(error)
+  }
+}
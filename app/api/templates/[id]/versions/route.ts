@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TemplateListResponse } from '@/types/appraisal'
+import { listTemplateVersions } from '@/lib/template-store'
+import { requireUser } from '@/lib/access'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// GET /api/templates/:id/versions - every version of a template, newest first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request)
+    if (auth.response) return auth.response
+
+    const templates = await listTemplateVersions(params.id)
+    if (templates.length === 0) {
+      const response: TemplateListResponse = { success: false, templates: [], error: 'Template not found' }
+      return NextResponse.json(response, { status: 404 })
+    }
+
+    const response: TemplateListResponse = { success: true, templates }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error listing template versions:', error)
+
+    const response: TemplateListResponse = {
+      success: false,
+      templates: [],
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TemplateListResponse, TemplateResponse } from '@/types/appraisal'
+import { createTemplate, listTemplates } from '@/lib/template-store'
+import { validateTemplateInput } from '@/lib/validation'
+import { requireUser } from '@/lib/access'
+
+// The library changes at runtime, so never serve a build-time snapshot
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser(request)
+    if (auth.response) return auth.response
+
+    const response: TemplateListResponse = {
+      success: true,
+      templates: await listTemplates()
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error listing templates:', error)
+
+    const response: TemplateListResponse = {
+      success: false,
+      templates: [],
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request, ['manager', 'hr-admin'])
+    if (auth.response) return auth.response
+
+    const validation = validateTemplateInput(await request.json().catch(() => undefined))
+
+    if (!validation.valid) {
+      const response: TemplateResponse = { success: false, error: 'Invalid template', errors: validation.errors }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const response: TemplateResponse = {
+      success: true,
+      template: await createTemplate(validation.value)
+    }
+
+    return NextResponse.json(response, { status: 201 })
+  } catch (error) {
+    console.error('Error creating template:', error)
+
+    const response: TemplateResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UserResponse } from '@/types/appraisal'
+import { deleteUser, updateUser } from '@/lib/users'
+import { validateUserAccount } from '@/lib/validation'
+import { requireUser } from '@/lib/access'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+function errorResponse(error: unknown, status = 500) {
+  const response: UserResponse = {
+    success: false,
+    error: error instanceof Error ? error.message : String(error)
+  }
+  return NextResponse.json(response, { status })
+}
+
+// PUT /api/users/:id - same body as POST /api/users; the password only changes when one is sent.
+// HR admins cannot take away their own role, so there is always someone left to manage accounts.
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request, ['hr-admin'])
+    if (auth.response) return auth.response
+
+    const validation = validateUserAccount(await request.json().catch(() => undefined))
+    if (!validation.valid) {
+      const response: UserResponse = { success: false, error: 'Invalid account', errors: validation.errors }
+      return NextResponse.json(response, { status: 400 })
+    }
+    if (params.id === auth.user.id && validation.value.role !== 'hr-admin') {
+      return errorResponse('You cannot remove your own HR admin role', 409)
+    }
+
+    const result = await updateUser(params.id, validation.value)
+    if (result.status === 'not-found') {
+      return errorResponse('User not found', 404)
+    }
+    if (result.status === 'conflict') {
+      return errorResponse(result.error, 409)
+    }
+
+    const response: UserResponse = { success: true, user: result.user }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error saving user:', error)
+    return errorResponse(error)
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireUser(request, ['hr-admin'])
+    if (auth.response) return auth.response
+
+    if (params.id === auth.user.id) {
+      return errorResponse('You cannot delete your own account', 409)
+    }
+    if (!await deleteUser(params.id)) {
+      return errorResponse('User not found', 404)
+    }
+
+    const response: UserResponse = { success: true }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error deleting user:', error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UserListResponse, UserResponse } from '@/types/appraisal'
+import { createUser, listUsers } from '@/lib/users'
+import { validateUserAccount } from '@/lib/validation'
+import { requireUser } from '@/lib/access'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/users - every account with its role and direct reports; HR admin only
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser(request, ['hr-admin'])
+    if (auth.response) return auth.response
+
+    const response: UserListResponse = { success: true, users: await listUsers() }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error listing users:', error)
+
+    const response: UserListResponse = {
+      success: false,
+      users: [],
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
+
+// POST /api/users - body: { username, name, email?, role, employeeId?, reports, password? }
+// Accounts without a password can only sign in through single sign-on
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request, ['hr-admin'])
+    if (auth.response) return auth.response
+
+    const validation = validateUserAccount(await request.json().catch(() => undefined))
+    if (!validation.valid) {
+      const response: UserResponse = { success: false, error: 'Invalid account', errors: validation.errors }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    const result = await createUser(validation.value)
+    if (result.status === 'conflict') {
+      const response: UserResponse = { success: false, error: result.error }
+      return NextResponse.json(response, { status: 409 })
+    }
+
+    const response: UserResponse = { success: true, user: result.status === 'saved' ? result.user : undefined }
+    return NextResponse.json(response, { status: 201 })
+  } catch (error) {
+    console.error('Error creating user:', error)
+
+    const response: UserResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+
+    return NextResponse.json(response, { status: 500 })
+  }
+}
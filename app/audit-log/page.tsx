@@ -0,0 +1,224 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { AuditAction, AuditEntry, AuditLogResponse } from '@/types/appraisal'
+import { roleLabel } from '@/lib/appraisal-workflow'
+import { ArrowLeft, Download, History, RefreshCw } from 'lucide-react'
+
+interface FilterForm {
+  action: AuditAction | ''
+  user: string
+  employeeId: string
+  from: string
+  to: string
+}
+
+const EMPTY_FILTER: FilterForm = { action: '', user: '', employeeId: '', from: '', to: '' }
+
+const AUDIT_ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: 'generate', label: 'Feedback generated' },
+  { value: 'regenerate-section', label: 'Section regenerated' },
+  { value: 'refine', label: 'Draft refined' },
+  { value: 'create', label: 'Review created' },
+  { value: 'edit', label: 'Review edited' },
+  { value: 'delete', label: 'Review deleted' },
+  { value: 'status-change', label: 'Status changed' },
+  { value: 'calibration', label: 'Score calibrated' },
+  { value: 'export', label: 'Review exported' }
+]
+
+const OUTCOME_LABELS = { llm: 'LLM', mock: 'Mock fallback', failed: 'Failed' }
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+function actionLabel(action: AuditAction): string {
+  const match = AUDIT_ACTIONS.filter(a => a.value === action)[0]
+  return match ? match.label : action
+}
+
+function queryOf(filter: FilterForm): string {
+  const params = new URLSearchParams()
+  Object.keys(filter).forEach(key => {
+    const value = filter[key as keyof FilterForm].trim()
+    if (value) params.set(key, value)
+  })
+  return params.toString()
+}
+
+// The first characters are enough to compare by eye; the full hash is in the tooltip and the CSV
+function ShortHash({ label, hash }: { label: string; hash?: string }) {
+  if (!hash) return null
+  return <div className="font-mono text-xs text-gray-500" title={hash}>{label} {hash.slice(0, 12)}</div>
+}
+
+// HR reads who generated, changed, moved and exported which review, and downloads it as CSV
+export default function AuditLogPage() {
+  const [filter, setFilter] = useState<FilterForm>(EMPTY_FILTER)
+  const [applied, setApplied] = useState<FilterForm>(EMPTY_FILTER)
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [error, setError] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadEntries = async (query: FilterForm) => {
+    setIsLoading(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/audit-log?${queryOf(query)}`)
+      const data: AuditLogResponse = await response.json()
+      if (data.success) {
+        setEntries(data.entries)
+        setApplied(query)
+      } else {
+        setError(data.error || 'The audit log could not be loaded')
+      }
+    } catch (error) {
+      console.error('Error loading the audit log:', error)
+      setError('The audit log could not be loaded')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => { loadEntries(EMPTY_FILTER) }, [])
+
+  const updateFilter = (field: keyof FilterForm, value: string) => {
+    setFilter(prev => ({ ...prev, [field]: value }))
+  }
+
+  const csvQuery = queryOf(applied)
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4 max-w-6xl">
+        <div className="mb-8">
+          <Link href="/" className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to single appraisal
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Audit Log
+          </h1>
+          <p className="text-gray-600">
+            Every feedback generation, edit, status change, calibration and export, with who did it and when.
+            Prompts and feedback are recorded as SHA-256 hashes, so a disputed review can be matched against what was generated without the log keeping a copy of it.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-8 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800">{error}</div>
+        )}
+
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Filter</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+                <select value={filter.action} onChange={(e) => updateFilter('action', e.target.value)} className={inputClass}>
+                  <option value="">All actions</option>
+                  {AUDIT_ACTIONS.map(action => (
+                    <option key={action.value} value={action.value}>{action.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">User</label>
+                <input value={filter.user} onChange={(e) => updateFilter('user', e.target.value)} className={inputClass} placeholder="Name or account id" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Employee ID</label>
+                <input value={filter.employeeId} onChange={(e) => updateFilter('employeeId', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input type="date" value={filter.from} onChange={(e) => updateFilter('from', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input type="date" value={filter.to} onChange={(e) => updateFilter('to', e.target.value)} className={inputClass} />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2 mt-4">
+              <Button onClick={() => { setFilter(EMPTY_FILTER); loadEntries(EMPTY_FILTER) }} variant="outline">
+                Clear
+              </Button>
+              <Button onClick={() => loadEntries(filter)} disabled={isLoading}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                {isLoading ? 'Loading...' : 'Apply'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center">
+                  <History className="w-5 h-5 mr-2" />
+                  Entries
+                </CardTitle>
+                <CardDescription>{entries.length} {entries.length === 1 ? 'entry' : 'entries'}, newest first</CardDescription>
+              </div>
+              <Button asChild variant="outline" size="sm">
+                <a href={`/api/audit-log?${csvQuery ? `${csvQuery}&` : ''}format=csv`}>
+                  <Download className="w-4 h-4 mr-1" />
+                  Download CSV
+                </a>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {entries.length === 0 ? (
+              <p className="text-sm text-gray-500">No entries match.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-4">When</th>
+                    <th className="py-2 pr-4">User</th>
+                    <th className="py-2 pr-4">Action</th>
+                    <th className="py-2 pr-4">Employee</th>
+                    <th className="py-2">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map(entry => (
+                    <tr key={entry.id} className="border-b align-top">
+                      <td className="py-2 pr-4 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</td>
+                      <td className="py-2 pr-4">
+                        <div className="font-medium text-gray-900">{entry.userName}</div>
+                        <div className="text-gray-500">{roleLabel(entry.role)}</div>
+                      </td>
+                      <td className="py-2 pr-4">{actionLabel(entry.action)}</td>
+                      <td className="py-2 pr-4">{entry.employeeId || '-'}</td>
+                      <td className="py-2 text-gray-700">
+                        {entry.outcome && (
+                          <div>
+                            {OUTCOME_LABELS[entry.outcome]}
+                            {entry.provider && ` - ${entry.provider}${entry.model ? ` / ${entry.model}` : ''}`}
+                            {entry.latencyMs !== undefined && ` - ${(entry.latencyMs / 1000).toFixed(1)}s`}
+                          </div>
+                        )}
+                        {entry.prompt && <div className="text-gray-500">Prompt: {entry.prompt.name} v{entry.prompt.version}</div>}
+                        {entry.reason && <div className="text-amber-700">{entry.reason}</div>}
+                        {entry.detail && <div className="break-words">{entry.detail}</div>}
+                        <ShortHash label="Prompt" hash={entry.promptHash} />
+                        <ShortHash label="Feedback" hash={entry.feedbackHash} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,297 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { BulkJobResponse, BulkJobSummary, BulkRowResult, TemplateListResponse, TemplateRecord } from '@/types/appraisal'
+import { bulkCsvTemplate } from '@/lib/bulk-import'
+import { readSSE } from '@/lib/sse'
+import { ArrowLeft, Download, Upload, Users } from 'lucide-react'
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const STATUS_STYLES: Record<BulkRowResult['status'], string> = {
+  invalid: 'bg-red-100 text-red-800',
+  pending: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800',
+  done: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function BulkGenerationPage() {
+  const [templates, setTemplates] = useState<TemplateRecord[]>([])
+  const [templateId, setTemplateId] = useState('')
+  const [reviewerName, setReviewerName] = useState('')
+  const [reviewDate, setReviewDate] = useState(today())
+  const [reviewPeriod, setReviewPeriod] = useState(String(new Date().getFullYear()))
+  const [file, setFile] = useState<File | null>(null)
+  const [job, setJob] = useState<BulkJobSummary | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetch('/api/templates')
+      .then(response => response.json())
+      .then((data: TemplateListResponse) => {
+        if (data.success) {
+          setTemplates(data.templates)
+          setTemplateId(prev => prev || (data.templates[0]?.id ?? ''))
+        }
+      })
+      .catch(error => console.error('Error loading templates:', error))
+  }, [])
+
+  const selectedTemplate = templates.find(t => t.id === templateId)
+
+  const downloadCsvTemplate = () => {
+    if (!selectedTemplate) return
+    downloadBlob(new Blob([bulkCsvTemplate(selectedTemplate)], { type: 'text/csv' }), `bulk-${selectedTemplate.id}.csv`)
+  }
+
+  // Rows arrive as status changes; replace the matching row in place
+  const updateRow = (row: BulkRowResult) => {
+    setJob(prev => {
+      if (!prev) return prev
+      const rows = prev.rows.map(r => r.row === row.row ? row : r)
+      return {
+        ...prev,
+        rows,
+        done: rows.filter(r => r.status === 'done').length,
+        failed: rows.filter(r => r.status === 'failed' || r.status === 'invalid').length
+      }
+    })
+  }
+
+  const startGeneration = async () => {
+    if (!file || !templateId) return
+
+    setIsRunning(true)
+    setError('')
+    setJob(null)
+
+    const form = new FormData()
+    form.append('file', file)
+    form.append('templateId', templateId)
+    if (selectedTemplate) form.append('templateVersion', String(selectedTemplate.version))
+    form.append('reviewerName', reviewerName)
+    form.append('reviewDate', reviewDate)
+    form.append('reviewPeriod', reviewPeriod)
+
+    try {
+      const response = await fetch('/api/bulk-generate', { method: 'POST', body: form })
+
+      if (!response.ok || !response.body) {
+        const data: BulkJobResponse = await response.json().catch(() => ({ success: false }))
+        setError(data.error || `Request failed with status ${response.status}`)
+        return
+      }
+
+      await readSSE(response.body, event => {
+        const payload = JSON.parse(event.data)
+        if (event.event === 'job' || event.event === 'done') {
+          setJob(payload)
+        } else if (event.event === 'row') {
+          updateRow(payload)
+        } else if (event.event === 'error') {
+          setError(payload.error || 'Bulk generation failed')
+        }
+      })
+    } catch (error) {
+      console.error('Error:', error)
+      setError('Lost the connection to the server. Generation continues in the background.')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const downloadResults = (format: 'zip' | 'csv') => {
+    if (!job) return
+    window.location.href = `/api/bulk-generate/${job.jobId}/download?format=${format}`
+  }
+
+  const processed = job ? job.rows.filter(r => r.status !== 'pending' && r.status !== 'running').length : 0
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4 max-w-6xl">
+        <div className="mb-8">
+          <Link href="/" className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to single appraisal
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Bulk Generation
+          </h1>
+          <p className="text-gray-600">
+            Upload one row per employee and generate every review in one go
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Upload className="w-5 h-5 mr-2" />
+                Upload
+              </CardTitle>
+              <CardDescription>
+                CSV or JSON with employeeName, employeeId, employeeGender and a score and comments column per category
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Template *
+                </label>
+                <select
+                  value={templateId}
+                  onChange={(e) => setTemplateId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {templates.map(t => (
+                    <option key={t.id} value={t.id}>{t.name} (v{t.version})</option>
+                  ))}
+                </select>
+                <Button onClick={downloadCsvTemplate} disabled={!selectedTemplate} variant="link" size="sm" className="px-0">
+                  Download a CSV template for this template
+                </Button>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reviewer Name *
+                </label>
+                <input
+                  type="text"
+                  value={reviewerName}
+                  onChange={(e) => setReviewerName(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Used for rows without a reviewerName column"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Review Date
+                  </label>
+                  <input
+                    type="date"
+                    value={reviewDate}
+                    onChange={(e) => setReviewDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Review Period
+                  </label>
+                  <input
+                    type="text"
+                    value={reviewPeriod}
+                    onChange={(e) => setReviewPeriod(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  File *
+                </label>
+                <input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="w-full text-sm"
+                />
+              </div>
+              <Button onClick={startGeneration} disabled={!file || !templateId || isRunning} className="w-full">
+                <Users className="w-4 h-4 mr-2" />
+                {isRunning ? 'Generating...' : 'Generate All'}
+              </Button>
+              {error && (
+                <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800">{error}</div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Progress</CardTitle>
+              <CardDescription>
+                {job
+                  ? `${processed} of ${job.total} processed - ${job.done} generated, ${job.failed} failed`
+                  : 'Rows appear here once the file has been uploaded'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {job && (
+                <>
+                  <div className="h-2 w-full rounded bg-gray-200">
+                    <div
+                      className="h-2 rounded bg-blue-600 transition-all"
+                      style={{ width: `${job.total > 0 ? (processed / job.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-gray-600">
+                          <th className="py-2 pr-2">Row</th>
+                          <th className="py-2 pr-2">Employee</th>
+                          <th className="py-2 pr-2">Score</th>
+                          <th className="py-2 pr-2">Status</th>
+                          <th className="py-2">Details</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {job.rows.map(row => (
+                          <tr key={row.row} className="border-b align-top">
+                            <td className="py-2 pr-2">{row.row}</td>
+                            <td className="py-2 pr-2">{row.employeeName || '-'} <span className="text-gray-500">({row.employeeId || 'no ID'})</span></td>
+                            <td className="py-2 pr-2">{row.overallScore !== undefined ? row.overallScore.toFixed(2) : '-'}</td>
+                            <td className="py-2 pr-2">
+                              <span className={`rounded px-2 py-0.5 text-xs ${STATUS_STYLES[row.status]}`}>{row.status}</span>
+                            </td>
+                            <td className="py-2 text-xs text-gray-600">
+                              {row.errors?.map(issue => (
+                                <div key={`${issue.path}-${issue.message}`}>{issue.path}: {issue.message}</div>
+                              ))}
+                              {row.status === 'done' && row.source === 'llm' && `${row.provider} (${row.model})`}
+                              {row.status === 'done' && row.source === 'mock' && <span className="text-amber-700">Offline template text: {row.error}</span>}
+                              {row.status === 'failed' && <span className="text-red-700">{row.error}</span>}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {!isRunning && job.done > 0 && (
+                    <div className="flex space-x-2">
+                      <Button onClick={() => downloadResults('zip')} variant="outline" size="sm">
+                        <Download className="w-4 h-4 mr-1" />
+                        ZIP (PDF per employee)
+                      </Button>
+                      <Button onClick={() => downloadResults('csv')} variant="outline" size="sm">
+                        <Download className="w-4 h-4 mr-1" />
+                        Combined CSV
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,439 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { AppraisalListResponse, CalibrationEntry, CalibrationReport, CalibrationResponse, HistogramBin } from '@/types/appraisal'
+import { OUTLIER_Z_SCORE, REVIEWER_DELTA } from '@/lib/calibration'
+import { statusLabel } from '@/lib/appraisal-workflow'
+import { performanceLevel } from '@/lib/scoring'
+import { AlertTriangle, ArrowLeft, BarChart3, ChevronDown, ChevronUp, Users } from 'lucide-react'
+
+const percent = (share: number) => `${Math.round(share * 100)}%`
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`
+
+function Histogram({ bins, height = 120 }: { bins: HistogramBin[]; height?: number }) {
+  const highest = Math.max(1, Math.max.apply(null, bins.map(bin => bin.count)))
+  return (
+    <div className="flex items-end space-x-1" style={{ height }}>
+      {bins.map(bin => (
+        <div key={bin.from} className="flex-1 flex flex-col items-center justify-end h-full" title={`${bin.from.toFixed(1)}-${bin.to.toFixed(1)}: ${bin.count}`}>
+          {height > 40 && bin.count > 0 && <span className="text-xs text-gray-600">{bin.count}</span>}
+          <div className="w-full rounded-t bg-blue-500" style={{ height: `${(bin.count / highest) * 100}%` }} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default function CalibrationPage() {
+  const [periods, setPeriods] = useState<string[]>([])
+  const [reviewPeriod, setReviewPeriod] = useState('')
+  const [report, setReport] = useState<CalibrationReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [draftScores, setDraftScores] = useState<Record<string, string>>({})
+  const [reason, setReason] = useState('')
+  const [isAdjusting, setIsAdjusting] = useState(false)
+
+  useEffect(() => {
+    fetch('/api/appraisals')
+      .then(response => response.json())
+      .then((data: AppraisalListResponse) => {
+        if (!data.success) return
+        const found: string[] = []
+        data.appraisals.forEach(summary => {
+          if (found.indexOf(summary.reviewPeriod) === -1) found.push(summary.reviewPeriod)
+        })
+        found.sort().reverse()
+        setPeriods(found)
+        setReviewPeriod(prev => prev || (found[0] ?? ''))
+      })
+      .catch(error => console.error('Error loading review periods:', error))
+  }, [])
+
+  useEffect(() => {
+    if (!reviewPeriod) return
+    setIsLoading(true)
+    setError('')
+    fetch(`/api/calibration?reviewPeriod=${encodeURIComponent(reviewPeriod)}`)
+      .then(response => response.json())
+      .then((data: CalibrationResponse) => {
+        if (data.success && data.report) {
+          setReport(data.report)
+        } else {
+          setError(data.error || 'The calibration report could not be loaded')
+        }
+      })
+      .catch(error => {
+        console.error('Error loading calibration report:', error)
+        setError('The calibration report could not be loaded')
+      })
+      .then(() => setIsLoading(false))
+  }, [reviewPeriod])
+
+  const toggleEntry = (entry: CalibrationEntry) => {
+    if (expandedId === entry.appraisalId) {
+      setExpandedId(null)
+      return
+    }
+    setExpandedId(entry.appraisalId)
+    setReason('')
+    const scores: Record<string, string> = {}
+    entry.ratings.forEach(rating => { scores[rating.categoryId] = String(rating.score) })
+    setDraftScores(scores)
+  }
+
+  const applyAdjustment = async (entry: CalibrationEntry, categoryId: string) => {
+    const score = parseFloat(draftScores[categoryId])
+    setIsAdjusting(true)
+    try {
+      const response = await fetch('/api/calibration/adjustments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          appraisalId: entry.appraisalId,
+          categoryId,
+          score,
+          reason
+        })
+      })
+      const data: CalibrationResponse = await response.json()
+      if (data.success && data.report) {
+        setReport(data.report)
+        setReason('')
+      } else {
+        const details = (data.errors || []).map(issue => `${issue.path} ${issue.message}`).join('\n')
+        alert((data.error || 'The score could not be adjusted') + (details ? '\n\n' + details : ''))
+      }
+    } catch (error) {
+      console.error('Error adjusting score:', error)
+      alert('Error adjusting score')
+    } finally {
+      setIsAdjusting(false)
+    }
+  }
+
+  const categoryName = (entry: CalibrationEntry, categoryId: string) =>
+    entry.categories.filter(category => category.id === categoryId)[0]?.name || categoryId
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4 max-w-6xl">
+        <div className="mb-8">
+          <Link href="/" className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to single appraisal
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Calibration
+          </h1>
+          <p className="text-gray-600">
+            Compare scores across a review period and adjust them before results go out
+          </p>
+        </div>
+
+        <Card className="mb-8">
+          <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Review Period
+              </label>
+              <select
+                value={reviewPeriod}
+                onChange={(e) => setReviewPeriod(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {periods.length === 0 && <option value="">No saved appraisals</option>}
+                {periods.map(period => (
+                  <option key={period} value={period}>{period}</option>
+                ))}
+              </select>
+            </div>
+            <div className="text-sm text-gray-600 self-end">
+              {report && (
+                <>
+                  <div>{report.count} submitted {report.count === 1 ? 'review' : 'reviews'}{report.draftCount > 0 && `, ${report.draftCount} still in draft (not included)`}</div>
+                  <div>Average {report.average.toFixed(2)} - standard deviation {report.standardDeviation.toFixed(2)}</div>
+                </>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <div className="mb-8 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800">{error}</div>
+        )}
+        {isLoading && <p className="text-gray-600 mb-8">Loading...</p>}
+
+        {report && report.count === 0 && !isLoading && (
+          <p className="text-gray-600">No reviews in {report.reviewPeriod} have been submitted yet.</p>
+        )}
+
+        {report && report.count > 0 && (
+          <div className="space-y-8">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <BarChart3 className="w-5 h-5 mr-2" />
+                    Overall Scores
+                  </CardTitle>
+                  <CardDescription>
+                    Number of reviews per half-point band
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Histogram bins={report.histogram} height={160} />
+                  <div className="flex justify-between text-xs text-gray-500 mt-1">
+                    <span>0</span>
+                    <span>2.5</span>
+                    <span>5</span>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Forced Distribution</CardTitle>
+                  <CardDescription>
+                    Share of reviews per performance level against the target
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-1 font-medium">Level</th>
+                        <th className="py-1 font-medium text-right">Target</th>
+                        <th className="py-1 font-medium text-right">Actual</th>
+                        <th className="py-1 font-medium text-right">Difference</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.distribution.map(band => {
+                        const difference = band.actualCount - band.targetCount
+                        return (
+                          <tr key={band.level} className="border-b">
+                            <td className="py-1">{band.label}</td>
+                            <td className="py-1 text-right">{percent(band.targetShare)} ({band.targetCount})</td>
+                            <td className="py-1 text-right">{percent(band.actualShare)} ({band.actualCount})</td>
+                            <td className={`py-1 text-right ${difference > 0 ? 'text-amber-700' : difference < 0 ? 'text-blue-700' : 'text-gray-500'}`}>
+                              {difference > 0 ? '+' : ''}{difference}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Users className="w-5 h-5 mr-2" />
+                    Reviewers
+                  </CardTitle>
+                  <CardDescription>
+                    Average overall score per reviewer against the period average of {report.average.toFixed(2)}. Flagged at {REVIEWER_DELTA.toFixed(1)} or more either way.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-1 font-medium">Reviewer</th>
+                        <th className="py-1 font-medium text-right">Reviews</th>
+                        <th className="py-1 font-medium text-right">Average</th>
+                        <th className="py-1 font-medium text-right">vs Period</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.reviewers.map(reviewer => (
+                        <tr key={reviewer.reviewerName} className={`border-b ${reviewer.tendency ? 'bg-amber-50' : ''}`}>
+                          <td className="py-1">
+                            {reviewer.reviewerName || 'Unknown'}
+                            {reviewer.tendency && <span className="ml-2 text-xs rounded px-1.5 py-0.5 bg-amber-100 text-amber-800">{reviewer.tendency}</span>}
+                          </td>
+                          <td className="py-1 text-right">{reviewer.count}</td>
+                          <td className="py-1 text-right">{reviewer.average.toFixed(2)}</td>
+                          <td className="py-1 text-right">{signed(reviewer.delta)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <AlertTriangle className="w-5 h-5 mr-2" />
+                    Outliers
+                  </CardTitle>
+                  <CardDescription>
+                    Reviews {OUTLIER_Z_SCORE} or more standard deviations from the period average
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {report.outliers.length === 0 ? (
+                    <p className="text-sm text-gray-600">No outliers in this period.</p>
+                  ) : (
+                    <ul className="text-sm space-y-1">
+                      {report.outliers.map(outlier => (
+                        <li key={outlier.appraisalId} className="flex justify-between">
+                          <span>{outlier.employeeName} <span className="text-gray-500">({outlier.reviewerName})</span></span>
+                          <span>{outlier.overallScore.toFixed(2)} <span className="text-gray-500">(z {signed(outlier.zScore)})</span></span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Categories</CardTitle>
+                <CardDescription>
+                  Spread of each category&apos;s scores across the period
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-1 font-medium">Category</th>
+                      <th className="py-1 font-medium text-right">Reviews</th>
+                      <th className="py-1 font-medium text-right">Average</th>
+                      <th className="py-1 font-medium text-right">Range</th>
+                      <th className="py-1 font-medium pl-6 w-48">Distribution</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.categories.map(category => (
+                      <tr key={category.categoryId} className="border-b">
+                        <td className="py-1">{category.categoryName}</td>
+                        <td className="py-1 text-right">{category.count}</td>
+                        <td className="py-1 text-right">{category.average.toFixed(2)}</td>
+                        <td className="py-1 text-right">{category.min.toFixed(1)}-{category.max.toFixed(1)}</td>
+                        <td className="py-1 pl-6"><Histogram bins={category.histogram} height={24} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Reviews</CardTitle>
+                <CardDescription>
+                  Scores can be adjusted while a review is submitted and not yet calibrated. Each change is recorded with its reason and the overall score is recomputed from the category weights.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="divide-y border rounded-lg">
+                  {report.entries.map(entry => {
+                    const adjustable = entry.status === 'manager-submitted'
+                    return (
+                      <div key={entry.appraisalId} className="p-3 text-sm">
+                        <button onClick={() => toggleEntry(entry)} className="w-full flex items-center justify-between text-left">
+                          <span>
+                            <span className="font-medium">{entry.employeeName}</span>
+                            <span className="text-gray-500 ml-2">{entry.employeeId} - {entry.reviewerName}</span>
+                          </span>
+                          <span className="flex items-center space-x-3">
+                            <span className="text-xs text-gray-500">{statusLabel(entry.status)}</span>
+                            {entry.adjustments.length > 0 && (
+                              <span className="text-xs rounded px-1.5 py-0.5 bg-blue-100 text-blue-800">{entry.adjustments.length} adjusted</span>
+                            )}
+                            {entry.adjustments.some(adjustment => !!adjustment.feedbackStale) && (
+                              <span className="text-xs rounded px-1.5 py-0.5 bg-amber-100 text-amber-800">Feedback predates scores</span>
+                            )}
+                            <span className="font-medium">{entry.overallScore.toFixed(2)}</span>
+                            <span className="text-xs text-gray-500 w-32">{performanceLevel(entry.overallScore)}</span>
+                            {expandedId === entry.appraisalId ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                          </span>
+                        </button>
+
+                        {expandedId === entry.appraisalId && (
+                          <div className="mt-3 space-y-3">
+                            <table className="w-full">
+                              <tbody>
+                                {entry.ratings.map(rating => (
+                                  <tr key={rating.categoryId} className="border-b">
+                                    <td className="py-1">{categoryName(entry, rating.categoryId)}</td>
+                                    <td className="py-1 text-right w-16">{rating.score.toFixed(1)}</td>
+                                    {adjustable && (
+                                      <td className="py-1 text-right w-48">
+                                        <input
+                                          type="number"
+                                          min="0"
+                                          max="5"
+                                          step="0.1"
+                                          value={draftScores[rating.categoryId] ?? ''}
+                                          onChange={(e) => setDraftScores(prev => ({ ...prev, [rating.categoryId]: e.target.value }))}
+                                          className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                                        />
+                                        <Button
+                                          onClick={() => applyAdjustment(entry, rating.categoryId)}
+                                          disabled={isAdjusting || !reason.trim() || parseFloat(draftScores[rating.categoryId]) === rating.score}
+                                          variant="outline"
+                                          size="sm"
+                                          className="ml-2"
+                                        >
+                                          Adjust
+                                        </Button>
+                                      </td>
+                                    )}
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                            {adjustable ? (
+                              <input
+                                type="text"
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                placeholder="Reason for the adjustment (required)"
+                              />
+                            ) : (
+                              <p className="text-xs text-gray-500">This review has left calibration; its scores can no longer be adjusted.</p>
+                            )}
+                            {entry.adjustments.length > 0 && (
+                              <ul className="text-xs text-gray-600 space-y-1">
+                                {entry.adjustments.map((adjustment, index) => (
+                                  <li key={index}>
+                                    {categoryName(entry, adjustment.categoryId)}: {adjustment.from.toFixed(1)} to {adjustment.to.toFixed(1)} (overall {adjustment.overallFrom.toFixed(2)} to {adjustment.overallTo.toFixed(2)})
+                                    {' '}by {adjustment.by}, {new Date(adjustment.at).toLocaleString()} - &quot;{adjustment.reason}&quot;
+                                    {adjustment.feedbackStale && (
+                                      <div className="text-amber-700">
+                                        The generated feedback was written against the old score{adjustment.feedbackWarnings && adjustment.feedbackWarnings.length > 0 ? ` and no longer matches it: ${adjustment.feedbackWarnings.join('; ')}` : ''}. Return the review to the manager if the narrative needs rewriting.
+                                      </div>
+                                    )}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,293 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { EmployeeHistory, EmployeeHistoryResponse, HistoryCycle } from '@/types/appraisal'
+import { statusLabel } from '@/lib/appraisal-workflow'
+import { MAX_SCORE } from '@/lib/scoring'
+import { ArrowLeft, History } from 'lucide-react'
+
+interface PageProps {
+  params: { employeeId: string }
+}
+
+const COLORS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626', '#0891b2', '#db2777', '#65a30d']
+
+const OVERALL = 'overall'
+
+const CHART_WIDTH = 640
+const CHART_HEIGHT = 260
+const PADDING = { top: 12, right: 16, bottom: 36, left: 32 }
+
+interface ChartLine {
+  key: string
+  label: string
+  color: string
+  points: (number | undefined)[] // One per cycle; undefined where the cycle has no score
+}
+
+// Lines break where a cycle has no score for the series instead of bridging the gap
+function TrendChart({ cycles, lines }: { cycles: HistoryCycle[]; lines: ChartLine[] }) {
+  const innerWidth = CHART_WIDTH - PADDING.left - PADDING.right
+  const innerHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom
+  const x = (index: number) => PADDING.left + (cycles.length > 1 ? (index / (cycles.length - 1)) * innerWidth : innerWidth / 2)
+  const y = (score: number) => PADDING.top + innerHeight - (score / MAX_SCORE) * innerHeight
+
+  const segments = (points: (number | undefined)[]) => {
+    const runs: string[] = []
+    let current: string[] = []
+    points.forEach((score, index) => {
+      if (score === undefined) {
+        if (current.length > 1) runs.push(current.join(' '))
+        current = []
+        return
+      }
+      current.push(`${x(index)},${y(score)}`)
+    })
+    if (current.length > 1) runs.push(current.join(' '))
+    return runs
+  }
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+      {[0, 1, 2, 3, 4, 5].map(score => (
+        <g key={score}>
+          <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={y(score)} y2={y(score)} stroke="#e5e7eb" />
+          <text x={PADDING.left - 8} y={y(score) + 4} fontSize="11" textAnchor="end" fill="#6b7280">{score}</text>
+        </g>
+      ))}
+      {cycles.map((cycle, index) => (
+        <text key={cycle.appraisalId} x={x(index)} y={CHART_HEIGHT - 12} fontSize="11" textAnchor="middle" fill="#6b7280">
+          {cycle.reviewPeriod}
+        </text>
+      ))}
+      {lines.map(line => (
+        <g key={line.key}>
+          {segments(line.points).map((points, index) => (
+            <polyline
+              key={index}
+              points={points}
+              fill="none"
+              stroke={line.color}
+              strokeWidth={line.key === OVERALL ? 3 : 2}
+              strokeDasharray={line.key === OVERALL ? '6 4' : undefined}
+            />
+          ))}
+          {line.points.map((score, index) => score === undefined ? null : (
+            <circle key={index} cx={x(index)} cy={y(score)} r={3.5} fill={line.color}>
+              <title>{`${line.label} (${cycles[index].reviewPeriod}): ${score.toFixed(1)}`}</title>
+            </circle>
+          ))}
+        </g>
+      ))}
+    </svg>
+  )
+}
+
+export default function EmployeeHistoryPage({ params }: PageProps) {
+  const employeeId = decodeURIComponent(params.employeeId)
+  const [history, setHistory] = useState<EmployeeHistory | null>(null)
+  const [hidden, setHidden] = useState<string[]>([])
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetch(`/api/employees/${encodeURIComponent(employeeId)}/history`)
+      .then(response => response.json())
+      .then((data: EmployeeHistoryResponse) => {
+        if (data.success && data.history) {
+          setHistory(data.history)
+        } else {
+          setError(data.error || 'The history could not be loaded')
+        }
+      })
+      .catch(error => {
+        console.error('Error loading employee history:', error)
+        setError('The history could not be loaded')
+      })
+  }, [employeeId])
+
+  const toggleLine = (key: string) => {
+    setHidden(prev => prev.indexOf(key) === -1 ? [...prev, key] : prev.filter(k => k !== key))
+  }
+
+  const lines: ChartLine[] = history
+    ? [
+      {
+        key: OVERALL,
+        label: 'Overall',
+        color: '#111827',
+        points: history.cycles.map(cycle => cycle.overallScore)
+      },
+      ...history.series.map((series, index) => ({
+        key: series.key,
+        label: series.name,
+        color: COLORS[index % COLORS.length],
+        points: history.cycles.map(cycle => cycle.scores.filter(score => score.seriesKey === series.key)[0]?.score)
+      }))
+    ]
+    : []
+
+  const comparison = history?.focusComparison
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4 max-w-6xl">
+        <div className="mb-8">
+          <Link href="/" className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to single appraisal
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            {history ? history.employeeName : 'Review History'}
+          </h1>
+          <p className="text-gray-600">
+            {employeeId}{history && ` - ${history.cycles.length} review ${history.cycles.length === 1 ? 'cycle' : 'cycles'}`}
+          </p>
+        </div>
+
+        {error && (
+          <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800">{error}</div>
+        )}
+
+        {history && (
+          <div className="space-y-8">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <History className="w-5 h-5 mr-2" />
+                  Scores Over Time
+                </CardTitle>
+                <CardDescription>
+                  Each category across review cycles, with the overall score dashed. Click a legend entry to hide or show it.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TrendChart cycles={history.cycles} lines={lines.filter(line => hidden.indexOf(line.key) === -1)} />
+                <div className="flex flex-wrap gap-3 mt-3">
+                  {lines.map(line => (
+                    <button
+                      key={line.key}
+                      onClick={() => toggleLine(line.key)}
+                      className={`flex items-center text-xs ${hidden.indexOf(line.key) === -1 ? 'text-gray-800' : 'text-gray-400 line-through'}`}
+                    >
+                      <span className="inline-block w-3 h-3 rounded-full mr-1" style={{ backgroundColor: line.color }} />
+                      {line.label}
+                    </button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Cycles</CardTitle>
+                <CardDescription>
+                  Scores per cycle. Categories renamed in later template versions are listed under their current name.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-1 font-medium">Category</th>
+                      {history.cycles.map(cycle => (
+                        <th key={cycle.appraisalId} className="py-1 font-medium text-right">
+                          <div>{cycle.reviewPeriod}</div>
+                          <div className="text-xs font-normal">{cycle.templateName}{cycle.templateVersion !== undefined && ` v${cycle.templateVersion}`}</div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.series.map(series => (
+                      <tr key={series.key} className="border-b">
+                        <td className="py-1">
+                          {series.name}
+                          {series.formerNames.length > 0 && (
+                            <div className="text-xs text-gray-500">formerly {series.formerNames.join(', ')}</div>
+                          )}
+                        </td>
+                        {history.cycles.map(cycle => {
+                          const score = cycle.scores.filter(s => s.seriesKey === series.key)[0]
+                          return (
+                            <td key={cycle.appraisalId} className="py-1 text-right" title={score ? `${score.categoryName}, weight ${score.weight}` : undefined}>
+                              {score ? score.score.toFixed(1) : <span className="text-gray-300">-</span>}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                    <tr className="font-medium">
+                      <td className="py-1">Overall</td>
+                      {history.cycles.map(cycle => (
+                        <td key={cycle.appraisalId} className="py-1 text-right">{cycle.overallScore.toFixed(2)}</td>
+                      ))}
+                    </tr>
+                    <tr className="text-xs text-gray-500">
+                      <td className="py-1">Reviewer / status</td>
+                      {history.cycles.map(cycle => (
+                        <td key={cycle.appraisalId} className="py-1 text-right">{cycle.reviewerName} - {statusLabel(cycle.status)}</td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            {comparison && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Follow-Up on Areas for Focus</CardTitle>
+                  <CardDescription>
+                    What the {comparison.previousPeriod} review asked the employee to work on, next to the {comparison.currentPeriod} ratings
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">Areas for Focus ({comparison.previousPeriod})</h4>
+                    <div className="bg-gray-50 rounded-lg p-4 text-sm whitespace-pre-wrap leading-relaxed">
+                      {comparison.areasForFocus || <span className="text-gray-400">The {comparison.previousPeriod} review has no Areas for Focus section.</span>}
+                    </div>
+                  </div>
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">Ratings ({comparison.currentPeriod})</h4>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b">
+                          <th className="py-1 font-medium">Category</th>
+                          <th className="py-1 font-medium text-right">{comparison.previousPeriod}</th>
+                          <th className="py-1 font-medium text-right">{comparison.currentPeriod}</th>
+                          <th className="py-1 font-medium text-right">Change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {comparison.categories.map(category => {
+                          const change = category.previousScore === undefined ? undefined : category.score - category.previousScore
+                          return (
+                            <tr key={category.seriesKey} className={`border-b ${category.wasFocus ? 'bg-blue-50' : ''}`}>
+                              <td className="py-1">
+                                {category.categoryName}
+                                {category.wasFocus && <span className="ml-2 text-xs rounded px-1.5 py-0.5 bg-blue-100 text-blue-800">focus</span>}
+                              </td>
+                              <td className="py-1 text-right">{category.previousScore === undefined ? '-' : category.previousScore.toFixed(1)}</td>
+                              <td className="py-1 text-right">{category.score.toFixed(1)}</td>
+                              <td className={`py-1 text-right ${change === undefined || change === 0 ? 'text-gray-500' : change > 0 ? 'text-green-700' : 'text-red-700'}`}>
+                                {change === undefined ? '-' : `${change > 0 ? '+' : ''}${change.toFixed(1)}`}
+                              </td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                    <p className="text-xs text-gray-500 mt-2">Highlighted categories are named in the {comparison.previousPeriod} Areas for Focus.</p>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { SessionResponse } from '@/types/appraisal'
+import { Lock, ShieldCheck } from 'lucide-react'
+
+interface PageProps {
+  searchParams: { returnTo?: string; error?: string }
+}
+
+// Only paths within the app, like safeReturnTo in the OIDC login route. Browsers read a backslash
+// as a slash, so "/\evil.com" would leave the app; tabs and newlines are dropped, so both are refused.
+const safeReturnTo = (value?: string) => value && value.startsWith('/') && !value.startsWith('//') && !/[\\\u0000-\u001f]/.test(value) ? value : '/'
+
+export default function LoginPage({ searchParams }: PageProps) {
+  const returnTo = safeReturnTo(searchParams.returnTo)
+  const [providers, setProviders] = useState<SessionResponse['providers'] | null>(null)
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [isSigningIn, setIsSigningIn] = useState(false)
+  const [error, setError] = useState(searchParams.error || '')
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then((data: SessionResponse) => {
+        if (data.user) {
+          window.location.href = returnTo
+        } else {
+          setProviders(data.providers || { local: true })
+        }
+      })
+      .catch(error => {
+        console.error('Error loading sign-in options:', error)
+        setProviders({ local: true })
+      })
+  }, [returnTo])
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSigningIn(true)
+    setError('')
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      })
+      const data: SessionResponse = await response.json()
+      if (data.success) {
+        window.location.href = returnTo
+        return
+      }
+      setError(data.error || 'Sign-in failed')
+    } catch (error) {
+      console.error('Error signing in:', error)
+      setError('Sign-in failed')
+    }
+    setIsSigningIn(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4 max-w-md">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Sign in
+          </h1>
+          <p className="text-gray-600">
+            Appraisal Feedback Generator
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800">{error}</div>
+        )}
+
+        {providers?.oidc && (
+          <Card className="mb-6">
+            <CardContent className="pt-6">
+              <Button asChild className="w-full">
+                <a href={`/api/auth/oidc/login?returnTo=${encodeURIComponent(returnTo)}`}>
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  Sign in with {providers.oidc.name}
+                </a>
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {providers?.local && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Lock className="w-5 h-5 mr-2" />
+                Username and password
+              </CardTitle>
+              <CardDescription>
+                Accounts are set up by HR.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={signIn} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Username
+                  </label>
+                  <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    autoComplete="username"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Password
+                  </label>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="current-password"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <Button type="submit" disabled={isSigningIn || !username.trim() || !password} className="w-full">
+                  {isSigningIn ? 'Signing in...' : 'Sign in'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {providers && !providers.local && !providers.oidc && (
+          <p className="text-gray-600">No sign-in method is configured. Set OIDC_ISSUER and OIDC_CLIENT_ID, or allow password sign-in.</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,75 +1,115 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Slider } from '@/components/ui/slider'
 import { Textarea } from '@/components/ui/textarea'
-import { AppraisalCategory, AppraisalRating, AppraisalTemplate, AppraisalData, LLMResponse, EmployeeSelfAssessment } from '@/types/appraisal'
-import { Plus, Trash2, FileText, Sparkles, User, Users, Settings, ChevronDown, ChevronUp } from 'lucide-react'
-
-// Default appraisal template
-const defaultTemplate: AppraisalTemplate = {
-  id: 'default',
-  name: 'Standard Performance Review',
-  description: 'Comprehensive performance evaluation template',
-  categories: [
-    {
-      id: 'technical-skills',
-      name: 'Technical Skills',
-      description: 'Proficiency in required technical skills and tools',
-      weight: 0.25
-    },
-    {
-      id: 'communication',
-      name: 'Communication',
-      description: 'Effectiveness in verbal and written communication',
-      weight: 0.20
-    },
-    {
-      id: 'teamwork',
-      name: 'Teamwork & Collaboration',
-      description: 'Ability to work effectively in team environments',
-      weight: 0.20
-    },
-    {
-      id: 'problem-solving',
-      name: 'Problem Solving',
-      description: 'Analytical thinking and creative problem-solving abilities',
-      weight: 0.20
-    },
-    {
-      id: 'leadership',
-      name: 'Leadership & Initiative',
-      description: 'Taking initiative and demonstrating leadership qualities',
-      weight: 0.15
-    }
-  ]
-}
+import { AppraisalCategory, AppraisalRating, AppraisalTemplate, AppraisalData, LLMResponse, EmployeeSelfAssessment, EmployeeSelfRating, AppraisalResponse, AppraisalListResponse, AppraisalSummary, TemplateRecord, TemplateResponse, TemplateListResponse, ExportErrorResponse, FeedbackRevision, SectionResponse, RefinementMessage, RefineResponse, PromptTemplateRecord, PromptTemplateListResponse, FeedbackLanguage, FeedbackSections, LintIssue, LintResponse, SelfAssessmentLinkResponse, SubmittedSelfAssessment, AppraisalStatus, StatusChange, SessionResponse, SessionUser, ProviderRequestPreview, RequestPreviewResponse, CalibrationAdjustment } from '@/types/appraisal'
+import { defaultTemplate } from '@/lib/default-templates'
+import { FEEDBACK_SECTIONS, FeedbackSectionKey, composeFeedback, sectionTitle, splitFeedbackSections } from '@/lib/feedback-sections'
+import { DEFAULT_LANGUAGE, FEEDBACK_LANGUAGES } from '@/lib/feedback-locales'
+import { LINT_CATEGORIES, applySuggestion, lintFeedback, lintSegments, relocateIssues, withoutOverlaps } from '@/lib/feedback-lint'
+import { checkConsistency } from '@/lib/consistency-check'
+import { DEFAULT_GAP_THRESHOLD, selfRatingGaps } from '@/lib/self-assessment'
+import { previousCycle } from '@/lib/prior-review'
+import { APPRAISAL_STATUSES, availableTransitions, isLocked, roleLabel, statusLabel, statusOf } from '@/lib/appraisal-workflow'
+import { RISK_SCORE, STRENGTH_SCORE, calculateOverallScore as computeOverallScore, performanceLevel } from '@/lib/scoring'
+import { readSSE } from '@/lib/sse'
+import { diffText } from '@/lib/text-diff'
+import { Plus, Trash2, FileText, Sparkles, User, Users, Settings, ChevronDown, ChevronUp, X, FolderOpen, FilePlus, Copy, Save, Download, Pencil, Check, RefreshCw, History, RotateCcw, MessageSquare, Send, ShieldCheck, AlertTriangle, Link as LinkIcon, Lock, BarChart3, LogOut, Eye } from 'lucide-react'
+
+const today = () => new Date().toISOString().split('T')[0]
+
+// How long the form must be idle before a draft is autosaved
+const AUTOSAVE_DELAY_MS = 1500
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'conflict' | 'error'
 
 export default function AppraisalPage() {
   const [template, setTemplate] = useState<AppraisalTemplate>(defaultTemplate)
   const [employeeName, setEmployeeName] = useState('')
   const [employeeId, setEmployeeId] = useState('')
   const [reviewerName, setReviewerName] = useState('')
+  const [reviewDate, setReviewDate] = useState(today())
+  const [reviewPeriod, setReviewPeriod] = useState(String(new Date().getFullYear()))
   const [employeeGender, setEmployeeGender] = useState<'male' | 'female' | 'other' | 'prefer-not-to-say'>('prefer-not-to-say')
+  const [language, setLanguage] = useState<FeedbackLanguage>(DEFAULT_LANGUAGE)
   const [ratings, setRatings] = useState<AppraisalRating[]>([])
   const [selfAssessment, setSelfAssessment] = useState<string>('')
+  const [selfRatings, setSelfRatings] = useState<EmployeeSelfRating[]>([])
+  const [gapThreshold, setGapThreshold] = useState(DEFAULT_GAP_THRESHOLD)
   const [overallScore, setOverallScore] = useState(0)
   const [generatedFeedback, setGeneratedFeedback] = useState('')
   const [isGenerating, setIsGenerating] = useState(false)
   const [includeSelfAssessment, setIncludeSelfAssessment] = useState(false)
+  const [employeeSubmission, setEmployeeSubmission] = useState<SubmittedSelfAssessment | null>(null)
+  const [selfAssessmentLink, setSelfAssessmentLink] = useState<SelfAssessmentLinkResponse['link'] | null>(null)
+  const [isCreatingLink, setIsCreatingLink] = useState(false)
+  const [appraisalStatus, setAppraisalStatus] = useState<AppraisalStatus>('draft')
+  const [statusHistory, setStatusHistory] = useState<StatusChange[]>([])
+  const [calibrationAdjustments, setCalibrationAdjustments] = useState<CalibrationAdjustment[]>([])
+  const [user, setUser] = useState<SessionUser | null>(null)
+  const [requestPreview, setRequestPreview] = useState<ProviderRequestPreview[] | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [statusNote, setStatusNote] = useState('')
+  const [isChangingStatus, setIsChangingStatus] = useState(false)
   const [showTemplateEditor, setShowTemplateEditor] = useState(false)
   const [additionalManagerComments, setAdditionalManagerComments] = useState<string>('')
+  const [goals, setGoals] = useState('')
+  const [includePriorReview, setIncludePriorReview] = useState(true)
+  const generationAbortRef = useRef<AbortController | null>(null)
+  const [generationInfo, setGenerationInfo] = useState<Pick<LLMResponse, 'source' | 'provider' | 'model' | 'fallbackReason' | 'prompt' | 'priorReview' | 'redacted'> | null>(null)
+  const [appraisalId, setAppraisalId] = useState<string | null>(null)
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle')
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null)
+  const [savedAppraisals, setSavedAppraisals] = useState<AppraisalSummary[]>([])
+  const [selectedAppraisalId, setSelectedAppraisalId] = useState('')
+  const [exportingFormat, setExportingFormat] = useState<'pdf' | 'docx' | null>(null)
+  const [editingSection, setEditingSection] = useState<FeedbackSectionKey | null>(null)
+  const [feedbackRevisions, setFeedbackRevisions] = useState<FeedbackRevision[]>([])
+  const [instructionSection, setInstructionSection] = useState<FeedbackSectionKey | null>(null)
+  const [sectionInstruction, setSectionInstruction] = useState('')
+  const [regeneratingSection, setRegeneratingSection] = useState<FeedbackSectionKey | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [diffRevisionId, setDiffRevisionId] = useState<string | null>(null)
+  const [refinementMessages, setRefinementMessages] = useState<RefinementMessage[]>([])
+  const [refineInput, setRefineInput] = useState('')
+  const [isRefining, setIsRefining] = useState(false)
+  const [assistedLint, setAssistedLint] = useState<Pick<LintResponse, 'issues' | 'provider' | 'model'> | null>(null)
+  const [isCheckingLanguage, setIsCheckingLanguage] = useState(false)
+  const lastSavedSnapshotRef = useRef('')
+  const saveInFlightRef = useRef(false)
+  const [libraryTemplates, setLibraryTemplates] = useState<TemplateRecord[]>([])
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplateRecord[]>([])
 
-  // Initialize ratings when template changes
+  // The middleware only checks that a session cookie is present; an expired one lands here
   useEffect(() => {
-    const initialRatings: AppraisalRating[] = template.categories.map(category => ({
-      categoryId: category.id,
-      score: 0,
-      comments: ''
-    }))
-    setRatings(initialRatings)
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then((data: SessionResponse) => {
+        if (data.user) {
+          const signedIn = data.user
+          setUser(signedIn)
+          setReviewerName(prev => prev || signedIn.name)
+        } else {
+          window.location.href = '/login?returnTo=/'
+        }
+      })
+      .catch(error => console.error('Error loading session:', error))
+  }, [])
+
+  // Initialize ratings when template changes, keeping scores for categories that still exist
+  useEffect(() => {
+    setRatings(prev => template.categories.map(category =>
+      prev.find(r => r.categoryId === category.id) || {
+        categoryId: category.id,
+        score: 0,
+        comments: ''
+      }
+    ))
+    setSelfRatings(prev => prev.filter(rating => template.categories.some(category => category.id === rating.categoryId)))
   }, [template])
 
   // Update overall score when ratings change
@@ -94,20 +134,21 @@ export default function AppraisalPage() {
     ))
   }
 
-  // Calculate overall score
-  const calculateOverallScore = (newRatings: AppraisalRating[]) => {
-    let totalWeightedScore = 0
-    let totalWeight = 0
-
-    newRatings.forEach(rating => {
-      const category = template.categories.find(c => c.id === rating.categoryId)
-      if (category) {
-        totalWeightedScore += rating.score * category.weight
-        totalWeight += category.weight
-      }
+  // Update the employee's own rating for a category
+  // A cleared score removes the category from the employee's self-ratings
+  const updateSelfRating = (categoryId: string, score: number | null, comments: string) => {
+    setSelfRatings(prev => {
+      const others = prev.filter(rating => rating.categoryId !== categoryId)
+      if (score === null) return others
+      return template.categories
+        .filter(category => category.id === categoryId || others.some(rating => rating.categoryId === category.id))
+        .map(category => others.filter(rating => rating.categoryId === category.id)[0] || { categoryId, score, comments })
     })
+  }
 
-    const overall = totalWeight > 0 ? totalWeightedScore / totalWeight : 0
+  // Calculate overall score
+  const calculateOverallScore = (newRatings: AppraisalRating[]) => {
+    const overall = computeOverallScore(template.categories, newRatings)
     setOverallScore(overall)
     return overall
   }
@@ -119,6 +160,405 @@ export default function AppraisalPage() {
     }
   }, [ratings, template.categories])
 
+  // Submitted reviews are read-only here; the server refuses edits to them too
+  const locked = isLocked(appraisalStatus)
+  // Matches actingRole on the server: on their own review everyone is the employee
+  const actingRole = user && employeeId && employeeId === user.employeeId ? 'employee' : user?.role
+  const transitions = actingRole ? availableTransitions(appraisalStatus, actingRole) : []
+  const noteTransition = transitions.filter(transition => transition.noteLabel)[0]
+
+  // The full record as stored by /api/appraisals
+  const buildAppraisalData = (): AppraisalData => ({
+    employeeName,
+    employeeId,
+    reviewerName,
+    reviewDate,
+    reviewPeriod,
+    employeeGender,
+    language,
+    template,
+    ratings,
+    selfAssessment: includeSelfAssessment ? [{ selfAssessment, ratings: selfRatings }] : undefined,
+    gapThreshold,
+    additionalManagerComments,
+    goals,
+    includePriorReview,
+    overallScore,
+    generatedFeedback,
+    feedbackRevisions,
+    refinementMessages
+  })
+
+  const refreshSavedAppraisals = async () => {
+    try {
+      const response = await fetch('/api/appraisals')
+      const data: AppraisalListResponse = await response.json()
+      if (data.success) {
+        setSavedAppraisals(data.appraisals)
+      }
+    } catch (error) {
+      console.error('Error loading saved appraisals:', error)
+    }
+  }
+
+  const refreshLibraryTemplates = async () => {
+    try {
+      const response = await fetch('/api/templates')
+      const data: TemplateListResponse = await response.json()
+      if (data.success) {
+        setLibraryTemplates(data.templates)
+      }
+    } catch (error) {
+      console.error('Error loading template library:', error)
+    }
+  }
+
+  const refreshPromptTemplates = async () => {
+    try {
+      const response = await fetch('/api/prompt-templates')
+      const data: PromptTemplateListResponse = await response.json()
+      if (data.success) {
+        setPromptTemplates(data.promptTemplates)
+      }
+    } catch (error) {
+      console.error('Error loading prompt templates:', error)
+    }
+  }
+
+  useEffect(() => {
+    refreshSavedAppraisals()
+    refreshLibraryTemplates()
+    refreshPromptTemplates()
+  }, [])
+
+  // Library record the current template was taken from, if any
+  const libraryTemplate = libraryTemplates.find(t => t.id === template.id)
+  const isTemplateModified = !libraryTemplate || libraryTemplate.version !== template.version ||
+    JSON.stringify([libraryTemplate.name, libraryTemplate.description, libraryTemplate.categories, libraryTemplate.promptTemplateId || '']) !==
+    JSON.stringify([template.name, template.description, template.categories, template.promptTemplateId || ''])
+
+  const applyLibraryTemplate = (record: TemplateRecord) => {
+    setTemplate({
+      id: record.id,
+      name: record.name,
+      description: record.description,
+      categories: record.categories,
+      version: record.version,
+      promptTemplateId: record.promptTemplateId
+    })
+  }
+
+  const selectTemplate = (id: string) => {
+    const record = libraryTemplates.find(t => t.id === id)
+    if (record) {
+      applyLibraryTemplate(record)
+    }
+  }
+
+  // Save editor changes as the next version of the library template
+  const saveTemplateVersion = async () => {
+    try {
+      const response = await fetch(`/api/templates/${template.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: template.name, description: template.description, categories: template.categories, promptTemplateId: template.promptTemplateId }),
+      })
+      const data: TemplateResponse = await response.json()
+      if (data.success && data.template) {
+        applyLibraryTemplate(data.template)
+        refreshLibraryTemplates()
+      } else {
+        const details = (data.errors || []).map(issue => `\n- ${issue.path || 'request'}: ${issue.message}`).join('')
+        alert('Error saving template: ' + (data.error || 'Unknown error') + details)
+      }
+    } catch (error) {
+      console.error('Error:', error)
+      alert('Error saving template')
+    }
+  }
+
+  // Save the editor contents as a brand new library template
+  const saveAsNewTemplate = async () => {
+    try {
+      const response = await fetch('/api/templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: template.name, description: template.description, categories: template.categories, promptTemplateId: template.promptTemplateId }),
+      })
+      const data: TemplateResponse = await response.json()
+      if (data.success && data.template) {
+        applyLibraryTemplate(data.template)
+        refreshLibraryTemplates()
+      } else {
+        const details = (data.errors || []).map(issue => `\n- ${issue.path || 'request'}: ${issue.message}`).join('')
+        alert('Error creating template: ' + (data.error || 'Unknown error') + details)
+      }
+    } catch (error) {
+      console.error('Error:', error)
+      alert('Error creating template')
+    }
+  }
+
+  const cloneSelectedTemplate = async () => {
+    try {
+      const response = await fetch(`/api/templates/${template.id}/clone`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ version: template.version }),
+      })
+      const data: TemplateResponse = await response.json()
+      if (data.success && data.template) {
+        applyLibraryTemplate(data.template)
+        refreshLibraryTemplates()
+        setShowTemplateEditor(true)
+      } else {
+        const details = (data.errors || []).map(issue => `\n- ${issue.path || 'request'}: ${issue.message}`).join('')
+        alert('Error cloning template: ' + (data.error || 'Unknown error') + details)
+      }
+    } catch (error) {
+      console.error('Error:', error)
+      alert('Error cloning template')
+    }
+  }
+
+  // Save the current form as a draft: create on first save, update afterwards
+  const saveDraft = async () => {
+    const appraisal = buildAppraisalData()
+    const snapshot = JSON.stringify(appraisal)
+    if (snapshot === lastSavedSnapshotRef.current || saveInFlightRef.current) return
+
+    saveInFlightRef.current = true
+    setSaveStatus('saving')
+    try {
+      const response = await fetch(appraisalId ? `/api/appraisals/${appraisalId}` : '/api/appraisals', {
+        method: appraisalId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: snapshot,
+      })
+
+      const data: AppraisalResponse = await response.json()
+      if (data.success && data.appraisal) {
+        lastSavedSnapshotRef.current = snapshot
+        setLastSavedAt(data.appraisal.updatedAt)
+        setSaveStatus('saved')
+        if (!appraisalId) {
+          setAppraisalId(data.appraisal.id)
+          refreshSavedAppraisals()
+        }
+      } else {
+        setSaveStatus(response.status === 409 ? 'conflict' : 'error')
+      }
+    } catch (error) {
+      console.error('Error saving draft:', error)
+      setSaveStatus('error')
+    } finally {
+      saveInFlightRef.current = false
+    }
+  }
+
+  // Autosave once the form has been idle for a moment
+  useEffect(() => {
+    if (!employeeId || !reviewPeriod || isGenerating || locked) return
+
+    const timer = setTimeout(saveDraft, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [locked, employeeName, employeeId, reviewerName, reviewDate, reviewPeriod, employeeGender, language, template, ratings, selfAssessment, selfRatings, gapThreshold, includeSelfAssessment, additionalManagerComments, goals, includePriorReview, generatedFeedback, feedbackRevisions, refinementMessages, isGenerating, appraisalId])
+
+  const loadAppraisal = async (id: string) => {
+    try {
+      const response = await fetch(`/api/appraisals/${id}`)
+      const data: AppraisalResponse = await response.json()
+      if (!data.success || !data.appraisal) {
+        alert('Error loading appraisal: ' + (data.error || 'Unknown error'))
+        return
+      }
+
+      const appraisal = data.appraisal
+      const savedSelfAssessment = appraisal.selfAssessment?.[0]?.selfAssessment || ''
+      setAppraisalId(appraisal.id)
+      setEmployeeName(appraisal.employeeName)
+      setEmployeeId(appraisal.employeeId)
+      setReviewerName(appraisal.reviewerName)
+      setReviewDate(appraisal.reviewDate || today())
+      setReviewPeriod(appraisal.reviewPeriod)
+      setEmployeeGender(appraisal.employeeGender)
+      setLanguage(appraisal.language || DEFAULT_LANGUAGE)
+      setTemplate(appraisal.template)
+      setRatings(appraisal.ratings)
+      setIncludeSelfAssessment(!!appraisal.selfAssessment)
+      setSelfAssessment(savedSelfAssessment)
+      setSelfRatings(appraisal.selfAssessment?.[0]?.ratings || [])
+      setGapThreshold(appraisal.gapThreshold ?? DEFAULT_GAP_THRESHOLD)
+      setEmployeeSubmission(appraisal.employeeSubmission || null)
+      setAppraisalStatus(statusOf(appraisal))
+      setStatusHistory(appraisal.statusHistory || [])
+      setCalibrationAdjustments(appraisal.calibrationAdjustments || [])
+      setStatusNote('')
+      loadSelfAssessmentLink(appraisal.id)
+      setAdditionalManagerComments(appraisal.additionalManagerComments || '')
+      setGoals(appraisal.goals || '')
+      setIncludePriorReview(appraisal.includePriorReview !== false)
+      setGeneratedFeedback(appraisal.generatedFeedback || '')
+      setFeedbackRevisions(appraisal.feedbackRevisions || [])
+      setRefinementMessages(appraisal.refinementMessages || [])
+      setAssistedLint(null)
+      setEditingSection(null)
+      setGenerationInfo(null)
+      setLastSavedAt(appraisal.updatedAt)
+      setSaveStatus('saved')
+    } catch (error) {
+      console.error('Error:', error)
+      alert('Error loading appraisal')
+    }
+  }
+
+  const loadSelfAssessmentLink = async (id: string) => {
+    try {
+      const response = await fetch(`/api/appraisals/${id}/self-assessment-link`)
+      const data: SelfAssessmentLinkResponse = await response.json()
+      setSelfAssessmentLink(data.success ? data.link || null : null)
+    } catch (error) {
+      console.error('Error loading self-assessment link:', error)
+    }
+  }
+
+  const createSelfAssessmentLink = async () => {
+    if (!appraisalId) return
+    if (selfAssessmentLink?.status === 'open' && !confirm('Create a new link? The current one will stop working.')) return
+
+    setIsCreatingLink(true)
+    try {
+      const response = await fetch(`/api/appraisals/${appraisalId}/self-assessment-link`, { method: 'POST' })
+      const data: SelfAssessmentLinkResponse = await response.json()
+      if (data.success && data.link) {
+        setSelfAssessmentLink(data.link)
+      } else {
+        alert('Error creating link: ' + (data.error || 'Unknown error'))
+      }
+    } catch (error) {
+      console.error('Error creating self-assessment link:', error)
+      alert('Error creating link')
+    } finally {
+      setIsCreatingLink(false)
+    }
+  }
+
+  // The employee submits on their own schedule, so the manager checks for it on demand
+  const refreshEmployeeSubmission = async () => {
+    if (!appraisalId) return
+    try {
+      const response = await fetch(`/api/appraisals/${appraisalId}`)
+      const data: AppraisalResponse = await response.json()
+      if (data.success && data.appraisal) {
+        setEmployeeSubmission(data.appraisal.employeeSubmission || null)
+      }
+      await loadSelfAssessmentLink(appraisalId)
+    } catch (error) {
+      console.error('Error checking for a submission:', error)
+    }
+  }
+
+  // Copies the locked submission into the editable self-assessment used for generation
+  const useEmployeeSubmission = () => {
+    if (!employeeSubmission) return
+    if ((selfAssessment.trim() || selfRatings.length > 0) && !confirm('Replace the current self-assessment with the employee\'s submission?')) return
+    setIncludeSelfAssessment(true)
+    setSelfAssessment(employeeSubmission.selfAssessment)
+    setSelfRatings(employeeSubmission.ratings.filter(rating => template.categories.some(category => category.id === rating.categoryId)))
+  }
+
+  const selfAssessmentUrl = selfAssessmentLink && typeof window !== 'undefined'
+    ? `${window.location.origin}/self-assessment/${selfAssessmentLink.token}`
+    : ''
+
+  const signOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+    } catch (error) {
+      console.error('Error signing out:', error)
+    }
+    window.location.href = '/login'
+  }
+
+  const changeStatus = async (to: AppraisalStatus) => {
+    if (!appraisalId) return
+    if (to === 'manager-submitted' && !confirm('Submit the review? It can no longer be edited unless HR returns it.')) return
+
+    setIsChangingStatus(true)
+    try {
+      // Flush pending edits first so the submitted review is exactly what is on screen
+      if (!locked) await saveDraft()
+
+      const response = await fetch(`/api/appraisals/${appraisalId}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ to, note: statusNote })
+      })
+      const data: AppraisalResponse = await response.json()
+
+      if (data.success && data.appraisal) {
+        setAppraisalStatus(statusOf(data.appraisal))
+        setStatusHistory(data.appraisal.statusHistory || [])
+        setCalibrationAdjustments(data.appraisal.calibrationAdjustments || [])
+        setLastSavedAt(data.appraisal.updatedAt)
+        setStatusNote('')
+        refreshSavedAppraisals()
+      } else {
+        const details = (data.errors || []).map(issue => `${issue.path} ${issue.message}`).join('\n')
+        alert((data.error || 'The status could not be changed') + (details ? '\n\n' + details : ''))
+      }
+    } catch (error) {
+      console.error('Error changing status:', error)
+      alert('Error changing status')
+    } finally {
+      setIsChangingStatus(false)
+    }
+  }
+
+  const startNewAppraisal = () => {
+    setAppraisalId(null)
+    setSelectedAppraisalId('')
+    setEmployeeName('')
+    setEmployeeId('')
+    setReviewerName('')
+    setReviewDate(today())
+    setReviewPeriod(String(new Date().getFullYear()))
+    setEmployeeGender('prefer-not-to-say')
+    setLanguage(DEFAULT_LANGUAGE)
+    setTemplate(defaultTemplate)
+    setRatings(defaultTemplate.categories.map(category => ({ categoryId: category.id, score: 0, comments: '' })))
+    setIncludeSelfAssessment(false)
+    setSelfAssessment('')
+    setSelfRatings([])
+    setGapThreshold(DEFAULT_GAP_THRESHOLD)
+    setEmployeeSubmission(null)
+    setSelfAssessmentLink(null)
+    setAppraisalStatus('draft')
+    setStatusHistory([])
+    setCalibrationAdjustments([])
+    setStatusNote('')
+    setAdditionalManagerComments('')
+    setGoals('')
+    setIncludePriorReview(true)
+    setGeneratedFeedback('')
+    setFeedbackRevisions([])
+    setRefinementMessages([])
+    setAssistedLint(null)
+    setEditingSection(null)
+    setGenerationInfo(null)
+    setLastSavedAt(null)
+    setSaveStatus('idle')
+    lastSavedSnapshotRef.current = ''
+  }
+
   // Generate feedback using LLM
   const generateFeedback = async () => {
     if (!employeeName || !employeeId || !reviewerName) {
@@ -126,34 +566,353 @@ export default function AppraisalPage() {
       return
     }
 
+    const abortController = new AbortController()
+    generationAbortRef.current = abortController
+    setIsGenerating(true)
+    setAssistedLint(null)
+    setGeneratedFeedback('')
+    setEditingSection(null)
+    setGenerationInfo(null)
+
     try {
-      const response = await fetch('/api/generate-feedback', {
+      const response = await fetch('/api/generate-feedback?stream=true', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          employeeName,
-          employeeId,
-          reviewerName,
-          employeeGender,
-          template,
-          ratings,
-          selfAssessment: includeSelfAssessment ? selfAssessment : undefined,
-          additionalManagerComments,
-          overallScore
-        }),
+        body: JSON.stringify(buildAppraisalData()),
+        signal: abortController.signal
       })
 
-      const data = await response.json()
+      if (!response.ok || !response.body) {
+        const data: LLMResponse = await response.json()
+        const details = (data.errors || []).map(issue => `\n- ${issue.path || 'request'}: ${issue.message}`).join('')
+        alert('Error generating feedback: ' + (data.error || 'Unknown error') + details)
+        return
+      }
+
+      // Render the sections as tokens arrive
+      await readSSE(response.body, event => {
+        const payload = JSON.parse(event.data)
+        if (event.event === 'sections') {
+          setGeneratedFeedback(composeFeedback(payload.sections, '', language))
+        } else if (event.event === 'done') {
+          setGeneratedFeedback(payload.feedback)
+          recordRevision(payload.feedback, { kind: 'generated', source: payload.source, provider: payload.provider, model: payload.model, prompt: payload.prompt, priorReview: payload.priorReview?.appraisalId })
+          setGenerationInfo({ source: payload.source, provider: payload.provider, model: payload.model, fallbackReason: payload.fallbackReason, prompt: payload.prompt, priorReview: payload.priorReview, redacted: payload.redacted })
+        } else if (event.event === 'error') {
+          alert('Error generating feedback: ' + (payload.error || 'Unknown error'))
+        }
+      })
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        console.error('Error:', error)
+        alert('Error generating feedback')
+      }
+    } finally {
+      generationAbortRef.current = null
+      setIsGenerating(false)
+    }
+  }
+
+  // Shows what Generate Feedback would send to each provider, after redaction
+  const previewRequest = async () => {
+    setIsPreviewing(true)
+    try {
+      const response = await fetch('/api/generate-feedback/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(buildAppraisalData())
+      })
+      const data: RequestPreviewResponse = await response.json()
       if (data.success) {
-        setGeneratedFeedback(data.feedback)
+        setRequestPreview(data.previews)
       } else {
-        alert('Error generating feedback: ' + (data.error || 'Unknown error'))
+        const details = (data.errors || []).map(issue => `\n- ${issue.path || 'request'}: ${issue.message}`).join('')
+        alert('The request could not be previewed: ' + (data.error || 'Unknown error') + details)
       }
     } catch (error) {
-      console.error('Error:', error)
-      alert('Error generating feedback')
+      console.error('Error previewing request:', error)
+      alert('The request could not be previewed')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  // Cancel an in-flight generation; the route aborts the upstream LLM request
+  const cancelGeneration = () => {
+    generationAbortRef.current?.abort()
+  }
+
+  const parsedFeedback = splitFeedbackSections(generatedFeedback)
+
+  // The saved review the server will summarize for continuity, picked by the same rule it uses
+  const priorCandidate = previousCycle(
+    savedAppraisals.filter(summary => summary.employeeId === employeeId && summary.hasFeedback && summary.id !== appraisalId),
+    { reviewPeriod, reviewDate }
+  )
+
+  // Sections are edited one at a time; the feedback text is rebuilt around the edit
+  const updateSection = (key: FeedbackSectionKey, text: string) => {
+    setGeneratedFeedback(composeFeedback({ ...parsedFeedback.sections, [key]: text }, parsedFeedback.preamble, language))
+  }
+
+  // Every change to the feedback is kept as a full snapshot; unchanged text is not recorded twice
+  const recordRevision = (feedback: string, details: Omit<FeedbackRevision, 'id' | 'createdAt' | 'feedback'>) => {
+    const id = `revision-${Date.now()}`
+    setFeedbackRevisions(prev => {
+      if (prev.length > 0 && prev[prev.length - 1].feedback === feedback && details.kind !== 'reverted') {
+        return prev
+      }
+      return [...prev, { id, createdAt: new Date().toISOString(), feedback, ...details }]
+    })
+    return id
+  }
+
+  // Leaving a section editor records the edit as one revision
+  const toggleEditing = (key: FeedbackSectionKey) => {
+    if (editingSection) {
+      recordRevision(generatedFeedback, { kind: 'edited', section: editingSection })
+    }
+    setEditingSection(editingSection === key ? null : key)
+  }
+
+  const regenerateSection = async (key: FeedbackSectionKey) => {
+    setRegeneratingSection(key)
+    try {
+      const response = await fetch('/api/generate-feedback/section', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ appraisal: buildAppraisalData(), section: key, instruction: sectionInstruction })
+      })
+      const data: SectionResponse = await response.json()
+
+      if (!data.success) {
+        const details = (data.errors || []).map(issue => `\n- ${issue.path || 'request'}: ${issue.message}`).join('')
+        alert('Error regenerating section: ' + (data.error || 'Unknown error') + details)
+        return
+      }
+
+      const feedback = composeFeedback({ ...parsedFeedback.sections, [key]: data.text }, parsedFeedback.preamble, language)
+      setGeneratedFeedback(feedback)
+      recordRevision(feedback, {
+        kind: 'regenerated',
+        section: key,
+        instruction: sectionInstruction.trim() || undefined,
+        source: data.source,
+        provider: data.provider,
+        model: data.model,
+        prompt: data.prompt
+      })
+      setGenerationInfo({ source: data.source, provider: data.provider, model: data.model, fallbackReason: data.fallbackReason, prompt: data.prompt })
+      setInstructionSection(null)
+      setSectionInstruction('')
+    } catch (error) {
+      console.error('Error regenerating section:', error)
+      alert('Error regenerating section')
+    } finally {
+      setRegeneratingSection(null)
+    }
+  }
+
+  // One chat turn: the reply is always shown, the draft only changes when the model revised it
+  const sendRefinement = async () => {
+    const message = refineInput.trim()
+    if (!message) return
+
+    const userMessage: RefinementMessage = { role: 'user', content: message, createdAt: new Date().toISOString() }
+    setIsRefining(true)
+    setEditingSection(null)
+    try {
+      const response = await fetch('/api/generate-feedback/refine', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ appraisal: buildAppraisalData(), message })
+      })
+      const data: RefineResponse = await response.json()
+
+      if (!data.success) {
+        const details = (data.errors || []).map(issue => `\n- ${issue.path || 'request'}: ${issue.message}`).join('')
+        alert('Error refining feedback: ' + (data.error || 'Unknown error') + details)
+        return
+      }
+
+      const reply: RefinementMessage = { role: 'assistant', content: data.reply, createdAt: new Date().toISOString() }
+      if (data.feedback) {
+        setGeneratedFeedback(data.feedback)
+        reply.revisionId = recordRevision(data.feedback, {
+          kind: 'refined',
+          instruction: message,
+          source: data.source,
+          provider: data.provider,
+          model: data.model,
+          prompt: data.prompt
+        })
+        setGenerationInfo({ source: data.source, provider: data.provider, model: data.model, fallbackReason: data.fallbackReason, prompt: data.prompt })
+      }
+      // A failed turn is shown but not kept, so it is not sent back as history
+      setRefinementMessages(prev => data.source === 'mock' ? prev : [...prev, userMessage, reply])
+      if (data.source === 'mock') {
+        alert(data.reply + (data.fallbackReason ? `\n\n${data.fallbackReason}` : ''))
+        return
+      }
+      setRefineInput('')
+    } catch (error) {
+      console.error('Error refining feedback:', error)
+      alert('Error refining feedback')
+    } finally {
+      setIsRefining(false)
+    }
+  }
+
+  // The rules rerun on every change; the model's issues follow their quoted text until it is edited away
+  const lintIssues = isGenerating ? [] : withoutOverlaps(
+    lintFeedback(generatedFeedback, employeeGender, language)
+      .concat(relocateIssues(assistedLint ? assistedLint.issues.filter(issue => issue.source === 'llm') : [], generatedFeedback))
+  )
+
+  const selfRatingGapRows = includeSelfAssessment ? selfRatingGaps({ template, ratings, selfAssessment: [{ selfAssessment, ratings: selfRatings }], gapThreshold }) : []
+
+  const consistencyWarnings = isGenerating || !generatedFeedback ? [] : checkConsistency({ generatedFeedback, template, ratings, language })
+
+  // Scores HR changed after the feedback was last written; regenerating or editing it clears them
+  const lastFeedbackAt = feedbackRevisions.length > 0 ? feedbackRevisions[feedbackRevisions.length - 1].createdAt : ''
+  const staleAdjustments = isGenerating || !generatedFeedback ? [] : calibrationAdjustments.filter(adjustment => adjustment.feedbackStale && adjustment.at > lastFeedbackAt)
+
+  const checkLanguageWithModel = async () => {
+    setIsCheckingLanguage(true)
+    try {
+      const response = await fetch('/api/generate-feedback/lint', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ appraisal: buildAppraisalData(), assisted: true })
+      })
+      const data: LintResponse = await response.json()
+
+      if (!data.success) {
+        const details = (data.errors || []).map(issue => `\n- ${issue.path || 'request'}: ${issue.message}`).join('')
+        alert('Error checking the feedback: ' + (data.error || 'Unknown error') + details)
+        return
+      }
+      if (data.fallbackReason) {
+        alert('The AI check could not run, so only the built-in rules were applied: ' + data.fallbackReason)
+        return
+      }
+      setAssistedLint({ issues: data.issues, provider: data.provider, model: data.model })
+    } catch (error) {
+      console.error('Error checking feedback language:', error)
+      alert('Error checking the feedback')
+    } finally {
+      setIsCheckingLanguage(false)
+    }
+  }
+
+  // Sections the feedback does not include stay out, so no empty headings are added
+  const applyLintSuggestion = (issue: LintIssue) => {
+    const sections: Partial<FeedbackSections> = {}
+    FEEDBACK_SECTIONS.filter(section => parsedFeedback.sections[section.key]).forEach(section => {
+      const text = parsedFeedback.sections[section.key]
+      sections[section.key] = issue.section === section.key ? applySuggestion(text, issue) : text
+    })
+    const preamble = issue.section === 'preamble' ? applySuggestion(parsedFeedback.preamble, issue) : parsedFeedback.preamble
+    const feedback = composeFeedback(sections, preamble, language)
+    setGeneratedFeedback(feedback)
+    recordRevision(feedback, {
+      kind: 'edited',
+      section: issue.section === 'preamble' ? undefined : issue.section,
+      instruction: `replaced "${issue.text}" with "${issue.suggestion}"`
+    })
+  }
+
+  // Section text with flagged phrases highlighted, followed by the list of issues and their fixes
+  const renderLinted = (section: string, text: string) => {
+    const issues = lintIssues.filter(issue => issue.section === section)
+    return (
+      <>
+        {lintSegments(text, issues).map((segment, index) => segment.issue ? (
+          <mark
+            key={index}
+            title={segment.issue.message}
+            className={`rounded px-0.5 underline decoration-wavy ${segment.issue.source === 'llm' ? 'bg-violet-100 decoration-violet-500' : 'bg-amber-100 decoration-amber-500'}`}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ))}
+        {issues.length > 0 && (
+          <div className="mt-3 space-y-1 whitespace-normal">
+            {issues.map(issue => (
+              <div key={issue.id} className="flex items-start justify-between text-xs text-gray-700">
+                <span>
+                  <span className="font-medium">{LINT_CATEGORIES.filter(category => category.value === issue.category)[0]?.label}{issue.source === 'llm' ? ' (AI)' : ''}:</span>{' '}
+                  &quot;{issue.text}&quot; - {issue.message}
+                </span>
+                {issue.suggestion && !locked && (
+                  <Button onClick={() => applyLintSuggestion(issue)} variant="ghost" size="sm" className="h-6 px-2 text-xs shrink-0">
+                    Use &quot;{issue.suggestion}&quot;
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </>
+    )
+  }
+
+  const revertToRevision = (revision: FeedbackRevision) => {
+    setEditingSection(null)
+    setGeneratedFeedback(revision.feedback)
+    recordRevision(revision.feedback, { kind: 'reverted', revertedTo: revision.id })
+  }
+
+  const revisionLabel = (revision: FeedbackRevision) => {
+    const sectionTitle = FEEDBACK_SECTIONS.filter(section => section.key === revision.section)[0]?.title
+    switch (revision.kind) {
+      case 'generated':
+        return 'Generated'
+      case 'regenerated':
+        return `Regenerated ${sectionTitle}${revision.instruction ? ` ("${revision.instruction}")` : ''}`
+      case 'edited':
+        return `Edited ${sectionTitle || 'introduction'}${revision.instruction ? ` (${revision.instruction})` : ''}`
+      case 'reverted':
+        return `Reverted to #${feedbackRevisions.findIndex(r => r.id === revision.revertedTo) + 1}`
+      case 'refined':
+        return `Refined ("${revision.instruction}")`
+    }
+  }
+
+  // Formatted documents are rendered by /api/export; the file name comes from Content-Disposition
+  const exportDocument = async (format: 'pdf' | 'docx') => {
+    setExportingFormat(format)
+    try {
+      const response = await fetch(`/api/export?format=${format}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(buildAppraisalData())
+      })
+
+      if (!response.ok) {
+        const data: ExportErrorResponse = await response.json()
+        const details = data.errors?.map(issue => `${issue.path}: ${issue.message}`).join('\n')
+        alert(`Export failed: ${data.error}${details ? `\n${details}` : ''}`)
+        return
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `appraisal.${format}`
+      const url = URL.createObjectURL(await response.blob())
+      const a = document.createElement('a')
+      a.href = url
+      a.download = fileName
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Error exporting appraisal:', error)
+      alert('Export failed. Please try again.')
+    } finally {
+      setExportingFormat(null)
     }
   }
 
@@ -196,235 +955,457 @@ export default function AppraisalPage() {
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="container mx-auto px-4 max-w-6xl">
         <div className="mb-8">
+          {user && (
+            <div className="flex items-center justify-end space-x-4 text-sm text-gray-600 mb-2">
+              <span>Signed in as {user.name} ({roleLabel(user.role)})</span>
+              {user.role === 'hr-admin' && (
+                <Link href="/users" className="inline-flex items-center text-blue-600 hover:underline">
+                  <Users className="w-4 h-4 mr-1" />
+                  Users
+                </Link>
+              )}
+              {user.role === 'hr-admin' && (
+                <Link href="/audit-log" className="inline-flex items-center text-blue-600 hover:underline">
+                  <History className="w-4 h-4 mr-1" />
+                  Audit log
+                </Link>
+              )}
+              <Button onClick={signOut} size="sm" variant="outline">
+                <LogOut className="w-4 h-4 mr-1" />
+                Sign out
+              </Button>
+            </div>
+          )}
           <h1 className="text-4xl font-bold text-gray-900 mb-2">
             Appraisal Feedback Generator
           </h1>
           <p className="text-gray-600">
             Generate comprehensive appraisal feedback for team members with customizable templates
           </p>
+          <Link href="/bulk" className="inline-flex items-center text-sm text-blue-600 hover:underline mt-2">
+            <Users className="w-4 h-4 mr-1" />
+            Generate several reviews at once from a CSV or JSON file
+          </Link>
+          <Link href="/calibration" className="inline-flex items-center text-sm text-blue-600 hover:underline mt-2 ml-6">
+            <BarChart3 className="w-4 h-4 mr-1" />
+            Calibrate a review period
+          </Link>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Left Column - Input Form */}
           <div className="space-y-6">
-            {/* Basic Information */}
+            {/* Saved Appraisals */}
             <Card>
               <CardHeader>
-                <CardTitle>Basic Information</CardTitle>
+                <CardTitle className="flex items-center">
+                  <FolderOpen className="w-5 h-5 mr-2" />
+                  Saved Appraisals
+                </CardTitle>
                 <CardDescription>
-                  Enter employee and reviewer details
+                  Drafts are saved automatically once an employee ID and review period are set
                 </CardDescription>
               </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Employee Name *
-                  </label>
-                  <input
-                    type="text"
-                    value={employeeName}
-                    onChange={(e) => setEmployeeName(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder="Enter employee name"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Employee ID
-                  </label>
-                  <input
-                    type="text"
-                    value={employeeId}
-                    onChange={(e) => setEmployeeId(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder="Enter employee ID"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Employee Gender
-                  </label>
+              <CardContent className="space-y-3">
+                <div className="flex items-center space-x-2">
                   <select
-                    value={employeeGender}
-                    onChange={(e) => setEmployeeGender(e.target.value as 'male' | 'female' | 'other' | 'prefer-not-to-say')}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    value={selectedAppraisalId}
+                    onChange={(e) => setSelectedAppraisalId(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
-                    <option value="prefer-not-to-say">Prefer not to say</option>
-                    <option value="male">Male</option>
-                    <option value="female">Female</option>
-                    <option value="other">Other</option>
+                    <option value="">Load existing appraisal...</option>
+                    {savedAppraisals.map(summary => (
+                      <option key={summary.id} value={summary.id}>
+                        {summary.employeeName || 'Unnamed'} ({summary.employeeId}) - {summary.reviewPeriod}{summary.status !== 'draft' ? ` [${statusLabel(summary.status)}]` : summary.hasFeedback ? '' : ' [draft]'}
+                      </option>
+                    ))}
                   </select>
-                  <p className="text-xs text-gray-500 mt-1">
-                    This helps generate more personalized feedback with appropriate pronouns
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Reviewer Name *
-                  </label>
-                  <input
-                    type="text"
-                    value={reviewerName}
-                    onChange={(e) => setReviewerName(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder="Enter reviewer name"
-                  />
+                  <Button
+                    onClick={() => loadAppraisal(selectedAppraisalId)}
+                    disabled={!selectedAppraisalId}
+                    variant="outline"
+                    size="sm"
+                  >
+                    Load
+                  </Button>
+                  <Button onClick={startNewAppraisal} variant="outline" size="sm">
+                    <FilePlus className="w-4 h-4 mr-1" />
+                    New
+                  </Button>
                 </div>
+                <p className="text-xs text-gray-500">
+                  {saveStatus === 'saving' && 'Saving draft...'}
+                  {saveStatus === 'saved' && lastSavedAt && (locked ? `${statusLabel(appraisalStatus)} - read-only` : `Draft saved at ${new Date(lastSavedAt).toLocaleTimeString()}`)}
+                  {saveStatus === 'conflict' && 'An appraisal for this employee and review period already exists - load it above to continue editing it.'}
+                  {saveStatus === 'error' && 'Draft could not be saved. Changes are kept in this tab only.'}
+                  {saveStatus === 'idle' && 'Not saved yet'}
+                </p>
+                {appraisalId && employeeId && (
+                  <Link href={`/employees/${encodeURIComponent(employeeId)}`} className="inline-flex items-center text-sm text-blue-600 hover:underline">
+                    <History className="w-4 h-4 mr-1" />
+                    Review history for {employeeName || employeeId}
+                  </Link>
+                )}
               </CardContent>
             </Card>
 
-            {/* Template Management - Collapsible */}
-            <Card>
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-2">
-                    <Settings className="w-5 h-5 text-gray-600" />
-                    <div>
-                      <CardTitle>Evaluation Template</CardTitle>
-                      <CardDescription>
-                        Current template: {template.name} - {template.description}
-                      </CardDescription>
-                    </div>
+            {/* Review Status */}
+            {appraisalId && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <ShieldCheck className="w-5 h-5 mr-2" />
+                    Review Status
+                  </CardTitle>
+                  <CardDescription>
+                    Draft, submitted, calibrated by HR, shared and acknowledged. Only drafts can be edited.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-wrap gap-1">
+                    {APPRAISAL_STATUSES.map((status, index) => {
+                      const current = APPRAISAL_STATUSES.map(s => s.value).indexOf(appraisalStatus)
+                      return (
+                        <span
+                          key={status.value}
+                          className={`text-xs rounded-full px-2 py-1 ${index === current ? 'bg-blue-600 text-white' : index < current ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-500'}`}
+                        >
+                          {status.label}
+                        </span>
+                      )
+                    })}
                   </div>
-                  <Button 
-                    onClick={() => setShowTemplateEditor(!showTemplateEditor)}
-                    variant="outline"
-                    size="sm"
-                    className="flex items-center space-x-1"
-                  >
-                    {showTemplateEditor ? (
-                      <>
-                        <ChevronUp className="w-4 h-4" />
-                        <span>Hide Editor</span>
-                      </>
-                    ) : (
-                      <>
-                        <ChevronDown className="w-4 h-4" />
-                        <span>Customize Template</span>
-                      </>
-                    )}
-                  </Button>
-                </div>
-              </CardHeader>
-              {showTemplateEditor && (
+
+                  {statusHistory.length > 0 && (
+                    <ul className="text-xs text-gray-600 space-y-1">
+                      {statusHistory.map((change, index) => (
+                        <li key={index}>
+                          <span className="font-medium text-gray-800">{statusLabel(change.to)}</span>
+                          {' '}by {change.by} ({roleLabel(change.role)}), {new Date(change.at).toLocaleString()}
+                          {change.note && <div className="ml-3 italic whitespace-pre-wrap">&quot;{change.note}&quot;</div>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {noteTransition && (
+                    <Textarea
+                      value={statusNote}
+                      onChange={(e) => setStatusNote(e.target.value)}
+                      placeholder={noteTransition.noteLabel}
+                      className="min-h-[60px] text-sm"
+                    />
+                  )}
+                  {transitions.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {transitions.map(transition => (
+                        <Button
+                          key={transition.to}
+                          onClick={() => changeStatus(transition.to)}
+                          disabled={isChangingStatus || (transition.noteRequired && !statusNote.trim())}
+                          variant={transition.to === 'draft' ? 'outline' : 'default'}
+                          size="sm"
+                        >
+                          {transition.action}
+                        </Button>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500">
+                      {appraisalStatus === 'acknowledged' ? 'The review is complete.' : `Nothing for ${actingRole ? roleLabel(actingRole) : 'you'} to do at this stage.`}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <fieldset disabled={locked} className="space-y-6 min-w-0">
+              {/* Basic Information */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Basic Information</CardTitle>
+                  <CardDescription>
+                    Enter employee and reviewer details
+                  </CardDescription>
+                </CardHeader>
                 <CardContent className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <div className="flex-1">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Employee Name *
+                    </label>
+                    <input
+                      type="text"
+                      value={employeeName}
+                      onChange={(e) => setEmployeeName(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Enter employee name"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Employee ID
+                    </label>
+                    <input
+                      type="text"
+                      value={employeeId}
+                      onChange={(e) => setEmployeeId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Enter employee ID"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Employee Gender
+                    </label>
+                    <select
+                      value={employeeGender}
+                      onChange={(e) => setEmployeeGender(e.target.value as 'male' | 'female' | 'other' | 'prefer-not-to-say')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="prefer-not-to-say">Prefer not to say</option>
+                      <option value="male">Male</option>
+                      <option value="female">Female</option>
+                      <option value="other">Other</option>
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      This helps generate more personalized feedback with appropriate pronouns
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Review Language
+                    </label>
+                    <select
+                      value={language}
+                      onChange={(e) => setLanguage(e.target.value as FeedbackLanguage)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {FEEDBACK_LANGUAGES.map(option => (
+                        <option key={option.code} value={option.code}>{option.label}</option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      The generated review and its section headings are written in this language
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Reviewer Name *
+                    </label>
+                    <input
+                      type="text"
+                      value={reviewerName}
+                      onChange={(e) => setReviewerName(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Enter reviewer name"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
-                        Template Name
+                        Review Period
                       </label>
                       <input
                         type="text"
-                        value={template.name}
-                        onChange={(e) => setTemplate(prev => ({ ...prev, name: e.target.value }))}
+                        value={reviewPeriod}
+                        onChange={(e) => setReviewPeriod(e.target.value)}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        placeholder="Enter template name"
+                        placeholder="e.g. 2024 or 2024-H2"
                       />
                     </div>
-                    <Button onClick={addCategory} size="sm" className="ml-4">
-                      <Plus className="w-4 h-4 mr-2" />
-                      Add Category
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Review Date
+                      </label>
+                      <input
+                        type="date"
+                        value={reviewDate}
+                        onChange={(e) => setReviewDate(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Template Management - Collapsible */}
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Settings className="w-5 h-5 text-gray-600" />
+                      <div>
+                        <CardTitle>Evaluation Template</CardTitle>
+                        <CardDescription>
+                          Current template: {template.name}{template.version ? ` (v${template.version})` : ''} - {template.description}
+                          {isTemplateModified && ' - modified'}
+                        </CardDescription>
+                      </div>
+                    </div>
+                    <Button 
+                      onClick={() => setShowTemplateEditor(!showTemplateEditor)}
+                      variant="outline"
+                      size="sm"
+                      className="flex items-center space-x-1"
+                    >
+                      {showTemplateEditor ? (
+                        <>
+                          <ChevronUp className="w-4 h-4" />
+                          <span>Hide Editor</span>
+                        </>
+                      ) : (
+                        <>
+                          <ChevronDown className="w-4 h-4" />
+                          <span>Customize Template</span>
+                        </>
+                      )}
                     </Button>
                   </div>
-                  
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Template Description
-                    </label>
-                    <textarea
-                      value={template.description}
-                      onChange={(e) => setTemplate(prev => ({ ...prev, description: e.target.value }))}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      rows={2}
-                      placeholder="Describe the purpose and scope of this evaluation template"
-                    />
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={libraryTemplate ? template.id : ''}
+                      onChange={(e) => selectTemplate(e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {!libraryTemplate && <option value="">{template.name} (not in library)</option>}
+                      {libraryTemplates.map(record => (
+                        <option key={record.id} value={record.id}>
+                          {record.name} (v{record.version})
+                        </option>
+                      ))}
+                    </select>
+                    <Button onClick={cloneSelectedTemplate} disabled={!libraryTemplate} variant="outline" size="sm">
+                      <Copy className="w-4 h-4 mr-1" />
+                      Clone
+                    </Button>
                   </div>
-
-                  <div className="space-y-4">
-                    <h4 className="font-medium text-gray-900">Categories</h4>
-                    <p className="text-sm text-gray-600 mb-4">
-                      Define evaluation categories with clear descriptions. These descriptions will be used to generate more contextual and specific feedback.
+                  {libraryTemplate && template.version !== libraryTemplate.version && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      This appraisal uses v{template.version}; the library now has v{libraryTemplate.version}.
                     </p>
-                    {template.categories.map((category) => (
-                      <div key={category.id} className="border rounded-lg p-4 space-y-3">
-                        <div className="flex items-center justify-between">
-                          <input
-                            type="text"
-                            value={category.name}
-                            onChange={(e) => updateCategory(category.id, 'name', e.target.value)}
-                            className="text-lg font-semibold bg-transparent border-none focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-2"
-                            placeholder="Category name"
-                          />
-                          <Button
-                            onClick={() => removeCategory(category.id)}
-                            variant="ghost"
-                            size="sm"
-                            className="text-red-500 hover:text-red-700"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        </div>
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-1">
-                            Category Description
-                          </label>
-                          <textarea
-                            value={category.description}
-                            onChange={(e) => updateCategory(category.id, 'description', e.target.value)}
-                            className="w-full text-sm text-gray-600 bg-transparent border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 px-3 py-2"
-                            placeholder="Describe what this category evaluates and how it should be assessed"
-                            rows={2}
-                          />
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          <label className="text-sm font-medium text-gray-700">Weight:</label>
-                          <input
-                            type="number"
-                            min="0"
-                            max="1"
-                            step="0.05"
-                            value={category.weight}
-                            onChange={(e) => updateCategory(category.id, 'weight', parseFloat(e.target.value))}
-                            className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
-                          />
-                          <span className="text-sm text-gray-500">({(category.weight * 100).toFixed(0)}%)</span>
-                        </div>
-                      </div>
-                    ))}
+                  )}
+                  <div className="flex items-center space-x-2 mt-3">
+                    <label className="text-sm font-medium text-gray-700">Prompt:</label>
+                    <select
+                      value={template.promptTemplateId || ''}
+                      onChange={(e) => setTemplate(prev => ({ ...prev, promptTemplateId: e.target.value || undefined }))}
+                      className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Default</option>
+                      {promptTemplates.map(prompt => (
+                        <option key={prompt.id} value={prompt.id}>
+                          {prompt.name} (v{prompt.version}) - {prompt.tone}, {prompt.length}
+                        </option>
+                      ))}
+                    </select>
+                    <Link href="/prompts" className="text-sm text-blue-600 hover:underline">
+                      Edit prompts
+                    </Link>
                   </div>
                 </CardContent>
-              )}
-            </Card>
+                {showTemplateEditor && (
+                  <CardContent className="space-y-4">
+                    <div className="flex items-center space-x-2">
+                      <Button onClick={saveTemplateVersion} disabled={!libraryTemplate || !isTemplateModified} size="sm" variant="outline">
+                        <Save className="w-4 h-4 mr-1" />
+                        Save as New Version
+                      </Button>
+                      <Button onClick={saveAsNewTemplate} size="sm" variant="outline">
+                        <FilePlus className="w-4 h-4 mr-1" />
+                        Save as New Template
+                      </Button>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Template Name
+                        </label>
+                        <input
+                          type="text"
+                          value={template.name}
+                          onChange={(e) => setTemplate(prev => ({ ...prev, name: e.target.value }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="Enter template name"
+                        />
+                      </div>
+                      <Button onClick={addCategory} size="sm" className="ml-4">
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Category
+                      </Button>
+                    </div>
+                  
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Template Description
+                      </label>
+                      <textarea
+                        value={template.description}
+                        onChange={(e) => setTemplate(prev => ({ ...prev, description: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        rows={2}
+                        placeholder="Describe the purpose and scope of this evaluation template"
+                      />
+                    </div>
 
-            {/* Self-Assessment Toggle */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center">
-                  <User className="w-5 h-5 mr-2" />
-                  Employee Self-Assessment
-                </CardTitle>
-                <CardDescription>
-                  Include employee's self-assessment in the feedback generation
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="checkbox"
-                    id="includeSelfAssessment"
-                    checked={includeSelfAssessment}
-                    onChange={(e) => setIncludeSelfAssessment(e.target.checked)}
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                  />
-                  <label htmlFor="includeSelfAssessment" className="text-sm font-medium text-gray-700">
-                    Include employee self-assessment in feedback generation
-                  </label>
-                </div>
-              </CardContent>
-            </Card>
+                    <div className="space-y-4">
+                      <h4 className="font-medium text-gray-900">Categories</h4>
+                      <p className="text-sm text-gray-600 mb-4">
+                        Define evaluation categories with clear descriptions. These descriptions will be used to generate more contextual and specific feedback.
+                      </p>
+                      {template.categories.map((category) => (
+                        <div key={category.id} className="border rounded-lg p-4 space-y-3">
+                          <div className="flex items-center justify-between">
+                            <input
+                              type="text"
+                              value={category.name}
+                              onChange={(e) => updateCategory(category.id, 'name', e.target.value)}
+                              className="text-lg font-semibold bg-transparent border-none focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-2"
+                              placeholder="Category name"
+                            />
+                            <Button
+                              onClick={() => removeCategory(category.id)}
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-500 hover:text-red-700"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              Category Description
+                            </label>
+                            <textarea
+                              value={category.description}
+                              onChange={(e) => updateCategory(category.id, 'description', e.target.value)}
+                              className="w-full text-sm text-gray-600 bg-transparent border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 px-3 py-2"
+                              placeholder="Describe what this category evaluates and how it should be assessed"
+                              rows={2}
+                            />
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <label className="text-sm font-medium text-gray-700">Weight:</label>
+                            <input
+                              type="number"
+                              min="0"
+                              max="1"
+                              step="0.05"
+                              value={category.weight}
+                              onChange={(e) => updateCategory(category.id, 'weight', parseFloat(e.target.value))}
+                              className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                            />
+                            <span className="text-sm text-gray-500">({(category.weight * 100).toFixed(0)}%)</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                )}
+              </Card>
 
-            {/* Employee Self-Assessment */}
-            {includeSelfAssessment && (
+              {/* Self-Assessment Toggle */}
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center">
@@ -432,155 +1413,426 @@ export default function AppraisalPage() {
                     Employee Self-Assessment
                   </CardTitle>
                   <CardDescription>
-                    Employee's self-evaluation and thoughts about their performance
+                    Include employee's self-assessment in the feedback generation
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Self-Assessment
-                    </label>
-                    <Textarea
-                      value={selfAssessment}
-                      onChange={(e) => setSelfAssessment(e.target.value)}
-                      placeholder="Please share your thoughts about your performance, achievements, challenges, and goals for the next period..."
-                      className="min-h-[120px]"
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="includeSelfAssessment"
+                      checked={includeSelfAssessment}
+                      onChange={(e) => setIncludeSelfAssessment(e.target.checked)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
+                    <label htmlFor="includeSelfAssessment" className="text-sm font-medium text-gray-700">
+                      Include employee self-assessment in feedback generation
+                    </label>
+                  </div>
+
+                  <div className="mt-4 border-t pt-4 space-y-3">
+                    {employeeSubmission ? (
+                      <div className="rounded-md border border-green-200 bg-green-50 p-3 space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="flex items-center text-sm font-medium text-green-900">
+                            <Lock className="w-4 h-4 mr-1" />
+                            Submitted by the employee on {new Date(employeeSubmission.submittedAt).toLocaleDateString()}
+                          </span>
+                          <Button onClick={useEmployeeSubmission} size="sm" variant="outline">
+                            Use Submission
+                          </Button>
+                        </div>
+                        <p className="text-sm text-gray-700 whitespace-pre-wrap line-clamp-3">{employeeSubmission.selfAssessment}</p>
+                        <p className="text-xs text-gray-600">
+                          {employeeSubmission.ratings.length} categor{employeeSubmission.ratings.length === 1 ? 'y' : 'ies'} self-rated. The submission is locked; using it copies it into the self-assessment below.
+                        </p>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm text-gray-700">
+                            Let the employee fill it in through a private link
+                          </span>
+                          <div className="flex space-x-2">
+                            {selfAssessmentLink && (
+                              <Button onClick={refreshEmployeeSubmission} size="sm" variant="ghost" title="Check for a submission">
+                                <RefreshCw className="w-4 h-4" />
+                              </Button>
+                            )}
+                            <Button onClick={createSelfAssessmentLink} disabled={!appraisalId || isCreatingLink} size="sm" variant="outline">
+                              <LinkIcon className="w-4 h-4 mr-1" />
+                              {selfAssessmentLink ? 'New Link' : 'Create Link'}
+                            </Button>
+                          </div>
+                        </div>
+                        {!appraisalId && (
+                          <p className="text-xs text-gray-500">Available once the draft has been saved (Employee ID and Review Period filled in).</p>
+                        )}
+                        {selfAssessmentLink && (
+                          <div className="space-y-1">
+                            <div className="flex items-center space-x-2">
+                              <input
+                                type="text"
+                                readOnly
+                                value={selfAssessmentUrl}
+                                onFocus={(e) => e.target.select()}
+                                className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm bg-gray-50"
+                              />
+                              <Button onClick={() => navigator.clipboard.writeText(selfAssessmentUrl)} size="sm" variant="ghost" title="Copy link">
+                                <Copy className="w-4 h-4" />
+                              </Button>
+                            </div>
+                            <p className={`text-xs ${selfAssessmentLink.status === 'expired' ? 'text-red-600' : 'text-gray-500'}`}>
+                              {selfAssessmentLink.status === 'expired' ? 'Expired' : 'Expires'} {new Date(selfAssessmentLink.expiresAt).toLocaleDateString()}. The employee sees the categories but none of your ratings.
+                            </p>
+                          </div>
+                        )}
+                      </>
+                    )}
                   </div>
                 </CardContent>
               </Card>
-            )}
 
-            {/* Manager Ratings */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center">
-                  <Users className="w-5 h-5 mr-2" />
-                  Manager Performance Ratings
-                </CardTitle>
-                <CardDescription>
-                  Rate each category and add comments based on the defined criteria
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                {template.categories.map((category) => {
-                  const rating = ratings.find(r => r.categoryId === category.id)
-                  if (!rating) return null
+              {/* Employee Self-Assessment */}
+              {includeSelfAssessment && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <User className="w-5 h-5 mr-2" />
+                      Employee Self-Assessment
+                    </CardTitle>
+                    <CardDescription>
+                      Employee's self-evaluation and thoughts about their performance
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Self-Assessment
+                      </label>
+                      <Textarea
+                        value={selfAssessment}
+                        onChange={(e) => setSelfAssessment(e.target.value)}
+                        placeholder="Please share your thoughts about your performance, achievements, challenges, and goals for the next period..."
+                        className="min-h-[120px]"
+                      />
+                    </div>
 
-                  return (
-                    <div key={category.id} className="border rounded-lg p-4 space-y-4">
-                      <div>
-                        <h4 className="font-semibold text-lg">{category.name}</h4>
-                        <p className="text-sm text-gray-600 mt-1">{category.description}</p>
-                      </div>
-                      
-                      <div className="space-y-3">
+                    <div className="mt-6 space-y-3">
+                      <h4 className="font-medium text-gray-900">Self-Ratings</h4>
+                      <p className="text-sm text-gray-600">
+                        The employee&apos;s own score (0-5) and comment per category. Leave a score empty to skip the category.
+                      </p>
+                      {template.categories.map(category => {
+                        const selfRating = selfRatings.filter(rating => rating.categoryId === category.id)[0]
+                        return (
+                          <div key={category.id} className="flex items-center space-x-2">
+                            <span className="w-40 text-sm font-medium text-gray-700 truncate" title={category.name}>{category.name}</span>
+                            <input
+                              type="number"
+                              min="0"
+                              max="5"
+                              step="0.1"
+                              value={selfRating ? selfRating.score : ''}
+                              onChange={(e) => updateSelfRating(
+                                category.id,
+                                e.target.value === '' ? null : Math.min(5, Math.max(0, parseFloat(e.target.value) || 0)),
+                                selfRating?.comments || ''
+                              )}
+                              className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                              placeholder="-"
+                            />
+                            <input
+                              type="text"
+                              value={selfRating?.comments || ''}
+                              onChange={(e) => selfRating && updateSelfRating(category.id, selfRating.score, e.target.value)}
+                              disabled={!selfRating}
+                              className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-50"
+                              placeholder={selfRating ? `Employee's comment on ${category.name.toLowerCase()}` : 'Enter a score first'}
+                            />
+                          </div>
+                        )
+                      })}
+                    </div>
+
+                    {selfRatingGapRows.length > 0 && (
+                      <div className="mt-6 space-y-3">
                         <div className="flex items-center justify-between">
-                          <label className="text-sm font-medium text-gray-700">
-                            Score: {rating.score.toFixed(1)}/5
+                          <h4 className="font-medium text-gray-900">Manager vs Self</h4>
+                          <label className="flex items-center space-x-2 text-sm text-gray-600">
+                            <span>Highlight gaps over</span>
+                            <input
+                              type="number"
+                              min="0"
+                              max="5"
+                              step="0.1"
+                              value={gapThreshold}
+                              onChange={(e) => setGapThreshold(Math.min(5, Math.max(0, parseFloat(e.target.value) || 0)))}
+                              className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+                            />
                           </label>
-                          <span className="text-sm text-gray-500">
-                            Weight: {(category.weight * 100).toFixed(0)}%
-                          </span>
                         </div>
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-gray-500 border-b">
+                              <th className="py-1 font-medium">Category</th>
+                              <th className="py-1 font-medium text-right">Manager</th>
+                              <th className="py-1 font-medium text-right">Self</th>
+                              <th className="py-1 font-medium text-right">Gap</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {selfRatingGapRows.map(gap => (
+                              <tr key={gap.categoryId} className={`border-b ${gap.exceeds ? 'bg-amber-50 text-amber-900 font-medium' : ''}`}>
+                                <td className="py-1">{gap.categoryName}</td>
+                                <td className="py-1 text-right">{gap.managerScore.toFixed(1)}</td>
+                                <td className="py-1 text-right">{gap.selfScore.toFixed(1)}</td>
+                                <td className="py-1 text-right">{gap.gap > 0 ? '+' : ''}{gap.gap.toFixed(1)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <p className="text-xs text-gray-500">
+                          Positive gaps mean the employee rates themselves higher. Highlighted gaps are covered in the generated review.
+                        </p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Manager Ratings */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Users className="w-5 h-5 mr-2" />
+                    Manager Performance Ratings
+                  </CardTitle>
+                  <CardDescription>
+                    Rate each category and add comments based on the defined criteria
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {template.categories.map((category) => {
+                    const rating = ratings.find(r => r.categoryId === category.id)
+                    if (!rating) return null
+
+                    return (
+                      <div key={category.id} className="border rounded-lg p-4 space-y-4">
+                        <div>
+                          <h4 className="font-semibold text-lg">{category.name}</h4>
+                          <p className="text-sm text-gray-600 mt-1">{category.description}</p>
+                        </div>
+                      
+                        <div className="space-y-3">
+                          <div className="flex items-center justify-between">
+                            <label className="text-sm font-medium text-gray-700">
+                              Score: {rating.score.toFixed(1)}/5
+                            </label>
+                            <span className="text-sm text-gray-500">
+                              Weight: {(category.weight * 100).toFixed(0)}%
+                            </span>
+                          </div>
                         
-                        <Slider
-                          value={[rating.score]}
-                          onValueChange={(value) => {
-                            const newScore = value[0]
-                            updateRating(category.id, newScore, rating.comments)
-                          }}
-                          max={5}
-                          min={0}
-                          step={0.1}
-                          className="w-full"
-                        />
+                          <Slider
+                            value={[rating.score]}
+                            disabled={locked}
+                            onValueChange={(value) => {
+                              const newScore = value[0]
+                              updateRating(category.id, newScore, rating.comments)
+                            }}
+                            max={5}
+                            min={0}
+                            step={0.1}
+                            className="w-full"
+                          />
                         
-                        <div className="flex space-x-2 text-xs text-gray-500">
-                          <span>Poor</span>
-                          <span className="flex-1"></span>
-                          <span>Excellent</span>
+                          <div className="flex space-x-2 text-xs text-gray-500">
+                            <span>Poor</span>
+                            <span className="flex-1"></span>
+                            <span>Excellent</span>
+                          </div>
                         </div>
-                      </div>
                       
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-2">
-                          Manager Comments
-                        </label>
-                        <Textarea
-                          value={rating.comments}
-                          onChange={(e) => updateRating(category.id, rating.score, e.target.value)}
-                          placeholder={`Add specific comments about ${category.name.toLowerCase()} performance based on: ${category.description}`}
-                          className="min-h-[80px]"
-                        />
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Manager Comments
+                          </label>
+                          <Textarea
+                            value={rating.comments}
+                            onChange={(e) => updateRating(category.id, rating.score, e.target.value)}
+                            placeholder={`Add specific comments about ${category.name.toLowerCase()} performance based on: ${category.description}`}
+                            className="min-h-[80px]"
+                          />
+                        </div>
                       </div>
-                    </div>
-                  )
-                })}
+                    )
+                  })}
                 
-                {/* Additional Manager Comments */}
-                <div className="border-t pt-6 mt-6">
+                  {/* Additional Manager Comments */}
+                  <div className="border-t pt-6 mt-6">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Additional Manager Comments
+                      </label>
+                      <Textarea
+                        value={additionalManagerComments}
+                        onChange={(e) => setAdditionalManagerComments(e.target.value)}
+                        placeholder="Add any additional comments, observations, or context that should be considered across all categories in the feedback generation..."
+                        className="min-h-[100px]"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        These comments will be considered when generating comprehensive feedback across all categories
+                      </p>
+                    </div>
+                  </div>
+
+                  {/* Agreed Goals */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Additional Manager Comments
+                      Goals for the Next Period
                     </label>
                     <Textarea
-                      value={additionalManagerComments}
-                      onChange={(e) => setAdditionalManagerComments(e.target.value)}
-                      placeholder="Add any additional comments, observations, or context that should be considered across all categories in the feedback generation..."
-                      className="min-h-[100px]"
+                      value={goals}
+                      onChange={(e) => setGoals(e.target.value)}
+                      placeholder="Goals agreed with the employee, one per line..."
+                      className="min-h-[80px]"
                     />
                     <p className="text-xs text-gray-500 mt-1">
-                      These comments will be considered when generating comprehensive feedback across all categories
+                      The next review cycle will follow up on these goals
                     </p>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
 
-            {/* Overall Score */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Overall Performance Score</CardTitle>
-                <CardDescription>
-                  Weighted average of all category scores
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center">
-                  <div className="text-4xl font-bold text-blue-600 mb-2">
-                    {overallScore.toFixed(1)}/5
+                  {/* Prior Review */}
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="includePriorReview"
+                        checked={includePriorReview}
+                        onChange={(e) => setIncludePriorReview(e.target.checked)}
+                        className="rounded"
+                      />
+                      <label htmlFor="includePriorReview" className="text-sm font-medium text-gray-700">
+                        Follow up on the previous review
+                      </label>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {!includePriorReview
+                        ? 'The feedback will not refer to earlier review cycles.'
+                        : priorCandidate
+                          ? `The ${priorCandidate.reviewPeriod} review by ${priorCandidate.reviewerName}${priorCandidate.reviewDate ? ` (${priorCandidate.reviewDate})` : ''} will be summarized so the feedback comments on progress against its scores, focus areas, risks and goals.`
+                          : 'No earlier review with feedback was found for this employee.'}
+                    </p>
                   </div>
-                  <div className="text-sm text-gray-600">
-                    {overallScore >= 4.5 ? 'Outstanding' :
-                     overallScore >= 4.0 ? 'Excellent' :
-                     overallScore >= 3.5 ? 'Good' :
-                     overallScore >= 3.0 ? 'Satisfactory' :
-                     overallScore >= 2.0 ? 'Needs Improvement' : 'Poor'}
+                </CardContent>
+              </Card>
+
+              {/* Overall Score */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Overall Performance Score</CardTitle>
+                  <CardDescription>
+                    Weighted average of all category scores
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-center">
+                    <div className="text-4xl font-bold text-blue-600 mb-2">
+                      {overallScore.toFixed(1)}/5
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {performanceLevel(overallScore)}
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
 
-            {/* Generate Feedback Button */}
-            <Button 
-              onClick={generateFeedback}
-              disabled={isGenerating || !employeeName || !reviewerName}
-              className="w-full"
-              size="lg"
-            >
-              {isGenerating ? (
-                <>
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                  Generating Feedback...
-                </>
-              ) : (
-                <>
-                  <Sparkles className="w-5 h-5 mr-2" />
-                  Generate Feedback
-                </>
+              {/* Generate Feedback Button */}
+              <div className="flex space-x-2">
+                <Button 
+                  onClick={generateFeedback}
+                  disabled={isGenerating || !employeeName || !reviewerName}
+                  className="flex-1"
+                  size="lg"
+                >
+                  {isGenerating ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                      Generating Feedback...
+                    </>
+                  ) : (
+                    <>
+                      <Sparkles className="w-5 h-5 mr-2" />
+                      Generate Feedback
+                    </>
+                  )}
+                </Button>
+                {isGenerating ? (
+                  <Button onClick={cancelGeneration} variant="outline" size="lg">
+                    <X className="w-5 h-5 mr-2" />
+                    Cancel
+                  </Button>
+                ) : (
+                  <Button onClick={previewRequest} disabled={isPreviewing || !employeeName || !reviewerName} variant="outline" size="lg" title="See exactly what is sent to the AI provider">
+                    <Eye className="w-5 h-5 mr-2" />
+                    {isPreviewing ? 'Loading...' : 'Preview Request'}
+                  </Button>
+                )}
+              </div>
+
+              {requestPreview && (
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="flex items-center">
+                        <Eye className="w-5 h-5 mr-2" />
+                        What Leaves the Server
+                      </CardTitle>
+                      <Button onClick={() => setRequestPreview(null)} variant="ghost" size="sm">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <CardDescription>
+                      The generation prompt as each provider receives it, tried in this order. Placeholders are swapped back in the reply on this server.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {requestPreview.length === 0 && (
+                      <p className="text-sm text-gray-600">No AI provider is configured, so nothing is sent; the offline template text is used.</p>
+                    )}
+                    {requestPreview.map(preview => (
+                      <div key={preview.provider} className="space-y-2">
+                        <div className="text-sm font-medium text-gray-900">
+                          {preview.provider} ({preview.model}){' '}
+                          <span className={`text-xs font-normal ${preview.redacted ? 'text-green-700' : 'text-amber-700'}`}>
+                            {preview.redacted ? 'personal data redacted' : 'sent as written (redaction is off for this provider)'}
+                          </span>
+                        </div>
+                        {preview.placeholders.length > 0 && (
+                          <table className="w-full text-xs">
+                            <tbody>
+                              {preview.placeholders.map(entry => (
+                                <tr key={entry.placeholder} className="border-b">
+                                  <td className="py-1 pr-4 font-mono">{entry.placeholder}</td>
+                                  <td className="py-1 text-gray-700">{entry.value}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                        {preview.system && (
+                          <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded-md bg-gray-100 p-2 text-xs text-gray-800">System: {preview.system}</pre>
+                        )}
+                        {preview.messages.map((message, index) => (
+                          <pre key={index} className="max-h-96 overflow-auto whitespace-pre-wrap rounded-md bg-gray-100 p-2 text-xs text-gray-800">{message.content}</pre>
+                        ))}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
               )}
-            </Button>
+            </fieldset>
           </div>
 
           {/* Right Column - Generated Feedback */}
@@ -596,35 +1848,236 @@ export default function AppraisalPage() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {generatedFeedback ? (
+                {generatedFeedback || isGenerating ? (
                   <div className="space-y-4">
-                    <div className="bg-gray-50 rounded-lg p-4 whitespace-pre-wrap text-sm leading-relaxed">
-                      {generatedFeedback}
-                    </div>
-                    <div className="flex space-x-2">
-                      <Button 
-                        onClick={() => navigator.clipboard.writeText(generatedFeedback)}
-                        variant="outline"
-                        size="sm"
-                      >
-                        Copy to Clipboard
-                      </Button>
-                      <Button 
-                        onClick={() => {
-                          const blob = new Blob([generatedFeedback], { type: 'text/plain' })
-                          const url = URL.createObjectURL(blob)
-                          const a = document.createElement('a')
-                          a.href = url
-                          a.download = `appraisal-${employeeName}-${new Date().toISOString().split('T')[0]}.txt`
-                          a.click()
-                          URL.revokeObjectURL(url)
-                        }}
-                        variant="outline"
-                        size="sm"
-                      >
-                        Download
-                      </Button>
-                    </div>
+                    {generationInfo?.source === 'mock' && (
+                      <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                        No AI provider produced this review - it is offline template text. Edit it carefully or try again later.
+                        {generationInfo.fallbackReason && (
+                          <div className="text-xs mt-1 text-amber-700">Reason: {generationInfo.fallbackReason}</div>
+                        )}
+                      </div>
+                    )}
+                    {generationInfo?.source === 'llm' && (
+                      <p className="text-xs text-gray-500">
+                        Generated by {generationInfo.provider} ({generationInfo.model})
+                        {generationInfo.prompt && ` with the "${generationInfo.prompt.name}" prompt (v${generationInfo.prompt.version})`}
+                        {generationInfo.priorReview && `, following up on the ${generationInfo.priorReview.reviewPeriod} review by ${generationInfo.priorReview.reviewerName}`}
+                        {generationInfo.redacted && '; names and IDs were replaced with placeholders before sending'}
+                      </p>
+                    )}
+                    {!isGenerating && (
+                      <div className="flex items-center justify-between rounded-md border p-2 text-sm">
+                        <span className="flex items-center text-gray-700">
+                          <ShieldCheck className="w-4 h-4 mr-2" />
+                          {lintIssues.length === 0
+                            ? 'No biased or non-inclusive language found'
+                            : `${lintIssues.length} language ${lintIssues.length === 1 ? 'issue' : 'issues'} highlighted below`}
+                          {assistedLint?.provider && <span className="text-xs text-gray-500 ml-2">AI check by {assistedLint.provider} ({assistedLint.model})</span>}
+                          {language !== 'en' && !assistedLint && <span className="text-xs text-gray-500 ml-2">The built-in rules cover English only</span>}
+                        </span>
+                        <Button onClick={checkLanguageWithModel} disabled={isCheckingLanguage} variant="outline" size="sm">
+                          {isCheckingLanguage ? 'Checking...' : 'Check with AI'}
+                        </Button>
+                      </div>
+                    )}
+                    {staleAdjustments.length > 0 && (
+                      <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                        <div className="flex items-center font-medium mb-1">
+                          <AlertTriangle className="w-4 h-4 mr-2" />
+                          Scores were calibrated after this feedback was written
+                        </div>
+                        <ul className="list-disc pl-5 space-y-0.5">
+                          {staleAdjustments.map((adjustment, index) => (
+                            <li key={index}>
+                              {template.categories.filter(category => category.id === adjustment.categoryId)[0]?.name || adjustment.categoryId}: {adjustment.from.toFixed(1)} to {adjustment.to.toFixed(1)} by {adjustment.by} - &quot;{adjustment.reason}&quot;
+                            </li>
+                          ))}
+                        </ul>
+                        <div className="text-xs mt-1 text-amber-700">
+                          Check that the narrative still fits the new scores before the review is shared.
+                        </div>
+                      </div>
+                    )}
+                    {consistencyWarnings.length > 0 && (
+                      <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                        <div className="flex items-center font-medium mb-1">
+                          <AlertTriangle className="w-4 h-4 mr-2" />
+                          The review does not match some of the scores
+                        </div>
+                        <ul className="list-disc pl-5 space-y-0.5">
+                          {consistencyWarnings.map(warning => (
+                            <li key={warning.id}>{warning.message}</li>
+                          ))}
+                        </ul>
+                        <div className="text-xs mt-1 text-amber-700">
+                          Scores of {STRENGTH_SCORE.toFixed(1)} and above count as strengths, below {RISK_SCORE.toFixed(1)} as risks. Regenerate or edit the section, or revisit the score.
+                        </div>
+                      </div>
+                    )}
+                    {parsedFeedback.preamble && (
+                      <div className="whitespace-pre-wrap text-sm leading-relaxed">
+                        {renderLinted('preamble', parsedFeedback.preamble)}
+                      </div>
+                    )}
+                    {FEEDBACK_SECTIONS.map(section => (
+                      <div key={section.key} className="bg-gray-50 rounded-lg p-4">
+                        <div className="flex items-center justify-between mb-2">
+                          <h4 className="font-semibold text-gray-900">{sectionTitle(section.key, language)}</h4>
+                          {!isGenerating && !locked && (
+                            <div className="flex space-x-1">
+                              <Button
+                                onClick={() => setInstructionSection(instructionSection === section.key ? null : section.key)}
+                                disabled={regeneratingSection !== null}
+                                variant="ghost"
+                                size="sm"
+                              >
+                                <RefreshCw className={`w-4 h-4 mr-1 ${regeneratingSection === section.key ? 'animate-spin' : ''}`} />
+                                Regenerate
+                              </Button>
+                              <Button
+                                onClick={() => toggleEditing(section.key)}
+                                variant="ghost"
+                                size="sm"
+                              >
+                                {editingSection === section.key
+                                  ? <><Check className="w-4 h-4 mr-1" />Done</>
+                                  : <><Pencil className="w-4 h-4 mr-1" />Edit</>}
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                        {instructionSection === section.key && !isGenerating && !locked && (
+                          <div className="flex items-center space-x-2 mb-3">
+                            <input
+                              type="text"
+                              value={sectionInstruction}
+                              onChange={(e) => setSectionInstruction(e.target.value)}
+                              onKeyDown={(e) => { if (e.key === 'Enter') regenerateSection(section.key) }}
+                              className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              placeholder='Optional instruction, e.g. "be more specific about the migration project"'
+                              disabled={regeneratingSection !== null}
+                            />
+                            <Button onClick={() => regenerateSection(section.key)} disabled={regeneratingSection !== null} size="sm">
+                              {regeneratingSection === section.key ? 'Regenerating...' : 'Go'}
+                            </Button>
+                          </div>
+                        )}
+                        {editingSection === section.key && !isGenerating && !locked ? (
+                          <Textarea
+                            value={parsedFeedback.sections[section.key]}
+                            onChange={(e) => updateSection(section.key, e.target.value)}
+                            className="min-h-[160px] text-sm"
+                          />
+                        ) : (
+                          <div className="whitespace-pre-wrap text-sm leading-relaxed">
+                            {parsedFeedback.sections[section.key] ? renderLinted(section.key, parsedFeedback.sections[section.key]) : (
+                              <span className="text-gray-400">{isGenerating ? 'Waiting for the model...' : 'Not included in this feedback'}</span>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                    {!isGenerating && (
+                      <div className="flex space-x-2">
+                        <Button 
+                          onClick={() => navigator.clipboard.writeText(generatedFeedback)}
+                          variant="outline"
+                          size="sm"
+                        >
+                          Copy to Clipboard
+                        </Button>
+                        <Button 
+                          onClick={() => {
+                            const blob = new Blob([generatedFeedback], { type: 'text/plain' })
+                            const url = URL.createObjectURL(blob)
+                            const a = document.createElement('a')
+                            a.href = url
+                            a.download = `appraisal-${employeeName}-${new Date().toISOString().split('T')[0]}.txt`
+                            a.click()
+                            URL.revokeObjectURL(url)
+                          }}
+                          variant="outline"
+                          size="sm"
+                        >
+                          Download
+                        </Button>
+                        <Button
+                          onClick={() => exportDocument('pdf')}
+                          disabled={exportingFormat !== null || language === 'ja'}
+                          title={language === 'ja' ? 'The PDF export has no Japanese font; use DOCX' : undefined}
+                          variant="outline"
+                          size="sm"
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          {exportingFormat === 'pdf' ? 'Exporting...' : 'PDF'}
+                        </Button>
+                        <Button
+                          onClick={() => exportDocument('docx')}
+                          disabled={exportingFormat !== null}
+                          variant="outline"
+                          size="sm"
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          {exportingFormat === 'docx' ? 'Exporting...' : 'DOCX'}
+                        </Button>
+                        {feedbackRevisions.length > 0 && (
+                          <Button onClick={() => setShowHistory(!showHistory)} variant="outline" size="sm">
+                            <History className="w-4 h-4 mr-1" />
+                            History ({feedbackRevisions.length})
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    {!isGenerating && showHistory && feedbackRevisions.length > 0 && (
+                      <div className="border rounded-lg divide-y">
+                        {feedbackRevisions.map((revision, index) => ({ revision, index })).reverse().map(({ revision, index }) => (
+                          <div key={revision.id} className="p-3 text-sm">
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <span className="font-medium">#{index + 1} {revisionLabel(revision)}</span>
+                                <span className="text-xs text-gray-500 ml-2">
+                                  {new Date(revision.createdAt).toLocaleString()}
+                                  {revision.source === 'llm' && ` - ${revision.provider} (${revision.model})`}
+                                  {revision.prompt && `, ${revision.prompt.name} prompt v${revision.prompt.version}`}
+                                  {revision.source === 'mock' && ' - offline template text'}
+                                </span>
+                              </div>
+                              <div className="flex space-x-1">
+                                <Button
+                                  onClick={() => setDiffRevisionId(diffRevisionId === revision.id ? null : revision.id)}
+                                  variant="ghost"
+                                  size="sm"
+                                >
+                                  Changes
+                                </Button>
+                                <Button
+                                  onClick={() => revertToRevision(revision)}
+                                  disabled={locked || revision.feedback === generatedFeedback}
+                                  variant="ghost"
+                                  size="sm"
+                                >
+                                  <RotateCcw className="w-4 h-4 mr-1" />
+                                  Revert
+                                </Button>
+                              </div>
+                            </div>
+                            {diffRevisionId === revision.id && (
+                              <div className="mt-2 whitespace-pre-wrap text-xs leading-relaxed bg-gray-50 rounded p-2">
+                                {diffText(index > 0 ? feedbackRevisions[index - 1].feedback : '', revision.feedback).map((part, partIndex) => (
+                                  <span
+                                    key={partIndex}
+                                    className={part.type === 'added' ? 'bg-green-100 text-green-900' : part.type === 'removed' ? 'bg-red-100 text-red-900 line-through' : ''}
+                                  >
+                                    {part.text}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ) : (
                   <div className="text-center py-12 text-gray-500">
@@ -635,6 +2088,57 @@ export default function AppraisalPage() {
                 )}
               </CardContent>
             </Card>
+
+            {generatedFeedback && !isGenerating && !locked && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <MessageSquare className="w-5 h-5 mr-2" />
+                    Refine
+                  </CardTitle>
+                  <CardDescription>
+                    Ask for changes to the whole draft, e.g. "make it shorter" or "soften the Risk Overlay"
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {refinementMessages.length > 0 && (
+                    <div className="space-y-2 max-h-80 overflow-y-auto">
+                      {refinementMessages.map((message, index) => (
+                        <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                          <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap ${message.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'}`}>
+                            {message.content}
+                            {message.revisionId && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                Draft updated (revision #{feedbackRevisions.findIndex(r => r.id === message.revisionId) + 1})
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex space-x-2">
+                    <Textarea
+                      value={refineInput}
+                      onChange={(e) => setRefineInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault()
+                          sendRefinement()
+                        }
+                      }}
+                      placeholder="What should change?"
+                      rows={2}
+                      disabled={isRefining}
+                    />
+                    <Button onClick={sendRefinement} disabled={isRefining || !refineInput.trim()}>
+                      <Send className="w-4 h-4 mr-1" />
+                      {isRefining ? 'Refining...' : 'Send'}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         </div>
       </div>
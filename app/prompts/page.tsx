@@ -0,0 +1,304 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import { PromptTemplate, PromptTemplateListResponse, PromptTemplateRecord, PromptTemplateResponse, ValidationIssue } from '@/types/appraisal'
+import { FEEDBACK_SECTIONS } from '@/lib/feedback-sections'
+import { DEFAULT_SECTION_GUIDANCE, defaultPromptTemplate } from '@/lib/default-prompt-templates'
+import { LENGTH_PRESETS, PROMPT_VARIABLES, TONE_PRESETS } from '@/lib/prompt-templates'
+import { ArrowLeft, FilePlus, FileText, Save } from 'lucide-react'
+
+type PromptDraft = Omit<PromptTemplate, 'id'>
+
+const draftOf = (template: PromptTemplate): PromptDraft => ({
+  name: template.name,
+  description: template.description,
+  tone: template.tone,
+  length: template.length,
+  sections: template.sections.map(section => ({ ...section })),
+  body: template.body
+})
+
+export default function PromptTemplatesPage() {
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplateRecord[]>([])
+  const [selected, setSelected] = useState<PromptTemplateRecord | null>(null)
+  const [versions, setVersions] = useState<PromptTemplateRecord[]>([])
+  const [draft, setDraft] = useState<PromptDraft>(draftOf(defaultPromptTemplate))
+  const [errors, setErrors] = useState<ValidationIssue[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  const refreshPromptTemplates = async () => {
+    try {
+      const response = await fetch('/api/prompt-templates')
+      const data: PromptTemplateListResponse = await response.json()
+      if (data.success) {
+        setPromptTemplates(data.promptTemplates)
+      }
+    } catch (error) {
+      console.error('Error loading prompt templates:', error)
+    }
+  }
+
+  useEffect(() => {
+    refreshPromptTemplates()
+  }, [])
+
+  const selectTemplate = async (record: PromptTemplateRecord) => {
+    setSelected(record)
+    setDraft(draftOf(record))
+    setErrors([])
+    try {
+      const response = await fetch(`/api/prompt-templates/${record.id}/versions`)
+      const data: PromptTemplateListResponse = await response.json()
+      setVersions(data.success ? data.promptTemplates : [])
+    } catch (error) {
+      console.error('Error loading prompt template versions:', error)
+    }
+  }
+
+  // Older versions are loaded into the editor; saving makes them the newest version again
+  const loadVersion = (version: number) => {
+    const record = versions.find(v => v.version === version)
+    if (record) {
+      setDraft(draftOf(record))
+      setErrors([])
+    }
+  }
+
+  // Sections keep the review's fixed order; unchecking one leaves it out of the prompt
+  const toggleSection = (key: string) => {
+    setDraft(prev => {
+      const included = prev.sections.some(section => section.key === key)
+      const sections = included
+        ? prev.sections.filter(section => section.key !== key)
+        : FEEDBACK_SECTIONS
+          .filter(section => section.key === key || prev.sections.some(s => s.key === section.key))
+          .map(section => prev.sections.filter(s => s.key === section.key)[0] || { key: section.key, guidance: DEFAULT_SECTION_GUIDANCE[section.key] })
+      return { ...prev, sections }
+    })
+  }
+
+  const updateGuidance = (key: string, guidance: string) => {
+    setDraft(prev => ({ ...prev, sections: prev.sections.map(section => section.key === key ? { ...section, guidance } : section) }))
+  }
+
+  const save = async (asNew: boolean) => {
+    setIsSaving(true)
+    setErrors([])
+    try {
+      const response = await fetch(asNew || !selected ? '/api/prompt-templates' : `/api/prompt-templates/${selected.id}`, {
+        method: asNew || !selected ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft)
+      })
+      const data: PromptTemplateResponse = await response.json()
+      if (data.success && data.promptTemplate) {
+        await refreshPromptTemplates()
+        await selectTemplate(data.promptTemplate)
+      } else {
+        setErrors(data.errors || [{ path: '', message: data.error || 'Unknown error' }])
+      }
+    } catch (error) {
+      console.error('Error saving prompt template:', error)
+      setErrors([{ path: '', message: 'Error saving prompt template' }])
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isModified = !selected || JSON.stringify(draftOf(selected)) !== JSON.stringify(draft)
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4 max-w-6xl">
+        <div className="mb-8">
+          <Link href="/" className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to single appraisal
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Prompt Templates
+          </h1>
+          <p className="text-gray-600">
+            Control the tone, length and sections of generated reviews. Choose a prompt per evaluation template.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <FileText className="w-5 h-5 mr-2" />
+                Library
+              </CardTitle>
+              <CardDescription>
+                Every save is kept as a version; generated reviews record the version that produced them
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {promptTemplates.map(record => (
+                <button
+                  key={record.id}
+                  onClick={() => selectTemplate(record)}
+                  className={`w-full text-left rounded-md border p-3 text-sm hover:bg-gray-50 ${selected?.id === record.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}
+                >
+                  <div className="font-medium">{record.name} <span className="text-gray-500">(v{record.version})</span></div>
+                  <div className="text-xs text-gray-600">{record.description}</div>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>{selected ? `Edit "${selected.name}"` : 'New prompt template'}</CardTitle>
+              <CardDescription>
+                {selected ? `Prompt template ID: ${selected.id}` : 'Select a template from the library to edit it, or fill this in and save it as a new template'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <Button onClick={() => save(false)} disabled={!selected || !isModified || isSaving} size="sm" variant="outline">
+                  <Save className="w-4 h-4 mr-1" />
+                  Save as New Version
+                </Button>
+                <Button onClick={() => save(true)} disabled={isSaving} size="sm" variant="outline">
+                  <FilePlus className="w-4 h-4 mr-1" />
+                  Save as New Template
+                </Button>
+                {versions.length > 1 && (
+                  <select
+                    value=""
+                    onChange={(e) => loadVersion(parseInt(e.target.value))}
+                    className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Load a version...</option>
+                    {versions.map(version => (
+                      <option key={version.version} value={version.version}>
+                        v{version.version} - {new Date(version.createdAt).toLocaleString()}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              {errors.length > 0 && (
+                <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800">
+                  {errors.map(issue => (
+                    <div key={`${issue.path}-${issue.message}`}>{issue.path ? `${issue.path}: ` : ''}{issue.message}</div>
+                  ))}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Name *
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Description
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.description}
+                    onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Tone
+                  </label>
+                  <select
+                    value={draft.tone}
+                    onChange={(e) => setDraft(prev => ({ ...prev, tone: e.target.value as PromptTemplate['tone'] }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {TONE_PRESETS.map(preset => (
+                      <option key={preset.value} value={preset.value}>{preset.label}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">{TONE_PRESETS.filter(preset => preset.value === draft.tone)[0]?.instruction}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Length
+                  </label>
+                  <select
+                    value={draft.length}
+                    onChange={(e) => setDraft(prev => ({ ...prev, length: e.target.value as PromptTemplate['length'] }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {LENGTH_PRESETS.map(preset => (
+                      <option key={preset.value} value={preset.value}>{preset.label}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">{LENGTH_PRESETS.filter(preset => preset.value === draft.length)[0]?.instruction}</p>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <h4 className="font-medium text-gray-900">Sections</h4>
+                {FEEDBACK_SECTIONS.map(section => {
+                  const included = draft.sections.filter(s => s.key === section.key)[0]
+                  return (
+                    <div key={section.key} className="border rounded-lg p-3 space-y-2">
+                      <label className="flex items-center space-x-2 text-sm font-medium">
+                        <input type="checkbox" checked={!!included} onChange={() => toggleSection(section.key)} className="rounded" />
+                        <span>{section.title}</span>
+                      </label>
+                      {included && (
+                        <Textarea
+                          value={included.guidance}
+                          onChange={(e) => updateGuidance(section.key, e.target.value)}
+                          placeholder={DEFAULT_SECTION_GUIDANCE[section.key]}
+                          rows={2}
+                          className="text-sm"
+                        />
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Prompt *
+                </label>
+                <Textarea
+                  value={draft.body}
+                  onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))}
+                  rows={16}
+                  className="font-mono text-xs"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  The instructions for the JSON reply are added automatically after this text.
+                </p>
+              </div>
+
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2">Variables</h4>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                  {PROMPT_VARIABLES.map(variable => (
+                    <div key={variable.name}>
+                      <code className="text-blue-700">{`{{${variable.name}}}`}</code> <span className="text-gray-600">{variable.description}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
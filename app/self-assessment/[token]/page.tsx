@@ -0,0 +1,242 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import { EmployeeSelfRating, SelfAssessmentForm, SelfAssessmentFormResponse, ValidationIssue } from '@/types/appraisal'
+import { Lock, Send, User } from 'lucide-react'
+
+interface PageProps {
+  params: { token: string }
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString()
+
+// The employee's side of the self-assessment. Everything shown here comes from the form the
+// token unlocks, which holds the categories to rate but none of the manager's input.
+export default function SelfAssessmentPage({ params }: PageProps) {
+  const [form, setForm] = useState<SelfAssessmentForm | null>(null)
+  const [selfAssessment, setSelfAssessment] = useState('')
+  const [ratings, setRatings] = useState<EmployeeSelfRating[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [errors, setErrors] = useState<ValidationIssue[]>([])
+
+  useEffect(() => {
+    fetch(`/api/self-assessment/${params.token}`)
+      .then(response => response.json())
+      .then((data: SelfAssessmentFormResponse) => {
+        if (data.success && data.form) {
+          setForm(data.form)
+        } else {
+          setError(data.error || 'This self-assessment link is not valid')
+        }
+      })
+      .catch(error => {
+        console.error('Error loading self-assessment:', error)
+        setError('The self-assessment could not be loaded')
+      })
+      .then(() => setIsLoading(false))
+  }, [params.token])
+
+  // A cleared score removes the category, so only the categories the employee rated are sent
+  const updateRating = (categoryId: string, score: number | null, comments: string) => {
+    if (!form) return
+    setRatings(prev => {
+      const others = prev.filter(rating => rating.categoryId !== categoryId)
+      if (score === null) return others
+      return form.categories
+        .filter(category => category.id === categoryId || others.some(rating => rating.categoryId === category.id))
+        .map(category => others.filter(rating => rating.categoryId === category.id)[0] || { categoryId, score, comments })
+    })
+  }
+
+  const submit = async () => {
+    if (!confirm('Submit your self-assessment? You will not be able to change it afterwards.')) return
+
+    setIsSubmitting(true)
+    setError('')
+    setErrors([])
+    try {
+      const response = await fetch(`/api/self-assessment/${params.token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ selfAssessment, ratings })
+      })
+      const data: SelfAssessmentFormResponse = await response.json()
+
+      if (data.success && data.form) {
+        setForm(data.form)
+      } else {
+        setError(data.error || 'The self-assessment could not be submitted')
+        setErrors(data.errors || [])
+      }
+    } catch (error) {
+      console.error('Error submitting self-assessment:', error)
+      setError('The self-assessment could not be submitted')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const categoryName = (categoryId: string) => form?.categories.filter(category => category.id === categoryId)[0]?.name || categoryId
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4 max-w-3xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Self-Assessment
+          </h1>
+          <p className="text-gray-600">
+            {form
+              ? `${form.employeeName} - review period ${form.reviewPeriod}`
+              : 'Share your own view of your performance'}
+          </p>
+        </div>
+
+        {isLoading && <p className="text-gray-600">Loading...</p>}
+
+        {!isLoading && !form && (
+          <div className="rounded-md border border-red-300 bg-red-50 p-4 text-red-800">{error}</div>
+        )}
+
+        {form && form.status === 'expired' && (
+          <Card>
+            <CardContent className="pt-6 text-gray-700">
+              This link expired on {formatDate(form.expiresAt)}. Ask your manager for a new one.
+            </CardContent>
+          </Card>
+        )}
+
+        {form && form.status === 'closed' && (
+          <Card>
+            <CardContent className="pt-6 text-gray-700">
+              Your manager has already submitted this review, so the self-assessment is closed.
+            </CardContent>
+          </Card>
+        )}
+
+        {form && form.status === 'submitted' && form.submission && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Lock className="w-5 h-5 mr-2" />
+                Submitted
+              </CardTitle>
+              <CardDescription>
+                Sent to your manager on {formatDate(form.submission.submittedAt)}. It can no longer be changed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="whitespace-pre-wrap text-gray-800">{form.submission.selfAssessment}</p>
+              {form.submission.ratings.length > 0 && (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {form.submission.ratings.map(rating => (
+                      <tr key={rating.categoryId} className="border-b align-top">
+                        <td className="py-2 pr-4 font-medium text-gray-900">{categoryName(rating.categoryId)}</td>
+                        <td className="py-2 pr-4 text-right">{rating.score.toFixed(1)}</td>
+                        <td className="py-2 text-gray-700">{rating.comments}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {form && form.status === 'open' && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <User className="w-5 h-5 mr-2" />
+                  Your Reflection
+                </CardTitle>
+                <CardDescription>
+                  Achievements, challenges and goals for the next period. This link works until {formatDate(form.expiresAt)}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Textarea
+                  value={selfAssessment}
+                  onChange={(e) => setSelfAssessment(e.target.value)}
+                  placeholder="Please share your thoughts about your performance, achievements, challenges, and goals for the next period..."
+                  className="min-h-[160px]"
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Rate Yourself</CardTitle>
+                <CardDescription>
+                  Optional: score each {form.templateName} category from 0 to 5 and explain why. Leave a score empty to skip a category.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {form.categories.map(category => {
+                  const rating = ratings.filter(r => r.categoryId === category.id)[0]
+                  return (
+                    <div key={category.id} className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h4 className="font-medium text-gray-900">{category.name}</h4>
+                          <p className="text-sm text-gray-600">{category.description}</p>
+                        </div>
+                        <input
+                          type="number"
+                          min="0"
+                          max="5"
+                          step="0.1"
+                          value={rating ? rating.score : ''}
+                          onChange={(e) => updateRating(
+                            category.id,
+                            e.target.value === '' ? null : Math.min(5, Math.max(0, parseFloat(e.target.value) || 0)),
+                            rating?.comments || ''
+                          )}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                          placeholder="-"
+                        />
+                      </div>
+                      {rating && (
+                        <Textarea
+                          value={rating.comments}
+                          onChange={(e) => updateRating(category.id, rating.score, e.target.value)}
+                          placeholder={`Why this score for ${category.name.toLowerCase()}?`}
+                          className="min-h-[60px]"
+                        />
+                      )}
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+
+            {error && (
+              <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800">
+                {error}
+                {errors.length > 0 && (
+                  <ul className="mt-1 list-disc pl-5">
+                    {errors.map(issue => (
+                      <li key={`${issue.path}-${issue.message}`}>{issue.path ? `${issue.path} ${issue.message}` : issue.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <Button onClick={submit} disabled={isSubmitting || !selfAssessment.trim()} className="w-full">
+              <Send className="w-4 h-4 mr-2" />
+              {isSubmitting ? 'Submitting...' : 'Submit Self-Assessment'}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
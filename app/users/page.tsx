@@ -0,0 +1,268 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { AppraisalRole, UserAccount, UserAccountInput, UserListResponse, UserResponse, ValidationIssue } from '@/types/appraisal'
+import { APPRAISAL_ROLES, roleLabel } from '@/lib/appraisal-workflow'
+import { ArrowLeft, Pencil, Plus, Save, Trash2, Users, X } from 'lucide-react'
+
+interface AccountForm {
+  username: string
+  name: string
+  email: string
+  role: AppraisalRole
+  employeeId: string
+  reports: string
+  password: string
+}
+
+const EMPTY_FORM: AccountForm = { username: '', name: '', email: '', role: 'manager', employeeId: '', reports: '', password: '' }
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+// HR admins maintain who can sign in, their role and whose reviews each manager looks after
+export default function UsersPage() {
+  const [users, setUsers] = useState<UserAccount[]>([])
+  const [error, setError] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<AccountForm | null>(null)
+  const [errors, setErrors] = useState<ValidationIssue[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadUsers = () => {
+    fetch('/api/users')
+      .then(response => response.json())
+      .then((data: UserListResponse) => {
+        if (data.success) {
+          setUsers(data.users)
+        } else {
+          setError(data.error || 'The accounts could not be loaded')
+        }
+      })
+      .catch(error => {
+        console.error('Error loading users:', error)
+        setError('The accounts could not be loaded')
+      })
+  }
+
+  useEffect(loadUsers, [])
+
+  const startEditing = (user: UserAccount | null) => {
+    setEditingId(user ? user.id : null)
+    setErrors([])
+    setForm(user ? {
+      username: user.username,
+      name: user.name,
+      email: user.email || '',
+      role: user.role,
+      employeeId: user.employeeId || '',
+      reports: user.reports.join(', '),
+      password: ''
+    } : EMPTY_FORM)
+  }
+
+  const updateForm = (field: keyof AccountForm, value: string) => {
+    setForm(prev => prev ? { ...prev, [field]: value } : prev)
+  }
+
+  const save = async () => {
+    if (!form) return
+    const input: UserAccountInput = {
+      username: form.username,
+      name: form.name,
+      ...(form.email.trim() ? { email: form.email.trim() } : {}),
+      role: form.role,
+      ...(form.employeeId.trim() ? { employeeId: form.employeeId.trim() } : {}),
+      reports: form.role === 'manager' ? form.reports.split(',').map(id => id.trim()).filter(Boolean) : [],
+      ...(form.password ? { password: form.password } : {})
+    }
+
+    setIsSaving(true)
+    setErrors([])
+    try {
+      const response = await fetch(editingId ? `/api/users/${editingId}` : '/api/users', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input)
+      })
+      const data: UserResponse = await response.json()
+      if (data.success) {
+        setForm(null)
+        setEditingId(null)
+        loadUsers()
+      } else {
+        setErrors(data.errors || [{ path: 'account', message: data.error || 'could not be saved' }])
+      }
+    } catch (error) {
+      console.error('Error saving user:', error)
+      setErrors([{ path: 'account', message: 'could not be saved' }])
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const remove = async (user: UserAccount) => {
+    if (!confirm(`Delete the account of ${user.name}? Their reviews are kept.`)) return
+    try {
+      const response = await fetch(`/api/users/${user.id}`, { method: 'DELETE' })
+      const data: UserResponse = await response.json()
+      if (data.success) {
+        loadUsers()
+      } else {
+        alert(data.error || 'The account could not be deleted')
+      }
+    } catch (error) {
+      console.error('Error deleting user:', error)
+      alert('The account could not be deleted')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4 max-w-5xl">
+        <div className="mb-8">
+          <Link href="/" className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to single appraisal
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Users
+          </h1>
+          <p className="text-gray-600">
+            Managers see and write the reviews of everyone in their reporting line: their direct reports, and the reports of any of those who have an account.
+            Employees only see their own reviews once they are shared. HR admins see everything except their own reviews.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-8 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800">{error}</div>
+        )}
+
+        {form && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle>{editingId ? 'Edit Account' : 'New Account'}</CardTitle>
+              <CardDescription>
+                People who use single sign-on are matched by email on their first sign-in and need no password.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+                  <input type="text" value={form.username} onChange={(e) => updateForm('username', e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input type="text" value={form.name} onChange={(e) => updateForm('name', e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                  <input type="email" value={form.email} onChange={(e) => updateForm('email', e.target.value)} className={inputClass} placeholder="Used to match single sign-on" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                  <select value={form.role} onChange={(e) => updateForm('role', e.target.value)} className={inputClass}>
+                    {APPRAISAL_ROLES.map(role => (
+                      <option key={role.value} value={role.value}>{role.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Employee ID</label>
+                  <input type="text" value={form.employeeId} onChange={(e) => updateForm('employeeId', e.target.value)} className={inputClass} placeholder="Their own reviews are filed under this ID" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+                  <input type="password" value={form.password} onChange={(e) => updateForm('password', e.target.value)} className={inputClass} autoComplete="new-password" placeholder={editingId ? 'Leave empty to keep the current one' : 'At least 10 characters, or empty for single sign-on only'} />
+                </div>
+              </div>
+              {form.role === 'manager' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Direct Reports</label>
+                  <input type="text" value={form.reports} onChange={(e) => updateForm('reports', e.target.value)} className={inputClass} placeholder="Employee IDs, comma-separated" />
+                </div>
+              )}
+              {errors.length > 0 && (
+                <ul className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800 list-disc list-inside">
+                  {errors.map((issue, index) => (
+                    <li key={index}>{issue.path} {issue.message}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex space-x-2">
+                <Button onClick={save} disabled={isSaving || !form.username.trim() || !form.name.trim()}>
+                  <Save className="w-4 h-4 mr-1" />
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Button>
+                <Button onClick={() => { setForm(null); setEditingId(null) }} variant="outline">
+                  <X className="w-4 h-4 mr-1" />
+                  Cancel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center">
+                <Users className="w-5 h-5 mr-2" />
+                Accounts
+              </CardTitle>
+              <Button onClick={() => startEditing(null)} size="sm" variant="outline">
+                <Plus className="w-4 h-4 mr-1" />
+                New Account
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {users.length === 0 ? (
+              <p className="text-sm text-gray-500">No accounts yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-4">Name</th>
+                    <th className="py-2 pr-4">Role</th>
+                    <th className="py-2 pr-4">Employee ID</th>
+                    <th className="py-2 pr-4">Direct Reports</th>
+                    <th className="py-2 pr-4">Sign-in</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {users.map(user => (
+                    <tr key={user.id} className="border-b align-top">
+                      <td className="py-2 pr-4">
+                        <div className="font-medium text-gray-900">{user.name}</div>
+                        <div className="text-gray-500">{user.username}{user.email && ` - ${user.email}`}</div>
+                      </td>
+                      <td className="py-2 pr-4">{roleLabel(user.role)}</td>
+                      <td className="py-2 pr-4">{user.employeeId || '-'}</td>
+                      <td className="py-2 pr-4">{user.reports.join(', ') || '-'}</td>
+                      <td className="py-2 pr-4 text-gray-600">
+                        {[user.hasPassword ? 'Password' : '', user.oidcSubject ? 'Single sign-on' : ''].filter(Boolean).join(', ') || 'Not yet'}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        <Button onClick={() => startEditing(user)} size="sm" variant="ghost" title="Edit">
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button onClick={() => remove(user)} size="sm" variant="ghost" title="Delete">
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+/**
+ * Abort signals for outgoing requests - the caller's cancellation plus a timeout
+ * Shared by the LLM client and the enterprise adapter
+ */
+
+export interface TimedSignal {
+  signal: AbortSignal;
+  timeout: AbortSignal; // Tells a timeout apart from a cancellation once the request failed
+  release: () => void;
+}
+
+/**
+ * The caller's signal combined with a timeout. The combined signal is aborted with the reason
+ * of whichever fired first; release() removes the listeners once the request has settled.
+ */
+export function timedSignal(timeoutMs: number, signal?: AbortSignal): TimedSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  if (!signal) {
+    return { signal: timeout, timeout, release: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal.reason);
+  const onTimeout = () => controller.abort(timeout.reason);
+  if (signal.aborted) {
+    onAbort();
+  } else if (timeout.aborted) {
+    onTimeout();
+  }
+  signal.addEventListener("abort", onAbort);
+  timeout.addEventListener("abort", onTimeout);
+  return {
+    signal: controller.signal,
+    timeout,
+    release: () => {
+      signal.removeEventListener("abort", onAbort);
+      timeout.removeEventListener("abort", onTimeout);
+    }
+  };
+}
+
+// Reads the body while the request's signal still applies, so the timeout and a cancellation
+// cover the whole exchange rather than just the headers
+export async function bufferedResponse(response: Response): Promise<Response> {
+  const body = await response.arrayBuffer();
+  return new Response(body.byteLength > 0 ? body : null, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AppraisalData, AppraisalRole, SessionUser, StoredAppraisal } from '@/types/appraisal'
+import { getUser, listUsers, reportingLine } from '@/lib/users'
+import { SESSION_COOKIE, Session, unseal } from '@/lib/session'
+import { roleLabel, statusOf } from '@/lib/appraisal-workflow'
+
+// Who may see and change which reviews. Every API route except the employee's self-assessment
+// link starts with requireUser; the account is re-read each time, so role and reporting-line
+// changes apply to open sessions at once.
+
+export type AuthResult =
+  | { user: SessionUser; response?: undefined }
+  | { user?: undefined; response: NextResponse }
+
+// Employees see their reviews once they have been shared with them
+const SHARED_STATUSES = ['shared', 'acknowledged']
+
+function denied(error: string, status: number): NextResponse {
+  return NextResponse.json({ success: false, error }, { status })
+}
+
+export function forbidden(error = 'You do not have access to this review'): NextResponse {
+  return denied(error, 403)
+}
+
+export function notManaged(employeeId: string): NextResponse {
+  return forbidden(`You do not manage the reviews of ${employeeId}`)
+}
+
+export async function currentUser(request: NextRequest): Promise<SessionUser | null> {
+  const session = unseal<Session>(request.cookies.get(SESSION_COOKIE)?.value)
+  const account = session ? await getUser(session.userId) : null
+  if (!session || !account) return null
+
+  return {
+    id: account.id,
+    username: account.username,
+    name: account.name,
+    role: account.role,
+    ...(account.employeeId ? { employeeId: account.employeeId } : {}),
+    reports: account.role === 'manager' ? reportingLine(account, await listUsers()) : [],
+    method: session.method
+  }
+}
+
+// 401 without a valid session, 403 when `roles` is given and the user has none of them
+export async function requireUser(request: NextRequest, roles?: AppraisalRole[]): Promise<AuthResult> {
+  const user = await currentUser(request)
+  if (!user) {
+    return { response: denied('Sign in to continue', 401) }
+  }
+  if (roles && roles.indexOf(user.role) === -1) {
+    return { response: forbidden(`This needs the ${roles.map(roleLabel).join(' or ')} role`) }
+  }
+  return { user }
+}
+
+// HR admins manage every review, managers those of their reporting line. Nobody manages their own.
+export function managesEmployee(user: SessionUser, employeeId: string): boolean {
+  if (!employeeId || employeeId === user.employeeId) return false
+  return user.role === 'hr-admin' || user.reports.indexOf(employeeId) !== -1
+}
+
+export function canViewAppraisal(user: SessionUser, appraisal: Pick<StoredAppraisal, 'employeeId' | 'status'>): boolean {
+  return managesEmployee(user, appraisal.employeeId) ||
+    (appraisal.employeeId === user.employeeId && SHARED_STATUSES.indexOf(statusOf(appraisal)) !== -1)
+}
+
+// Exports are rendered from the posted data, so the employee may export their own review
+export function canExport(user: SessionUser, data: Pick<AppraisalData, 'employeeId'>): boolean {
+  return managesEmployee(user, data.employeeId) || (!!user.employeeId && data.employeeId === user.employeeId)
+}
+
+// The person a review is about always acts on it as the employee, whatever their account role,
+// so a manager acknowledges their own review and HR cannot calibrate their own
+export function actingRole(user: SessionUser, appraisal: Pick<StoredAppraisal, 'employeeId'>): AppraisalRole {
+  return appraisal.employeeId === user.employeeId ? 'employee' : user.role
+}
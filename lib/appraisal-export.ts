@@ -0,0 +1,395 @@
+import { BorderStyle, Document, HeadingLevel, Packer, Paragraph, Table, TableCell, TableRow, TextRun, WidthType } from 'docx'
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib'
+import { AppraisalData } from '@/types/appraisal'
+import { FEEDBACK_SECTIONS, sectionTitle, splitFeedbackSections } from '@/lib/feedback-sections'
+import { performanceLevel } from '@/lib/scoring'
+
+// Formatted review documents (PDF and DOCX) built locally from an AppraisalData
+// record. Both renderers work from the same document model so they stay in step.
+
+export type ExportFormat = 'pdf' | 'docx'
+
+interface TextSpan {
+  text: string
+  bold: boolean
+}
+
+interface Block {
+  type: 'paragraph' | 'bullet'
+  spans: TextSpan[]
+}
+
+interface ExportSection {
+  title: string
+  blocks: Block[]
+}
+
+interface ExportModel {
+  title: string
+  header: { label: string; value: string }[]
+  scoreRows: { category: string; weight: string; score: string; comments: string }[]
+  overall: string
+  preamble: Block[]
+  sections: ExportSection[]
+}
+
+// "**bold** plain" -> spans
+function parseSpans(text: string): TextSpan[] {
+  return text
+    .split(/(\*\*[^*]+\*\*)/)
+    .filter(part => part.length > 0)
+    .map(part => part.startsWith('**') && part.endsWith('**')
+      ? { text: part.slice(2, -2), bold: true }
+      : { text: part, bold: false })
+}
+
+// Markdown-ish feedback text -> paragraphs and bullets; consecutive lines join into one paragraph
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = []
+  let paragraph: string[] = []
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', spans: parseSpans(paragraph.join(' ')) })
+      paragraph = []
+    }
+  }
+
+  text.split('\n').forEach(rawLine => {
+    const line = rawLine.trim()
+    const bullet = line.match(/^(?:[•*-]|\d+\.)\s+(.*)$/)
+    if (!line) {
+      flush()
+    } else if (bullet) {
+      flush()
+      blocks.push({ type: 'bullet', spans: parseSpans(bullet[1]) })
+    } else {
+      paragraph.push(line)
+    }
+  })
+  flush()
+
+  return blocks
+}
+
+function buildExportModel(data: AppraisalData): ExportModel {
+  const parsed = splitFeedbackSections(data.generatedFeedback || '')
+
+  return {
+    title: `Performance Review - ${data.employeeName}`,
+    header: [
+      { label: 'Employee', value: data.employeeName },
+      { label: 'Employee ID', value: data.employeeId },
+      { label: 'Reviewer', value: data.reviewerName },
+      { label: 'Review date', value: data.reviewDate || '-' },
+      { label: 'Review period', value: data.reviewPeriod || '-' },
+      { label: 'Template', value: `${data.template.name}${data.template.version ? ` (v${data.template.version})` : ''}` }
+    ],
+    scoreRows: data.template.categories.map(category => {
+      const rating = data.ratings.find(r => r.categoryId === category.id)
+      return {
+        category: category.name,
+        weight: `${(category.weight * 100).toFixed(0)}%`,
+        score: rating ? `${rating.score.toFixed(1)}/5` : '-',
+        comments: rating?.comments || ''
+      }
+    }),
+    overall: `${data.overallScore.toFixed(2)}/5 - ${performanceLevel(data.overallScore)}`,
+    preamble: parseBlocks(parsed.preamble),
+    // Sections the prompt template did not ask for are left out rather than printed empty
+    sections: FEEDBACK_SECTIONS.filter(section => parsed.sections[section.key]).map(section => ({
+      title: sectionTitle(section.key, data.language),
+      blocks: parseBlocks(parsed.sections[section.key])
+    }))
+  }
+}
+
+export function exportFileName(data: AppraisalData, format: ExportFormat): string {
+  const safe = (value: string) => value.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '')
+  return `appraisal-${safe(data.employeeId || data.employeeName) || 'employee'}-${safe(data.reviewPeriod || data.reviewDate) || 'review'}.${format}`
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+
+const PAGE_WIDTH = 595.28 // A4
+const PAGE_HEIGHT = 841.89
+const MARGIN = 50
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const BODY_SIZE = 10.5
+const LINE_GAP = 1.4
+
+class PdfWriter {
+  private doc: PDFDocument
+  private regular: PDFFont
+  private bold: PDFFont
+  private page: PDFPage
+  private y: number
+  private encodable: Record<string, boolean> = {}
+
+  constructor(doc: PDFDocument, regular: PDFFont, bold: PDFFont) {
+    this.doc = doc
+    this.regular = regular
+    this.bold = bold
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  // Standard PDF fonts only cover WinAnsi; anything else is replaced rather than failing the export
+  clean(text: string): string {
+    return text.split('').map(char => {
+      if (this.encodable[char] === undefined) {
+        try {
+          this.regular.encodeText(char)
+          this.encodable[char] = true
+        } catch (error) {
+          this.encodable[char] = false
+        }
+      }
+      return this.encodable[char] ? char : '?'
+    }).join('')
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      this.y = PAGE_HEIGHT - MARGIN
+    }
+  }
+
+  space(height: number) {
+    this.y -= height
+  }
+
+  // Word-wraps spans into lines no wider than width
+  private layout(spans: TextSpan[], size: number, width: number): { text: string; font: PDFFont }[][] {
+    const lines: { text: string; font: PDFFont }[][] = [[]]
+    let lineWidth = 0
+
+    spans.forEach(span => {
+      const font = span.bold ? this.bold : this.regular
+      this.clean(span.text).split(/(\s+)/).filter(word => word.length > 0).forEach(word => {
+        const isSpace = /^\s+$/.test(word)
+        const text = isSpace ? ' ' : word
+        const wordWidth = font.widthOfTextAtSize(text, size)
+        const current = lines[lines.length - 1]
+
+        if (isSpace && current.length === 0) return
+        if (!isSpace && lineWidth + wordWidth > width && current.length > 0) {
+          lines.push([])
+          lineWidth = 0
+        }
+        if (isSpace && lineWidth + wordWidth > width) return
+
+        lines[lines.length - 1].push({ text, font })
+        lineWidth += wordWidth
+      })
+    })
+
+    return lines.filter(line => line.length > 0)
+  }
+
+  text(spans: TextSpan[], options: { size?: number; indent?: number; color?: [number, number, number] } = {}) {
+    const size = options.size || BODY_SIZE
+    const indent = options.indent || 0
+    const color = options.color || [0.1, 0.1, 0.1]
+
+    this.layout(spans, size, CONTENT_WIDTH - indent).forEach(line => {
+      this.ensureSpace(size * LINE_GAP)
+      this.y -= size * LINE_GAP
+      let x = MARGIN + indent
+      line.forEach(piece => {
+        this.page.drawText(piece.text, { x, y: this.y, size, font: piece.font, color: rgb(color[0], color[1], color[2]) })
+        x += piece.font.widthOfTextAtSize(piece.text, size)
+      })
+    })
+  }
+
+  bullet(spans: TextSpan[]) {
+    this.ensureSpace(BODY_SIZE * LINE_GAP)
+    this.page.drawText('-', { x: MARGIN + 6, y: this.y - BODY_SIZE * LINE_GAP, size: BODY_SIZE, font: this.regular })
+    this.text(spans, { indent: 18 })
+  }
+
+  rule() {
+    this.ensureSpace(8)
+    this.y -= 6
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.5,
+      color: rgb(0.7, 0.7, 0.7)
+    })
+  }
+
+  // Simple grid table; cells wrap and each row grows to its tallest cell
+  table(headers: string[], rows: string[][], columnWidths: number[]) {
+    const size = 9.5
+    const padding = 4
+    const lineHeight = size * LINE_GAP
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      const wrapped = cells.map((cell, index) =>
+        this.layout([{ text: cell, bold }], size, columnWidths[index] - padding * 2))
+      const height = Math.max(...wrapped.map(lines => Math.max(lines.length, 1))) * lineHeight + padding * 2
+
+      this.ensureSpace(height)
+      let x = MARGIN
+      wrapped.forEach((lines, index) => {
+        this.page.drawRectangle({
+          x,
+          y: this.y - height,
+          width: columnWidths[index],
+          height,
+          borderColor: rgb(0.75, 0.75, 0.75),
+          borderWidth: 0.5,
+          color: bold ? rgb(0.94, 0.95, 0.97) : undefined
+        })
+        lines.forEach((line, lineIndex) => {
+          let textX = x + padding
+          line.forEach(piece => {
+            this.page.drawText(piece.text, {
+              x: textX,
+              y: this.y - padding - (lineIndex + 1) * lineHeight + (lineHeight - size) / 2,
+              size,
+              font: piece.font
+            })
+            textX += piece.font.widthOfTextAtSize(piece.text, size)
+          })
+        })
+        x += columnWidths[index]
+      })
+      this.y -= height
+    }
+
+    drawRow(headers, true)
+    rows.forEach(row => drawRow(row, false))
+  }
+}
+
+export async function renderPdf(data: AppraisalData): Promise<Uint8Array> {
+  const model = buildExportModel(data)
+  const doc = await PDFDocument.create()
+  doc.setTitle(model.title)
+  doc.setAuthor(data.reviewerName)
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica)
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold)
+  const writer = new PdfWriter(doc, regular, bold)
+
+  writer.text([{ text: model.title, bold: true }], { size: 18 })
+  writer.space(6)
+  model.header.forEach(field => {
+    writer.text([{ text: `${field.label}: `, bold: true }, { text: field.value, bold: false }])
+  })
+  writer.rule()
+
+  writer.space(8)
+  writer.text([{ text: 'Scores', bold: true }], { size: 13 })
+  writer.space(4)
+  writer.table(
+    ['Category', 'Weight', 'Score', 'Comments'],
+    model.scoreRows.map(row => [row.category, row.weight, row.score, row.comments]),
+    [130, 50, 50, CONTENT_WIDTH - 230]
+  )
+  writer.space(6)
+  writer.text([{ text: 'Overall score: ', bold: true }, { text: model.overall, bold: false }], { size: 11.5 })
+  writer.rule()
+
+  if (model.preamble.length > 0) {
+    writer.space(6)
+    model.preamble.forEach(block => {
+      block.type === 'bullet' ? writer.bullet(block.spans) : writer.text(block.spans)
+      writer.space(4)
+    })
+  }
+
+  model.sections.forEach(section => {
+    writer.space(10)
+    writer.text([{ text: section.title, bold: true }], { size: 13 })
+    writer.space(4)
+    if (section.blocks.length === 0) {
+      writer.text([{ text: 'Not included in this feedback', bold: false }], { color: [0.5, 0.5, 0.5] })
+    }
+    section.blocks.forEach(block => {
+      block.type === 'bullet' ? writer.bullet(block.spans) : writer.text(block.spans)
+      writer.space(4)
+    })
+  })
+
+  return doc.save()
+}
+
+// ---------------------------------------------------------------------------
+// DOCX
+
+function docxRuns(spans: TextSpan[]): TextRun[] {
+  return spans.map(span => new TextRun({ text: span.text, bold: span.bold }))
+}
+
+function docxBlocks(blocks: Block[]): Paragraph[] {
+  return blocks.map(block => block.type === 'bullet'
+    ? new Paragraph({ children: docxRuns(block.spans), bullet: { level: 0 } })
+    : new Paragraph({ children: docxRuns(block.spans), spacing: { after: 120 } }))
+}
+
+function docxCell(text: string, bold: boolean, widthPercent: number): TableCell {
+  return new TableCell({
+    width: { size: widthPercent, type: WidthType.PERCENTAGE },
+    shading: bold ? { fill: 'EEF1F6' } : undefined,
+    children: [new Paragraph({ children: [new TextRun({ text, bold })] })]
+  })
+}
+
+export async function renderDocx(data: AppraisalData): Promise<Buffer> {
+  const model = buildExportModel(data)
+  const widths = [25, 10, 10, 55]
+  const border = { style: BorderStyle.SINGLE, size: 4, color: 'BFBFBF' }
+
+  const scoreTable = new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    borders: { top: border, bottom: border, left: border, right: border, insideHorizontal: border, insideVertical: border },
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: ['Category', 'Weight', 'Score', 'Comments'].map((header, index) => docxCell(header, true, widths[index]))
+      }),
+      ...model.scoreRows.map(row => new TableRow({
+        children: [row.category, row.weight, row.score, row.comments].map((cell, index) => docxCell(cell, false, widths[index]))
+      }))
+    ]
+  })
+
+  const children: (Paragraph | Table)[] = [
+    new Paragraph({ text: model.title, heading: HeadingLevel.TITLE }),
+    ...model.header.map(field => new Paragraph({
+      children: [new TextRun({ text: `${field.label}: `, bold: true }), new TextRun(field.value)]
+    })),
+    new Paragraph({ text: 'Scores', heading: HeadingLevel.HEADING_1, spacing: { before: 240 } }),
+    scoreTable,
+    new Paragraph({
+      spacing: { before: 160 },
+      children: [new TextRun({ text: 'Overall score: ', bold: true }), new TextRun(model.overall)]
+    }),
+    ...docxBlocks(model.preamble)
+  ]
+
+  model.sections.forEach(section => {
+    children.push(new Paragraph({ text: section.title, heading: HeadingLevel.HEADING_1, spacing: { before: 240 } }))
+    if (section.blocks.length === 0) {
+      children.push(new Paragraph({ children: [new TextRun({ text: 'Not included in this feedback', italics: true, color: '808080' })] }))
+    }
+    children.push(...docxBlocks(section.blocks))
+  })
+
+  const doc = new Document({
+    title: model.title,
+    creator: data.reviewerName,
+    sections: [{ children }],
+    styles: {
+      default: { document: { run: { font: 'Calibri', size: 22 } } }
+    }
+  })
+
+  return Packer.toBuffer(doc)
+}
@@ -0,0 +1,215 @@
+import { randomUUID } from 'crypto'
+import { AppraisalData, AppraisalRole, AppraisalStatus, AppraisalSummary, StoredAppraisal, SubmittedSelfAssessment } from '@/types/appraisal'
+import { readCollection, updateCollection } from '@/lib/json-store'
+import { checkTransition, isLocked, statusLabel, statusOf } from '@/lib/appraisal-workflow'
+import { calculateOverallScore } from '@/lib/scoring'
+import { checkConsistency } from '@/lib/consistency-check'
+
+const COLLECTION = 'appraisals'
+
+export type SaveAppraisalResult =
+  | { status: 'saved'; appraisal: StoredAppraisal }
+  | { status: 'not-found' }
+  | { status: 'conflict'; existingId: string }
+  | { status: 'locked'; appraisalStatus: AppraisalStatus }
+
+export type AttachSubmissionResult =
+  | { status: 'attached'; appraisal: StoredAppraisal }
+  | { status: 'not-found' }
+  | { status: 'already-submitted' }
+  | { status: 'locked'; appraisalStatus: AppraisalStatus }
+
+export type TransitionResult =
+  | { status: 'changed'; appraisal: StoredAppraisal }
+  | { status: 'not-found' }
+  | { status: 'rejected'; reason: 'invalid' | 'forbidden' | 'incomplete'; error: string }
+
+export interface AppraisalFilter {
+  employeeId?: string
+  reviewPeriod?: string
+}
+
+function sameKey(a: { employeeId: string; reviewPeriod: string }, b: { employeeId: string; reviewPeriod: string }): boolean {
+  return a.employeeId === b.employeeId && a.reviewPeriod === b.reviewPeriod
+}
+
+export function toSummary(appraisal: StoredAppraisal): AppraisalSummary {
+  return {
+    id: appraisal.id,
+    employeeName: appraisal.employeeName,
+    employeeId: appraisal.employeeId,
+    reviewerName: appraisal.reviewerName,
+    reviewPeriod: appraisal.reviewPeriod,
+    reviewDate: appraisal.reviewDate,
+    overallScore: appraisal.overallScore,
+    hasFeedback: !!appraisal.generatedFeedback,
+    status: statusOf(appraisal),
+    updatedAt: appraisal.updatedAt
+  }
+}
+
+export async function listAppraisals(filter: AppraisalFilter = {}): Promise<StoredAppraisal[]> {
+  const appraisals = await readCollection<StoredAppraisal>(COLLECTION)
+  return appraisals
+    .filter(a => !filter.employeeId || a.employeeId === filter.employeeId)
+    .filter(a => !filter.reviewPeriod || a.reviewPeriod === filter.reviewPeriod)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export async function getAppraisal(id: string): Promise<StoredAppraisal | null> {
+  const appraisals = await readCollection<StoredAppraisal>(COLLECTION)
+  return appraisals.find(a => a.id === id) || null
+}
+
+export function createAppraisal(data: AppraisalData): Promise<SaveAppraisalResult> {
+  return updateCollection<StoredAppraisal, SaveAppraisalResult>(COLLECTION, appraisals => {
+    const existing = appraisals.find(a => sameKey(a, data))
+    if (existing) {
+      return { items: appraisals, result: { status: 'conflict', existingId: existing.id } }
+    }
+
+    const now = new Date().toISOString()
+    const appraisal: StoredAppraisal = { ...data, id: randomUUID(), createdAt: now, updatedAt: now, status: 'draft' }
+    return { items: [...appraisals, appraisal], result: { status: 'saved', appraisal } }
+  })
+}
+
+export function updateAppraisal(id: string, data: AppraisalData): Promise<SaveAppraisalResult> {
+  return updateCollection<StoredAppraisal, SaveAppraisalResult>(COLLECTION, appraisals => {
+    const current = appraisals.find(a => a.id === id)
+    if (!current) {
+      return { items: appraisals, result: { status: 'not-found' } }
+    }
+
+    if (isLocked(statusOf(current))) {
+      return { items: appraisals, result: { status: 'locked', appraisalStatus: statusOf(current) } }
+    }
+
+    const clash = appraisals.find(a => a.id !== id && sameKey(a, data))
+    if (clash) {
+      return { items: appraisals, result: { status: 'conflict', existingId: clash.id } }
+    }
+
+    // The employee's submission and the workflow state are not part of what the manager sends, so they carry over
+    const appraisal: StoredAppraisal = {
+      ...data,
+      id,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString(),
+      ...(current.employeeSubmission ? { employeeSubmission: current.employeeSubmission } : {}),
+      status: statusOf(current),
+      ...(current.statusHistory ? { statusHistory: current.statusHistory } : {}),
+      ...(current.calibrationAdjustments ? { calibrationAdjustments: current.calibrationAdjustments } : {})
+    }
+    return { items: appraisals.map(a => a.id === id ? appraisal : a), result: { status: 'saved', appraisal } }
+  })
+}
+
+// Submissions are final: a second one is refused rather than overwriting the first
+export function attachEmployeeSubmission(id: string, submission: SubmittedSelfAssessment): Promise<AttachSubmissionResult> {
+  return updateCollection<StoredAppraisal, AttachSubmissionResult>(COLLECTION, appraisals => {
+    const current = appraisals.find(a => a.id === id)
+    if (!current) {
+      return { items: appraisals, result: { status: 'not-found' } }
+    }
+    if (current.employeeSubmission) {
+      return { items: appraisals, result: { status: 'already-submitted' } }
+    }
+    if (isLocked(statusOf(current))) {
+      return { items: appraisals, result: { status: 'locked', appraisalStatus: statusOf(current) } }
+    }
+
+    const appraisal: StoredAppraisal = { ...current, employeeSubmission: submission, updatedAt: new Date().toISOString() }
+    return { items: appraisals.map(a => a.id === id ? appraisal : a), result: { status: 'attached', appraisal } }
+  })
+}
+
+// The transition is checked against the stored record inside the write, so two people acting at
+// once cannot both move the review from the same state
+export function transitionAppraisal(id: string, to: AppraisalStatus, actor: { name: string; role: AppraisalRole }, note = ''): Promise<TransitionResult> {
+  return updateCollection<StoredAppraisal, TransitionResult>(COLLECTION, appraisals => {
+    const current = appraisals.find(a => a.id === id)
+    if (!current) {
+      return { items: appraisals, result: { status: 'not-found' } }
+    }
+
+    const check = checkTransition(current, to, actor.role, note)
+    if (!check.allowed) {
+      return { items: appraisals, result: { status: 'rejected', reason: check.reason, error: check.error } }
+    }
+
+    const at = new Date().toISOString()
+    const appraisal: StoredAppraisal = {
+      ...current,
+      status: to,
+      statusHistory: [
+        ...(current.statusHistory || []),
+        { from: statusOf(current), to, at, by: actor.name, role: actor.role, ...(note.trim() ? { note: note.trim() } : {}) }
+      ],
+      updatedAt: at
+    }
+    return { items: appraisals.map(a => a.id === id ? appraisal : a), result: { status: 'changed', appraisal } }
+  })
+}
+
+export type AdjustRatingResult =
+  | { status: 'adjusted'; appraisal: StoredAppraisal }
+  | { status: 'not-found' }
+  | { status: 'rejected'; error: string }
+
+// Calibration changes scores after the manager submitted, so it is the one edit that bypasses the
+// draft lock - but only while the review waits for HR. The weighted overall score is recomputed.
+export function adjustRating(id: string, categoryId: string, score: number, by: string, reason: string): Promise<AdjustRatingResult> {
+  return updateCollection<StoredAppraisal, AdjustRatingResult>(COLLECTION, appraisals => {
+    const current = appraisals.find(a => a.id === id)
+    if (!current) {
+      return { items: appraisals, result: { status: 'not-found' } }
+    }
+    if (statusOf(current) !== 'manager-submitted') {
+      return { items: appraisals, result: { status: 'rejected', error: `Scores can only be adjusted while the review is "${statusLabel('manager-submitted')}"` } }
+    }
+    const rating = current.ratings.find(r => r.categoryId === categoryId)
+    if (!rating || !current.template.categories.some(c => c.id === categoryId)) {
+      return { items: appraisals, result: { status: 'rejected', error: `The review has no rating for category "${categoryId}"` } }
+    }
+
+    const ratings = current.ratings.map(r => r.categoryId === categoryId ? { ...r, score } : r)
+    const overallScore = calculateOverallScore(current.template.categories, ratings)
+    const at = new Date().toISOString()
+    // Feedback is left as written; the adjustment records that it predates the new score
+    const feedbackStale = !!current.generatedFeedback
+    const appraisal: StoredAppraisal = {
+      ...current,
+      ratings,
+      overallScore,
+      calibrationAdjustments: [
+        ...(current.calibrationAdjustments || []),
+        {
+          categoryId, from: rating.score, to: score, reason, by, at, overallFrom: current.overallScore, overallTo: overallScore,
+          ...(feedbackStale ? { feedbackStale, feedbackWarnings: checkConsistency({ ...current, ratings }).map(warning => warning.message) } : {})
+        }
+      ],
+      updatedAt: at
+    }
+    return { items: appraisals.map(a => a.id === id ? appraisal : a), result: { status: 'adjusted', appraisal } }
+  })
+}
+
+export type DeleteAppraisalResult =
+  | { status: 'deleted' }
+  | { status: 'not-found' }
+  | { status: 'locked'; appraisalStatus: AppraisalStatus }
+
+// Only drafts can be deleted; a submitted review is a record of what was decided
+export function deleteAppraisal(id: string): Promise<DeleteAppraisalResult> {
+  return updateCollection<StoredAppraisal, DeleteAppraisalResult>(COLLECTION, appraisals => {
+    const current = appraisals.find(a => a.id === id)
+    if (!current) {
+      return { items: appraisals, result: { status: 'not-found' } }
+    }
+    if (isLocked(statusOf(current))) {
+      return { items: appraisals, result: { status: 'locked', appraisalStatus: statusOf(current) } }
+    }
+    return { items: appraisals.filter(a => a.id !== id), result: { status: 'deleted' } }
+  })
+}
@@ -0,0 +1,95 @@
+import { AppraisalRole, AppraisalStatus, StoredAppraisal } from '@/types/appraisal'
+
+// The review lifecycle: draft -> manager-submitted -> hr-calibrated -> shared -> acknowledged.
+// Only drafts can be edited; HR can send a submitted review back to draft for changes.
+// Client-safe, so the page offers exactly the transitions the server will accept.
+
+export const APPRAISAL_STATUSES: { value: AppraisalStatus; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'manager-submitted', label: 'Submitted by manager' },
+  { value: 'hr-calibrated', label: 'Calibrated by HR' },
+  { value: 'shared', label: 'Shared with employee' },
+  { value: 'acknowledged', label: 'Acknowledged by employee' }
+]
+
+export const APPRAISAL_ROLES: { value: AppraisalRole; label: string }[] = [
+  { value: 'manager', label: 'Manager' },
+  { value: 'hr-admin', label: 'HR admin' },
+  { value: 'employee', label: 'Employee' }
+]
+
+export interface StatusTransition {
+  from: AppraisalStatus;
+  to: AppraisalStatus;
+  roles: AppraisalRole[];
+  action: string; // Button label
+  noteLabel?: string; // Asks for a note; the note is optional unless noteRequired
+  noteRequired?: boolean;
+}
+
+export const STATUS_TRANSITIONS: StatusTransition[] = [
+  { from: 'draft', to: 'manager-submitted', roles: ['manager'], action: 'Submit for calibration' },
+  { from: 'manager-submitted', to: 'draft', roles: ['hr-admin'], action: 'Return to manager', noteLabel: 'What needs to change', noteRequired: true },
+  { from: 'manager-submitted', to: 'hr-calibrated', roles: ['hr-admin'], action: 'Mark calibrated' },
+  { from: 'hr-calibrated', to: 'shared', roles: ['manager', 'hr-admin'], action: 'Share with employee' },
+  { from: 'shared', to: 'acknowledged', roles: ['employee'], action: 'Acknowledge', noteLabel: 'Rebuttal (optional)' }
+]
+
+export function statusOf(appraisal: Pick<StoredAppraisal, 'status'>): AppraisalStatus {
+  return appraisal.status || 'draft'
+}
+
+export function statusLabel(status: AppraisalStatus): string {
+  return APPRAISAL_STATUSES.filter(s => s.value === status)[0]?.label || status
+}
+
+export function roleLabel(role: AppraisalRole): string {
+  return APPRAISAL_ROLES.filter(r => r.value === role)[0]?.label || role
+}
+
+export function isAppraisalStatus(value: unknown): value is AppraisalStatus {
+  return APPRAISAL_STATUSES.some(s => s.value === value)
+}
+
+export function isAppraisalRole(value: unknown): value is AppraisalRole {
+  return APPRAISAL_ROLES.some(r => r.value === value)
+}
+
+// Everything after the manager submits is final unless HR returns it to draft
+export function isLocked(status: AppraisalStatus): boolean {
+  return status !== 'draft'
+}
+
+export function findTransition(from: AppraisalStatus, to: AppraisalStatus): StatusTransition | null {
+  return STATUS_TRANSITIONS.filter(t => t.from === from && t.to === to)[0] || null
+}
+
+export function availableTransitions(from: AppraisalStatus, role: AppraisalRole): StatusTransition[] {
+  return STATUS_TRANSITIONS.filter(t => t.from === from && t.roles.indexOf(role) !== -1)
+}
+
+export type TransitionCheck =
+  | { allowed: true; transition: StatusTransition }
+  | { allowed: false; reason: 'invalid' | 'forbidden' | 'incomplete'; error: string }
+
+export function checkTransition(appraisal: StoredAppraisal, to: AppraisalStatus, role: AppraisalRole, note = ''): TransitionCheck {
+  const from = statusOf(appraisal)
+  const transition = findTransition(from, to)
+  if (!transition) {
+    return { allowed: false, reason: 'invalid', error: `A review cannot move from "${statusLabel(from)}" to "${statusLabel(to)}"` }
+  }
+  if (transition.roles.indexOf(role) === -1) {
+    return {
+      allowed: false,
+      reason: 'forbidden',
+      error: `Only ${transition.roles.map(roleLabel).join(' or ')} can ${transition.action.toLowerCase()}`
+    }
+  }
+  if (transition.noteRequired && !note.trim()) {
+    return { allowed: false, reason: 'incomplete', error: `${transition.noteLabel} is required` }
+  }
+  if (to === 'manager-submitted' && !appraisal.generatedFeedback.trim()) {
+    return { allowed: false, reason: 'incomplete', error: 'Generate the feedback before submitting the review' }
+  }
+  return { allowed: true, transition }
+}
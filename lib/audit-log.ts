@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createHash, randomUUID } from 'crypto'
+import { AuditEntry, AuditFilter, SessionUser } from '@/types/appraisal'
+import { dataDir } from '@/lib/json-store'
+import { toCsv } from '@/lib/csv'
+
+// Who generated, changed, moved and exported which review. One JSON object per line in
+// audit-log.jsonl under APPRAISAL_DATA_DIR; entries are only ever appended, never rewritten.
+// Prompts and feedback are recorded as SHA-256 hashes, so the log proves what was sent and
+// produced without holding a second copy of the review.
+
+const FILE = 'audit-log.jsonl'
+
+let appendQueue: Promise<unknown> = Promise.resolve()
+
+export type AuditInput = Omit<AuditEntry, 'id' | 'at' | 'userId' | 'userName' | 'role'>
+
+function logPath(): string {
+  return path.join(dataDir(), FILE)
+}
+
+export function hashText(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex')
+}
+
+// Throws when the entry cannot be written, so nothing is done that the log does not show
+export function recordAudit(user: SessionUser, input: AuditInput): Promise<AuditEntry> {
+  const entry: AuditEntry = {
+    id: randomUUID(),
+    at: new Date().toISOString(),
+    userId: user.id,
+    userName: user.name,
+    role: user.role,
+    ...input
+  }
+  const next = appendQueue.catch(() => undefined).then(async () => {
+    const file = logPath()
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.appendFile(file, JSON.stringify(entry) + '\n', 'utf8')
+    return entry
+  })
+  appendQueue = next
+  return next
+}
+
+// The top-level fields that differ between two versions of a record, for the detail of an edit
+export function changedFields(before: object, after: object, ignore: string[] = ['updatedAt']): string[] {
+  const a = before as Record<string, unknown>
+  const b = after as Record<string, unknown>
+  const keys = Object.keys(a).concat(Object.keys(b).filter(key => !(key in a)))
+  return keys.filter(key => ignore.indexOf(key) === -1 && JSON.stringify(a[key]) !== JSON.stringify(b[key]))
+}
+
+function matches(entry: AuditEntry, filter: AuditFilter): boolean {
+  const day = entry.at.slice(0, 10)
+  const user = (filter.user || '').trim().toLowerCase()
+  return (!filter.action || entry.action === filter.action) &&
+    (!user || entry.userId === user || entry.userName.toLowerCase().indexOf(user) !== -1) &&
+    (!filter.employeeId || entry.employeeId === filter.employeeId) &&
+    (!filter.from || day >= filter.from) &&
+    (!filter.to || day <= filter.to)
+}
+
+// Newest first. A line cut short by a crash mid-append is skipped.
+export async function listAuditEntries(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+  let raw: string
+  try {
+    raw = await fs.readFile(logPath(), 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+
+  const entries: AuditEntry[] = []
+  raw.split('\n').forEach(line => {
+    if (!line.trim()) return
+    try {
+      entries.push(JSON.parse(line) as AuditEntry)
+    } catch (error) {
+      console.warn('Skipping unreadable audit log line:', line.slice(0, 80))
+    }
+  })
+  return entries.filter(entry => matches(entry, filter)).reverse()
+}
+
+const CSV_HEADER = ['at', 'action', 'userId', 'userName', 'role', 'employeeId', 'appraisalId', 'provider', 'model', 'prompt', 'promptHash', 'latencyMs', 'outcome', 'reason', 'feedbackHash', 'detail']
+
+export function auditCsv(entries: AuditEntry[]): string {
+  const rows: unknown[][] = [CSV_HEADER]
+  return toCsv(rows.concat(entries.map(entry => [
+    entry.at,
+    entry.action,
+    entry.userId,
+    entry.userName,
+    entry.role,
+    entry.employeeId,
+    entry.appraisalId,
+    entry.provider,
+    entry.model,
+    entry.prompt ? `${entry.prompt.id} v${entry.prompt.version}` : '',
+    entry.promptHash,
+    entry.latencyMs,
+    entry.outcome,
+    entry.reason,
+    entry.feedbackHash,
+    entry.detail
+  ])))
+}
@@ -0,0 +1,225 @@
+import { AppraisalData, AppraisalTemplate, ValidationIssue } from '@/types/appraisal'
+import { parseCsv, toCsv } from '@/lib/csv'
+import { validateAppraisalData } from '@/lib/validation'
+import { FEEDBACK_LANGUAGES } from '@/lib/feedback-locales'
+
+// Turns an uploaded CSV or JSON file into one AppraisalData per employee.
+//
+// Columns (CSV headers or JSON keys) are matched ignoring case, spaces and
+// punctuation, so "Employee Name", "employee_name" and "employeeName" are the
+// same column. Each template category needs "<category> score" and may have
+// "<category> comments", where <category> is its id or its name. The employee's own
+// ratings go in optional "<category> self score" and "<category> self comments" columns.
+
+export const MAX_BULK_ROWS = 200
+
+export interface BulkDefaults {
+  template: AppraisalTemplate
+  reviewerName: string
+  reviewDate: string
+  reviewPeriod: string
+}
+
+export interface BulkRow {
+  row: number
+  employeeName: string
+  employeeId: string
+  data?: AppraisalData
+  errors: ValidationIssue[]
+}
+
+export type BulkParseResult =
+  | { ok: true; rows: BulkRow[] }
+  | { ok: false; error: string }
+
+type RawRecord = Record<string, unknown>
+
+const COLUMN_ALIASES: Record<string, string[]> = {
+  employeeName: ['employeename', 'name'],
+  employeeId: ['employeeid', 'id'],
+  employeeGender: ['employeegender', 'gender'],
+  language: ['language', 'lang'],
+  reviewerName: ['reviewername', 'reviewer'],
+  additionalManagerComments: ['additionalmanagercomments', 'managercomments', 'comments'],
+  selfAssessment: ['selfassessment']
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+// Keys normalized so lookups do not depend on how the file spelled the header
+function normalizeRecord(record: RawRecord): RawRecord {
+  const normalized: RawRecord = {}
+  Object.keys(record).forEach(key => {
+    normalized[normalizeKey(key)] = record[key]
+  })
+  return normalized
+}
+
+function pick(record: RawRecord, keys: string[]): unknown {
+  for (const key of keys) {
+    const value = record[key]
+    if (value !== undefined && value !== '') return value
+  }
+  return undefined
+}
+
+function categoryKeys(category: { id: string; name: string }, suffix: string): string[] {
+  return [normalizeKey(category.id + suffix), normalizeKey(category.name + suffix)]
+}
+
+function toScore(value: unknown): unknown {
+  if (typeof value !== 'string') return value
+  const score = Number(value.trim())
+  // Left as the string so validation reports "must be a number"
+  return value.trim() && !isNaN(score) ? score : value
+}
+
+// JSON files often carry numeric employee IDs
+function toText(value: unknown): unknown {
+  return typeof value === 'number' ? String(value) : value
+}
+
+function toGender(value: unknown): unknown {
+  if (typeof value !== 'string') return value
+  const gender = value.trim().toLowerCase()
+  if (gender === 'm') return 'male'
+  if (gender === 'f') return 'female'
+  return gender.replace(/\s+/g, '-')
+}
+
+// "pt-br" or "DE" are accepted for the language codes; anything else is left for validation to report
+function toLanguage(value: unknown): unknown {
+  if (typeof value !== 'string') return value
+  const language = FEEDBACK_LANGUAGES.filter(l => l.code.toLowerCase() === value.trim().toLowerCase())[0]
+  return language ? language.code : value
+}
+
+function recordToInput(raw: RawRecord, defaults: BulkDefaults): RawRecord {
+  const record = normalizeRecord(raw)
+  const selfAssessment = pick(record, COLUMN_ALIASES.selfAssessment)
+  // Optional "<category> self score" / "<category> self comments" columns; blank scores are skipped
+  const selfRatings = defaults.template.categories
+    .map(category => ({
+      categoryId: category.id,
+      score: toScore(pick(record, categoryKeys(category, ' self score'))),
+      comments: pick(record, categoryKeys(category, ' self comments')) ?? ''
+    }))
+    .filter(rating => rating.score !== undefined)
+
+  return {
+    employeeName: pick(record, COLUMN_ALIASES.employeeName),
+    employeeId: toText(pick(record, COLUMN_ALIASES.employeeId)),
+    employeeGender: toGender(pick(record, COLUMN_ALIASES.employeeGender)),
+    language: toLanguage(pick(record, COLUMN_ALIASES.language)),
+    reviewerName: pick(record, COLUMN_ALIASES.reviewerName) ?? defaults.reviewerName,
+    reviewDate: defaults.reviewDate,
+    reviewPeriod: defaults.reviewPeriod,
+    template: defaults.template,
+    ratings: defaults.template.categories.map(category => ({
+      categoryId: category.id,
+      score: toScore(pick(record, categoryKeys(category, ' score'))),
+      comments: pick(record, categoryKeys(category, ' comments')) ?? ''
+    })),
+    selfAssessment: typeof selfAssessment === 'string' || selfRatings.length > 0
+      ? [{ selfAssessment: typeof selfAssessment === 'string' ? selfAssessment : '', ratings: selfRatings }]
+      : undefined,
+    additionalManagerComments: pick(record, COLUMN_ALIASES.additionalManagerComments) ?? '',
+    overallScore: 0,
+    generatedFeedback: ''
+  }
+}
+
+// "ratings[1].score" -> "communication score", matching the column the user has to fix
+function columnPath(path: string, template: AppraisalTemplate): string {
+  const match = path.match(/^ratings\[(\d+)\]\.(score|comments|categoryId)$/)
+  if (!match) return path
+  const category = template.categories[parseInt(match[1])]
+  return category ? `${category.id} ${match[2] === 'comments' ? 'comments' : 'score'}` : path
+}
+
+function readRecords(fileName: string, content: string): RawRecord[] | string {
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(content)) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(content)
+    } catch (error) {
+      return 'File is not valid JSON'
+    }
+    const records = Array.isArray(parsed) ? parsed : (parsed as RawRecord | null)?.employees
+    if (!Array.isArray(records) || records.some(record => typeof record !== 'object' || record === null || Array.isArray(record))) {
+      return 'JSON must be an array of employee objects (or { "employees": [...] })'
+    }
+    return records as RawRecord[]
+  }
+
+  const [header, ...lines] = parseCsv(content)
+  if (!header) {
+    return 'File is empty'
+  }
+  return lines.map(cells => {
+    const record: RawRecord = {}
+    header.forEach((column, index) => {
+      record[column] = (cells[index] || '').trim()
+    })
+    return record
+  })
+}
+
+export function parseBulkFile(fileName: string, content: string, defaults: BulkDefaults): BulkParseResult {
+  const records = readRecords(fileName, content)
+  if (typeof records === 'string') {
+    return { ok: false, error: records }
+  }
+  if (records.length === 0) {
+    return { ok: false, error: 'File has no employee rows' }
+  }
+  if (records.length > MAX_BULK_ROWS) {
+    return { ok: false, error: `File has ${records.length} rows; at most ${MAX_BULK_ROWS} can be generated at once` }
+  }
+
+  const seenIds: Record<string, number> = {}
+
+  return {
+    ok: true,
+    rows: records.map((record, index) => {
+      const input = recordToInput(record, defaults)
+      const row = index + 1
+      const employeeName = typeof input.employeeName === 'string' ? input.employeeName : ''
+      const employeeId = typeof input.employeeId === 'string' ? input.employeeId : ''
+
+      const validation = validateAppraisalData(input, 'generate')
+      const errors = validation.valid
+        ? []
+        : validation.errors.map(issue => ({ path: columnPath(issue.path, defaults.template), message: issue.message }))
+
+      if (employeeId && seenIds[employeeId]) {
+        errors.push({ path: 'employeeId', message: `duplicates row ${seenIds[employeeId]}` })
+      } else if (employeeId) {
+        seenIds[employeeId] = row
+      }
+
+      return {
+        row,
+        employeeName,
+        employeeId,
+        data: validation.valid && errors.length === 0 ? validation.value : undefined,
+        errors
+      }
+    })
+  }
+}
+
+// Header plus one example row for the chosen template, offered as a download on the bulk page
+export function bulkCsvTemplate(template: AppraisalTemplate): string {
+  const header = ['employeeName', 'employeeId', 'employeeGender', 'language']
+  const example = ['Jane Doe', 'E1001', 'female', 'en']
+  template.categories.forEach(category => {
+    header.push(`${category.id} score`, `${category.id} comments`)
+    example.push('4', `Comments on ${category.name.toLowerCase()}`)
+  })
+  header.push('additionalManagerComments')
+  example.push('')
+  return toCsv([header, example])
+}
@@ -0,0 +1,207 @@
+import { randomUUID } from 'crypto'
+import JSZip from 'jszip'
+import { AppraisalData, BulkJobSummary, BulkRowResult, PromptTemplateRecord, SessionUser } from '@/types/appraisal'
+import { BulkRow } from '@/lib/bulk-import'
+import { mapWithConcurrency } from '@/lib/concurrency'
+import { exportFileName, renderDocx, renderPdf } from '@/lib/appraisal-export'
+import { GenerationResult, createFeedbackPrompt, generationAudit, loadPriorReview, mockResult, requestFeedback } from '@/lib/feedback-generator'
+import { LLMClientChain, createLLMChainFromEnv } from '@/lib/llm-client'
+import { resolvePromptTemplate } from '@/lib/prompt-template-store'
+import { performanceLevel } from '@/lib/scoring'
+import { checkConsistency } from '@/lib/consistency-check'
+import { toCsv } from '@/lib/csv'
+import { hashText, recordAudit } from '@/lib/audit-log'
+
+// Bulk generation jobs. A job lives in memory for an hour after it starts so
+// its results can be downloaded once the progress stream has finished.
+
+const JOB_TTL_MS = 60 * 60 * 1000
+const DEFAULT_CONCURRENCY = 3
+
+interface JobRow {
+  result: BulkRowResult
+  data?: AppraisalData // Set once the row validated; generatedFeedback filled when done
+}
+
+export interface BulkJob {
+  id: string
+  owner: SessionUser // The user who started it; nobody else can read or download it, and the audit log names them
+  createdAt: number
+  finished: boolean
+  rows: JobRow[]
+}
+
+// Each route is bundled separately, so the registry hangs off globalThis to be shared
+// between the route that runs a job and the one that downloads its results
+const globalJobs = globalThis as unknown as { bulkJobs?: Record<string, BulkJob> }
+const jobs: Record<string, BulkJob> = globalJobs.bulkJobs || (globalJobs.bulkJobs = {})
+
+function pruneJobs() {
+  const cutoff = Date.now() - JOB_TTL_MS
+  Object.keys(jobs).forEach(id => {
+    if (jobs[id].createdAt < cutoff) delete jobs[id]
+  })
+}
+
+export function bulkConcurrencyFromEnv(): number {
+  const value = parseInt(process.env.BULK_GENERATION_CONCURRENCY || '')
+  return isNaN(value) || value < 1 ? DEFAULT_CONCURRENCY : value
+}
+
+export function createBulkJob(rows: BulkRow[], owner: SessionUser): BulkJob {
+  pruneJobs()
+
+  const job: BulkJob = {
+    id: randomUUID(),
+    owner,
+    createdAt: Date.now(),
+    finished: false,
+    rows: rows.map(row => ({
+      data: row.data,
+      result: {
+        row: row.row,
+        employeeName: row.employeeName,
+        employeeId: row.employeeId,
+        status: row.data ? 'pending' : 'invalid',
+        overallScore: row.data?.overallScore,
+        errors: row.errors.length > 0 ? row.errors : undefined
+      }
+    }))
+  }
+
+  jobs[job.id] = job
+  return job
+}
+
+// Another user's job is reported as missing
+export function getBulkJob(id: string, ownerId: string): BulkJob | null {
+  const job = jobs[id]
+  return job && job.owner.id === ownerId ? job : null
+}
+
+export function summarizeBulkJob(job: BulkJob): BulkJobSummary {
+  const rows = job.rows.map(row => row.result)
+  return {
+    jobId: job.id,
+    total: rows.length,
+    done: rows.filter(row => row.status === 'done').length,
+    failed: rows.filter(row => row.status === 'failed' || row.status === 'invalid').length,
+    rows
+  }
+}
+
+// Generates one row and writes its audit entry. Throws when the prompt template cannot be
+// loaded or the entry cannot be written; runBulkJob then reports the row as failed.
+async function generateRow(job: BulkJob, chain: LLMClientChain, row: JobRow, prompt: PromptTemplateRecord): Promise<void> {
+  const data = row.data as AppraisalData
+  const started = Date.now()
+
+  if (!chain.isAvailable()) {
+    const result = mockResult(data, 'No LLM provider is configured', prompt)
+    await recordAudit(job.owner, generationAudit(data, started, result))
+    row.data = { ...data, generatedFeedback: result.feedback }
+    row.result = { ...row.result, status: 'done', source: 'mock', error: result.fallbackReason }
+    return
+  }
+
+  // The prompt is hashed before the call so a failed row still shows what the providers were sent
+  const prior = await loadPriorReview(data)
+  const promptHash = hashText(createFeedbackPrompt(data, prompt, prior))
+  let result: GenerationResult
+  try {
+    result = await requestFeedback(chain, data, prompt, prior)
+  } catch (error) {
+    console.warn(`Bulk generation failed for row ${row.result.row}:`, error)
+    const reason = error instanceof Error ? error.message : 'LLM call failed'
+    await recordAudit(job.owner, { action: 'generate', employeeId: data.employeeId, promptHash, latencyMs: Date.now() - started, outcome: 'failed', reason })
+    row.result = { ...row.result, status: 'failed', error: reason }
+    return
+  }
+
+  await recordAudit(job.owner, generationAudit(data, started, result))
+  row.data = { ...data, generatedFeedback: result.feedback }
+  row.result = { ...row.result, status: 'done', source: 'llm', provider: result.provider, model: result.model, prompt: result.prompt }
+}
+
+// Generates every valid row with at most `concurrency` LLM calls in flight.
+// A row whose providers all fail is marked failed rather than filled with mock text;
+// the mock is only used when no provider is configured at all, as on the single form.
+// Every generated or failed row is written to the audit log under the job's owner.
+// The job always ends finished, so its results can be downloaded whatever went wrong.
+export async function runBulkJob(job: BulkJob, concurrency: number, onUpdate: (row: BulkRowResult) => void): Promise<void> {
+  const chain = createLLMChainFromEnv()
+  const pending = job.rows.filter(row => row.data)
+  // Every row shares the job's template, so this is normally a single lookup
+  const prompts: Record<string, Promise<PromptTemplateRecord>> = {}
+
+  try {
+    await mapWithConcurrency(pending, concurrency, async row => {
+      row.result = { ...row.result, status: 'running' }
+      onUpdate(row.result)
+
+      try {
+        const promptTemplateId = (row.data as AppraisalData).template.promptTemplateId
+        const promptKey = promptTemplateId || ''
+        prompts[promptKey] = prompts[promptKey] || resolvePromptTemplate(promptTemplateId)
+        await generateRow(job, chain, row, await prompts[promptKey])
+      } catch (error) {
+        console.error(`Bulk generation failed for row ${row.result.row}:`, error)
+        row.result = { ...row.result, status: 'failed', error: error instanceof Error ? error.message : 'Generation failed' }
+      }
+      onUpdate(row.result)
+    })
+  } finally {
+    job.finished = true
+  }
+}
+
+function summaryCsv(job: BulkJob, includeFeedback: boolean): string {
+  const header = ['row', 'employeeName', 'employeeId', 'status', 'overallScore', 'performanceLevel', 'source', 'provider', 'model', 'prompt', 'consistency', 'error']
+  if (includeFeedback) header.push('feedback')
+
+  return toCsv([header as unknown[]].concat(job.rows.map(({ result, data }) => {
+    const errors = result.errors ? result.errors.map(issue => `${issue.path}: ${issue.message}`).join('; ') : result.error
+    const cells: unknown[] = [
+      result.row,
+      result.employeeName,
+      result.employeeId,
+      result.status,
+      result.overallScore !== undefined ? result.overallScore.toFixed(2) : '',
+      result.overallScore !== undefined ? performanceLevel(result.overallScore) : '',
+      result.source,
+      result.provider,
+      result.model,
+      result.prompt ? `${result.prompt.id} v${result.prompt.version}` : '',
+      // Reviews nobody has read yet are where score/narrative mismatches go unnoticed
+      result.status === 'done' && data ? checkConsistency(data).map(warning => warning.message).join('; ') : '',
+      errors
+    ]
+    if (includeFeedback) cells.push(result.status === 'done' && data ? data.generatedFeedback : '')
+    return cells
+  })))
+}
+
+// One CSV with every row's status and generated feedback
+export function buildCombinedCsv(job: BulkJob): string {
+  return summaryCsv(job, true)
+}
+
+// summary.csv plus, for every generated row, the feedback as text and as a formatted PDF
+// (DOCX for Japanese reviews, which the standard PDF fonts cannot render)
+export async function buildResultsZip(job: BulkJob): Promise<Uint8Array> {
+  const zip = new JSZip()
+  zip.file('summary.csv', summaryCsv(job, false))
+
+  for (const row of job.rows) {
+    if (row.result.status === 'done' && row.data) {
+      if (row.data.language === 'ja') {
+        zip.file(exportFileName(row.data, 'docx'), await renderDocx(row.data))
+      } else {
+        zip.file(exportFileName(row.data, 'pdf'), await renderPdf(row.data))
+      }
+      zip.file(exportFileName(row.data, 'pdf').replace(/\.pdf$/, '.txt'), row.data.generatedFeedback)
+    }
+  }
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+}
@@ -0,0 +1,164 @@
+import { CalibrationReport, CategorySpread, DistributionBand, HistogramBin, ReviewerSpread, StoredAppraisal } from '@/types/appraisal'
+import { MAX_SCORE, PerformanceLevelKey, performanceLevelKey } from '@/lib/scoring'
+import { isLocked, statusOf } from '@/lib/appraisal-workflow'
+
+// Statistics HR uses to calibrate one review period: how overall and category scores spread,
+// which reviewers score above or below everyone else, which reviews stand out, and how the
+// performance levels compare with the forced distribution. Drafts are counted but left out,
+// since their scores are still moving.
+
+export const HISTOGRAM_BIN_WIDTH = 0.5
+
+// A review is an outlier at 1.5 standard deviations; 2 rarely triggers in teams of a few dozen
+export const OUTLIER_Z_SCORE = 1.5
+
+// A reviewer whose average is this far from the period average is flagged lenient or harsh
+export const REVIEWER_DELTA = 0.5
+
+// Target share of reviews per performance level; adds up to 1
+export const FORCED_DISTRIBUTION: { level: PerformanceLevelKey; label: string; share: number }[] = [
+  { level: 'outstanding', label: 'Outstanding', share: 0.05 },
+  { level: 'excellent', label: 'Excellent', share: 0.15 },
+  { level: 'good', label: 'Good', share: 0.35 },
+  { level: 'satisfactory', label: 'Satisfactory', share: 0.3 },
+  { level: 'needsImprovement', label: 'Needs Improvement', share: 0.1 },
+  { level: 'poor', label: 'Poor', share: 0.05 }
+]
+
+// Weighted averages come out as 4.4999...; bands are decided on the score as displayed
+function displayed(score: number): number {
+  return Math.round(score * 100) / 100
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0
+  const average = mean(values)
+  return Math.sqrt(mean(values.map(value => (value - average) * (value - average))))
+}
+
+function histogram(values: number[]): HistogramBin[] {
+  const bins: HistogramBin[] = []
+  for (let from = 0; from < MAX_SCORE; from += HISTOGRAM_BIN_WIDTH) {
+    bins.push({ from, to: from + HISTOGRAM_BIN_WIDTH, count: 0 })
+  }
+  values.forEach(value => {
+    const index = Math.min(bins.length - 1, Math.max(0, Math.floor(displayed(value) / HISTOGRAM_BIN_WIDTH)))
+    bins[index].count++
+  })
+  return bins
+}
+
+function categorySpreads(appraisals: StoredAppraisal[]): CategorySpread[] {
+  const scores: Record<string, { name: string; values: number[] }> = {}
+  const order: string[] = []
+
+  appraisals.forEach(appraisal => {
+    appraisal.template.categories.forEach(category => {
+      const rating = appraisal.ratings.find(r => r.categoryId === category.id)
+      if (!rating) return
+      if (!scores[category.id]) {
+        scores[category.id] = { name: category.name, values: [] }
+        order.push(category.id)
+      }
+      scores[category.id].values.push(rating.score)
+    })
+  })
+
+  return order.map(categoryId => {
+    const values = scores[categoryId].values
+    return {
+      categoryId,
+      categoryName: scores[categoryId].name,
+      count: values.length,
+      average: mean(values),
+      min: Math.min.apply(null, values),
+      max: Math.max.apply(null, values),
+      histogram: histogram(values)
+    }
+  })
+}
+
+function reviewerSpreads(appraisals: StoredAppraisal[], average: number): ReviewerSpread[] {
+  const names: string[] = []
+  appraisals.forEach(appraisal => {
+    if (names.indexOf(appraisal.reviewerName) === -1) names.push(appraisal.reviewerName)
+  })
+
+  return names
+    .map(reviewerName => {
+      const reviewerAverage = mean(appraisals.filter(a => a.reviewerName === reviewerName).map(a => a.overallScore))
+      const delta = reviewerAverage - average
+      const spread: ReviewerSpread = {
+        reviewerName,
+        count: appraisals.filter(a => a.reviewerName === reviewerName).length,
+        average: reviewerAverage,
+        delta
+      }
+      if (Math.abs(delta) >= REVIEWER_DELTA) spread.tendency = delta > 0 ? 'lenient' : 'harsh'
+      return spread
+    })
+    .sort((a, b) => b.delta - a.delta)
+}
+
+function distribution(scores: number[]): DistributionBand[] {
+  return FORCED_DISTRIBUTION.map(band => {
+    const actualCount = scores.filter(score => performanceLevelKey(displayed(score)) === band.level).length
+    return {
+      level: band.level,
+      label: band.label,
+      targetShare: band.share,
+      actualShare: scores.length > 0 ? actualCount / scores.length : 0,
+      actualCount,
+      targetCount: Math.round(band.share * scores.length)
+    }
+  })
+}
+
+export function buildCalibrationReport(reviewPeriod: string, appraisals: StoredAppraisal[]): CalibrationReport {
+  const inPeriod = appraisals.filter(a => a.reviewPeriod === reviewPeriod)
+  const included = inPeriod.filter(a => isLocked(statusOf(a)))
+  const scores = included.map(a => a.overallScore)
+  const average = mean(scores)
+  const deviation = standardDeviation(scores)
+
+  return {
+    reviewPeriod,
+    count: included.length,
+    draftCount: inPeriod.length - included.length,
+    average,
+    standardDeviation: deviation,
+    histogram: histogram(scores),
+    categories: categorySpreads(included),
+    reviewers: reviewerSpreads(included, average),
+    outliers: deviation > 0
+      ? included
+        .map(a => ({
+          appraisalId: a.id,
+          employeeName: a.employeeName,
+          reviewerName: a.reviewerName,
+          overallScore: a.overallScore,
+          zScore: (a.overallScore - average) / deviation
+        }))
+        .filter(outlier => Math.abs(outlier.zScore) >= OUTLIER_Z_SCORE)
+        .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore))
+      : [],
+    distribution: distribution(scores),
+    entries: included
+      .map(a => ({
+        appraisalId: a.id,
+        employeeName: a.employeeName,
+        employeeId: a.employeeId,
+        reviewerName: a.reviewerName,
+        status: statusOf(a),
+        overallScore: a.overallScore,
+        categories: a.template.categories,
+        ratings: a.ratings,
+        adjustments: a.calibrationAdjustments || []
+      }))
+      .sort((a, b) => a.reviewerName.localeCompare(b.reviewerName) || a.employeeName.localeCompare(b.employeeName))
+  }
+}
@@ -0,0 +1,72 @@
+import { AppraisalData, ConsistencyKind, ConsistencyWarning } from '@/types/appraisal'
+import { FeedbackSectionKey, splitFeedbackSections } from '@/lib/feedback-sections'
+import { RISK_SCORE, STRENGTH_SCORE } from '@/lib/scoring'
+
+// Checks the generated narrative against the scores. Each section is mapped to the
+// categories it mentions and the section's role stands in for its sentiment: Success &
+// Achievements praises, Areas for Focus and Risk Overlay criticise. The thresholds are the
+// ones the mock review is built from, so offline text always passes.
+//
+// Mentions are found by name, so the check is a heuristic: a category named only in
+// passing, or paraphrased beyond recognition, can produce a false warning or miss one.
+
+const STOP_WORDS = ['and', 'the', 'for', 'with', 'skills', 'skill']
+
+// Significant words of a category name, cut to a stem so "Communication" also
+// matches "communicates" and "Problem Solving" matches "solving problems"
+function nameStems(name: string): string[] {
+  return name.toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 4 && STOP_WORDS.indexOf(word) === -1)
+    .map(word => word.slice(0, 6))
+}
+
+export function mentionsCategory(text: string, name: string): boolean {
+  const lower = text.toLowerCase()
+  if (lower.indexOf(name.toLowerCase()) !== -1) return true
+  const stems = nameStems(name)
+  return stems.length > 0 && stems.every(stem => new RegExp(`\\b${stem}`).test(lower))
+}
+
+const MESSAGES: Record<ConsistencyKind, (name: string, score: number) => string> = {
+  'strength-as-risk': (name, score) => `${name} is rated ${score.toFixed(1)} (a strength) but is mentioned in the Risk Overlay`,
+  'strength-as-focus': (name, score) => `${name} is rated ${score.toFixed(1)} (a strength) but is listed under Areas for Focus`,
+  'praised-low-score': (name, score) => `${name} is rated ${score.toFixed(1)} (a risk) but is praised under Success & Achievements`,
+  'risk-not-flagged': (name, score) => `${name} is rated ${score.toFixed(1)} (a risk) but is never mentioned in the Risk Overlay`,
+  'strength-not-credited': (name, score) => `${name} is rated ${score.toFixed(1)} (a strength) but is not mentioned under Success & Achievements`
+}
+
+// Omissions are only reported for English reviews, where category names appear as written;
+// in other languages the model translates them and a missing mention proves nothing
+export function checkConsistency(data: Pick<AppraisalData, 'generatedFeedback' | 'template' | 'ratings' | 'language'>): ConsistencyWarning[] {
+  const sections = splitFeedbackSections(data.generatedFeedback || '').sections
+  const checkOmissions = !data.language || data.language === 'en'
+  const warnings: ConsistencyWarning[] = []
+
+  const warn = (kind: ConsistencyKind, section: FeedbackSectionKey, categoryId: string, categoryName: string, score: number) => {
+    warnings.push({ id: `${kind}-${categoryId}`, kind, categoryId, categoryName, score, section, message: MESSAGES[kind](categoryName, score) })
+  }
+
+  data.template.categories.forEach(category => {
+    const rating = data.ratings.find(r => r.categoryId === category.id)
+    if (!rating) return
+    const mentionedIn = (key: FeedbackSectionKey) => !!sections[key] && mentionsCategory(sections[key], category.name)
+
+    if (rating.score >= STRENGTH_SCORE) {
+      if (mentionedIn('riskOverlay')) warn('strength-as-risk', 'riskOverlay', category.id, category.name, rating.score)
+      if (mentionedIn('areasForFocus')) warn('strength-as-focus', 'areasForFocus', category.id, category.name, rating.score)
+      if (checkOmissions && sections.successAndAchievements && !mentionedIn('successAndAchievements')) {
+        warn('strength-not-credited', 'successAndAchievements', category.id, category.name, rating.score)
+      }
+    }
+
+    if (rating.score < RISK_SCORE) {
+      if (mentionedIn('successAndAchievements')) warn('praised-low-score', 'successAndAchievements', category.id, category.name, rating.score)
+      if (checkOmissions && sections.riskOverlay && !mentionedIn('riskOverlay')) {
+        warn('risk-not-flagged', 'riskOverlay', category.id, category.name, rating.score)
+      }
+    }
+  })
+
+  return warnings
+}
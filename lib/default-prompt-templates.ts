@@ -0,0 +1,100 @@
+import { PromptTemplate } from '@/types/appraisal'
+
+// Section guidance used when a template leaves a section's guidance empty
+export const DEFAULT_SECTION_GUIDANCE: Record<string, string> = {
+  successAndAchievements: 'Highlight {{possessive}} key accomplishments, strengths, and what {{subject}} has done exceptionally well',
+  areasForFocus: 'Identify specific areas where {{subject}} can grow and improve, with actionable suggestions',
+  riskOverlay: 'Address any potential challenges, concerns, or areas that need immediate attention',
+  overallSummary: 'Provide a balanced conclusion with encouragement and next steps'
+}
+
+const DEFAULT_BODY = `You are an experienced manager writing a performance review for {{employeeName}}. {{tone}}
+
+{{appraisal}}
+
+CRITICAL INSTRUCTION: Write this performance review in THIRD PERSON ONLY. Never use "you" or "your". Always refer to the employee as "{{subject}}", "{{object}}", or "{{possessive}}". This is a formal performance review document, not a direct conversation.
+
+Please write a natural, professional performance review organized under these sections:
+
+{{sections}}
+
+{{length}}
+
+Focus on the person, not just the metrics. Show that you see {{possessive}} potential and believe in {{possessive}} growth. Start directly with your observations and feedback - no generic greetings or formalities.`
+
+const allSections = () => Object.keys(DEFAULT_SECTION_GUIDANCE).map(key => ({ key, guidance: DEFAULT_SECTION_GUIDANCE[key] }))
+
+export const defaultPromptTemplate: PromptTemplate = {
+  id: 'default',
+  name: 'Standard',
+  description: 'Warm, mentor-style review covering all four sections',
+  tone: 'warm',
+  length: 'standard',
+  sections: allSections(),
+  body: DEFAULT_BODY
+}
+
+export const builtInPromptTemplates: PromptTemplate[] = [
+  defaultPromptTemplate,
+  {
+    id: 'concise',
+    name: 'Concise & Direct',
+    description: 'Short, plain-spoken review, e.g. for engineering teams',
+    tone: 'direct',
+    length: 'brief',
+    sections: allSections(),
+    body: `You are a manager writing a performance review for {{employeeName}}. {{tone}}
+
+{{appraisal}}
+
+Write in THIRD PERSON ONLY - refer to the employee as "{{subject}}", "{{object}}" or "{{possessive}}", never "you".
+
+Sections:
+
+{{sections}}
+
+{{length}} Name specific work where the comments allow it.`
+  },
+  {
+    id: 'formal',
+    name: 'Formal',
+    description: 'Neutral, factual register for compliance-heavy teams',
+    tone: 'formal',
+    length: 'standard',
+    sections: allSections(),
+    body: `You are a manager preparing the formal performance review record for {{employeeName}} (ID: {{employeeId}}) for the period {{reviewPeriod}}. {{tone}}
+
+{{appraisal}}
+
+The review must be written in THIRD PERSON ONLY, referring to the employee as "{{subject}}", "{{object}}" or "{{possessive}}". Every statement should be supported by the ratings or the manager's comments; do not speculate beyond them.
+
+Organize the review under these sections:
+
+{{sections}}
+
+{{length}}`
+  },
+  {
+    id: 'probation',
+    name: 'Probation Review',
+    description: 'End-of-probation review with a confirmation recommendation',
+    tone: 'formal',
+    length: 'standard',
+    sections: [
+      { key: 'successAndAchievements', guidance: 'Summarize {{possessive}} progress against the expectations of the probation period and what {{subject}} has done well' },
+      { key: 'areasForFocus', guidance: 'List what {{subject}} must improve, with concrete expectations, for the probation to be confirmed' },
+      { key: 'overallSummary', guidance: 'State a recommendation - confirm, extend the probation, or do not confirm - and the reasons for it, based on the overall score of {{overallScore}} ({{performanceLevel}})' }
+    ],
+    body: `You are a manager writing the end-of-probation review for {{employeeName}}, a new hire. {{tone}}
+
+{{appraisal}}
+
+Write in THIRD PERSON ONLY, referring to the employee as "{{subject}}", "{{object}}" or "{{possessive}}". Judge the period against what can reasonably be expected of someone new to the role.
+
+Organize the review under these sections:
+
+{{sections}}
+
+{{length}}`
+  }
+]
@@ -0,0 +1,161 @@
+import { AppraisalTemplate } from '@/types/appraisal'
+
+// Default appraisal template
+export const defaultTemplate: AppraisalTemplate = {
+  id: 'default',
+  name: 'Standard Performance Review',
+  description: 'Comprehensive performance evaluation template',
+  version: 1,
+  categories: [
+    {
+      id: 'technical-skills',
+      name: 'Technical Skills',
+      description: 'Proficiency in required technical skills and tools',
+      weight: 0.25
+    },
+    {
+      id: 'communication',
+      name: 'Communication',
+      description: 'Effectiveness in verbal and written communication',
+      weight: 0.20
+    },
+    {
+      id: 'teamwork',
+      name: 'Teamwork & Collaboration',
+      description: 'Ability to work effectively in team environments',
+      weight: 0.20
+    },
+    {
+      id: 'problem-solving',
+      name: 'Problem Solving',
+      description: 'Analytical thinking and creative problem-solving abilities',
+      weight: 0.20
+    },
+    {
+      id: 'leadership',
+      name: 'Leadership & Initiative',
+      description: 'Taking initiative and demonstrating leadership qualities',
+      weight: 0.15
+    }
+  ]
+}
+
+// Seeded into the template library the first time it is opened
+export const builtInTemplates: AppraisalTemplate[] = [
+  defaultTemplate,
+  {
+    id: 'engineering',
+    name: 'Engineering Track',
+    description: 'Individual contributor review for software and systems engineers',
+    promptTemplateId: 'concise',
+    version: 1,
+    categories: [
+      {
+        id: 'technical-excellence',
+        name: 'Technical Excellence',
+        description: 'Code and design quality, debugging, and depth in the team\'s technology stack',
+        weight: 0.30
+      },
+      {
+        id: 'delivery',
+        name: 'Delivery & Ownership',
+        description: 'Shipping reliable work on time and owning it through production',
+        weight: 0.25
+      },
+      {
+        id: 'communication',
+        name: 'Communication',
+        description: 'Clear design docs, code reviews, and status updates',
+        weight: 0.15
+      },
+      {
+        id: 'collaboration',
+        name: 'Collaboration',
+        description: 'Working across teams, mentoring, and constructive code review',
+        weight: 0.15
+      },
+      {
+        id: 'operational-excellence',
+        name: 'Operational Excellence',
+        description: 'On-call, incident handling, observability, and reducing toil',
+        weight: 0.15
+      }
+    ]
+  },
+  {
+    id: 'sales',
+    name: 'Sales Track',
+    description: 'Review for quota-carrying and customer-facing sales roles',
+    version: 1,
+    categories: [
+      {
+        id: 'quota-attainment',
+        name: 'Quota Attainment',
+        description: 'Bookings against target and forecast accuracy',
+        weight: 0.35
+      },
+      {
+        id: 'pipeline',
+        name: 'Pipeline Generation',
+        description: 'Building and qualifying a healthy pipeline of opportunities',
+        weight: 0.20
+      },
+      {
+        id: 'customer-relationships',
+        name: 'Customer Relationships',
+        description: 'Trust, retention, and expansion within existing accounts',
+        weight: 0.20
+      },
+      {
+        id: 'product-knowledge',
+        name: 'Product Knowledge',
+        description: 'Understanding of the product, market, and competition',
+        weight: 0.15
+      },
+      {
+        id: 'teamwork',
+        name: 'Teamwork',
+        description: 'Working with pre-sales, marketing, and customer success',
+        weight: 0.10
+      }
+    ]
+  },
+  {
+    id: 'management',
+    name: 'Management Track',
+    description: 'Review for people managers and team leads',
+    version: 1,
+    categories: [
+      {
+        id: 'team-outcomes',
+        name: 'Team Outcomes',
+        description: 'Delivery and impact of the team against its goals',
+        weight: 0.30
+      },
+      {
+        id: 'people-development',
+        name: 'People Development',
+        description: 'Coaching, feedback, growth, and retention of direct reports',
+        weight: 0.25
+      },
+      {
+        id: 'hiring',
+        name: 'Hiring & Team Building',
+        description: 'Attracting, selecting, and onboarding strong team members',
+        weight: 0.15
+      },
+      {
+        id: 'strategy',
+        name: 'Strategy & Prioritization',
+        description: 'Setting direction and making sound trade-offs',
+        weight: 0.15
+      },
+      {
+        id: 'stakeholder-management',
+        name: 'Stakeholder Management',
+        description: 'Communicating upward and across the organization',
+        weight: 0.15
+      }
+    ]
+  }
+]
@@ -0,0 +1,88 @@
+import { CategorySeries, EmployeeHistory, FocusComparison, HistoryCycle, StoredAppraisal } from '@/types/appraisal'
+import { splitFeedbackSections } from '@/lib/feedback-sections'
+import { mentionsCategory } from '@/lib/consistency-check'
+import { statusOf } from '@/lib/appraisal-workflow'
+import { compareCycles } from '@/lib/prior-review'
+
+// One employee's reviews lined up as cycles. Categories are followed by id, which survives
+// renames and reweighting in later template versions; a category that turns up under a new id
+// but the same name (e.g. from a cloned template) joins the existing series.
+
+function normalizedName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '')
+}
+
+function focusComparison(previous: HistoryCycle, current: HistoryCycle, previousAppraisal: StoredAppraisal): FocusComparison {
+  const areasForFocus = splitFeedbackSections(previousAppraisal.generatedFeedback || '').sections.areasForFocus || ''
+  return {
+    previousAppraisalId: previous.appraisalId,
+    previousPeriod: previous.reviewPeriod,
+    areasForFocus,
+    currentAppraisalId: current.appraisalId,
+    currentPeriod: current.reviewPeriod,
+    categories: current.scores.map(score => {
+      const before = previous.scores.filter(s => s.seriesKey === score.seriesKey)[0]
+      return {
+        seriesKey: score.seriesKey,
+        categoryName: score.categoryName,
+        ...(before ? { previousScore: before.score } : {}),
+        score: score.score,
+        wasFocus: !!areasForFocus && (mentionsCategory(areasForFocus, score.categoryName) || (!!before && mentionsCategory(areasForFocus, before.categoryName)))
+      }
+    })
+  }
+}
+
+export function buildEmployeeHistory(employeeId: string, appraisals: StoredAppraisal[]): EmployeeHistory | null {
+  const ordered = appraisals.filter(a => a.employeeId === employeeId).sort(compareCycles)
+  if (ordered.length === 0) return null
+
+  const series: CategorySeries[] = []
+  const seriesById: Record<string, CategorySeries> = {}
+
+  const seriesFor = (id: string, name: string): CategorySeries => {
+    const known = seriesById[id] || series.filter(s => normalizedName(s.name) === normalizedName(name))[0]
+    if (known) {
+      if (known.name !== name) {
+        if (known.formerNames.indexOf(known.name) === -1) known.formerNames.push(known.name)
+        known.name = name
+      }
+      seriesById[id] = known
+      return known
+    }
+    const created: CategorySeries = { key: id, name, formerNames: [] }
+    series.push(created)
+    seriesById[id] = created
+    return created
+  }
+
+  const cycles: HistoryCycle[] = ordered.map(appraisal => ({
+    appraisalId: appraisal.id,
+    reviewPeriod: appraisal.reviewPeriod,
+    reviewDate: appraisal.reviewDate,
+    reviewerName: appraisal.reviewerName,
+    status: statusOf(appraisal),
+    templateName: appraisal.template.name,
+    ...(appraisal.template.version !== undefined ? { templateVersion: appraisal.template.version } : {}),
+    overallScore: appraisal.overallScore,
+    scores: appraisal.template.categories
+      .map(category => ({ category, rating: appraisal.ratings.find(r => r.categoryId === category.id) }))
+      .filter(({ rating }) => !!rating)
+      .map(({ category, rating }) => ({
+        seriesKey: seriesFor(category.id, category.name).key,
+        categoryId: category.id,
+        categoryName: category.name,
+        weight: category.weight,
+        score: rating ? rating.score : 0
+      }))
+  }))
+
+  const last = cycles.length - 1
+  return {
+    employeeId,
+    employeeName: ordered[last].employeeName,
+    series,
+    cycles,
+    ...(cycles.length > 1 ? { focusComparison: focusComparison(cycles[last - 1], cycles[last], ordered[last - 1]) } : {})
+  }
+}
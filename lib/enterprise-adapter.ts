@@ -0,0 +1,300 @@
+/**
+ * Enterprise LLM adapter - pluggable auth plus configurable request/response mapping
+ * so an internal gateway can be targeted through configuration alone
+ */
+
+import { promises as fs } from "fs";
+import https from "https";
+import { OAuthClientConfig, getTokenManager } from "./oauth-token-manager";
+import { bufferedResponse, timedSignal } from "./abort-signal";
+
+export type EnterpriseAuth =
+  | { type: "none" }
+  | { type: "static"; apiKey: string; header: string; scheme: string }
+  | { type: "oauth"; oauth: OAuthClientConfig }
+  | { type: "mtls"; certPath: string; keyPath: string; caPath?: string; passphrase?: string };
+
+export interface EnterpriseMapping {
+  // JSON body sent to the gateway. "{{prompt}}", "{{messages}}", "{{model}}", "{{temperature}}"
+  // and "{{maxTokens}}" are substituted; a value that is exactly one placeholder keeps its type.
+  // "{{prompt}}" is the conversation as a transcript, "{{messages}}" the OpenAI-style message array.
+  requestTemplate: unknown;
+  // Dot paths tried in order to find the completion text, e.g. "choices.0.message.content"
+  responsePaths: string[];
+}
+
+export interface EnterpriseConfig {
+  auth: EnterpriseAuth;
+  mapping: EnterpriseMapping;
+  headers?: Record<string, string>;
+}
+
+export interface EnterpriseRequest {
+  prompt: string;
+  messages: Array<{ role: string; content: string }>;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export const DEFAULT_ENTERPRISE_MAPPING: EnterpriseMapping = {
+  requestTemplate: {
+    model: "{{model}}",
+    prompt: "{{prompt}}",
+    temperature: "{{temperature}}",
+    max_tokens: "{{maxTokens}}"
+  },
+  responsePaths: ["response", "text", "content"]
+};
+
+export function buildRequestBody(template: unknown, values: EnterpriseRequest): unknown {
+  const lookup: Record<string, unknown> = {
+    prompt: values.prompt,
+    messages: values.messages,
+    model: values.model,
+    temperature: values.temperature,
+    maxTokens: values.maxTokens
+  };
+
+  if (typeof template === "string") {
+    const exact = template.match(/^\{\{(\w+)\}\}$/);
+    if (exact && exact[1] in lookup) {
+      return lookup[exact[1]];
+    }
+    return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name) => name in lookup ? String(lookup[name]) : placeholder);
+  }
+  if (Array.isArray(template)) {
+    return template.map(item => buildRequestBody(item, values));
+  }
+  if (template && typeof template === "object") {
+    const body: Record<string, unknown> = {};
+    Object.keys(template).forEach(key => {
+      body[key] = buildRequestBody((template as Record<string, unknown>)[key], values);
+    });
+    return body;
+  }
+  return template;
+}
+
+function readPath(data: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (value === null || value === undefined || typeof value !== "object") {
+      return undefined;
+    }
+    return (value as Record<string, unknown>)[key];
+  }, data);
+}
+
+/**
+ * Pulls the completion text out of a gateway response using the configured paths.
+ * Fails loudly, naming what was expected and what arrived, instead of returning undefined.
+ */
+export function extractResponseText(data: unknown, responsePaths: string[]): string {
+  for (const path of responsePaths) {
+    const value = readPath(data, path);
+    if (typeof value === "string") {
+      return value;
+    }
+  }
+
+  const received = data && typeof data === "object" ? Object.keys(data).join(", ") || "(empty object)" : typeof data;
+  throw new Error(
+    `Enterprise LLM response did not contain text at any of the expected fields (${responsePaths.join(", ")}). ` +
+    `Received fields: ${received}. Set ENTERPRISE_LLM_RESPONSE_PATHS to match the gateway's response.`
+  );
+}
+
+export class EnterpriseAdapter {
+  private config: EnterpriseConfig;
+
+  constructor(config: EnterpriseConfig) {
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    const auth = this.config.auth;
+    switch (auth.type) {
+      case "none":
+        return true;
+      case "static":
+        return !!auth.apiKey;
+      case "oauth":
+        return !!(auth.oauth.tokenUrl && auth.oauth.clientId && auth.oauth.clientSecret);
+      case "mtls":
+        return !!(auth.certPath && auth.keyPath);
+      default:
+        return false;
+    }
+  }
+
+  // Sends the mapped request; the caller checks the status and reads the body. signal cancels it.
+  async send(url: string, request: EnterpriseRequest, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+    const body = JSON.stringify(buildRequestBody(this.config.mapping.requestTemplate, request));
+
+    let response = await this.post(url, body, timeoutMs, signal);
+    if (response.status === 401 && this.config.auth.type === "oauth") {
+      // Token revoked or expired early - get a fresh one and try once more
+      getTokenManager(this.config.auth.oauth).invalidate();
+      response = await this.post(url, body, timeoutMs, signal);
+    }
+    return response;
+  }
+
+  extractText(data: unknown): string {
+    return extractResponseText(data, this.config.mapping.responsePaths);
+  }
+
+  private async authHeaders(): Promise<Record<string, string>> {
+    const auth = this.config.auth;
+    switch (auth.type) {
+      case "static":
+        return { [auth.header]: auth.scheme ? `${auth.scheme} ${auth.apiKey}` : auth.apiKey };
+      case "oauth":
+        return { "Authorization": `Bearer ${await getTokenManager(auth.oauth).getToken()}` };
+      default:
+        return {};
+    }
+  }
+
+  private async post(url: string, body: string, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.config.headers,
+      ...await this.authHeaders()
+    };
+
+    const auth = this.config.auth;
+    if (auth.type === "mtls") {
+      return postWithClientCertificate(url, headers, body, timeoutMs, auth, signal);
+    }
+
+    const attempt = timedSignal(timeoutMs, signal);
+    try {
+      return await bufferedResponse(await fetch(url, {
+        method: "POST",
+        headers,
+        body,
+        signal: attempt.signal
+      }));
+    } finally {
+      attempt.release();
+    }
+  }
+}
+
+// fetch cannot present a client certificate, so mTLS goes through https.request
+async function postWithClientCertificate(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number,
+  auth: { certPath: string; keyPath: string; caPath?: string; passphrase?: string },
+  signal?: AbortSignal
+): Promise<Response> {
+  const [cert, key, ca] = await Promise.all([
+    fs.readFile(auth.certPath),
+    fs.readFile(auth.keyPath),
+    auth.caPath ? fs.readFile(auth.caPath) : Promise.resolve(undefined)
+  ]);
+
+  return new Promise<Response>((resolve, reject) => {
+    const request = https.request(url, { method: "POST", headers, cert, key, ca, passphrase: auth.passphrase, timeout: timeoutMs, signal }, res => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("error", reject);
+      res.on("end", () => {
+        const responseHeaders = new Headers();
+        Object.keys(res.headers).forEach(name => {
+          const value = res.headers[name];
+          if (value !== undefined) {
+            responseHeaders.set(name, Array.isArray(value) ? value.join(", ") : value);
+          }
+        });
+        resolve(new Response(Buffer.concat(chunks), {
+          status: res.statusCode || 500,
+          statusText: res.statusMessage || "",
+          headers: responseHeaders
+        }));
+      });
+    });
+
+    request.on("timeout", () => {
+      const error = new Error(`Enterprise LLM request timed out after ${timeoutMs}ms`);
+      error.name = "TimeoutError";
+      request.destroy(error);
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+function parseJsonEnv<T>(name: string): T | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch (error) {
+    throw new Error(`${name} must be valid JSON`);
+  }
+}
+
+/**
+ * ENTERPRISE_LLM_AUTH selects the strategy: "static" (default when ENTERPRISE_LLM_API_KEY
+ * is set), "oauth", "mtls" or "none".
+ */
+export function createEnterpriseConfigFromEnv(): EnterpriseConfig {
+  const apiKey = process.env.ENTERPRISE_LLM_API_KEY;
+  const authType = process.env.ENTERPRISE_LLM_AUTH || (apiKey ? "static" : "none");
+
+  let auth: EnterpriseAuth;
+  switch (authType) {
+    case "none":
+      auth = { type: "none" };
+      break;
+    case "static":
+      auth = {
+        type: "static",
+        apiKey: apiKey || "",
+        header: process.env.ENTERPRISE_LLM_AUTH_HEADER || "Authorization",
+        scheme: process.env.ENTERPRISE_LLM_AUTH_SCHEME ?? "Bearer"
+      };
+      break;
+    case "oauth":
+      auth = {
+        type: "oauth",
+        oauth: {
+          tokenUrl: process.env.ENTERPRISE_LLM_TOKEN_URL || "",
+          clientId: process.env.ENTERPRISE_LLM_CLIENT_ID || "",
+          clientSecret: process.env.ENTERPRISE_LLM_CLIENT_SECRET || "",
+          scope: process.env.ENTERPRISE_LLM_SCOPE
+        }
+      };
+      break;
+    case "mtls":
+      auth = {
+        type: "mtls",
+        certPath: process.env.ENTERPRISE_LLM_CERT_PATH || "",
+        keyPath: process.env.ENTERPRISE_LLM_KEY_PATH || "",
+        caPath: process.env.ENTERPRISE_LLM_CA_PATH,
+        passphrase: process.env.ENTERPRISE_LLM_KEY_PASSPHRASE
+      };
+      break;
+    default:
+      throw new Error(`Unknown ENTERPRISE_LLM_AUTH "${authType}" (expected static, oauth, mtls or none)`);
+  }
+
+  const responsePaths = process.env.ENTERPRISE_LLM_RESPONSE_PATHS;
+
+  return {
+    auth,
+    headers: parseJsonEnv<Record<string, string>>("ENTERPRISE_LLM_HEADERS"),
+    mapping: {
+      requestTemplate: parseJsonEnv("ENTERPRISE_LLM_REQUEST_TEMPLATE") ?? DEFAULT_ENTERPRISE_MAPPING.requestTemplate,
+      responsePaths: responsePaths
+        ? responsePaths.split(",").map(path => path.trim()).filter(Boolean)
+        : DEFAULT_ENTERPRISE_MAPPING.responsePaths
+    }
+  };
+}
@@ -0,0 +1,767 @@
+import { AppraisalData, FeedbackSections, LintIssue, LintResponse, LLMResponse, PromptTemplate, PromptTemplateRecord, ProviderRequestPreview, RefineResponse } from '@/types/appraisal'
+import { FEEDBACK_SECTIONS, FeedbackSectionKey, composeFeedback, splitFeedbackSections } from '@/lib/feedback-sections'
+import { ChatMessage, LLMClientChain, StructuredOutput, StructuredOutputError, createLLMChainFromEnv } from '@/lib/llm-client'
+import { DEFAULT_SECTION_GUIDANCE } from '@/lib/default-prompt-templates'
+import { LENGTH_PRESETS, TONE_PRESETS, renderPromptTemplate } from '@/lib/prompt-templates'
+import { promptVersionOf, resolvePromptTemplate } from '@/lib/prompt-template-store'
+import { RISK_SCORE, STRENGTH_SCORE, performanceLevel } from '@/lib/scoring'
+import { DEFAULT_LANGUAGE, MOCK_PHRASES, MockSubject, languageInstruction, localizedPerformanceLevel } from '@/lib/feedback-locales'
+import { LINT_CATEGORIES, lintFeedback, withoutOverlaps } from '@/lib/feedback-lint'
+import { gapThresholdOf, selfRatingGaps } from '@/lib/self-assessment'
+import { listAppraisals } from '@/lib/appraisal-store'
+import { PriorReview, previousCycle, summarizePriorReview } from '@/lib/prior-review'
+import { redactionFor } from '@/lib/redaction'
+import { AuditInput, hashText } from '@/lib/audit-log'
+
+// Prompt building and one-shot generation shared by the single-review and bulk routes
+
+export type GenerationResult = Pick<LLMResponse, 'feedback' | 'sections' | 'source' | 'provider' | 'model' | 'fallbackReason' | 'prompt' | 'priorReview' | 'redacted' | 'promptHash'>
+
+type PromptSectionSpec = { key: FeedbackSectionKey; title: string; guidance: string }
+
+// The sections a prompt template asks for, in its order; empty guidance falls back to the default
+function promptSections(prompt: PromptTemplate): PromptSectionSpec[] {
+  const specs: PromptSectionSpec[] = []
+  prompt.sections.forEach(section => {
+    const known = FEEDBACK_SECTIONS.filter(s => s.key === section.key)[0]
+    if (known && !specs.some(spec => spec.key === known.key)) {
+      specs.push({ key: known.key, title: known.title, guidance: section.guidance.trim() || DEFAULT_SECTION_GUIDANCE[known.key] })
+    }
+  })
+  return specs
+}
+
+function sectionProperties(sections: PromptSectionSpec[]): Record<string, { type: 'string'; description: string }> {
+  return sections.reduce((properties, section) => {
+    properties[section.key] = { type: 'string', description: `The "${section.title}" section as markdown, without its heading` }
+    return properties
+  }, {} as Record<string, { type: 'string'; description: string }>)
+}
+
+// The model returns the review as one JSON object with a string per requested section
+export function feedbackOutput(prompt: PromptTemplate): StructuredOutput {
+  const sections = promptSections(prompt)
+  return {
+    name: 'appraisal_feedback',
+    description: 'The sections of the performance review',
+    schema: {
+      type: 'object',
+      properties: sectionProperties(sections),
+      required: sections.map(section => section.key),
+      additionalProperties: false
+    }
+  }
+}
+
+export function promptSectionKeys(prompt: PromptTemplate): FeedbackSectionKey[] {
+  return promptSections(prompt).map(section => section.key)
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z]/g, '')
+}
+
+// Models sometimes answer a section as a list of bullet strings
+function sectionText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value.map(item => `- ${item}`).join('\n')
+  }
+  return undefined
+}
+
+// Strict check of a complete structured reply; a StructuredOutputError triggers a repair request.
+// Only the sections in `keys` are expected (and returned).
+export function parseFeedbackSections(text: string, keys: FeedbackSectionKey[] = FEEDBACK_SECTIONS.map(section => section.key)): Partial<FeedbackSections> {
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  if (start === -1 || end < start) {
+    throw new StructuredOutputError('reply does not contain a JSON object')
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1))
+  } catch (error) {
+    throw new StructuredOutputError(`reply is not valid JSON (${error instanceof Error ? error.message : error})`)
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new StructuredOutputError('reply is not a JSON object')
+  }
+
+  // Accept the section titles as keys too ("Areas for Focus" for areasForFocus)
+  const values: Record<string, unknown> = {}
+  Object.keys(parsed).forEach(key => {
+    values[normalizeKey(key)] = (parsed as Record<string, unknown>)[key]
+  })
+
+  const sections: Partial<FeedbackSections> = {}
+  const problems: string[] = []
+  FEEDBACK_SECTIONS.filter(section => keys.indexOf(section.key) !== -1).forEach(section => {
+    const text = sectionText(values[normalizeKey(section.key)] ?? values[normalizeKey(section.title)])
+    if (!text || !text.trim()) {
+      problems.push(`"${section.key}" is missing or empty`)
+    } else {
+      sections[section.key] = text.trim()
+    }
+  })
+
+  if (problems.length > 0) {
+    throw new StructuredOutputError(problems.join(', '))
+  }
+  return sections
+}
+
+// Best-effort read of a JSON reply that is still streaming: every section whose string
+// value has started is returned with the text received so far.
+export function readPartialSections(text: string): Partial<FeedbackSections> {
+  const sections: Partial<FeedbackSections> = {}
+
+  FEEDBACK_SECTIONS.forEach(section => {
+    const match = new RegExp(`"${section.key}"\\s*:\\s*"`).exec(text)
+    if (!match) return
+
+    let raw = ''
+    for (let i = match.index + match[0].length; i < text.length; i++) {
+      const char = text[i]
+      if (char === '\\') {
+        raw += text.slice(i, i + 2)
+        i++
+      } else if (char === '"') {
+        break
+      } else {
+        raw += char
+      }
+    }
+
+    // Drop an escape sequence cut off at the end of the chunk
+    raw = raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '')
+    try {
+      sections[section.key] = JSON.parse(`"${raw}"`)
+    } catch (error) {
+      // Malformed so far - wait for more text
+    }
+  })
+
+  return sections
+}
+
+// The offline text, cut down to the sections the prompt template asks for. No prompt
+// version is recorded since no prompt produced it.
+export function mockResult(data: AppraisalData, fallbackReason: string, prompt: PromptTemplate): GenerationResult {
+  const parsed = splitFeedbackSections(generateMockFeedback(data))
+  const sections: Partial<FeedbackSections> = {}
+  promptSectionKeys(prompt).forEach(key => { sections[key] = parsed.sections[key] })
+  return { feedback: composeFeedback(sections, parsed.preamble, data.language), sections, source: 'mock', fallbackReason }
+}
+
+// The employee's latest review from an earlier cycle that has feedback, unless the manager
+// turned the follow-up off. Matched on employeeId, so renamed employees keep their history.
+export async function loadPriorReview(data: AppraisalData): Promise<PriorReview | undefined> {
+  if (data.includePriorReview === false || !data.employeeId) {
+    return undefined
+  }
+  const candidates = (await listAppraisals({ employeeId: data.employeeId })).filter(a => a.generatedFeedback.trim())
+  const prior = previousCycle(candidates, data)
+  return prior ? summarizePriorReview(prior, data) : undefined
+}
+
+// Structured generation through the chain; throws when every provider fails
+export async function requestFeedback(chain: LLMClientChain, data: AppraisalData, prompt: PromptTemplateRecord, prior?: PriorReview): Promise<GenerationResult> {
+  const keys = promptSectionKeys(prompt)
+  const input = createFeedbackPrompt(data, prompt, prior)
+  const result = await chain.callStructured(input, feedbackOutput(prompt), text => parseFeedbackSections(text, keys), {
+    redaction: redactionFor(data, prior)
+  })
+  return {
+    feedback: composeFeedback(result.value, '', data.language),
+    sections: result.value,
+    source: 'llm',
+    provider: result.provider,
+    model: result.model,
+    prompt: promptVersionOf(prompt),
+    ...(prior ? { priorReview: prior.reference } : {}),
+    ...(result.redacted ? { redacted: true } : {}),
+    promptHash: hashText(input)
+  }
+}
+
+// The audit entry for a finished generation, timed from `started`
+export function generationAudit(data: AppraisalData, started: number, result: GenerationResult): AuditInput {
+  return {
+    action: 'generate',
+    employeeId: data.employeeId,
+    ...(result.provider ? { provider: result.provider, model: result.model } : {}),
+    ...(result.prompt ? { prompt: result.prompt } : {}),
+    ...(result.promptHash ? { promptHash: result.promptHash } : {}),
+    latencyMs: Date.now() - started,
+    outcome: result.source === 'llm' ? 'llm' : 'mock',
+    ...(result.fallbackReason ? { reason: result.fallbackReason } : {}),
+    feedbackHash: hashText(result.feedback)
+  }
+}
+
+// The generation request as each provider in the chain would receive it, after redaction
+export async function previewFeedbackRequest(data: AppraisalData): Promise<ProviderRequestPreview[]> {
+  const prompt = await resolvePromptTemplate(data.template.promptTemplateId)
+  const prior = await loadPriorReview(data)
+  const input = createFeedbackPrompt(data, prompt, prior)
+  const redaction = redactionFor(data, prior)
+
+  return createLLMChainFromEnv().clients.map(client => {
+    const request = client.prepareRequest(input, { redaction })
+    return {
+      provider: client.provider,
+      model: client.model,
+      redacted: !!request.redaction,
+      ...(request.system ? { system: request.system } : {}),
+      messages: request.messages,
+      placeholders: request.redaction ? request.redaction.placeholdersIn(request.messages.map(message => message.content)) : []
+    }
+  })
+}
+
+// Try each provider in the configured fallback chain, otherwise fall back to mock feedback
+export async function generateFeedback(data: AppraisalData): Promise<GenerationResult> {
+  const prompt = await resolvePromptTemplate(data.template.promptTemplateId)
+  const chain = createLLMChainFromEnv()
+  if (!chain.isAvailable()) {
+    return mockResult(data, 'No LLM provider is configured', prompt)
+  }
+
+  // The prompt is hashed before the call so a fallback still shows what the providers were sent
+  const prior = await loadPriorReview(data)
+  const promptHash = hashText(createFeedbackPrompt(data, prompt, prior))
+  try {
+    return await requestFeedback(chain, data, prompt, prior)
+  } catch (error) {
+    console.warn('LLM providers failed, falling back to mock feedback:', error)
+    return { ...mockResult(data, error instanceof Error ? error.message : 'LLM call failed', prompt), promptHash }
+  }
+}
+
+type Pronouns = { subject: string; object: string; possessive: string; reflexive: string }
+
+// Determine appropriate pronouns based on gender
+function pronounsFor(gender: AppraisalData['employeeGender']): Pronouns {
+  if (gender === 'male') {
+    return { subject: 'he', object: 'him', possessive: 'his', reflexive: 'himself' }
+  } else if (gender === 'female') {
+    return { subject: 'she', object: 'her', possessive: 'her', reflexive: 'herself' }
+  }
+  return { subject: 'they', object: 'them', possessive: 'their', reflexive: 'themselves' }
+}
+
+// The employee's own view: free text, per-category self-ratings and the gaps to the manager's
+// ratings that exceed the appraisal's threshold, which the model is asked to address
+function describeSelfAssessment(data: AppraisalData): string {
+  if (!data.selfAssessment || data.selfAssessment.length === 0) {
+    return ''
+  }
+
+  let details = ''
+  const text = data.selfAssessment.map(entry => entry.selfAssessment).filter(entry => entry.trim()).join('\n\n')
+  if (text) {
+    details += '\n\nEmployee Self-Assessment:\n' + text
+  }
+
+  const gaps = selfRatingGaps(data)
+  if (gaps.length > 0) {
+    details += '\n\nEmployee Self-Ratings:\n' + gaps.map(gap =>
+      `${gap.categoryName}: ${gap.selfScore}/5 (manager: ${gap.managerScore}/5)${gap.selfComments.trim() ? ` - ${gap.selfComments}` : ''}`
+    ).join('\n')
+  }
+
+  const perceptionGaps = gaps.filter(gap => gap.exceeds)
+  if (perceptionGaps.length > 0) {
+    details += `\n\nPerception Gaps (self and manager ratings differ by more than ${gapThresholdOf(data).toFixed(1)}, largest first):\n` + perceptionGaps.map(gap =>
+      `• ${gap.categoryName}: the employee rates ${gap.gap > 0 ? 'higher' : 'lower'} than the manager by ${Math.abs(gap.gap).toFixed(1)}`
+    ).join('\n') + '\nAddress the largest of these gaps constructively: acknowledge how the employee sees their performance, explain the manager\'s rating with specific evidence from the comments, and suggest how to align expectations. Where the employee underrates themselves, say so encouragingly.'
+  }
+
+  return details
+}
+
+// The previous cycle's scores, focus areas, risks and agreed goals, with the instruction to
+// follow up on them. Categories renamed since are given under both names.
+function describePriorReview(prior: PriorReview | undefined, data: AppraisalData): string {
+  if (!prior) {
+    return ''
+  }
+
+  const { reference } = prior
+  let details = `\n\nPrevious Review (${reference.reviewPeriod}, by ${reference.reviewerName}${reference.reviewDate ? ` on ${reference.reviewDate}` : ''}):
+Overall Score: ${prior.overallScore.toFixed(2)}/5 (now ${data.overallScore.toFixed(2)}/5)`
+
+  if (prior.scores.length > 0) {
+    details += '\nCategory Scores:\n' + prior.scores.map(score =>
+      `${score.categoryName}${score.currentName ? ` (now "${score.currentName}")` : ''}: ${score.score}/5 ${score.currentScore !== undefined ? `(now ${score.currentScore}/5)` : '(no longer rated)'}`
+    ).join('\n')
+  }
+  if (prior.areasForFocus) {
+    details += '\n\nAreas for Focus in the previous review:\n' + prior.areasForFocus
+  }
+  if (prior.riskOverlay) {
+    details += '\n\nRisk Overlay in the previous review:\n' + prior.riskOverlay
+  }
+  if (prior.goals) {
+    details += '\n\nGoals agreed in the previous review:\n' + prior.goals
+  }
+
+  return details + '\n\nComment on progress since the previous review: say which of its Areas for Focus, risks and agreed goals have been addressed and which still need work, using the score changes above as evidence. Refer back to the previous review rather than repeating its wording.'
+}
+
+// Employee details, categories and the manager's assessment - the facts every prompt works from
+function describeAppraisal(data: AppraisalData, pronouns: Pronouns, prior?: PriorReview): string {
+  const categoryDetails = data.ratings.map(rating => {
+    const category = data.template.categories.find(c => c.id === rating.categoryId)
+    return `${category?.name} (${category?.description}): ${rating.score}/5 - ${rating.comments}`
+  }).join('\n')
+
+  const selfAssessmentDetails = describeSelfAssessment(data)
+
+  let additionalComments = ''
+  if (data.additionalManagerComments && data.additionalManagerComments.trim()) {
+    additionalComments = '\n\nAdditional Manager Comments:\n' + data.additionalManagerComments
+  }
+
+  let goals = ''
+  if (data.goals && data.goals.trim()) {
+    goals = '\n\nGoals Agreed for the Next Period:\n' + data.goals
+  }
+
+  const categoryDescriptions = data.template.categories.map(category => 
+    `• ${category.name}: ${category.description}`
+  ).join('\n')
+
+  return `Employee: ${data.employeeName} (ID: ${data.employeeId})
+Gender: ${data.employeeGender}
+Use these pronouns: ${pronouns.subject}/${pronouns.object}/${pronouns.possessive}
+
+Overall Performance Score: ${data.overallScore.toFixed(2)}/5
+
+Evaluation Categories:
+${categoryDescriptions}
+
+Manager's Assessment:
+${categoryDetails}${selfAssessmentDetails}${additionalComments}${goals}${describePriorReview(prior, data)}`
+}
+
+// Values for the {{variables}} in a prompt template body and its section guidance
+function promptVariables(data: AppraisalData, prompt: PromptTemplate, prior?: PriorReview): Record<string, string> {
+  const pronouns = pronounsFor(data.employeeGender)
+  const values: Record<string, string> = {
+    employeeName: data.employeeName,
+    employeeId: data.employeeId,
+    reviewerName: data.reviewerName,
+    reviewDate: data.reviewDate,
+    reviewPeriod: data.reviewPeriod,
+    overallScore: data.overallScore.toFixed(2),
+    performanceLevel: performanceLevel(data.overallScore),
+    templateName: data.template.name,
+    subject: pronouns.subject,
+    object: pronouns.object,
+    possessive: pronouns.possessive,
+    tone: toneInstruction(prompt),
+    length: lengthInstruction(prompt)
+  }
+
+  values.sections = promptSections(prompt)
+    .map((section, index) => `${index + 1}. ${section.title} (${section.key}) - ${renderPromptTemplate(section.guidance, values)}`)
+    .join('\n')
+  values.appraisal = describeAppraisal(data, pronouns, prior)
+  return values
+}
+
+function toneInstruction(prompt: PromptTemplate): string {
+  return (TONE_PRESETS.filter(preset => preset.value === prompt.tone)[0] || TONE_PRESETS[0]).instruction
+}
+
+function lengthInstruction(prompt: PromptTemplate): string {
+  return (LENGTH_PRESETS.filter(preset => preset.value === prompt.length)[0] || LENGTH_PRESETS[1]).instruction
+}
+
+// Appended to every template so edited prompts cannot break the structured output contract
+function outputInstruction(fields: string[]): string {
+  return `Respond with a single JSON object with exactly these string fields: ${fields.join(', ')}. Each section field holds the text of that section (markdown bullet lists and **bold** are fine) without the section heading. Do not add any text outside the JSON object.`
+}
+
+// Non-English reviews get the language instruction last, after the output contract
+function withLanguage(text: string, data: AppraisalData): string {
+  const instruction = languageInstruction(data.language)
+  return instruction ? `${text}\n\n${instruction}` : text
+}
+
+export function createFeedbackPrompt(data: AppraisalData, prompt: PromptTemplate, prior?: PriorReview): string {
+  return withLanguage(`${renderPromptTemplate(prompt.body, promptVariables(data, prompt, prior)).trim()}
+
+${outputInstruction(promptSectionKeys(prompt))}`, data)
+}
+
+// Regenerating one section: the model returns { "text": "..." }
+export const SECTION_OUTPUT: StructuredOutput = {
+  name: 'feedback_section',
+  description: 'The rewritten review section',
+  schema: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'The section as markdown, without its heading' }
+    },
+    required: ['text'],
+    additionalProperties: false
+  }
+}
+
+export function parseSectionText(text: string): string {
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  let parsed: unknown
+  try {
+    parsed = start === -1 || end < start ? undefined : JSON.parse(text.slice(start, end + 1))
+  } catch (error) {
+    throw new StructuredOutputError(`reply is not valid JSON (${error instanceof Error ? error.message : error})`)
+  }
+
+  const value = parsed && typeof parsed === 'object' ? sectionText((parsed as Record<string, unknown>).text) : undefined
+  if (!value || !value.trim()) {
+    throw new StructuredOutputError('reply must be a JSON object with a non-empty "text" field')
+  }
+  return value.trim()
+}
+
+// Rewrites one section; the other sections are shown as they stand so the new text fits around them.
+// A section the prompt template does not ask for still gets the default guidance.
+export function createSectionPrompt(data: AppraisalData, key: FeedbackSectionKey, sections: FeedbackSections, prompt: PromptTemplate, instruction?: string, prior?: PriorReview): string {
+  const values = promptVariables(data, prompt, prior)
+  const title = FEEDBACK_SECTIONS.filter(section => section.key === key)[0].title
+  const guidance = (promptSections(prompt).filter(section => section.key === key)[0] || { guidance: DEFAULT_SECTION_GUIDANCE[key] }).guidance
+
+  const otherSections = FEEDBACK_SECTIONS
+    .filter(section => section.key !== key && sections[section.key])
+    .map(section => `**${section.title}**\n${sections[section.key]}`)
+    .join('\n\n')
+
+  return withLanguage(`You are an experienced manager revising one section of a performance review for ${data.employeeName}. ${values.tone}
+
+${values.appraisal}
+
+The rest of the review, which stays as written:
+
+${otherSections || '(no other sections)'}
+
+Current text of the "${title}" section:
+${sections[key] || '(empty)'}
+
+Rewrite only the "${title}" section: ${renderPromptTemplate(guidance, values)}.${instruction && instruction.trim() ? `\n\nThe manager asked for this change: ${instruction.trim()}` : ''}
+
+Keep it consistent with the other sections without repeating them. Write in THIRD PERSON ONLY - refer to the employee as "${values.subject}", never "you". ${values.length}
+
+Respond with a single JSON object with one string field, "text", holding the new section (markdown bullet lists and **bold** are fine) without the section heading. Do not add any text outside the JSON object.`, data)
+}
+
+export type SectionResult = Pick<LLMResponse, 'source' | 'provider' | 'model' | 'fallbackReason' | 'prompt'> & { text: string }
+
+// Falls back to the mock text for that section, like full generation does
+export async function regenerateSection(data: AppraisalData, key: FeedbackSectionKey, instruction?: string): Promise<SectionResult> {
+  const mockSection = (fallbackReason: string): SectionResult => ({
+    text: splitFeedbackSections(generateMockFeedback(data)).sections[key],
+    source: 'mock',
+    fallbackReason
+  })
+
+  const chain = createLLMChainFromEnv()
+  if (!chain.isAvailable()) {
+    return mockSection('No LLM provider is configured')
+  }
+
+  try {
+    const prompt = await resolvePromptTemplate(data.template.promptTemplateId)
+    const sections = splitFeedbackSections(data.generatedFeedback).sections
+    const prior = await loadPriorReview(data)
+    const result = await chain.callStructured(createSectionPrompt(data, key, sections, prompt, instruction, prior), SECTION_OUTPUT, parseSectionText, {
+      redaction: redactionFor(data, prior)
+    })
+    return { text: result.value, source: 'llm', provider: result.provider, model: result.model, prompt: promptVersionOf(prompt) }
+  } catch (error) {
+    console.warn('LLM providers failed, falling back to mock section:', error)
+    return mockSection(error instanceof Error ? error.message : 'LLM call failed')
+  }
+}
+
+// Refinement chat: the model answers the manager and returns the whole draft, changed or not
+export function refineOutput(prompt: PromptTemplate): StructuredOutput {
+  const sections = promptSections(prompt)
+  return {
+    name: 'refined_feedback',
+    description: 'A reply to the manager plus the full revised performance review',
+    schema: {
+      type: 'object',
+      properties: {
+        reply: { type: 'string', description: 'A short answer to the manager saying what was changed' },
+        ...sectionProperties(sections)
+      },
+      required: ['reply'].concat(sections.map(section => section.key)),
+      additionalProperties: false
+    }
+  }
+}
+
+export interface Refinement {
+  reply: string;
+  sections: Partial<FeedbackSections>;
+}
+
+export function parseRefinement(text: string, keys?: FeedbackSectionKey[]): Refinement {
+  const sections = parseFeedbackSections(text, keys)
+  const parsed = JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1))
+  if (typeof parsed.reply !== 'string' || !parsed.reply.trim()) {
+    throw new StructuredOutputError('"reply" is missing or empty')
+  }
+  return { reply: parsed.reply.trim(), sections }
+}
+
+// The system prompt carries the appraisal and the draft as it stands now, so earlier turns
+// in the conversation only need the manager's requests and the model's replies
+export function createRefinementSystemPrompt(data: AppraisalData, prompt: PromptTemplate, prior?: PriorReview): string {
+  const values = promptVariables(data, prompt, prior)
+
+  return withLanguage(`You are a writing assistant helping a manager refine a performance review for ${data.employeeName}. Unless the manager asks otherwise, keep to this style: ${values.tone}
+
+${values.appraisal}
+
+The review is organized under these sections:
+${values.sections}
+
+The current draft of the review:
+
+${data.generatedFeedback}
+
+The manager will ask for changes such as "make it shorter" or "soften the Risk Overlay". Apply each request to the current draft, changing only what was asked and keeping the rest as written. Keep the review in THIRD PERSON ONLY - refer to the employee as "${values.subject}", never "you". If the manager only asks a question, answer it and return the draft unchanged.
+
+${outputInstruction(['reply'].concat(promptSectionKeys(prompt)))} The reply field is one or two sentences to the manager about what you changed; the section fields hold the full text of each section of the resulting draft.`, data)
+}
+
+export type RefinementResult = Omit<RefineResponse, 'success' | 'error' | 'errors'>
+
+// Sends the conversation so far plus the new request; without a provider the draft stays as it is
+export async function refineFeedback(data: AppraisalData, message: string): Promise<RefinementResult> {
+  const chain = createLLMChainFromEnv()
+  if (!chain.isAvailable()) {
+    return {
+      reply: 'No LLM provider is configured, so the draft could not be refined. Edit the sections directly instead.',
+      source: 'mock',
+      fallbackReason: 'No LLM provider is configured'
+    }
+  }
+
+  const messages: ChatMessage[] = (data.refinementMessages || [])
+    .map(entry => ({ role: entry.role, content: entry.content }))
+    .concat([{ role: 'user', content: message }])
+
+  try {
+    const prompt = await resolvePromptTemplate(data.template.promptTemplateId)
+    const keys = promptSectionKeys(prompt)
+    const prior = await loadPriorReview(data)
+    const result = await chain.callStructured(messages, refineOutput(prompt), text => parseRefinement(text, keys), {
+      system: createRefinementSystemPrompt(data, prompt, prior),
+      redaction: redactionFor(data, prior)
+    })
+    const current = splitFeedbackSections(data.generatedFeedback).sections
+    const changed = keys.some(key => result.value.sections[key] !== current[key])
+    return {
+      reply: result.value.reply,
+      ...(changed ? { feedback: composeFeedback(result.value.sections, '', data.language), sections: result.value.sections } : {}),
+      source: 'llm',
+      provider: result.provider,
+      model: result.model,
+      prompt: promptVersionOf(prompt)
+    }
+  } catch (error) {
+    console.warn('LLM providers failed, leaving the draft unchanged:', error)
+    const fallbackReason = error instanceof Error ? error.message : 'LLM call failed'
+    return {
+      reply: 'The request could not be completed, so the draft was left unchanged. Please try again.',
+      source: 'mock',
+      fallbackReason
+    }
+  }
+}
+
+// Second pass of the inclusive-language linter: the model quotes phrases and the quotes are
+// located in the section text, so a reply cannot point at text that is not there
+export const LINT_OUTPUT: StructuredOutput = {
+  name: 'language_issues',
+  description: 'Biased or non-inclusive phrases found in the performance review',
+  schema: {
+    type: 'object',
+    properties: {
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            section: { type: 'string', description: `The section the phrase is in: preamble, ${FEEDBACK_SECTIONS.map(section => section.key).join(', ')}` },
+            quote: { type: 'string', description: 'The phrase exactly as it appears in the review, as short as possible' },
+            category: { type: 'string', description: `One of: ${LINT_CATEGORIES.map(category => category.value).join(', ')}` },
+            message: { type: 'string', description: 'Why the phrase is a problem, in one sentence' },
+            suggestion: { type: 'string', description: 'Replacement text for the quote, or an empty string when the sentence needs rewording' }
+          },
+          required: ['section', 'quote', 'category', 'message', 'suggestion'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['issues'],
+    additionalProperties: false
+  }
+}
+
+export function parseLintIssues(text: string, feedback: string): LintIssue[] {
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  let parsed: unknown
+  try {
+    parsed = start === -1 || end < start ? undefined : JSON.parse(text.slice(start, end + 1))
+  } catch (error) {
+    throw new StructuredOutputError(`reply is not valid JSON (${error instanceof Error ? error.message : error})`)
+  }
+
+  const items = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>).issues : undefined
+  if (!Array.isArray(items)) {
+    throw new StructuredOutputError('reply must be a JSON object with an "issues" array')
+  }
+
+  const split = splitFeedbackSections(feedback)
+  const sectionTexts: Record<string, string> = { preamble: split.preamble, ...split.sections }
+  const issues: LintIssue[] = []
+  items.forEach(item => {
+    if (!item || typeof item !== 'object' || typeof item.quote !== 'string' || !item.quote.trim()) return
+    const quote = item.quote.trim()
+    // Trust the quote over the section name when the model picked the wrong one
+    const sectionKey = [item.section].concat(Object.keys(sectionTexts))
+      .filter(key => typeof key === 'string' && sectionTexts[key] !== undefined && sectionTexts[key].indexOf(quote) !== -1)[0]
+    if (!sectionKey) return
+
+    const category = LINT_CATEGORIES.filter(c => c.value === item.category)[0]
+    const position = sectionTexts[sectionKey].indexOf(quote)
+    issues.push({
+      id: `llm-${sectionKey}-${position}`,
+      category: category ? category.value : 'personality',
+      section: sectionKey,
+      start: position,
+      end: position + quote.length,
+      text: quote,
+      message: typeof item.message === 'string' ? item.message : '',
+      suggestion: typeof item.suggestion === 'string' && item.suggestion.trim() ? item.suggestion.trim() : undefined,
+      source: 'llm'
+    })
+  })
+  return issues
+}
+
+export function createLintPrompt(data: AppraisalData, found: LintIssue[]): string {
+  const pronouns = pronounsFor(data.employeeGender)
+  const alreadyFound = found.map(issue => `- "${issue.text}" (${issue.category})`).join('\n')
+
+  return `You are an HR reviewer checking a performance review for biased or non-inclusive language before it is shared with ${data.employeeName}. The employee's pronouns are ${pronouns.subject}/${pronouns.object}/${pronouns.possessive}.
+
+Flag only phrases that are:
+- gender-coded: words applied to one gender for behavior described differently in another (e.g. "abrasive", "emotional", "bossy"), or praise and criticism that lean on gender stereotypes
+- ageist: references to age or age stereotypes
+- ableist: disability or mental illness used as metaphor or insult
+- personality: judgments of character or personality ("has an attitude", "not a culture fit") where the review should describe observable behavior and its impact
+- pronoun: pronouns that do not match ${pronouns.subject}/${pronouns.object}/${pronouns.possessive} when referring to the employee
+
+The review:
+
+${data.generatedFeedback}
+${alreadyFound ? `\nThese phrases are already flagged; do not repeat them:\n${alreadyFound}\n` : ''}
+Quote each phrase exactly as written, as briefly as possible. Suggest a replacement where a word swap fixes it. If nothing needs flagging, return an empty list.
+
+Respond with a single JSON object with one field, "issues", an array of objects with the string fields section, quote, category, message and suggestion. Do not add any text outside the JSON object.`
+}
+
+export type LintResult = Omit<LintResponse, 'success' | 'error' | 'errors'>
+
+// Local rules always run; the model pass is added when requested and a provider is available
+export async function checkFeedbackLanguage(data: AppraisalData, assisted: boolean): Promise<LintResult> {
+  const found = lintFeedback(data.generatedFeedback, data.employeeGender, data.language)
+  if (!assisted) {
+    return { issues: found }
+  }
+
+  const chain = createLLMChainFromEnv()
+  if (!chain.isAvailable()) {
+    return { issues: found, fallbackReason: 'No LLM provider is configured' }
+  }
+
+  try {
+    const result = await chain.callStructured(createLintPrompt(data, found), LINT_OUTPUT, text => parseLintIssues(text, data.generatedFeedback), {
+      redaction: redactionFor(data)
+    })
+    return { issues: withoutOverlaps(found.concat(result.value)), provider: result.provider, model: result.model }
+  } catch (error) {
+    console.warn('LLM providers failed, returning rule-based language issues only:', error)
+    return { issues: found, fallbackReason: error instanceof Error ? error.message : 'LLM call failed' }
+  }
+}
+
+export function generateMockFeedback(data: AppraisalData): string {
+  const categoryDetails = data.ratings.map(rating => {
+    const category = data.template.categories.find(c => c.id === rating.categoryId)
+    return `${category?.name} (${category?.description}): ${rating.score}/5 - ${rating.comments}`
+  }).join('\n')
+
+  let selfAssessmentDetails = ''
+  if (data.selfAssessment && data.selfAssessment.length > 0) {
+    selfAssessmentDetails = '\n\nEmployee Self-Assessment:\n' + data.selfAssessment.map(entry => entry.selfAssessment).join('\n\n')
+  }
+
+  let additionalComments = ''
+  if (data.additionalManagerComments && data.additionalManagerComments.trim()) {
+    additionalComments = '\n\nAdditional Manager Comments:\n' + data.additionalManagerComments
+  }
+
+  const overallScore = data.overallScore
+  const employeeName = data.employeeName
+  const reviewerName = data.reviewerName
+
+  const pronouns = pronounsFor(data.employeeGender)
+  const who: MockSubject = {
+    name: employeeName,
+    subject: pronouns.subject,
+    Subject: pronouns.subject.charAt(0).toUpperCase() + pronouns.subject.slice(1),
+    object: pronouns.object,
+    possessive: pronouns.possessive
+  }
+
+  // Labels, sentences and headings all follow the review's language
+  const language = data.language || DEFAULT_LANGUAGE
+  const phrases = MOCK_PHRASES[language] || MOCK_PHRASES.en
+  const level = localizedPerformanceLevel(overallScore, language)
+
+  // Generate strengths and areas for focus based on ratings
+  const strengths = data.ratings.filter(r => r.score >= STRENGTH_SCORE).map(rating => {
+    const category = data.template.categories.find(c => c.id === rating.categoryId)
+    return phrases.strength(who, category?.name || '')
+  }).join('\n')
+
+  const focusAreas = data.ratings.filter(r => r.score < STRENGTH_SCORE).map(rating => {
+    const category = data.template.categories.find(c => c.id === rating.categoryId)
+    return phrases.focus(who, category?.name || '')
+  }).join('\n')
+
+  const risks = data.ratings.filter(r => r.score < RISK_SCORE).map(rating => {
+    const category = data.template.categories.find(c => c.id === rating.categoryId)
+    return phrases.risk(category?.name || '')
+  }).join('\n')
+
+  const sections: FeedbackSections = {
+    successAndAchievements: strengths || phrases.noStrengths(who, level),
+    areasForFocus: focusAreas || phrases.noFocus(who),
+    riskOverlay: risks || phrases.noRisks(who),
+    overallSummary: `${phrases.summary(who, level).join('\n\n')}\n\n${phrases.closing}\n${reviewerName}`
+  }
+
+  return composeFeedback(sections, phrases.intro(who, level), language)
+} 
\ No newline at end of file
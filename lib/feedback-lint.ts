@@ -0,0 +1,218 @@
+import { AppraisalData, FeedbackLanguage, LintCategory, LintIssue } from '@/types/appraisal'
+import { FEEDBACK_SECTIONS, splitFeedbackSections } from '@/lib/feedback-sections'
+
+// Inclusive-language checks for generated feedback. The rules are plain word lists so they
+// run in the browser on every change; the optional model pass (checkFeedbackLanguage in
+// lib/feedback-generator.ts) looks for what the lists cannot express.
+//
+// The word lists are English only. Reviews in other languages rely on the model pass.
+
+export const LINT_CATEGORIES: { value: LintCategory; label: string }[] = [
+  { value: 'gender-coded', label: 'Gender-coded' },
+  { value: 'ageist', label: 'Ageist' },
+  { value: 'ableist', label: 'Ableist' },
+  { value: 'personality', label: 'Personality judgment' },
+  { value: 'pronoun', label: 'Pronoun' }
+]
+
+interface LintRule {
+  category: LintCategory;
+  pattern: string; // Regular expression source, matched case-insensitively on word boundaries
+  message: string;
+  suggestion?: string; // Replacement; omitted when the sentence needs rewording rather than a swap
+}
+
+const DESCRIBE_BEHAVIOR = 'Describe the specific behavior and its impact instead'
+
+const RULES: LintRule[] = [
+  // Words used far more often about women than men for the same behavior
+  { category: 'gender-coded', pattern: 'abrasive', message: `"Abrasive" is mostly applied to women. ${DESCRIBE_BEHAVIOR}` },
+  { category: 'gender-coded', pattern: '(?:overly |too )?emotional(?! intelligence)', message: `"Emotional" is a gender-coded judgment. ${DESCRIBE_BEHAVIOR}` },
+  { category: 'gender-coded', pattern: 'bossy', message: '"Bossy" is mostly applied to women for behavior called leadership in men', suggestion: 'assertive' },
+  { category: 'gender-coded', pattern: 'pushy', message: '"Pushy" is a gender-coded way to describe persistence', suggestion: 'persistent' },
+  { category: 'gender-coded', pattern: '(?:overly |too )?aggressive(?! (?:timeline|deadline|schedule|target|goal)s?\\b)', message: '"Aggressive" is applied unevenly by gender. Say what was done, or use a neutral word', suggestion: 'assertive' },
+  { category: 'gender-coded', pattern: 'shrill', message: `"Shrill" criticises a voice, not work. ${DESCRIBE_BEHAVIOR}` },
+  { category: 'gender-coded', pattern: 'hysterical', message: `"Hysterical" is a gendered term. ${DESCRIBE_BEHAVIOR}` },
+  { category: 'gender-coded', pattern: 'feisty', message: '"Feisty" is a gender-coded, diminishing word', suggestion: 'determined' },
+  { category: 'gender-coded', pattern: 'nagg(?:y|ing)', message: '"Nagging" is a gender-coded way to describe following up', suggestion: 'persistent in following up' },
+  { category: 'gender-coded', pattern: 'sassy', message: `"Sassy" is a gender-coded, diminishing word. ${DESCRIBE_BEHAVIOR}` },
+  { category: 'gender-coded', pattern: 'catty', message: `"Catty" is a gender-coded word. ${DESCRIBE_BEHAVIOR}` },
+  { category: 'gender-coded', pattern: 'bubbly', message: '"Bubbly" describes personality rather than work', suggestion: 'enthusiastic' },
+  { category: 'gender-coded', pattern: 'high[- ]maintenance', message: `"High-maintenance" is a gender-coded judgment. ${DESCRIBE_BEHAVIOR}` },
+
+  // Age
+  { category: 'ageist', pattern: 'digital native', message: '"Digital native" implies age', suggestion: 'proficient with digital tools' },
+  { category: 'ageist', pattern: '(?:young|youthful)', message: 'Age is not a performance attribute. Describe the quality meant, e.g. energy or openness' },
+  { category: 'ageist', pattern: 'old[- ]school', message: '"Old-school" implies age', suggestion: 'traditional' },
+  { category: 'ageist', pattern: 'set in (?:his|her|their) ways', message: '"Set in their ways" is an age stereotype. Describe the specific resistance to change' },
+  { category: 'ageist', pattern: 'over-?qualified', message: '"Overqualified" is often a proxy for age. Say how skills and role fit' },
+  { category: 'ageist', pattern: 'fresh blood', message: '"Fresh blood" implies age', suggestion: 'new perspective' },
+  { category: 'ageist', pattern: 'past (?:his|her|their) prime', message: '"Past their prime" is an age stereotype. Describe the change in results' },
+  { category: 'ageist', pattern: 'senior moment', message: '"Senior moment" is an age stereotype', suggestion: 'lapse' },
+
+  // Disability
+  { category: 'ableist', pattern: 'crazy', message: '"Crazy" uses mental illness as an intensifier', suggestion: 'intense' },
+  { category: 'ableist', pattern: 'insane(?:ly)?', message: '"Insane" uses mental illness as an intensifier', suggestion: 'remarkable' },
+  { category: 'ableist', pattern: 'lame', message: '"Lame" uses disability as an insult', suggestion: 'weak' },
+  { category: 'ableist', pattern: 'blind spots?', message: '"Blind spot" uses disability as a metaphor', suggestion: 'gap' },
+  { category: 'ableist', pattern: 'turn(?:s|ed)? a blind eye', message: '"Turn a blind eye" uses disability as a metaphor', suggestion: 'ignore' },
+  { category: 'ableist', pattern: 'tone[- ]deaf', message: '"Tone-deaf" uses disability as a metaphor', suggestion: 'out of touch' },
+  { category: 'ableist', pattern: 'fall(?:s|en)? on deaf ears', message: '"Falls on deaf ears" uses disability as a metaphor', suggestion: 'goes unheard' },
+  { category: 'ableist', pattern: 'crippl(?:ed|ing)', message: '"Crippling" uses disability as a metaphor', suggestion: 'severe' },
+  { category: 'ableist', pattern: 'dumb', message: '"Dumb" uses disability as an insult', suggestion: 'unclear' },
+  { category: 'ableist', pattern: '(?:a bit |so |very )?OCD', message: 'OCD is a medical condition, not a work style', suggestion: 'detail-oriented' },
+  { category: 'ableist', pattern: 'bipolar', message: `Bipolar disorder is a medical condition. ${DESCRIBE_BEHAVIOR}` },
+  { category: 'ableist', pattern: 'psycho(?:tic)?', message: `"Psycho" uses mental illness as an insult. ${DESCRIBE_BEHAVIOR}` },
+
+  // Judgments of character where the review should describe behavior
+  { category: 'personality', pattern: '(?:(?:bad|poor|negative|an) attitude(?: problem)?|attitude problem)', message: `"Attitude" is a vague judgment. ${DESCRIBE_BEHAVIOR}` },
+  { category: 'personality', pattern: '(?:strong|difficult|big) personality', message: `Comments on personality are not about work. ${DESCRIBE_BEHAVIOR}` },
+  { category: 'personality', pattern: '(?:difficult|hard) to work with', message: `A vague judgment. ${DESCRIBE_BEHAVIOR}` },
+  { category: 'personality', pattern: 'not a team player', message: 'A vague judgment. Name the collaboration that was missing' },
+  { category: 'personality', pattern: 'lazy', message: 'A character judgment. Describe the missed deliverables or deadlines' },
+  { category: 'personality', pattern: 'arrogant', message: `A character judgment. ${DESCRIBE_BEHAVIOR}` },
+  { category: 'personality', pattern: 'stubborn', message: 'A character judgment. Describe the decision or feedback that was resisted' },
+  { category: 'personality', pattern: 'moody', message: `A character judgment. ${DESCRIBE_BEHAVIOR}` },
+  { category: 'personality', pattern: 'intimidating', message: `A judgment of how others feel. ${DESCRIBE_BEHAVIOR}` },
+  { category: 'personality', pattern: 'likea?ble', message: 'Likeability is not a performance criterion. Describe the working relationships instead' },
+  { category: 'personality', pattern: 'lacks? (?:executive )?presence', message: '"Presence" is vague and applied unevenly. Name the skill that needs work, e.g. presenting to leadership' },
+  { category: 'personality', pattern: '(?:not a (?:good )?|poor |cultural |culture )fit', message: '"Fit" is vague and can hide bias. Name the expectations that were not met' }
+]
+
+type PronounRole = 'subject' | 'object' | 'possessive' | 'possessivePronoun' | 'reflexive'
+
+const PRONOUN_FORMS: Record<'male' | 'female' | 'neutral', Record<PronounRole, string>> = {
+  male: { subject: 'he', object: 'him', possessive: 'his', possessivePronoun: 'his', reflexive: 'himself' },
+  female: { subject: 'she', object: 'her', possessive: 'her', possessivePronoun: 'hers', reflexive: 'herself' },
+  neutral: { subject: 'they', object: 'them', possessive: 'their', possessivePronoun: 'theirs', reflexive: 'themselves' }
+}
+
+// Gendered pronouns and the roles they can play; "her" is object or possessive, "his" possessive either way
+const GENDERED_PRONOUNS: { word: string; roles: PronounRole[] }[] = [
+  { word: 'he', roles: ['subject'] },
+  { word: 'him', roles: ['object'] },
+  { word: 'his', roles: ['possessive'] },
+  { word: 'himself', roles: ['reflexive'] },
+  { word: 'she', roles: ['subject'] },
+  { word: 'her', roles: ['object', 'possessive'] },
+  { word: 'hers', roles: ['possessivePronoun'] },
+  { word: 'herself', roles: ['reflexive'] }
+]
+
+function pronounSetFor(gender: AppraisalData['employeeGender']): 'male' | 'female' | 'neutral' {
+  return gender === 'male' || gender === 'female' ? gender : 'neutral'
+}
+
+function matchCase(replacement: string, original: string): string {
+  return original.charAt(0) === original.charAt(0).toUpperCase()
+    ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+    : replacement
+}
+
+function wordPattern(source: string): RegExp {
+  return new RegExp(`\\b${source}\\b`, 'gi')
+}
+
+// Pronouns that do not belong to the chosen set. Plural "they" is left alone since it is
+// ordinary English; only gendered pronouns that contradict the selection are flagged.
+function pronounIssues(text: string, section: string, gender: AppraisalData['employeeGender']): LintIssue[] {
+  const expected = PRONOUN_FORMS[pronounSetFor(gender)]
+  const issues: LintIssue[] = []
+
+  GENDERED_PRONOUNS.forEach(pronoun => {
+    const replacements = pronoun.roles.map(role => expected[role]).filter((value, index, all) => all.indexOf(value) === index)
+    if (replacements.indexOf(pronoun.word) !== -1) return
+
+    const pattern = wordPattern(pronoun.word)
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text)) !== null) {
+      issues.push({
+        id: `pronoun-${section}-${match.index}`,
+        category: 'pronoun',
+        section,
+        start: match.index,
+        end: match.index + match[0].length,
+        text: match[0],
+        message: `The employee's pronouns are ${expected.subject}/${expected.object}/${expected.possessive}`
+          + (expected.subject === 'they' && pronoun.roles[0] === 'subject' ? '; check the verb agrees with "they"' : ''),
+        suggestion: replacements.length === 1 ? matchCase(replacements[0], match[0]) : undefined,
+        source: 'rule'
+      })
+    }
+  })
+
+  return issues
+}
+
+function ruleIssues(text: string, section: string): LintIssue[] {
+  const issues: LintIssue[] = []
+  RULES.forEach((rule, ruleIndex) => {
+    const pattern = wordPattern(rule.pattern)
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text)) !== null) {
+      issues.push({
+        id: `rule${ruleIndex}-${section}-${match.index}`,
+        category: rule.category,
+        section,
+        start: match.index,
+        end: match.index + match[0].length,
+        text: match[0],
+        message: rule.message,
+        suggestion: rule.suggestion ? matchCase(rule.suggestion, match[0]) : undefined,
+        source: 'rule'
+      })
+    }
+  })
+  return issues
+}
+
+// Issues are sorted by position and never overlap, so they can be highlighted inline
+export function withoutOverlaps(issues: LintIssue[]): LintIssue[] {
+  const sorted = issues.slice().sort((a, b) => a.section === b.section ? a.start - b.start || b.end - a.end : a.section.localeCompare(b.section))
+  return sorted.filter((issue, index) => !sorted.slice(0, index).some(other => other.section === issue.section && other.end > issue.start))
+}
+
+// Lints the text of one section; `section` is the FeedbackSectionKey or 'preamble'
+export function lintText(text: string, section: string, gender: AppraisalData['employeeGender'], language: FeedbackLanguage = 'en'): LintIssue[] {
+  if (language !== 'en' || !text) return []
+  return withoutOverlaps(ruleIssues(text, section).concat(pronounIssues(text, section, gender)))
+}
+
+// Offsets are relative to each section's text as returned by splitFeedbackSections
+export function lintFeedback(feedback: string, gender: AppraisalData['employeeGender'], language: FeedbackLanguage = 'en'): LintIssue[] {
+  const parsed = splitFeedbackSections(feedback)
+  return lintText(parsed.preamble, 'preamble', gender, language).concat(
+    ...FEEDBACK_SECTIONS.map(section => lintText(parsed.sections[section.key], section.key, gender, language))
+  )
+}
+
+// The section text with one issue's suggestion applied
+export function applySuggestion(text: string, issue: LintIssue): string {
+  if (issue.suggestion === undefined || text.slice(issue.start, issue.end) !== issue.text) return text
+  return text.slice(0, issue.start) + issue.suggestion + text.slice(issue.end)
+}
+
+// The model's issues are kept by quote: after edits they move with their text and drop
+// out once the text is gone
+export function relocateIssues(issues: LintIssue[], feedback: string): LintIssue[] {
+  const parsed = splitFeedbackSections(feedback)
+  const texts: Record<string, string> = { preamble: parsed.preamble, ...parsed.sections }
+  return issues
+    .map(issue => ({ issue, start: (texts[issue.section] || '').indexOf(issue.text) }))
+    .filter(({ start }) => start !== -1)
+    .map(({ issue, start }) => ({ ...issue, start, end: start + issue.text.length }))
+}
+
+// A section's text cut into plain and flagged runs for inline highlighting
+export function lintSegments(text: string, issues: LintIssue[]): { text: string; issue?: LintIssue }[] {
+  const segments: { text: string; issue?: LintIssue }[] = []
+  let position = 0
+  issues.slice().sort((a, b) => a.start - b.start).forEach(issue => {
+    if (issue.start < position || issue.end > text.length) return
+    if (issue.start > position) segments.push({ text: text.slice(position, issue.start) })
+    segments.push({ text: text.slice(issue.start, issue.end), issue })
+    position = issue.end
+  })
+  if (position < text.length) segments.push({ text: text.slice(position) })
+  return segments
+}
@@ -0,0 +1,122 @@
+import { FeedbackLanguage } from '@/types/appraisal'
+import { PerformanceLevelKey, performanceLevelKey } from '@/lib/scoring'
+
+// Output languages for generated reviews. The app itself stays in English; only the
+// review text, its section headings and the offline mock text are localized.
+
+export const FEEDBACK_LANGUAGES: { code: FeedbackLanguage; label: string; promptName: string; promptNote?: string }[] = [
+  { code: 'en', label: 'English', promptName: 'English' },
+  { code: 'de', label: 'Deutsch', promptName: 'German', promptNote: 'Use the formal register and standard German business vocabulary for performance reviews.' },
+  { code: 'pt-BR', label: 'Português (Brasil)', promptName: 'Brazilian Portuguese', promptNote: 'Use Brazilian spelling and vocabulary, not European Portuguese.' },
+  { code: 'ja', label: '日本語', promptName: 'Japanese', promptNote: 'Use polite business Japanese (です/ます調) and refer to the employee by name with さん rather than with pronouns.' }
+]
+
+export const DEFAULT_LANGUAGE: FeedbackLanguage = 'en'
+
+export function isFeedbackLanguage(value: unknown): value is FeedbackLanguage {
+  return FEEDBACK_LANGUAGES.some(language => language.code === value)
+}
+
+// Told to the model after the output instructions; JSON keys stay in English so parsing is unaffected
+export function languageInstruction(language: FeedbackLanguage = DEFAULT_LANGUAGE): string {
+  const entry = FEEDBACK_LANGUAGES.filter(l => l.code === language)[0]
+  if (!entry || entry.code === 'en') return ''
+  return `Write all of the review text in ${entry.promptName}. ${entry.promptNote || ''} Keep the JSON field names exactly as given in English; only their values are written in ${entry.promptName}.`.replace(/\s+/g, ' ').trim()
+}
+
+const PERFORMANCE_LEVEL_LABELS: Record<FeedbackLanguage, Record<PerformanceLevelKey, string>> = {
+  en: { outstanding: 'Outstanding', excellent: 'Excellent', good: 'Good', satisfactory: 'Satisfactory', needsImprovement: 'Needs Improvement', poor: 'Poor' },
+  de: { outstanding: 'Herausragend', excellent: 'Ausgezeichnet', good: 'Gut', satisfactory: 'Zufriedenstellend', needsImprovement: 'Verbesserungswürdig', poor: 'Unzureichend' },
+  'pt-BR': { outstanding: 'Excepcional', excellent: 'Excelente', good: 'Bom', satisfactory: 'Satisfatório', needsImprovement: 'Precisa melhorar', poor: 'Insuficiente' },
+  ja: { outstanding: '卓越', excellent: '優秀', good: '良好', satisfactory: '標準', needsImprovement: '要改善', poor: '不十分' }
+}
+
+export function localizedPerformanceLevel(score: number, language: FeedbackLanguage = DEFAULT_LANGUAGE): string {
+  return (PERFORMANCE_LEVEL_LABELS[language] || PERFORMANCE_LEVEL_LABELS.en)[performanceLevelKey(score)]
+}
+
+// Who the mock text is about. English uses pronouns; the other languages use the name,
+// which sidesteps gendered grammar the offline templates cannot get right.
+export interface MockSubject {
+  name: string;
+  subject: string;
+  Subject: string;
+  object: string;
+  possessive: string;
+}
+
+// Sentence templates for the offline mock review
+export interface MockPhrases {
+  intro: (who: MockSubject, level: string) => string;
+  strength: (who: MockSubject, category: string) => string;
+  noStrengths: (who: MockSubject, level: string) => string;
+  focus: (who: MockSubject, category: string) => string;
+  noFocus: (who: MockSubject) => string;
+  risk: (category: string) => string;
+  noRisks: (who: MockSubject) => string;
+  summary: (who: MockSubject, level: string) => string[];
+  closing: string;
+}
+
+export const MOCK_PHRASES: Record<FeedbackLanguage, MockPhrases> = {
+  en: {
+    intro: (who, level) => `${who.name} has demonstrated ${level.toLowerCase()} performance this period. Here's the assessment organized to help understand where ${who.subject} shines and where efforts can be focused together.`,
+    strength: (who, category) => `• ${who.Subject} ${category.toLowerCase()} is truly exceptional - ${who.subject} has a natural talent here that sets ${who.object} apart`,
+    noStrengths: (who, level) => `${who.Subject} has shown strong potential and dedication to ${who.possessive} role with ${level.toLowerCase()} overall performance`,
+    focus: (who, category) => `• ${category} - With some focused effort, ${who.subject} can really excel in this area`,
+    noFocus: who => `${who.Subject} can continue building on ${who.possessive} current foundation - there's always room for growth`,
+    risk: category => `• ${category} needs immediate attention to prevent it from becoming a significant barrier`,
+    noRisks: who => `No immediate risks identified - ${who.possessive} performance is on a positive trajectory`,
+    summary: (who, level) => [
+      `${who.Subject} ${level.toLowerCase()} performance demonstrates that ${who.subject} has what it takes to succeed here. The organization is excited about ${who.possessive} potential and committed to supporting ${who.possessive} continued growth.`,
+      `Growth is a journey, and the organization is here to help ${who.object} navigate any challenges ${who.subject} faces. There is confidence in ${who.possessive} ability to overcome obstacles and achieve ${who.possessive} goals.`,
+      `${who.Subject} should keep up the great work and continue to focus on areas for improvement. The organization looks forward to seeing what ${who.subject} accomplishes in the coming period.`
+    ],
+    closing: 'Best regards,'
+  },
+  de: {
+    intro: (who, level) => `${who.name} hat in diesem Zeitraum insgesamt die Leistungsstufe „${level}“ erreicht. Die folgende Einschätzung zeigt, wo die Stärken liegen und worauf sich die gemeinsame Arbeit konzentrieren sollte.`,
+    strength: (who, category) => `• ${category}: Hier zeigt ${who.name} außergewöhnliche Leistungen und hebt sich deutlich ab`,
+    noStrengths: (who, level) => `${who.name} hat großes Potenzial und viel Engagement in der eigenen Rolle gezeigt (Gesamtbewertung: ${level})`,
+    focus: (who, category) => `• ${category} - Mit gezieltem Einsatz kann ${who.name} sich in diesem Bereich deutlich steigern`,
+    noFocus: who => `${who.name} kann auf dem bisherigen Fundament weiter aufbauen - Raum für Entwicklung gibt es immer`,
+    risk: category => `• ${category} erfordert sofortige Aufmerksamkeit, damit daraus kein ernsthaftes Hindernis wird`,
+    noRisks: () => 'Keine unmittelbaren Risiken erkennbar - die Leistung entwickelt sich positiv',
+    summary: (who, level) => [
+      `Die Gesamtbewertung „${level}“ zeigt, dass ${who.name} das Zeug hat, hier erfolgreich zu sein. Das Unternehmen sieht großes Potenzial und unterstützt die weitere Entwicklung gerne.`,
+      `Entwicklung ist ein Weg, und das Unternehmen hilft dabei, Hürden zu meistern. Wir sind zuversichtlich, dass ${who.name} Herausforderungen bewältigen und die eigenen Ziele erreichen wird.`,
+      `${who.name} sollte die gute Arbeit fortsetzen und weiter an den Entwicklungsfeldern arbeiten. Wir freuen uns darauf, was ${who.name} im kommenden Zeitraum erreichen wird.`
+    ],
+    closing: 'Mit freundlichen Grüßen'
+  },
+  'pt-BR': {
+    intro: (who, level) => `${who.name} alcançou o nível de desempenho "${level}" neste período. A avaliação a seguir mostra onde estão os pontos fortes e onde os esforços podem ser concentrados em conjunto.`,
+    strength: (who, category) => `• ${category}: ${who.name} demonstra um desempenho excepcional nesta área, com um talento natural que se destaca`,
+    noStrengths: (who, level) => `${who.name} demonstrou grande potencial e dedicação à sua função, com desempenho geral "${level}"`,
+    focus: (who, category) => `• ${category} - Com um esforço direcionado, ${who.name} pode se destacar nesta área`,
+    noFocus: who => `${who.name} pode continuar construindo sobre a base atual - sempre há espaço para crescer`,
+    risk: category => `• ${category} precisa de atenção imediata para não se tornar um obstáculo significativo`,
+    noRisks: () => 'Nenhum risco imediato identificado - o desempenho está em uma trajetória positiva',
+    summary: (who, level) => [
+      `O desempenho "${level}" mostra que ${who.name} tem o que é preciso para ter sucesso aqui. A organização está animada com esse potencial e comprometida em apoiar o crescimento contínuo.`,
+      `O crescimento é uma jornada, e a organização está aqui para ajudar a superar os desafios que surgirem. Há confiança na capacidade de ${who.name} de superar obstáculos e alcançar seus objetivos.`,
+      `${who.name} deve continuar com o ótimo trabalho e seguir focando nas áreas de melhoria. A organização aguarda com expectativa as conquistas do próximo período.`
+    ],
+    closing: 'Atenciosamente,'
+  },
+  ja: {
+    intro: (who, level) => `${who.name}さんの今期の総合評価は「${level}」です。以下に、強みと今後一緒に注力していく点をまとめます。`,
+    strength: (who, category) => `• ${category}：非常に優れた成果を上げており、周囲の中でも際立っています`,
+    noStrengths: (who, level) => `${who.name}さんは役割に対して高い意欲と大きな可能性を示しました（総合評価：${level}）`,
+    focus: (who, category) => `• ${category} - 重点的に取り組むことで、この分野でさらに力を発揮できます`,
+    noFocus: who => `${who.name}さんはこれまでの基盤の上にさらに成長を重ねることができます`,
+    risk: category => `• ${category}：大きな障害とならないよう、早急な対応が必要です`,
+    noRisks: () => '当面のリスクは見当たりません。パフォーマンスは良い方向に向かっています',
+    summary: (who, level) => [
+      `総合評価「${level}」は、${who.name}さんがここで活躍できる力を持っていることを示しています。会社として${who.name}さんの可能性に期待し、今後の成長を支援していきます。`,
+      `成長は一歩ずつ進むものです。課題に直面した際には会社としてサポートします。${who.name}さんが困難を乗り越え、目標を達成できると確信しています。`,
+      '引き続き素晴らしい仕事を続けながら、改善点にも取り組んでください。次の期間の活躍を楽しみにしています。'
+    ],
+    closing: 'よろしくお願いいたします。'
+  }
+}
@@ -0,0 +1,119 @@
+import { FeedbackLanguage, FeedbackSections } from '@/types/appraisal'
+
+// The four sections every generated review is organised under
+export const FEEDBACK_SECTIONS = [
+  { key: 'successAndAchievements', title: 'Success & Achievements' },
+  { key: 'areasForFocus', title: 'Areas for Focus' },
+  { key: 'riskOverlay', title: 'Risk Overlay' },
+  { key: 'overallSummary', title: 'Overall Summary' }
+] as const
+
+export type FeedbackSectionKey = typeof FEEDBACK_SECTIONS[number]['key']
+
+// Headings for reviews written in other languages; English uses FEEDBACK_SECTIONS
+const LOCALIZED_TITLES: Record<Exclude<FeedbackLanguage, 'en'>, Record<FeedbackSectionKey, string>> = {
+  de: {
+    successAndAchievements: 'Erfolge & Leistungen',
+    areasForFocus: 'Entwicklungsfelder',
+    riskOverlay: 'Risikobewertung',
+    overallSummary: 'Gesamtfazit'
+  },
+  'pt-BR': {
+    successAndAchievements: 'Sucessos e Conquistas',
+    areasForFocus: 'Áreas de Foco',
+    riskOverlay: 'Riscos',
+    overallSummary: 'Resumo Geral'
+  },
+  ja: {
+    successAndAchievements: '成果と実績',
+    areasForFocus: '重点課題',
+    riskOverlay: 'リスク概要',
+    overallSummary: '総括'
+  }
+}
+
+export function sectionTitle(key: FeedbackSectionKey, language: FeedbackLanguage = 'en'): string {
+  const localized = language !== 'en' ? LOCALIZED_TITLES[language] : undefined
+  return localized ? localized[key] : FEEDBACK_SECTIONS.filter(section => section.key === key)[0].title
+}
+
+// Every heading a section may appear under, so text in any language (or switched midway) still splits
+function headingsOf(key: FeedbackSectionKey): string[] {
+  return ['en', ...Object.keys(LOCALIZED_TITLES)].map(language => sectionTitle(key, language as FeedbackLanguage))
+}
+
+export interface ParsedFeedback {
+  preamble: string
+  sections: FeedbackSections
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Matches a heading line such as "**Risk Overlay**", "2. **Areas for Focus** - ..." or "## Overall Summary".
+// Returns the text following the heading on the same line, or null when the line is not a heading.
+function matchHeading(line: string, title: string): string | null {
+  const name = escapeRegExp(title)
+  const patterns = [
+    new RegExp(`^\\s*(?:#{1,6}\\s*)?(?:\\d+\\.\\s*)?\\*\\*\\s*${name}\\s*:?\\s*\\*\\*\\s*:?\\s*(?:[-–—]\\s*)?`, 'i'),
+    new RegExp(`^\\s*#{1,6}\\s*(?:\\d+\\.\\s*)?${name}\\s*:?\\s*`, 'i'),
+    new RegExp(`^\\s*(?:\\d+\\.\\s*)?${name}\\s*:?\\s*$`, 'i')
+  ]
+
+  for (const pattern of patterns) {
+    const match = line.match(pattern)
+    if (match) return line.slice(match[0].length)
+  }
+  return null
+}
+
+// Split free-text feedback into its sections. Works on partial text, so it can be
+// re-run on every streamed chunk: sections that have not arrived yet are empty.
+export function splitFeedbackSections(text: string): ParsedFeedback {
+  const sections = {} as FeedbackSections
+  FEEDBACK_SECTIONS.forEach(section => { sections[section.key] = '' })
+
+  const preamble: string[] = []
+  const buckets: Record<string, string[]> = {}
+  let current: FeedbackSectionKey | null = null
+
+  text.split('\n').forEach(line => {
+    for (const section of FEEDBACK_SECTIONS) {
+      for (const title of headingsOf(section.key)) {
+        const rest = matchHeading(line, title)
+        if (rest !== null) {
+          current = section.key
+          buckets[current] = buckets[current] || []
+          if (rest.trim()) buckets[current].push(rest)
+          return
+        }
+      }
+    }
+
+    if (current) {
+      buckets[current].push(line)
+    } else {
+      preamble.push(line)
+    }
+  })
+
+  FEEDBACK_SECTIONS.forEach(section => {
+    sections[section.key] = (buckets[section.key] || []).join('\n').trim()
+  })
+
+  return { preamble: preamble.join('\n').trim(), sections }
+}
+
+// The inverse of splitFeedbackSections: sections under bold headings in the review's language.
+// Only keys present in `sections` get a heading, so a partially streamed object renders what has arrived.
+export function composeFeedback(sections: Partial<FeedbackSections>, preamble = '', language: FeedbackLanguage = 'en'): string {
+  const parts = preamble.trim() ? [preamble.trim()] : []
+  FEEDBACK_SECTIONS.forEach(section => {
+    const text = sections[section.key]
+    if (text !== undefined) {
+      parts.push(`**${sectionTitle(section.key, language)}**\n${text.trim()}`)
+    }
+  })
+  return parts.join('\n\n')
+}
@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+// File-backed JSON collections under APPRAISAL_DATA_DIR (default ./data).
+// Each collection is one JSON array file; writes are serialized per file and
+// land atomically via a temp file + rename, so a crash never leaves half a file.
+
+const writeQueues: Record<string, Promise<unknown>> = {}
+
+export function dataDir(): string {
+  return process.env.APPRAISAL_DATA_DIR || path.join(process.cwd(), 'data')
+}
+
+function collectionPath(name: string): string {
+  return path.join(dataDir(), `${name}.json`)
+}
+
+export async function readCollection<T>(name: string): Promise<T[]> {
+  try {
+    const raw = await fs.readFile(collectionPath(name), 'utf8')
+    return JSON.parse(raw) as T[]
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+}
+
+async function writeCollection<T>(name: string, items: T[]): Promise<void> {
+  const file = collectionPath(name)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const tempFile = `${file}.${process.pid}.tmp`
+  await fs.writeFile(tempFile, JSON.stringify(items, null, 2), 'utf8')
+  await fs.rename(tempFile, file)
+}
+
+// Read-modify-write a collection. Updates to the same collection run one at a time.
+export function updateCollection<T, R>(name: string, update: (items: T[]) => { items: T[]; result: R }): Promise<R> {
+  const previous = writeQueues[name] || Promise.resolve()
+  const next = previous.catch(() => undefined).then(async () => {
+    const { items, result } = update(await readCollection<T>(name))
+    await writeCollection(name, items)
+    return result
+  })
+  writeQueues[name] = next
+  return next
+}
@@ -3,6 +3,13 @@
  * TypeScript version supporting multiple providers
  */
 
+import { randomUUID } from "crypto";
+import { DEFAULT_ENTERPRISE_MAPPING, EnterpriseAdapter, EnterpriseConfig, createEnterpriseConfigFromEnv } from "./enterprise-adapter";
+import { OAuthClientConfig, OAuthTokenManager, getTokenManager } from "./oauth-token-manager";
+import { PLACEHOLDER_INSTRUCTION, Redaction, redactsProvider } from "./redaction";
+import { readNDJSON, readSSE } from "./sse";
+import { bufferedResponse, timedSignal } from "./abort-signal";
+
 export enum LLMProvider {
   OPENAI = "openai",
   ANTHROPIC = "anthropic",
@@ -21,14 +28,216 @@ export interface LLMConfig {
   temperature: number;
   maxTokens: number;
   timeout: number;
+  retry?: RetryPolicy;
+  oauth?: OAuthClientConfig; // Client-credentials settings for gateway providers (APIGEE)
+  headers?: Record<string, string>; // Extra headers a gateway requires on every request
+  enterprise?: EnterpriseConfig; // Auth strategy and request/response mapping for ENTERPRISE
+  redactPII?: boolean; // Apply the caller's Redaction to requests to this provider (PII_REDACTION_PROVIDERS)
+}
+
+export interface RetryPolicy {
+  maxRetries: number;   // Retries after the first attempt
+  baseDelayMs: number;  // Backoff is a random delay in [0, baseDelayMs * 2^attempt]
+  maxDelayMs: number;   // Cap for backoff; a longer Retry-After gives up on this provider instead
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 30000
+};
+
+export interface LLMResult {
+  text: string;
+  provider: LLMProvider;
+  model: string;
+  redacted: boolean; // The request went out with personal data replaced by placeholders
+}
+
+/**
+ * HTTP failure from a provider, keeping the status and any Retry-After hint
+ * so the retry policy can tell transient failures from permanent ones.
+ */
+export class LLMRequestError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, response: Response) {
+    super(message);
+    Object.setPrototypeOf(this, LLMRequestError.prototype);
+    this.name = "LLMRequestError";
+    this.status = response.status;
+    this.retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// 429, 5xx, timeouts and dropped connections are worth another attempt
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof LLMRequestError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  if (error instanceof Error) {
+    return error.name === "TimeoutError" || (error.name === "TypeError" && /fetch failed|network/i.test(error.message));
+  }
+  return false;
 }
 
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 export interface TokenInfo {
   token: string;
   expiresAt: Date;
   refreshToken?: string;
 }
 
+/**
+ * Asks the provider for a JSON object matching `schema` using its native mechanism:
+ * JSON mode (OpenAI, local), a forced tool call (Anthropic), responseSchema (Gemini)
+ * or format (Ollama). Gateways without one rely on the prompt asking for JSON.
+ */
+export interface StructuredOutput {
+  name: string;        // Tool / schema name, e.g. "appraisal_feedback"
+  description: string;
+  schema: JSONSchema;  // Object schema; kept to the subset every provider understands
+}
+
+export interface JSONSchema {
+  type: "object" | "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  additionalProperties?: boolean;
+}
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// A single prompt is sent as one user message
+export type LLMInput = string | ChatMessage[];
+
+export interface CallOptions {
+  system?: string; // System prompt, sent the way each provider expects it
+  structured?: StructuredOutput;
+  redaction?: Redaction; // Placeholders for personal data, used by providers configured with redactPII
+}
+
+// The system prompt and messages exactly as they are sent to one provider
+export interface PreparedRequest {
+  system?: string;
+  messages: ChatMessage[];
+  redaction?: Redaction; // Set when the request was redacted; the reply is restored with it
+}
+
+export interface StreamOptions extends CallOptions {
+  onToken: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+// One line of an Ollama /api/chat stream
+interface OllamaChunk {
+  message?: { content?: string };
+  error?: string;
+}
+
+export interface StructuredResult<T> extends LLMResult {
+  value: T;
+  repaired: boolean; // The first reply was malformed and a repair request fixed it
+}
+
+/**
+ * The model replied, but not with output that passes the caller's checks.
+ * Thrown by parse callbacks so the client knows a repair request is worth trying.
+ */
+export class StructuredOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, StructuredOutputError.prototype);
+    this.name = "StructuredOutputError";
+  }
+}
+
+// Repair requests sent after a malformed reply before the provider is given up on
+const MAX_REPAIR_ATTEMPTS = 2;
+
+function buildRepairPrompt(output: StructuredOutput, text: string, problem: string): string {
+  return `The reply below was supposed to be a single JSON object matching this JSON schema, but it is not usable: ${problem}
+
+Schema (${output.name}): ${JSON.stringify(output.schema)}
+
+Reply:
+${text}
+
+Return only the corrected JSON object. Keep the wording of the reply; do not add commentary or code fences.`;
+}
+
+function toMessages(input: LLMInput): ChatMessage[] {
+  return typeof input === "string" ? [{ role: "user", content: input }] : input;
+}
+
+// OpenAI-style chat: the system prompt is the first message
+function withSystemMessage(messages: ChatMessage[], system?: string): Array<{ role: string; content: string }> {
+  return system ? [{ role: "system", content: system }, ...messages] : messages;
+}
+
+// Gemini calls the assistant "model" and takes the system prompt as systemInstruction
+function geminiContents(messages: ChatMessage[]): Array<{ role: string; parts: Array<{ text: string }> }> {
+  return messages.map(message => ({
+    role: message.role === "assistant" ? "model" : "user",
+    parts: [{ text: message.content }]
+  }));
+}
+
+function geminiSystemFields(system?: string): Record<string, unknown> {
+  return system ? { systemInstruction: { parts: [{ text: system }] } } : {};
+}
+
+// Single-prompt gateways get the conversation as a transcript; a lone user message is sent unchanged
+function flattenMessages(messages: ChatMessage[], system?: string): string {
+  if (!system && messages.length === 1 && messages[0].role === "user") {
+    return messages[0].content;
+  }
+  const turns = messages.map(message => `${message.role === "assistant" ? "Assistant" : "User"}: ${message.content}`);
+  return (system ? [`System: ${system}`] : []).concat(turns).join("\n\n");
+}
+
+// Gemini's responseSchema is an OpenAPI subset: upper-case type names and no additionalProperties
+function toGeminiSchema(schema: JSONSchema): Record<string, unknown> {
+  const converted: Record<string, unknown> = { type: schema.type.toUpperCase() };
+  if (schema.description) {
+    converted.description = schema.description;
+  }
+  if (schema.properties) {
+    const properties: Record<string, unknown> = {};
+    Object.keys(schema.properties).forEach(key => {
+      properties[key] = toGeminiSchema((schema.properties as Record<string, JSONSchema>)[key]);
+    });
+    converted.properties = properties;
+  }
+  if (schema.required) {
+    converted.required = schema.required;
+  }
+  if (schema.items) {
+    converted.items = toGeminiSchema(schema.items);
+  }
+  return converted;
+}
+
 export class LLMClient {
   private config: LLMConfig;
   private logger: Console;
@@ -38,23 +247,113 @@ export class LLMClient {
     this.logger = console;
   }
 
-  async callLLM(prompt: string): Promise<string> {
+  get provider(): LLMProvider {
+    return this.config.provider;
+  }
+
+  get model(): string {
+    return this.config.model;
+  }
+
+  get redactsPII(): boolean {
+    return !!this.config.redactPII;
+  }
+
+  /**
+   * Replaces personal data in the system prompt and messages when this provider is configured
+   * for redaction and the caller passed a Redaction. Models are told to keep the placeholders.
+   */
+  prepareRequest(input: LLMInput, options: CallOptions = {}): PreparedRequest {
+    const messages = toMessages(input);
+    const redaction = this.config.redactPII ? options.redaction : undefined;
+    if (!redaction) {
+      return { system: options.system, messages };
+    }
+
+    const system = options.system ? redaction.redact(options.system) : undefined;
+    const redacted = messages.map(message => ({ role: message.role, content: redaction.redact(message.content) }));
+    const used = redaction.placeholdersIn([system || ""].concat(redacted.map(message => message.content)));
+    return {
+      system: used.length === 0 ? system : system ? `${PLACEHOLDER_INSTRUCTION}\n\n${system}` : PLACEHOLDER_INSTRUCTION,
+      messages: redacted,
+      redaction
+    };
+  }
+
+  async callLLM(input: LLMInput, options: CallOptions = {}): Promise<string> {
+    const request = this.prepareRequest(input, options);
+    const text = await this.withRetry(() => this.callProvider(request.messages, { ...options, system: request.system }));
+    return request.redaction ? request.redaction.restore(text, !!options.structured) : text;
+  }
+
+  /**
+   * Runs parse over a structured reply. When parse rejects it with a StructuredOutputError,
+   * the reply and the problem are sent back to the model to be fixed, up to MAX_REPAIR_ATTEMPTS times.
+   */
+  async parseWithRepair<T>(text: string, output: StructuredOutput, parse: (text: string) => T, redaction?: Redaction): Promise<{ value: T; repaired: boolean }> {
+    let reply = text;
+
+    for (let repair = 0; ; repair++) {
+      try {
+        return { value: parse(reply), repaired: repair > 0 };
+      } catch (error) {
+        if (!(error instanceof StructuredOutputError) || repair >= MAX_REPAIR_ATTEMPTS) {
+          throw error;
+        }
+        this.logger.warn(`Malformed structured output from ${this.config.provider} (${error.message}), asking for a repair`);
+        // The reply has been restored, so the repair request is redacted again
+        reply = await this.callLLM(buildRepairPrompt(output, reply, error.message), { structured: output, redaction });
+      }
+    }
+  }
+
+  /**
+   * Runs an attempt under the retry policy: exponential backoff with full jitter
+   * on retryable errors, waiting at least as long as a Retry-After header asks.
+   * canRetry lets streaming calls stop retrying once output has been delivered.
+   */
+  private async withRetry<T>(attempt: () => Promise<T>, canRetry: () => boolean = () => true): Promise<T> {
+    const policy = this.config.retry || DEFAULT_RETRY_POLICY;
+
+    for (let retry = 0; ; retry++) {
+      try {
+        return await attempt();
+      } catch (error) {
+        if (retry >= policy.maxRetries || !isRetryableError(error) || !canRetry()) {
+          throw error;
+        }
+
+        const backoff = Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, retry));
+        const retryAfter = error instanceof LLMRequestError ? error.retryAfterMs : undefined;
+        if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) {
+          throw error;
+        }
+
+        const delay = Math.max(backoff, retryAfter || 0);
+        this.logger.warn(`LLM call to ${this.config.provider} failed (${error instanceof Error ? error.message : error}), retrying in ${Math.round(delay)}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  // signal: only the gateways (ENTERPRISE, APIGEE) take one, since streaming falls back to them
+  private async callProvider(messages: ChatMessage[], options: CallOptions, signal?: AbortSignal): Promise<string> {
     try {
       switch (this.config.provider) {
         case LLMProvider.OPENAI:
-          return await this.callOpenAI(prompt);
+          return await this.callOpenAI(messages, options);
         case LLMProvider.ANTHROPIC:
-          return await this.callAnthropic(prompt);
+          return await this.callAnthropic(messages, options);
         case LLMProvider.GEMINI:
-          return await this.callGemini(prompt);
+          return await this.callGemini(messages, options);
         case LLMProvider.OLLAMA:
-          return await this.callOllama(prompt);
+          return await this.callOllama(messages, options);
         case LLMProvider.LOCAL:
-          return await this.callLocal(prompt);
+          return await this.callLocal(messages, options);
         case LLMProvider.ENTERPRISE:
-          return await this.callEnterprise(prompt);
+          return await this.callEnterprise(messages, options, signal);
         case LLMProvider.APIGEE:
-          return await this.callApigee(prompt);
+          return await this.callApigee(messages, options, signal);
         default:
           throw new Error(`Unsupported LLM provider: ${this.config.provider}`);
       }
@@ -64,7 +363,66 @@ export class LLMClient {
     }
   }
 
-  private async callOpenAI(prompt: string): Promise<string> {
+  /**
+   * Streams the completion, calling onToken for every text delta as it arrives.
+   * Resolves with the full text once the provider closes the stream.
+   */
+  async streamLLM(input: LLMInput, options: StreamOptions): Promise<string> {
+    const request = this.prepareRequest(input, options);
+    const restorer = request.redaction ? request.redaction.restoreStream(options.onToken, !!options.structured) : undefined;
+    let delivered = false;
+    const tracked: StreamOptions = {
+      ...options,
+      system: request.system,
+      onToken: token => {
+        delivered = true;
+        if (restorer) {
+          restorer.push(token);
+        } else {
+          options.onToken(token);
+        }
+      }
+    };
+    const text = await this.withRetry(() => this.streamProvider(request.messages, tracked), () => !delivered && !options.signal?.aborted);
+    if (restorer) {
+      restorer.flush();
+    }
+    return request.redaction ? request.redaction.restore(text, !!options.structured) : text;
+  }
+
+  // One attempt, under its own timeout; a timed-out attempt fails with the TimeoutError so it is retried
+  private async streamProvider(messages: ChatMessage[], streamOptions: StreamOptions): Promise<string> {
+    const attempt = timedSignal(this.config.timeout * 1000, streamOptions.signal);
+    const options: StreamOptions = { ...streamOptions, signal: attempt.signal };
+    try {
+      switch (this.config.provider) {
+        case LLMProvider.OPENAI:
+          return await this.streamOpenAI(messages, options);
+        case LLMProvider.ANTHROPIC:
+          return await this.streamAnthropic(messages, options);
+        case LLMProvider.GEMINI:
+          return await this.streamGemini(messages, options);
+        case LLMProvider.OLLAMA:
+          return await this.streamOllama(messages, options);
+        case LLMProvider.LOCAL:
+          return await this.streamLocal(messages, options);
+        case LLMProvider.ENTERPRISE:
+        case LLMProvider.APIGEE:
+          return await this.streamWholeResponse(messages, options);
+        default:
+          throw new Error(`Unsupported LLM provider: ${this.config.provider}`);
+      }
+    } catch (error) {
+      // Reads cut off by the abort fail with an AbortError whatever the reason
+      const failure = attempt.timeout.aborted && !streamOptions.signal?.aborted ? attempt.timeout.reason : error;
+      console.error(`⚠️ LLM stream failed for provider ${this.config.provider}:`, failure);
+      throw failure;
+    } finally {
+      attempt.release();
+    }
+  }
+
+  private async callOpenAI(messages: ChatMessage[], options: CallOptions): Promise<string> {
     if (!this.config.apiKey) {
       throw new Error("OpenAI API key not configured");
     }
@@ -76,9 +434,10 @@ export class LLMClient {
 
     const payload = {
       model: this.config.model,
-      messages: [{ role: "user", content: prompt }],
+      messages: withSystemMessage(messages, options.system),
       temperature: this.config.temperature,
-      max_tokens: this.config.maxTokens
+      max_tokens: this.config.maxTokens,
+      ...this.jsonModeFields(options)
     };
 
     const url = this.config.baseUrl 
@@ -93,14 +452,14 @@ export class LLMClient {
     });
 
     if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} - ${response.statusText}`);
+      throw new LLMRequestError(`OpenAI API error: ${response.status} - ${response.statusText}`, response);
     }
 
     const data = await response.json();
     return data.choices[0].message.content;
   }
 
-  private async callAnthropic(prompt: string): Promise<string> {
+  private async callAnthropic(messages: ChatMessage[], options: CallOptions): Promise<string> {
     if (!this.config.apiKey) {
       throw new Error("Anthropic API key not configured");
     }
@@ -113,9 +472,11 @@ export class LLMClient {
 
     const payload = {
       model: this.config.model,
-      messages: [{ role: "user", content: prompt }],
+      messages,
+      ...(options.system ? { system: options.system } : {}),
       temperature: this.config.temperature,
-      max_tokens: this.config.maxTokens
+      max_tokens: this.config.maxTokens,
+      ...this.anthropicToolFields(options)
     };
 
     const url = this.config.baseUrl 
@@ -130,14 +491,21 @@ export class LLMClient {
     });
 
     if (!response.ok) {
-      throw new Error(`Anthropic API error: ${response.status} - ${response.statusText}`);
+      throw new LLMRequestError(`Anthropic API error: ${response.status} - ${response.statusText}`, response);
     }
 
     const data = await response.json();
+    if (options.structured) {
+      // The forced tool call carries the object as already-parsed input
+      const toolUse = (data.content || []).find((block: { type: string }) => block.type === "tool_use");
+      if (toolUse) {
+        return JSON.stringify(toolUse.input);
+      }
+    }
     return data.content[0].text;
   }
 
-  private async callGemini(prompt: string): Promise<string> {
+  private async callGemini(messages: ChatMessage[], options: CallOptions): Promise<string> {
     if (!this.config.apiKey) {
       throw new Error("Google Gemini API key not configured");
     }
@@ -145,12 +513,12 @@ export class LLMClient {
     const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.config.model}:generateContent?key=${this.config.apiKey}`;
 
     const payload = {
-      contents: [{
-        parts: [{ text: prompt }]
-      }],
+      contents: geminiContents(messages),
+      ...geminiSystemFields(options.system),
       generationConfig: {
         temperature: this.config.temperature,
-        maxOutputTokens: this.config.maxTokens
+        maxOutputTokens: this.config.maxTokens,
+        ...this.geminiSchemaFields(options)
       }
     };
 
@@ -162,22 +530,24 @@ export class LLMClient {
     });
 
     if (!response.ok) {
-      throw new Error(`Gemini API error: ${response.status} - ${response.statusText}`);
+      throw new LLMRequestError(`Gemini API error: ${response.status} - ${response.statusText}`, response);
     }
 
     const data = await response.json();
     return data.candidates[0].content.parts[0].text;
   }
 
-  private async callOllama(prompt: string): Promise<string> {
+  private async callOllama(messages: ChatMessage[], options: CallOptions): Promise<string> {
     const url = this.config.baseUrl 
       ? `${this.config.baseUrl}/api/chat`
       : "http://localhost:11434/api/chat";
 
     const payload = {
       model: this.config.model,
-      messages: [{ role: "user", content: prompt }],
-      temperature: this.config.temperature
+      messages: withSystemMessage(messages, options.system),
+      temperature: this.config.temperature,
+      stream: false,
+      ...this.ollamaFormatFields(options)
     };
 
     const response = await fetch(url, {
@@ -188,14 +558,14 @@ export class LLMClient {
     });
 
     if (!response.ok) {
-      throw new Error(`Ollama API error: ${response.status} - ${response.statusText}`);
+      throw new LLMRequestError(`Ollama API error: ${response.status} - ${response.statusText}`, response);
     }
 
     const data = await response.json();
     return data.message.content;
   }
 
-  private async callLocal(prompt: string): Promise<string> {
+  private async callLocal(messages: ChatMessage[], options: CallOptions): Promise<string> {
     if (!this.config.baseUrl) {
       throw new Error("Local LLM base URL not configured");
     }
@@ -210,9 +580,10 @@ export class LLMClient {
 
     const payload = {
       model: this.config.model,
-      messages: [{ role: "user", content: prompt }],
+      messages: withSystemMessage(messages, options.system),
       temperature: this.config.temperature,
-      max_tokens: this.config.maxTokens
+      max_tokens: this.config.maxTokens,
+      ...this.jsonModeFields(options)
     };
 
     const response = await fetch(`${this.config.baseUrl}/v1/chat/completions`, {
@@ -223,54 +594,333 @@ export class LLMClient {
     });
 
     if (!response.ok) {
-      throw new Error(`Local LLM API error: ${response.status} - ${response.statusText}`);
+      throw new LLMRequestError(`Local LLM API error: ${response.status} - ${response.statusText}`, response);
     }
 
     const data = await response.json();
     return data.choices[0].message.content;
   }
 
-  private async callEnterprise(prompt: string): Promise<string> {
+  private async callEnterprise(messages: ChatMessage[], options: CallOptions, signal?: AbortSignal): Promise<string> {
     if (!this.config.baseUrl) {
       throw new Error("Enterprise LLM base URL not configured");
     }
 
-    // For enterprise, we'll use a simple approach
-    // In a real implementation, you'd handle token management here
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json"
-    };
+    const adapter = this.enterpriseAdapter();
+    const response = await adapter.send(this.config.baseUrl, {
+      prompt: flattenMessages(messages, options.system),
+      messages: withSystemMessage(messages, options.system),
+      model: this.config.model,
+      temperature: this.config.temperature,
+      maxTokens: this.config.maxTokens
+    }, this.config.timeout * 1000, signal);
 
-    if (this.config.apiKey) {
-      headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+    if (!response.ok) {
+      throw new LLMRequestError(`Enterprise LLM error: ${response.status} - ${response.statusText}`, response);
+    }
+
+    const data = await response.json();
+    return adapter.extractText(data);
+  }
+
+  // Configs built by hand (without createConfigForProvider) keep the old static-key behaviour
+  private enterpriseAdapter(): EnterpriseAdapter {
+    return new EnterpriseAdapter(this.config.enterprise || {
+      auth: this.config.apiKey
+        ? { type: "static", apiKey: this.config.apiKey, header: "Authorization", scheme: "Bearer" }
+        : { type: "none" },
+      mapping: DEFAULT_ENTERPRISE_MAPPING
+    });
+  }
+
+  private async callApigee(messages: ChatMessage[], options: CallOptions, signal?: AbortSignal): Promise<string> {
+    if (!this.config.baseUrl) {
+      throw new Error("Apigee proxy URL not configured");
+    }
+    if (!this.config.oauth) {
+      throw new Error("Apigee OAuth client credentials not configured");
     }
 
+    const tokens = getTokenManager(this.config.oauth);
+    const url = this.config.baseUrl;
+
+    // The proxy fronts an OpenAI-compatible chat completions backend
     const payload = {
       model: this.config.model,
-      prompt: prompt,
+      messages: withSystemMessage(messages, options.system),
       temperature: this.config.temperature,
       max_tokens: this.config.maxTokens
     };
 
-    const response = await fetch(this.config.baseUrl, {
+    const send = async () => {
+      const attempt = timedSignal(this.config.timeout * 1000, signal);
+      try {
+        return await bufferedResponse(await fetch(url, {
+          method: "POST",
+          headers: await this.apigeeHeaders(tokens),
+          body: JSON.stringify(payload),
+          signal: attempt.signal
+        }));
+      } finally {
+        attempt.release();
+      }
+    };
+
+    let response = await send();
+    if (response.status === 401) {
+      // Token revoked or expired early - get a fresh one and try once more
+      tokens.invalidate();
+      response = await send();
+    }
+
+    if (!response.ok) {
+      throw new LLMRequestError(`Apigee proxy error: ${response.status} - ${response.statusText}`, response);
+    }
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+    if (typeof text !== "string") {
+      throw new Error("Apigee proxy response did not include choices[0].message.content");
+    }
+    return text;
+  }
+
+  private async apigeeHeaders(tokens: OAuthTokenManager): Promise<Record<string, string>> {
+    return {
+      "Content-Type": "application/json",
+      ...this.config.headers,
+      "Authorization": `Bearer ${await tokens.getToken()}`,
+      "X-Correlation-ID": randomUUID()
+    };
+  }
+
+  // OpenAI and OpenAI-compatible servers: JSON mode; the prompt itself describes the fields
+  private jsonModeFields(options: CallOptions): Record<string, unknown> {
+    return options.structured ? { response_format: { type: "json_object" } } : {};
+  }
+
+  // Anthropic: a single tool whose input schema is the output schema, and a forced call to it
+  private anthropicToolFields(options: CallOptions): Record<string, unknown> {
+    const output = options.structured;
+    if (!output) {
+      return {};
+    }
+    return {
+      tools: [{ name: output.name, description: output.description, input_schema: output.schema }],
+      tool_choice: { type: "tool", name: output.name }
+    };
+  }
+
+  private geminiSchemaFields(options: CallOptions): Record<string, unknown> {
+    return options.structured
+      ? { responseMimeType: "application/json", responseSchema: toGeminiSchema(options.structured.schema) }
+      : {};
+  }
+
+  // Ollama accepts a JSON schema as the format
+  private ollamaFormatFields(options: CallOptions): Record<string, unknown> {
+    return options.structured ? { format: options.structured.schema } : {};
+  }
+
+  private async startStream(url: string, headers: Record<string, string>, payload: unknown, label: string, signal?: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+    const response = await fetch(url, {
       method: "POST",
       headers,
       body: JSON.stringify(payload),
-      signal: AbortSignal.timeout(this.config.timeout * 1000)
+      signal
     });
 
     if (!response.ok) {
-      throw new Error(`Enterprise LLM error: ${response.status} - ${response.statusText}`);
+      throw new LLMRequestError(`${label} error: ${response.status} - ${response.statusText}`, response);
+    }
+    if (!response.body) {
+      throw new Error(`${label} error: response has no body to stream`);
     }
 
-    const data = await response.json();
-    return data.response || data.text || data.content;
+    return response.body;
+  }
+
+  // OpenAI and OpenAI-compatible servers: SSE "data:" chunks terminated by [DONE]
+  private async streamOpenAICompatible(url: string, headers: Record<string, string>, messages: ChatMessage[], options: StreamOptions, label: string): Promise<string> {
+    const payload = {
+      model: this.config.model,
+      messages: withSystemMessage(messages, options.system),
+      temperature: this.config.temperature,
+      max_tokens: this.config.maxTokens,
+      stream: true,
+      ...this.jsonModeFields(options)
+    };
+
+    const body = await this.startStream(url, headers, payload, label, options.signal);
+
+    let text = "";
+    await readSSE(body, event => {
+      if (event.data === "[DONE]") {
+        return;
+      }
+      const chunk = JSON.parse(event.data);
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        text += token;
+        options.onToken(token);
+      }
+    });
+    return text;
+  }
+
+  private async streamOpenAI(messages: ChatMessage[], options: StreamOptions): Promise<string> {
+    if (!this.config.apiKey) {
+      throw new Error("OpenAI API key not configured");
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${this.config.apiKey}`
+    };
+
+    const url = this.config.baseUrl 
+      ? `${this.config.baseUrl}/v1/chat/completions`
+      : "https://api.openai.com/v1/chat/completions";
+
+    return this.streamOpenAICompatible(url, headers, messages, options, "OpenAI API");
+  }
+
+  private async streamLocal(messages: ChatMessage[], options: StreamOptions): Promise<string> {
+    if (!this.config.baseUrl) {
+      throw new Error("Local LLM base URL not configured");
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json"
+    };
+
+    if (this.config.apiKey) {
+      headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+    }
+
+    return this.streamOpenAICompatible(`${this.config.baseUrl}/v1/chat/completions`, headers, messages, options, "Local LLM API");
   }
 
-  private async callApigee(prompt: string): Promise<string> {
-    // Apigee implementation would require additional setup
-    // For now, we'll use a mock implementation
-    throw new Error("Apigee integration requires additional configuration");
+  // Anthropic: SSE message events, text arrives in content_block_delta
+  private async streamAnthropic(messages: ChatMessage[], options: StreamOptions): Promise<string> {
+    if (!this.config.apiKey) {
+      throw new Error("Anthropic API key not configured");
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "x-api-key": this.config.apiKey,
+      "anthropic-version": "2023-06-01"
+    };
+
+    const payload = {
+      model: this.config.model,
+      messages,
+      ...(options.system ? { system: options.system } : {}),
+      temperature: this.config.temperature,
+      max_tokens: this.config.maxTokens,
+      stream: true,
+      ...this.anthropicToolFields(options)
+    };
+
+    const url = this.config.baseUrl 
+      ? `${this.config.baseUrl}/v1/messages`
+      : "https://api.anthropic.com/v1/messages";
+
+    const body = await this.startStream(url, headers, payload, "Anthropic API", options.signal);
+
+    let text = "";
+    await readSSE(body, event => {
+      const message = JSON.parse(event.data);
+      if (message.type === "error") {
+        throw new Error(`Anthropic API error: ${message.error?.message || "stream error"}`);
+      }
+      if (message.type === "content_block_delta" && message.delta?.type === "text_delta") {
+        text += message.delta.text;
+        options.onToken(message.delta.text);
+      }
+      // Forced tool calls stream their input as JSON fragments
+      if (message.type === "content_block_delta" && message.delta?.type === "input_json_delta" && message.delta.partial_json) {
+        text += message.delta.partial_json;
+        options.onToken(message.delta.partial_json);
+      }
+    });
+    return text;
+  }
+
+  // Gemini: streamGenerateContent with alt=sse, each event is a partial GenerateContentResponse
+  private async streamGemini(messages: ChatMessage[], options: StreamOptions): Promise<string> {
+    if (!this.config.apiKey) {
+      throw new Error("Google Gemini API key not configured");
+    }
+
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.config.model}:streamGenerateContent?alt=sse&key=${this.config.apiKey}`;
+
+    const payload = {
+      contents: geminiContents(messages),
+      ...geminiSystemFields(options.system),
+      generationConfig: {
+        temperature: this.config.temperature,
+        maxOutputTokens: this.config.maxTokens,
+        ...this.geminiSchemaFields(options)
+      }
+    };
+
+    const body = await this.startStream(url, { "Content-Type": "application/json" }, payload, "Gemini API", options.signal);
+
+    let text = "";
+    await readSSE(body, event => {
+      const chunk = JSON.parse(event.data);
+      const parts: Array<{ text?: string }> = chunk.candidates?.[0]?.content?.parts || [];
+      parts.forEach(part => {
+        if (part.text) {
+          text += part.text;
+          options.onToken(part.text);
+        }
+      });
+    });
+    return text;
+  }
+
+  // Ollama: newline-delimited JSON objects until done is true
+  private async streamOllama(messages: ChatMessage[], options: StreamOptions): Promise<string> {
+    const url = this.config.baseUrl 
+      ? `${this.config.baseUrl}/api/chat`
+      : "http://localhost:11434/api/chat";
+
+    const payload = {
+      model: this.config.model,
+      messages: withSystemMessage(messages, options.system),
+      temperature: this.config.temperature,
+      stream: true,
+      ...this.ollamaFormatFields(options)
+    };
+
+    const body = await this.startStream(url, { "Content-Type": "application/json" }, payload, "Ollama API", options.signal);
+
+    let text = "";
+    await readNDJSON(body, value => {
+      const chunk = value as OllamaChunk;
+      if (chunk.error) {
+        throw new Error(`Ollama API error: ${chunk.error}`);
+      }
+      const token = chunk.message?.content;
+      if (token) {
+        text += token;
+        options.onToken(token);
+      }
+    });
+    return text;
+  }
+
+  // Gateways without a streaming protocol deliver the full completion as a single chunk
+  private async streamWholeResponse(messages: ChatMessage[], options: StreamOptions): Promise<string> {
+    const text = await this.callProvider(messages, options, options.signal);
+    if (options.signal?.aborted) {
+      throw new Error("LLM request aborted");
+    }
+    options.onToken(text);
+    return text;
   }
 
   isAvailable(): boolean {
@@ -286,10 +936,12 @@ export class LLMClient {
           const hasUrl = !!this.config.baseUrl;
           return hasUrl;
         case LLMProvider.ENTERPRISE:
-          const hasEnterpriseConfig = !!(this.config.baseUrl && this.config.apiKey);
+          const hasEnterpriseConfig = !!(this.config.baseUrl && this.enterpriseAdapter().isConfigured());
           return hasEnterpriseConfig;
         case LLMProvider.APIGEE:
-          return false; // Requires additional setup
+          const oauth = this.config.oauth;
+          const hasApigeeConfig = !!(this.config.baseUrl && oauth && oauth.tokenUrl && oauth.clientId && oauth.clientSecret);
+          return hasApigeeConfig;
         default:
           return false;
       }
@@ -299,32 +951,160 @@ export class LLMClient {
   }
 }
 
-export function createLLMClientFromEnv(): LLMClient | null {
-  const providers = [
-    { provider: LLMProvider.OPENAI, envKey: "OPENAI_API_KEY" },
-    { provider: LLMProvider.ANTHROPIC, envKey: "ANTHROPIC_API_KEY" },
-    { provider: LLMProvider.GEMINI, envKey: "GEMINI_API_KEY" },
-    { provider: LLMProvider.ENTERPRISE, envKey: "ENTERPRISE_LLM_URL" },
-    { provider: LLMProvider.LOCAL, envKey: "LOCAL_LLM_URL" },
-    { provider: LLMProvider.OLLAMA, envKey: "OLLAMA_HOST" }
-  ];
-
-  for (const { provider, envKey } of providers) {
-    if (process.env[envKey]) {
+/**
+ * Ordered list of clients tried one after another. Each client applies its own
+ * retry policy first; the chain only moves on once a provider has given up.
+ * A stream never switches provider after it has delivered output.
+ */
+export class LLMClientChain {
+  readonly clients: LLMClient[];
+
+  constructor(clients: LLMClient[]) {
+    this.clients = clients;
+  }
+
+  isAvailable(): boolean {
+    return this.clients.length > 0;
+  }
+
+  async callLLM(input: LLMInput, options: CallOptions = {}): Promise<LLMResult> {
+    const failures: string[] = [];
+
+    for (const client of this.clients) {
       try {
-        const config = createConfigForProvider(provider);
-        const client = new LLMClient(config);
-        if (client.isAvailable()) {
-          return client;
+        const text = await client.callLLM(input, options);
+        return { text, provider: client.provider, model: client.model, redacted: client.redactsPII && !!options.redaction };
+      } catch (error) {
+        failures.push(`${client.provider}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    throw new Error(`All LLM providers failed (${failures.join("; ") || "none configured"})`);
+  }
+
+  async streamLLM(input: LLMInput, options: StreamOptions): Promise<LLMResult> {
+    const failures: string[] = [];
+
+    for (const client of this.clients) {
+      let delivered = false;
+      try {
+        const text = await client.streamLLM(input, {
+          ...options,
+          onToken: token => {
+            delivered = true;
+            options.onToken(token);
+          }
+        });
+        return { text, provider: client.provider, model: client.model, redacted: client.redactsPII && !!options.redaction };
+      } catch (error) {
+        if (delivered || options.signal?.aborted) {
+          throw error;
         }
+        failures.push(`${client.provider}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    throw new Error(`All LLM providers failed (${failures.join("; ") || "none configured"})`);
+  }
+
+  /**
+   * Requests structured output and checks it with parse. A provider whose reply stays
+   * malformed after its repair attempts counts as failed and the next one is tried.
+   */
+  async callStructured<T>(input: LLMInput, output: StructuredOutput, parse: (text: string) => T, options: CallOptions = {}): Promise<StructuredResult<T>> {
+    const failures: string[] = [];
+
+    for (const client of this.clients) {
+      try {
+        const text = await client.callLLM(input, { ...options, structured: output });
+        const { value, repaired } = await client.parseWithRepair(text, output, parse, options.redaction);
+        return { text, value, repaired, provider: client.provider, model: client.model, redacted: client.redactsPII && !!options.redaction };
       } catch (error) {
-        console.warn(`Failed to create ${provider} client:`, error);
-        continue;
+        failures.push(`${client.provider}: ${error instanceof Error ? error.message : error}`);
       }
     }
+
+    throw new Error(`All LLM providers failed (${failures.join("; ") || "none configured"})`);
   }
 
-  return null;
+  /**
+   * Streams structured output (tokens are raw JSON fragments), then checks the complete
+   * reply. Repairs go to the provider that streamed it, since output has already been shown.
+   */
+  async streamStructured<T>(input: LLMInput, output: StructuredOutput, parse: (text: string) => T, options: StreamOptions): Promise<StructuredResult<T>> {
+    const result = await this.streamLLM(input, { ...options, structured: output });
+    const client = this.clients.filter(c => c.provider === result.provider)[0];
+    const { value, repaired } = await client.parseWithRepair(result.text, output, parse, options.redaction);
+    return { ...result, value, repaired };
+  }
+}
+
+// Providers detected from the environment, in default fallback order
+const ENV_PROVIDERS = [
+  { provider: LLMProvider.OPENAI, envKey: "OPENAI_API_KEY" },
+  { provider: LLMProvider.ANTHROPIC, envKey: "ANTHROPIC_API_KEY" },
+  { provider: LLMProvider.GEMINI, envKey: "GEMINI_API_KEY" },
+  { provider: LLMProvider.ENTERPRISE, envKey: "ENTERPRISE_LLM_URL" },
+  { provider: LLMProvider.APIGEE, envKey: "APIGEE_BASE_URL" },
+  { provider: LLMProvider.LOCAL, envKey: "LOCAL_LLM_URL" },
+  { provider: LLMProvider.OLLAMA, envKey: "OLLAMA_HOST" }
+];
+
+/**
+ * Builds the fallback chain. LLM_PROVIDER_CHAIN (e.g. "openai,anthropic,ollama")
+ * sets the order explicitly; otherwise every provider with its env var set is
+ * used in the ENV_PROVIDERS order.
+ */
+export function createLLMChainFromEnv(): LLMClientChain {
+  const chainSetting = process.env.LLM_PROVIDER_CHAIN;
+  const providers: LLMProvider[] = chainSetting
+    ? chainSetting.split(",").map(name => name.trim().toLowerCase()).filter(Boolean).map(name => {
+        const provider = Object.keys(LLMProvider)
+          .map(key => LLMProvider[key as keyof typeof LLMProvider])
+          .find(value => value === name);
+        if (!provider) {
+          throw new Error(`Unknown provider "${name}" in LLM_PROVIDER_CHAIN`);
+        }
+        return provider;
+      })
+    : ENV_PROVIDERS.filter(({ envKey }) => !!process.env[envKey]).map(({ provider }) => provider);
+
+  const clients: LLMClient[] = [];
+  for (const provider of providers) {
+    try {
+      const config = { ...createConfigForProvider(provider), retry: createRetryPolicyFromEnv(), redactPII: redactsProvider(provider) };
+      const client = new LLMClient(config);
+      if (client.isAvailable()) {
+        clients.push(client);
+      }
+    } catch (error) {
+      console.warn(`Failed to create ${provider} client:`, error);
+      continue;
+    }
+  }
+
+  return new LLMClientChain(clients);
+}
+
+export function createLLMClientFromEnv(): LLMClient | null {
+  return createLLMChainFromEnv().clients[0] || null;
+}
+
+/**
+ * A whole number of at least zero from the environment. A missing, empty or non-numeric
+ * value would otherwise become NaN and retry forever, so it falls back to the default.
+ */
+function envCount(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function createRetryPolicyFromEnv(): RetryPolicy {
+  return {
+    maxRetries: envCount("LLM_MAX_RETRIES", DEFAULT_RETRY_POLICY.maxRetries),
+    baseDelayMs: envCount("LLM_RETRY_BASE_DELAY_MS", DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: envCount("LLM_RETRY_MAX_DELAY_MS", DEFAULT_RETRY_POLICY.maxDelayMs)
+  };
 }
 
 function createConfigForProvider(provider: LLMProvider): LLMConfig {
@@ -391,10 +1171,47 @@ function createConfigForProvider(provider: LLMProvider): LLMConfig {
         baseUrl: process.env.ENTERPRISE_LLM_URL,
         temperature: parseFloat(process.env.ENTERPRISE_LLM_TEMPERATURE || "0.1"),
         maxTokens: parseInt(process.env.ENTERPRISE_LLM_MAX_TOKENS || "4000"),
-        timeout: 300
+        timeout: 300,
+        enterprise: createEnterpriseConfigFromEnv()
+      };
+
+    case LLMProvider.APIGEE:
+      return {
+        provider,
+        model: process.env.APIGEE_MODEL || "gpt-4",
+        baseUrl: process.env.APIGEE_BASE_URL,
+        temperature: parseFloat(process.env.APIGEE_TEMPERATURE || "0.1"),
+        maxTokens: parseInt(process.env.APIGEE_MAX_TOKENS || "4000"),
+        timeout: 300,
+        oauth: {
+          tokenUrl: process.env.APIGEE_TOKEN_URL || "",
+          clientId: process.env.APIGEE_CLIENT_ID || "",
+          clientSecret: process.env.APIGEE_CLIENT_SECRET || "",
+          scope: process.env.APIGEE_SCOPE,
+          refreshMarginSeconds: parseInt(process.env.APIGEE_TOKEN_REFRESH_MARGIN || "60")
+        },
+        headers: createApigeeHeadersFromEnv()
       };
 
     default:
       throw new Error(`Unsupported provider: ${provider}`);
   }
-} 
\ No newline at end of file
+}
+
+// APIGEE_HEADERS is a JSON object of extra headers; APIGEE_API_KEY is sent as x-apikey
+// (or the header named by APIGEE_API_KEY_HEADER)
+function createApigeeHeadersFromEnv(): Record<string, string> {
+  let headers: Record<string, string> = {};
+  if (process.env.APIGEE_HEADERS) {
+    try {
+      headers = JSON.parse(process.env.APIGEE_HEADERS);
+    } catch (error) {
+      throw new Error("APIGEE_HEADERS must be a JSON object of header names to values");
+    }
+  }
+
+  if (process.env.APIGEE_API_KEY) {
+    headers[process.env.APIGEE_API_KEY_HEADER || "x-apikey"] = process.env.APIGEE_API_KEY;
+  }
+  return headers;
+}
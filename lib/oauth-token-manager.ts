@@ -0,0 +1,123 @@
+/**
+ * OAuth token management for gateway-fronted LLM providers
+ * Client-credentials exchange with in-memory caching and refresh-token renewal
+ */
+
+import type { TokenInfo } from "./llm-client";
+
+export interface OAuthClientConfig {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  refreshMarginSeconds?: number; // Renew this long before expiresAt (default 60)
+}
+
+const DEFAULT_REFRESH_MARGIN_SECONDS = 60;
+// Used when the token endpoint does not say how long the token lives
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 300;
+
+export class OAuthTokenManager {
+  private config: OAuthClientConfig;
+  private tokenInfo: TokenInfo | null = null;
+  private pending: Promise<TokenInfo> | null = null;
+
+  constructor(config: OAuthClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Returns a valid access token, fetching one only when the cached token is
+   * missing or about to expire. Concurrent callers share a single request.
+   */
+  async getToken(): Promise<string> {
+    if (this.tokenInfo && !this.isExpiring(this.tokenInfo)) {
+      return this.tokenInfo.token;
+    }
+
+    if (!this.pending) {
+      const clear = () => {
+        this.pending = null;
+      };
+      this.pending = this.renew();
+      this.pending.then(clear, clear);
+    }
+
+    const tokenInfo = await this.pending;
+    return tokenInfo.token;
+  }
+
+  // Drop the cached token, e.g. after the gateway rejected it with a 401
+  invalidate(): void {
+    if (this.tokenInfo) {
+      this.tokenInfo = { ...this.tokenInfo, expiresAt: new Date(0) };
+    }
+  }
+
+  private isExpiring(tokenInfo: TokenInfo): boolean {
+    const margin = (this.config.refreshMarginSeconds ?? DEFAULT_REFRESH_MARGIN_SECONDS) * 1000;
+    return tokenInfo.expiresAt.getTime() - margin <= Date.now();
+  }
+
+  private async renew(): Promise<TokenInfo> {
+    const refreshToken = this.tokenInfo?.refreshToken;
+
+    if (refreshToken) {
+      try {
+        this.tokenInfo = await this.requestToken({ grant_type: "refresh_token", refresh_token: refreshToken });
+        return this.tokenInfo;
+      } catch (error) {
+        console.warn("OAuth refresh failed, requesting a new token with client credentials:", error);
+      }
+    }
+
+    const params: Record<string, string> = { grant_type: "client_credentials" };
+    if (this.config.scope) {
+      params.scope = this.config.scope;
+    }
+    this.tokenInfo = await this.requestToken(params);
+    return this.tokenInfo;
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<TokenInfo> {
+    const credentials = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString("base64");
+
+    const response = await fetch(this.config.tokenUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        "Authorization": `Basic ${credentials}`
+      },
+      body: new URLSearchParams(params).toString(),
+      signal: AbortSignal.timeout(30000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`OAuth token request failed: ${response.status} - ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (!data.access_token) {
+      throw new Error("OAuth token response did not include an access_token");
+    }
+
+    // Apigee returns expires_in as a string
+    const expiresIn = parseInt(String(data.expires_in ?? DEFAULT_TOKEN_LIFETIME_SECONDS));
+    return {
+      token: data.access_token,
+      expiresAt: new Date(Date.now() + (isNaN(expiresIn) ? DEFAULT_TOKEN_LIFETIME_SECONDS : expiresIn) * 1000),
+      refreshToken: data.refresh_token || this.tokenInfo?.refreshToken
+    };
+  }
+}
+
+// Clients are created per request, so managers (and their cached tokens) live at module level
+const managers: Record<string, OAuthTokenManager> = {};
+
+export function getTokenManager(config: OAuthClientConfig): OAuthTokenManager {
+  const key = `${config.tokenUrl}|${config.clientId}|${config.scope || ""}`;
+  if (!managers[key]) {
+    managers[key] = new OAuthTokenManager(config);
+  }
+  return managers[key];
+}
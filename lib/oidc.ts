@@ -0,0 +1,179 @@
+import { JsonWebKey, createHash, createPublicKey, randomBytes, verify } from 'crypto'
+
+// OpenID Connect sign-in: authorization code flow with PKCE against any provider that publishes
+// /.well-known/openid-configuration. Configured with
+//
+//   OIDC_ISSUER          e.g. https://login.example.com or http://localhost:4020 (npm run mock:oidc)
+//   OIDC_CLIENT_ID
+//   OIDC_CLIENT_SECRET   optional for public clients
+//   OIDC_REDIRECT_URI    optional, defaults to <app origin>/api/auth/oidc/callback
+//   OIDC_SCOPES          optional, defaults to "openid profile email"
+//   OIDC_DISPLAY_NAME    the label on the login button, defaults to "Single sign-on"
+//
+// The provider only proves who someone is; their role and reports come from the local directory.
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri?: string;
+  scopes: string;
+  displayName: string;
+}
+
+interface Discovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+// What the login route remembers (in a sealed cookie) until the provider redirects back
+export interface OidcTransaction {
+  state: string;
+  nonce: string;
+  verifier: string;
+  redirectUri: string;
+  returnTo: string;
+}
+
+export interface OidcIdentity {
+  subject: string;
+  email?: string;
+  name?: string;
+}
+
+// Holds the OidcTransaction between the redirect to the provider and the callback
+export const OIDC_COOKIE = 'appraisal_oidc'
+export const OIDC_TRANSACTION_TTL_SECONDS = 10 * 60
+
+// Allowed clock difference between the provider and this server
+const CLOCK_SKEW_SECONDS = 60
+
+const discoveries: Record<string, Promise<Discovery>> = {}
+
+export function oidcConfigFromEnv(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER
+  const clientId = process.env.OIDC_CLIENT_ID
+  if (!issuer || !clientId) return null
+
+  return {
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: process.env.OIDC_REDIRECT_URI || undefined,
+    scopes: process.env.OIDC_SCOPES || 'openid profile email',
+    displayName: process.env.OIDC_DISPLAY_NAME || 'Single sign-on'
+  }
+}
+
+function base64url(value: Buffer): string {
+  return value.toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_')
+}
+
+function fromBase64url(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64')
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, cache: 'no-store' })
+  if (!response.ok) {
+    throw new Error(`${url} answered ${response.status}: ${(await response.text()).slice(0, 200)}`)
+  }
+  return response.json() as Promise<T>
+}
+
+// Fetched once per issuer; a failed lookup is retried on the next sign-in
+function discover(config: OidcConfig): Promise<Discovery> {
+  if (!discoveries[config.issuer]) {
+    discoveries[config.issuer] = fetchJson<Discovery>(`${config.issuer}/.well-known/openid-configuration`)
+    discoveries[config.issuer].catch(() => { delete discoveries[config.issuer] })
+  }
+  return discoveries[config.issuer]
+}
+
+export async function authorizationUrl(config: OidcConfig, origin: string, returnTo: string): Promise<{ url: string; transaction: OidcTransaction }> {
+  const discovery = await discover(config)
+  const transaction: OidcTransaction = {
+    state: base64url(randomBytes(16)),
+    nonce: base64url(randomBytes(16)),
+    verifier: base64url(randomBytes(32)),
+    redirectUri: config.redirectUri || `${origin}/api/auth/oidc/callback`,
+    returnTo
+  }
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: transaction.redirectUri,
+    scope: config.scopes,
+    state: transaction.state,
+    nonce: transaction.nonce,
+    code_challenge: base64url(createHash('sha256').update(transaction.verifier).digest()),
+    code_challenge_method: 'S256'
+  })
+  return { url: `${discovery.authorization_endpoint}?${params.toString()}`, transaction }
+}
+
+// RS256 only, which every provider supports for ID tokens
+async function verifyIdToken(config: OidcConfig, discovery: Discovery, idToken: string, nonce: string): Promise<Record<string, unknown>> {
+  const [rawHeader, rawPayload, rawSignature] = idToken.split('.')
+  if (!rawHeader || !rawPayload || !rawSignature) {
+    throw new Error('ID token is not a JWT')
+  }
+
+  const header = JSON.parse(fromBase64url(rawHeader).toString('utf8'))
+  if (header.alg !== 'RS256') {
+    throw new Error(`ID token algorithm ${header.alg} is not supported (expected RS256)`)
+  }
+
+  const { keys } = await fetchJson<{ keys: JsonWebKey[] }>(discovery.jwks_uri)
+  const jwk = keys.filter(key => key.kty === 'RSA' && (!header.kid || key.kid === header.kid))[0]
+  if (!jwk) {
+    throw new Error(`No signing key${header.kid ? ` "${header.kid}"` : ''} found at ${discovery.jwks_uri}`)
+  }
+
+  const key = createPublicKey({ key: jwk, format: 'jwk' })
+  if (!verify('RSA-SHA256', Buffer.from(`${rawHeader}.${rawPayload}`), key, fromBase64url(rawSignature))) {
+    throw new Error('ID token signature is invalid')
+  }
+
+  const claims = JSON.parse(fromBase64url(rawPayload).toString('utf8'))
+  const now = Date.now() / 1000
+  const audience: string[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (claims.iss !== discovery.issuer) throw new Error(`ID token issuer ${claims.iss} does not match ${discovery.issuer}`)
+  if (audience.indexOf(config.clientId) === -1) throw new Error('ID token was issued for another client')
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) throw new Error('ID token has expired')
+  if (claims.nonce !== nonce) throw new Error('ID token nonce does not match the sign-in request')
+  if (typeof claims.sub !== 'string' || !claims.sub) throw new Error('ID token has no subject')
+  return claims
+}
+
+// Exchanges the code from the callback and returns the verified identity
+export async function completeSignIn(config: OidcConfig, transaction: OidcTransaction, code: string): Promise<OidcIdentity> {
+  const discovery = await discover(config)
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' }
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: transaction.redirectUri,
+    client_id: config.clientId,
+    code_verifier: transaction.verifier
+  })
+  if (config.clientSecret) {
+    headers.Authorization = 'Basic ' + Buffer.from(`${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`).toString('base64')
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(discovery.token_endpoint, { method: 'POST', headers, body: body.toString() })
+  if (!tokens.id_token) {
+    throw new Error('The token response has no id_token')
+  }
+
+  const claims = await verifyIdToken(config, discovery, tokens.id_token, transaction.nonce)
+  return {
+    subject: claims.sub as string,
+    // An address the provider says is unverified is not used to find the account
+    ...(typeof claims.email === 'string' && claims.email_verified !== false ? { email: claims.email } : {}),
+    ...(typeof claims.name === 'string' ? { name: claims.name } : {})
+  }
+}
@@ -0,0 +1,86 @@
+import { AppraisalCategory, AppraisalData, PriorReviewReference, StoredAppraisal } from '@/types/appraisal'
+import { splitFeedbackSections } from '@/lib/feedback-sections'
+
+// The previous cycle's review, cut down to what a new prompt follows up on. Client-safe so the
+// appraisal page can show which saved review the next generation will use.
+
+type Cycle = Pick<AppraisalData, 'reviewPeriod' | 'reviewDate'>
+
+export interface PriorScore {
+  categoryName: string;
+  score: number;
+  currentName?: string; // Set when the category has been renamed since
+  currentScore?: number; // The same category in the review being written, when it is still rated
+}
+
+export interface PriorReview {
+  reference: PriorReviewReference;
+  overallScore: number;
+  scores: PriorScore[];
+  areasForFocus: string;
+  riskOverlay: string;
+  goals: string;
+}
+
+// reviewDate orders the cycles; periods break ties and cover drafts saved without a date
+export function compareCycles(a: Cycle, b: Cycle): number {
+  return (a.reviewDate || '').localeCompare(b.reviewDate || '') || a.reviewPeriod.localeCompare(b.reviewPeriod)
+}
+
+// The latest candidate from an earlier cycle; another record for the same period never counts.
+// Without a period or a date there is nothing to be earlier than, so nothing is picked.
+export function previousCycle<T extends Cycle>(candidates: T[], current: Cycle): T | undefined {
+  if (!(current.reviewPeriod || '').trim() && !(current.reviewDate || '').trim()) {
+    return undefined
+  }
+  return candidates
+    .filter(candidate => candidate.reviewPeriod !== current.reviewPeriod && compareCycles(candidate, current) < 0)
+    .sort(compareCycles)
+    .pop()
+}
+
+function normalizedName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '')
+}
+
+// Categories are matched by id, then by name for templates that were cloned rather than versioned
+function matchingCategory(category: AppraisalCategory, categories: AppraisalCategory[]): AppraisalCategory | undefined {
+  return categories.filter(c => c.id === category.id)[0] ||
+    categories.filter(c => normalizedName(c.name) === normalizedName(category.name))[0]
+}
+
+export function toReference(appraisal: StoredAppraisal): PriorReviewReference {
+  return {
+    appraisalId: appraisal.id,
+    reviewPeriod: appraisal.reviewPeriod,
+    reviewDate: appraisal.reviewDate,
+    reviewerName: appraisal.reviewerName
+  }
+}
+
+export function summarizePriorReview(prior: StoredAppraisal, current: AppraisalData): PriorReview {
+  const sections = splitFeedbackSections(prior.generatedFeedback).sections
+  const scores: PriorScore[] = []
+  prior.template.categories.forEach(category => {
+    const rating = prior.ratings.filter(r => r.categoryId === category.id)[0]
+    if (!rating) return
+
+    const now = matchingCategory(category, current.template.categories)
+    const currentRating = now ? current.ratings.filter(r => r.categoryId === now.id)[0] : undefined
+    scores.push({
+      categoryName: category.name,
+      score: rating.score,
+      ...(now && now.name !== category.name ? { currentName: now.name } : {}),
+      ...(currentRating ? { currentScore: currentRating.score } : {})
+    })
+  })
+
+  return {
+    reference: toReference(prior),
+    overallScore: prior.overallScore,
+    scores,
+    areasForFocus: (sections.areasForFocus || '').trim(),
+    riskOverlay: (sections.riskOverlay || '').trim(),
+    goals: (prior.goals || '').trim()
+  }
+}
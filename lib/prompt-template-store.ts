@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto'
+import { PromptTemplate, PromptTemplateRecord, PromptVersion } from '@/types/appraisal'
+import { readCollection, updateCollection } from '@/lib/json-store'
+import { builtInPromptTemplates, defaultPromptTemplate } from '@/lib/default-prompt-templates'
+
+// Versioned like the evaluation template library: saving appends a new version and
+// old versions stay readable, so every generation can name the prompt that produced it.
+
+const COLLECTION = 'prompt-templates'
+
+export type PromptTemplateInput = Omit<PromptTemplate, 'id'>
+
+function seedRecords(): PromptTemplateRecord[] {
+  const now = new Date().toISOString()
+  return builtInPromptTemplates.map(template => ({ ...template, version: 1, createdAt: now }))
+}
+
+async function allRecords(): Promise<PromptTemplateRecord[]> {
+  const records = await readCollection<PromptTemplateRecord>(COLLECTION)
+  if (records.length > 0) {
+    return records
+  }
+
+  return updateCollection<PromptTemplateRecord, PromptTemplateRecord[]>(COLLECTION, current => {
+    const items = current.length > 0 ? current : seedRecords()
+    return { items, result: items }
+  })
+}
+
+function latestOf(records: PromptTemplateRecord[], id: string): PromptTemplateRecord | null {
+  return records
+    .filter(r => r.id === id)
+    .reduce<PromptTemplateRecord | null>((latest, r) => !latest || r.version > latest.version ? r : latest, null)
+}
+
+// The latest version of each prompt template
+export async function listPromptTemplates(): Promise<PromptTemplateRecord[]> {
+  const records = await allRecords()
+  const ids = records.map(r => r.id).filter((id, index, all) => all.indexOf(id) === index)
+  return ids
+    .map(id => latestOf(records, id) as PromptTemplateRecord)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function listPromptTemplateVersions(id: string): Promise<PromptTemplateRecord[]> {
+  const records = await allRecords()
+  return records.filter(r => r.id === id).sort((a, b) => b.version - a.version)
+}
+
+export async function getPromptTemplate(id: string, version?: number): Promise<PromptTemplateRecord | null> {
+  const records = await allRecords()
+  if (version === undefined) {
+    return latestOf(records, id)
+  }
+  return records.find(r => r.id === id && r.version === version) || null
+}
+
+// The prompt used for an appraisal: its template's choice, else the default. The built-in
+// default is used as a last resort so generation never fails for want of a prompt.
+export async function resolvePromptTemplate(id?: string): Promise<PromptTemplateRecord> {
+  const record = (id && await getPromptTemplate(id)) || await getPromptTemplate(defaultPromptTemplate.id)
+  return record || { ...defaultPromptTemplate, version: 1, createdAt: new Date(0).toISOString() }
+}
+
+export function promptVersionOf(record: PromptTemplateRecord): PromptVersion {
+  return { id: record.id, version: record.version, name: record.name }
+}
+
+export async function createPromptTemplate(input: PromptTemplateInput): Promise<PromptTemplateRecord> {
+  await allRecords()
+  const record: PromptTemplateRecord = {
+    id: randomUUID(),
+    ...input,
+    version: 1,
+    createdAt: new Date().toISOString()
+  }
+
+  return updateCollection<PromptTemplateRecord, PromptTemplateRecord>(COLLECTION, records => ({
+    items: [...records, record],
+    result: record
+  }))
+}
+
+// Save changes to a prompt template as its next version
+export async function savePromptTemplateVersion(id: string, input: PromptTemplateInput): Promise<PromptTemplateRecord | null> {
+  await allRecords()
+  return updateCollection<PromptTemplateRecord, PromptTemplateRecord | null>(COLLECTION, records => {
+    const latest = latestOf(records, id)
+    if (!latest) {
+      return { items: records, result: null }
+    }
+
+    const record: PromptTemplateRecord = {
+      id,
+      ...input,
+      version: latest.version + 1,
+      createdAt: new Date().toISOString()
+    }
+    return { items: [...records, record], result: record }
+  })
+}
@@ -0,0 +1,68 @@
+import { PromptLength, PromptTone } from '@/types/appraisal'
+
+// Prompt template building blocks shared by the server (rendering) and the editor page.
+// Templates only carry instructions; the JSON output contract is appended by the
+// generator so an edited template cannot break structured output.
+
+export const TONE_PRESETS: { value: PromptTone; label: string; instruction: string }[] = [
+  {
+    value: 'warm',
+    label: 'Warm',
+    instruction: 'Write a warm, professional, and humanized review that feels like it comes from a caring mentor who truly knows and values this person. Use natural transitions, avoid corporate jargon, and make it feel like a real human wrote this with care and attention.'
+  },
+  {
+    value: 'direct',
+    label: 'Concise & direct',
+    instruction: 'Be concise and direct. Use plain language and concrete observations, lead with what matters most, and leave out pleasantries and filler.'
+  },
+  {
+    value: 'formal',
+    label: 'Formal',
+    instruction: 'Use a formal, neutral register suitable for a compliance-reviewed HR record. State observations factually, tie them to the ratings and comments, and avoid colloquialisms and emotive language.'
+  }
+]
+
+export const LENGTH_PRESETS: { value: PromptLength; label: string; instruction: string }[] = [
+  { value: 'brief', label: 'Brief', instruction: 'Keep each section short: two or three sentences or bullet points.' },
+  { value: 'standard', label: 'Standard', instruction: 'Aim for one paragraph or three to five bullet points per section.' },
+  { value: 'detailed', label: 'Detailed', instruction: 'Cover each section thoroughly with specific examples from the comments, up to three paragraphs per section.' }
+]
+
+// Placeholders a template body or section guidance may use, as {{name}}
+export const PROMPT_VARIABLES: { name: string; description: string }[] = [
+  { name: 'employeeName', description: 'Employee name' },
+  { name: 'employeeId', description: 'Employee ID' },
+  { name: 'reviewerName', description: 'Reviewer name' },
+  { name: 'reviewDate', description: 'Review date' },
+  { name: 'reviewPeriod', description: 'Review period, e.g. 2024-H2' },
+  { name: 'overallScore', description: 'Weighted overall score, e.g. 3.85' },
+  { name: 'performanceLevel', description: 'Label for the overall score, e.g. Good' },
+  { name: 'templateName', description: 'Name of the evaluation template' },
+  { name: 'subject', description: 'Pronoun: he / she / they' },
+  { name: 'object', description: 'Pronoun: him / her / them' },
+  { name: 'possessive', description: 'Pronoun: his / her / their' },
+  { name: 'appraisal', description: 'Employee details, categories, ratings, comments and self-assessment' },
+  { name: 'sections', description: 'Numbered list of the sections to write, with their guidance' },
+  { name: 'tone', description: 'Instruction for the selected tone preset' },
+  { name: 'length', description: 'Instruction for the selected length preset' }
+]
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+// Unknown placeholders are left as written; unknownPromptVariables reports them when a template is saved
+export function renderPromptTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) => name in values ? values[name] : placeholder)
+}
+
+export function unknownPromptVariables(text: string): string[] {
+  const unknown: string[] = []
+  let match: RegExpExecArray | null
+  const pattern = new RegExp(VARIABLE_PATTERN.source, 'g')
+  while ((match = pattern.exec(text)) !== null) {
+    const name = match[1]
+    if (!PROMPT_VARIABLES.some(variable => variable.name === name) && unknown.indexOf(name) === -1) {
+      unknown.push(name)
+    }
+  }
+  return unknown
+}
@@ -0,0 +1,191 @@
+import { AppraisalData, RedactionKind, RedactionPlaceholder } from '@/types/appraisal'
+import { PriorReview } from '@/lib/prior-review'
+
+// Personal data is swapped for placeholders such as [NAME_1] before a prompt goes to an LLM
+// provider, and the placeholders in the reply are swapped back (lib/llm-client.ts does both).
+// Configured with
+//
+//   PII_REDACTION_PROVIDERS   providers whose requests are redacted, comma-separated; defaults to
+//                             openai,anthropic,gemini,enterprise,apigee. "none" turns redaction off
+//   PII_REDACTION_TERMS       more terms to hide, comma-separated (client names, project code names...)
+//   PII_REDACTION_ID_PATTERN  optional regular expression for employee IDs mentioned in free text, e.g. EMP\d{4}
+
+export const DEFAULT_REDACTED_PROVIDERS = ['openai', 'anthropic', 'gemini', 'enterprise', 'apigee']
+
+// Put in front of the system prompt of every request that contains a placeholder
+export const PLACEHOLDER_INSTRUCTION = 'Names, employee IDs, email addresses and other sensitive terms in this request have been replaced with placeholders in square brackets, such as [NAME_1]. Write a placeholder exactly as it appears wherever you refer to that person or thing, and do not guess what it stands for.'
+
+const PLACEHOLDER_PATTERN = /\[(?:NAME|EMPLOYEE_ID|EMAIL|TERM)_\d+\]/g
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+const WORD_CHARACTER = /[A-Za-z0-9_\u00C0-\u024F]/
+
+// A stream chunk ending in "[" plus fewer characters than this may be the start of a placeholder
+const MAX_PLACEHOLDER_LENGTH = 24
+
+interface Candidate {
+  kind: RedactionKind;
+  value: string;
+  ignoreCase: boolean; // Only for configured terms; names and IDs are matched as written so ordinary words are left alone
+}
+
+export function redactsProvider(provider: string): boolean {
+  const setting = process.env.PII_REDACTION_PROVIDERS
+  const providers = setting === undefined
+    ? DEFAULT_REDACTED_PROVIDERS
+    : setting.split(',').map(name => name.trim().toLowerCase())
+  return providers.indexOf(provider) !== -1
+}
+
+function isWordCharacter(character: string | undefined): boolean {
+  return !!character && WORD_CHARACTER.test(character)
+}
+
+// Replaces the occurrences of term that are whole words
+function replaceWhole(text: string, term: string, ignoreCase: boolean, replacement: (match: string) => string): string {
+  const haystack = ignoreCase ? text.toLowerCase() : text
+  const needle = ignoreCase ? term.toLowerCase() : term
+  let result = ''
+  let from = 0
+  let index = haystack.indexOf(needle)
+  while (index !== -1) {
+    const end = index + needle.length
+    const whole = !isWordCharacter(text.charAt(index - 1)) && !isWordCharacter(text.charAt(end))
+    if (whole) {
+      result += text.slice(from, index) + replacement(text.slice(index, end))
+      from = end
+    }
+    index = haystack.indexOf(needle, whole ? end : index + 1)
+  }
+  return result + text.slice(from)
+}
+
+// Applies replace to the text between placeholders, so one rule never rewrites another's placeholder
+function outsidePlaceholders(text: string, replace: (part: string) => string): string {
+  const placeholders = text.match(PLACEHOLDER_PATTERN) || []
+  return text.split(PLACEHOLDER_PATTERN).map((part, index) => replace(part) + (placeholders[index] || '')).join('')
+}
+
+/**
+ * The placeholders for the requests about one review. The same value always gets the same
+ * placeholder, so a conversation redacted turn by turn stays consistent.
+ */
+export class Redaction {
+  private readonly candidates: Candidate[]
+  private readonly idPattern?: RegExp
+  private readonly byValue: Record<string, string> = {}
+  private readonly byPlaceholder: Record<string, RedactionPlaceholder> = {}
+  private readonly counts: Record<string, number> = {}
+
+  constructor(candidates: Candidate[], idPattern?: RegExp) {
+    // Numbered in the order given; replaced longest first so a full name wins over its parts
+    candidates.forEach(candidate => this.placeholderFor(candidate.kind, candidate.value))
+    this.candidates = candidates.slice().sort((a, b) => b.value.length - a.value.length)
+    this.idPattern = idPattern
+  }
+
+  private placeholderFor(kind: RedactionKind, value: string): string {
+    const key = `${kind}:${value}`
+    if (!this.byValue[key]) {
+      this.counts[kind] = (this.counts[kind] || 0) + 1
+      const placeholder = `[${kind}_${this.counts[kind]}]`
+      this.byValue[key] = placeholder
+      this.byPlaceholder[placeholder] = { placeholder, kind, value }
+    }
+    return this.byValue[key]
+  }
+
+  redact(text: string): string {
+    let redacted = text.replace(EMAIL_PATTERN, email => this.placeholderFor('EMAIL', email))
+    const idPattern = this.idPattern
+    if (idPattern) {
+      redacted = outsidePlaceholders(redacted, part => part.replace(idPattern, id => this.placeholderFor('EMPLOYEE_ID', id)))
+    }
+    this.candidates.forEach(candidate => {
+      redacted = outsidePlaceholders(redacted, part => replaceWhole(part, candidate.value, candidate.ignoreCase, match => this.placeholderFor(candidate.kind, match)))
+    })
+    return redacted
+  }
+
+  // json: the reply is JSON and placeholders sit inside its strings, so values are escaped
+  restore(text: string, json = false): string {
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => {
+      const entry = this.byPlaceholder[placeholder]
+      if (!entry) return placeholder
+      return json ? JSON.stringify(entry.value).slice(1, -1) : entry.value
+    })
+  }
+
+  // Restores a streamed reply chunk by chunk, holding back a placeholder cut off at the end of a chunk
+  restoreStream(onToken: (token: string) => void, json = false): { push: (token: string) => void; flush: () => void } {
+    let pending = ''
+    return {
+      push: token => {
+        pending += token
+        const open = pending.lastIndexOf('[')
+        const cut = open !== -1 && pending.indexOf(']', open) === -1 && pending.length - open < MAX_PLACEHOLDER_LENGTH ? open : pending.length
+        if (cut > 0) {
+          onToken(this.restore(pending.slice(0, cut), json))
+          pending = pending.slice(cut)
+        }
+      },
+      flush: () => {
+        if (pending) {
+          onToken(this.restore(pending, json))
+          pending = ''
+        }
+      }
+    }
+  }
+
+  placeholdersIn(texts: string[]): RedactionPlaceholder[] {
+    const found: string[] = []
+    texts.forEach(text => {
+      (text.match(PLACEHOLDER_PATTERN) || []).forEach(placeholder => {
+        if (this.byPlaceholder[placeholder] && found.indexOf(placeholder) === -1) found.push(placeholder)
+      })
+    })
+    return found.map(placeholder => this.byPlaceholder[placeholder])
+  }
+}
+
+// Capitalized parts of a name, so "Ana" is hidden too when comments use the first name only
+function nameParts(name: string): string[] {
+  return name.split(/\s+/)
+    .map(part => part.replace(/[.,]+$/, ''))
+    .filter(part => part.length >= 2 && part.charAt(0) !== part.charAt(0).toLowerCase())
+}
+
+function configuredIdPattern(): RegExp | undefined {
+  const source = process.env.PII_REDACTION_ID_PATTERN
+  if (!source) return undefined
+  try {
+    return new RegExp(source, 'g')
+  } catch (error) {
+    // Failing the request is safer than sending IDs the pattern was meant to catch
+    throw new Error(`PII_REDACTION_ID_PATTERN is not a valid regular expression: ${source}`)
+  }
+}
+
+// What to hide in the requests about one review: the names of the employee and the reviewers
+// (in full and each part), the employee ID, the configured terms and anything that looks like
+// an email address. Which providers actually get redacted requests is up to redactsProvider.
+export function redactionFor(data: Pick<AppraisalData, 'employeeName' | 'employeeId' | 'reviewerName'>, prior?: PriorReview): Redaction {
+  const names = [data.employeeName, data.reviewerName]
+    .concat(prior ? [prior.reference.reviewerName] : [])
+    .map(name => (name || '').trim())
+    .filter(Boolean)
+  const terms = (process.env.PII_REDACTION_TERMS || '').split(',').map(term => term.trim()).filter(Boolean)
+
+  const candidates: Candidate[] = []
+  const add = (kind: RedactionKind, value: string, ignoreCase: boolean) => {
+    if (!candidates.some(candidate => candidate.value === value)) {
+      candidates.push({ kind, value, ignoreCase })
+    }
+  }
+  names.forEach(name => add('NAME', name, false))
+  if (data.employeeId && data.employeeId.trim()) add('EMPLOYEE_ID', data.employeeId.trim(), false)
+  names.forEach(name => nameParts(name).forEach(part => add('NAME', part, false)))
+  terms.forEach(term => add('TERM', term, true))
+
+  return new Redaction(candidates, configuredIdPattern())
+}
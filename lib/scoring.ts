@@ -0,0 +1,52 @@
+import { AppraisalCategory, AppraisalRating } from '@/types/appraisal'
+
+export const MIN_SCORE = 0
+export const MAX_SCORE = 5
+
+// A category rated at or above STRENGTH_SCORE is a strength, below RISK_SCORE a risk. The mock
+// review is built from these and the consistency check holds generated reviews to them.
+export const STRENGTH_SCORE = 4.0
+export const RISK_SCORE = 3.0
+
+// Weighted average of the ratings. Ratings for categories that are not in the
+// template are ignored, as are their weights.
+export function calculateOverallScore(categories: AppraisalCategory[], ratings: AppraisalRating[]): number {
+  let totalWeightedScore = 0
+  let totalWeight = 0
+
+  ratings.forEach(rating => {
+    const category = categories.find(c => c.id === rating.categoryId)
+    if (category) {
+      totalWeightedScore += rating.score * category.weight
+      totalWeight += category.weight
+    }
+  })
+
+  return totalWeight > 0 ? totalWeightedScore / totalWeight : 0
+}
+
+export type PerformanceLevelKey = 'outstanding' | 'excellent' | 'good' | 'satisfactory' | 'needsImprovement' | 'poor'
+
+// Band for an overall score; lib/feedback-locales.ts labels it in the review's language
+export function performanceLevelKey(score: number): PerformanceLevelKey {
+  if (score >= 4.5) return 'outstanding'
+  if (score >= 4.0) return 'excellent'
+  if (score >= 3.5) return 'good'
+  if (score >= 3.0) return 'satisfactory'
+  if (score >= 2.0) return 'needsImprovement'
+  return 'poor'
+}
+
+const PERFORMANCE_LEVELS: Record<PerformanceLevelKey, string> = {
+  outstanding: 'Outstanding',
+  excellent: 'Excellent',
+  good: 'Good',
+  satisfactory: 'Satisfactory',
+  needsImprovement: 'Needs Improvement',
+  poor: 'Poor'
+}
+
+// Label shown next to the overall score and printed in exported documents
+export function performanceLevel(score: number): string {
+  return PERFORMANCE_LEVELS[performanceLevelKey(score)]
+}
@@ -0,0 +1,110 @@
+import { randomBytes } from 'crypto'
+import { EmployeeSelfAssessment, SelfAssessmentForm, SelfAssessmentLink, SelfAssessmentLinkStatus, StoredAppraisal } from '@/types/appraisal'
+import { readCollection, updateCollection } from '@/lib/json-store'
+import { attachEmployeeSubmission, getAppraisal } from '@/lib/appraisal-store'
+import { isLocked, statusOf } from '@/lib/appraisal-workflow'
+
+// Expiring links that let an employee fill in their own self-assessment. The token is the
+// only credential, so it is long and random; the form built from it carries the category
+// names and descriptions but never the manager's ratings, comments or feedback.
+
+const COLLECTION = 'self-assessment-links'
+
+export const DEFAULT_LINK_DAYS = 14
+export const MAX_LINK_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type SubmitSelfAssessmentResult =
+  | { status: 'submitted'; form: SelfAssessmentForm }
+  | { status: 'not-found' }
+  | { status: 'expired' }
+  | { status: 'already-submitted' }
+  | { status: 'locked' }
+
+export function linkStatus(link: SelfAssessmentLink, now = Date.now()): SelfAssessmentLinkStatus {
+  if (link.submittedAt) return 'submitted'
+  return Date.parse(link.expiresAt) <= now ? 'expired' : 'open'
+}
+
+export async function getLink(token: string): Promise<SelfAssessmentLink | null> {
+  const links = await readCollection<SelfAssessmentLink>(COLLECTION)
+  return links.find(link => link.token === token) || null
+}
+
+export async function latestLink(appraisalId: string): Promise<SelfAssessmentLink | null> {
+  const links = await readCollection<SelfAssessmentLink>(COLLECTION)
+  return links
+    .filter(link => link.appraisalId === appraisalId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] || null
+}
+
+// A new link replaces the appraisal's unsubmitted ones, so only the last link handed out works
+export function createLink(appraisalId: string, days = DEFAULT_LINK_DAYS): Promise<SelfAssessmentLink> {
+  return updateCollection<SelfAssessmentLink, SelfAssessmentLink>(COLLECTION, links => {
+    const now = Date.now()
+    const link: SelfAssessmentLink = {
+      token: randomBytes(24).toString('hex'),
+      appraisalId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + days * DAY_MS).toISOString()
+    }
+    const kept = links.filter(existing => existing.appraisalId !== appraisalId || !!existing.submittedAt)
+    return { items: [...kept, link], result: link }
+  })
+}
+
+function formStatus(link: SelfAssessmentLink, appraisal: StoredAppraisal): SelfAssessmentLinkStatus {
+  if (appraisal.employeeSubmission) return 'submitted'
+  if (isLocked(statusOf(appraisal))) return 'closed'
+  return linkStatus(link)
+}
+
+export function toForm(link: SelfAssessmentLink, appraisal: StoredAppraisal): SelfAssessmentForm {
+  return {
+    employeeName: appraisal.employeeName,
+    reviewPeriod: appraisal.reviewPeriod,
+    templateName: appraisal.template.name,
+    categories: appraisal.template.categories.map(category => ({
+      id: category.id,
+      name: category.name,
+      description: category.description
+    })),
+    status: formStatus(link, appraisal),
+    expiresAt: link.expiresAt,
+    ...(appraisal.employeeSubmission ? { submission: appraisal.employeeSubmission } : {})
+  }
+}
+
+// The appraisal is written first: it refuses a second submission, which makes it the lock even
+// when two submits race on the same link
+export async function submitSelfAssessment(token: string, answers: EmployeeSelfAssessment): Promise<SubmitSelfAssessmentResult> {
+  const link = await getLink(token)
+  if (!link) return { status: 'not-found' }
+
+  const status = linkStatus(link)
+  if (status === 'submitted') return { status: 'already-submitted' }
+  if (status === 'expired') return { status: 'expired' }
+
+  const submittedAt = new Date().toISOString()
+  const attached = await attachEmployeeSubmission(link.appraisalId, {
+    selfAssessment: answers.selfAssessment,
+    ratings: answers.ratings || [],
+    submittedAt
+  })
+  if (attached.status === 'locked') return { status: 'locked' }
+  if (attached.status !== 'attached') return attached
+
+  const submitted = await updateCollection<SelfAssessmentLink, SelfAssessmentLink>(COLLECTION, links => {
+    const updated = { ...link, submittedAt }
+    return { items: links.map(existing => existing.token === token ? updated : existing), result: updated }
+  })
+  return { status: 'submitted', form: toForm(submitted, attached.appraisal) }
+}
+
+export async function getForm(token: string): Promise<SelfAssessmentForm | null> {
+  const link = await getLink(token)
+  if (!link) return null
+  const appraisal = await getAppraisal(link.appraisalId)
+  return appraisal ? toForm(link, appraisal) : null
+}
@@ -0,0 +1,46 @@
+import { AppraisalData, EmployeeSelfRating } from '@/types/appraisal'
+
+// Manager-versus-self comparison of per-category ratings, shared by the gap table on the
+// page and the prompt, which asks the model to address the largest gaps.
+
+export const DEFAULT_GAP_THRESHOLD = 1.0
+
+export interface SelfRatingGap {
+  categoryId: string;
+  categoryName: string;
+  managerScore: number;
+  selfScore: number;
+  selfComments: string;
+  gap: number; // selfScore - managerScore; positive when the employee rates themselves higher
+  exceeds: boolean; // |gap| is above the appraisal's threshold
+}
+
+export function gapThresholdOf(data: Pick<AppraisalData, 'gapThreshold'>): number {
+  return data.gapThreshold === undefined ? DEFAULT_GAP_THRESHOLD : data.gapThreshold
+}
+
+// Categories both sides rated, largest difference first
+export function selfRatingGaps(data: Pick<AppraisalData, 'template' | 'ratings' | 'selfAssessment' | 'gapThreshold'>): SelfRatingGap[] {
+  const selfRatings = (data.selfAssessment || []).reduce((all, entry) => all.concat(entry.ratings || []), [] as EmployeeSelfRating[])
+  const threshold = gapThresholdOf(data)
+
+  const gaps: SelfRatingGap[] = []
+  data.template.categories.forEach(category => {
+    const manager = data.ratings.find(r => r.categoryId === category.id)
+    const self = selfRatings.filter(r => r.categoryId === category.id)[0]
+    if (!manager || !self) return
+    const gap = self.score - manager.score
+    gaps.push({
+      categoryId: category.id,
+      categoryName: category.name,
+      managerScore: manager.score,
+      selfScore: self.score,
+      selfComments: self.comments,
+      gap,
+      // Rounded so a 1.0 threshold does not flag 4.1 vs 3.1 through float error
+      exceeds: Math.round(Math.abs(gap) * 100) / 100 > threshold
+    })
+  })
+
+  return gaps.sort((a, b) => Math.abs(b.gap) - Math.abs(a.gap))
+}
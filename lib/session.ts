@@ -0,0 +1,72 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+// Signed, expiring cookie values: base64url(JSON payload) + "." + HMAC-SHA256 with AUTH_SECRET.
+// Nothing secret goes in them; the signature only stops the browser from changing them.
+
+export const SESSION_COOKIE = 'appraisal_session'
+export const SESSION_TTL_SECONDS = 8 * 60 * 60
+
+// Without AUTH_SECRET every server start signs with a new key, which signs everybody out.
+// Shared through globalThis because each route is bundled separately.
+const globalSecret = globalThis as unknown as { authSecret?: string }
+
+function secret(): string {
+  if (process.env.AUTH_SECRET) {
+    return process.env.AUTH_SECRET
+  }
+  if (!globalSecret.authSecret) {
+    console.warn('AUTH_SECRET is not set; using a random key, so sessions end when the server restarts')
+    globalSecret.authSecret = randomBytes(32).toString('hex')
+  }
+  return globalSecret.authSecret
+}
+
+function base64url(value: Buffer): string {
+  return value.toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_')
+}
+
+function signature(body: string): Buffer {
+  return createHmac('sha256', secret()).update(body).digest()
+}
+
+export function seal(payload: object, ttlSeconds: number): string {
+  const body = base64url(Buffer.from(JSON.stringify({ ...payload, exp: Math.floor(Date.now() / 1000) + ttlSeconds })))
+  return `${body}.${base64url(signature(body))}`
+}
+
+// null when the value was tampered with, is malformed or has expired
+export function unseal<T>(value: string | undefined): T | null {
+  if (!value) return null
+  const [body, mac] = value.split('.')
+  if (!body || !mac) return null
+
+  const expected = signature(body)
+  const actual = Buffer.from(mac.replace(/-/g, '+').replace(/_/g, '/'), 'base64')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null
+
+  try {
+    const payload = JSON.parse(Buffer.from(body.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8'))
+    return typeof payload.exp === 'number' && payload.exp > Date.now() / 1000 ? payload as T : null
+  } catch (error) {
+    return null
+  }
+}
+
+export interface Session {
+  userId: string;
+  method: 'local' | 'oidc';
+}
+
+export function createSession(session: Session): string {
+  return seal(session, SESSION_TTL_SECONDS)
+}
+
+export function cookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge
+  }
+}
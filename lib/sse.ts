@@ -0,0 +1,78 @@
+/**
+ * Stream helpers - server-sent events and NDJSON
+ * Shared by the LLM client (provider streams) and the page (our own routes)
+ */
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+export async function readLines(body: ReadableStream<Uint8Array>, onLine: (line: string) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        onLine(buffer.slice(0, newline).replace(/\r$/, ""));
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf("\n");
+      }
+    }
+  } catch (error) {
+    // Release the upstream connection when a line handler (or the read) fails
+    reader.cancel().catch(() => undefined);
+    throw error;
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    onLine(buffer.replace(/\r$/, ""));
+  }
+}
+
+export async function readSSE(body: ReadableStream<Uint8Array>, onEvent: (event: SSEEvent) => void): Promise<void> {
+  let eventName = "message";
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName, data: dataLines.join("\n") });
+    }
+    eventName = "message";
+    dataLines = [];
+  };
+
+  await readLines(body, line => {
+    if (line === "") {
+      dispatch();
+    } else if (line.startsWith(":")) {
+      // Comment / keep-alive line
+    } else if (line.startsWith("event:")) {
+      eventName = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).replace(/^ /, ""));
+    }
+  });
+
+  dispatch();
+}
+
+export async function readNDJSON(body: ReadableStream<Uint8Array>, onValue: (value: unknown) => void): Promise<void> {
+  await readLines(body, line => {
+    if (line.trim()) {
+      onValue(JSON.parse(line));
+    }
+  });
+}
+
+export function encodeSSE(event: string, payload: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`;
+}
@@ -0,0 +1,122 @@
+import { randomUUID } from 'crypto'
+import { AppraisalTemplate, TemplateRecord } from '@/types/appraisal'
+import { readCollection, updateCollection } from '@/lib/json-store'
+import { builtInTemplates } from '@/lib/default-templates'
+
+// Every version of every template is kept as its own record. Saving a template
+// appends a new version; existing versions are never modified, so appraisals
+// written against an older version can still be reproduced.
+
+const COLLECTION = 'templates'
+
+export type TemplateInput = Pick<AppraisalTemplate, 'name' | 'description' | 'categories' | 'promptTemplateId'>
+
+function seedRecords(): TemplateRecord[] {
+  const now = new Date().toISOString()
+  return builtInTemplates.map(template => ({ ...template, version: 1, createdAt: now }))
+}
+
+async function allRecords(): Promise<TemplateRecord[]> {
+  const records = await readCollection<TemplateRecord>(COLLECTION)
+  if (records.length > 0) {
+    return records
+  }
+
+  return updateCollection<TemplateRecord, TemplateRecord[]>(COLLECTION, current => {
+    const items = current.length > 0 ? current : seedRecords()
+    return { items, result: items }
+  })
+}
+
+function latestOf(records: TemplateRecord[], id: string): TemplateRecord | null {
+  return records
+    .filter(r => r.id === id)
+    .reduce<TemplateRecord | null>((latest, r) => !latest || r.version > latest.version ? r : latest, null)
+}
+
+// The latest version of each template
+export async function listTemplates(): Promise<TemplateRecord[]> {
+  const records = await allRecords()
+  const ids = records.map(r => r.id).filter((id, index, all) => all.indexOf(id) === index)
+  return ids
+    .map(id => latestOf(records, id) as TemplateRecord)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function listTemplateVersions(id: string): Promise<TemplateRecord[]> {
+  const records = await allRecords()
+  return records.filter(r => r.id === id).sort((a, b) => b.version - a.version)
+}
+
+export async function getTemplate(id: string, version?: number): Promise<TemplateRecord | null> {
+  const records = await allRecords()
+  if (version === undefined) {
+    return latestOf(records, id)
+  }
+  return records.find(r => r.id === id && r.version === version) || null
+}
+
+export async function createTemplate(input: TemplateInput): Promise<TemplateRecord> {
+  await allRecords()
+  const record: TemplateRecord = {
+    id: randomUUID(),
+    name: input.name,
+    description: input.description,
+    categories: input.categories,
+    promptTemplateId: input.promptTemplateId || undefined,
+    version: 1,
+    createdAt: new Date().toISOString()
+  }
+
+  return updateCollection<TemplateRecord, TemplateRecord>(COLLECTION, records => ({
+    items: [...records, record],
+    result: record
+  }))
+}
+
+// Save changes to a template as its next version
+export async function saveTemplateVersion(id: string, input: TemplateInput): Promise<TemplateRecord | null> {
+  await allRecords()
+  return updateCollection<TemplateRecord, TemplateRecord | null>(COLLECTION, records => {
+    const latest = latestOf(records, id)
+    if (!latest) {
+      return { items: records, result: null }
+    }
+
+    const record: TemplateRecord = {
+      id,
+      name: input.name,
+      description: input.description,
+      categories: input.categories,
+      promptTemplateId: input.promptTemplateId || undefined,
+      version: latest.version + 1,
+      createdAt: new Date().toISOString(),
+      clonedFrom: latest.clonedFrom
+    }
+    return { items: [...records, record], result: record }
+  })
+}
+
+// Copy a template (optionally a specific version) into a new, independent template
+export async function cloneTemplate(id: string, options: { name?: string; version?: number } = {}): Promise<TemplateRecord | null> {
+  const source = await getTemplate(id, options.version)
+  if (!source) {
+    return null
+  }
+
+  const record: TemplateRecord = {
+    id: randomUUID(),
+    name: options.name || `${source.name} (copy)`,
+    description: source.description,
+    categories: source.categories.map(category => ({ ...category })),
+    promptTemplateId: source.promptTemplateId,
+    version: 1,
+    createdAt: new Date().toISOString(),
+    clonedFrom: { id: source.id, version: source.version }
+  }
+
+  return updateCollection<TemplateRecord, TemplateRecord>(COLLECTION, records => ({
+    items: [...records, record],
+    result: record
+  }))
+}
@@ -0,0 +1,67 @@
+// Word-level diff between two versions of a text, for showing what a revision changed
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+// Above this many LCS cells the diff falls back to whole lines to stay fast
+const MAX_WORD_CELLS = 2000000
+
+function tokenize(text: string, byLine: boolean): string[] {
+  return (byLine ? text.split(/(\n)/) : text.split(/(\s+)/)).filter(token => token.length > 0)
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    parts.push({ type, text })
+  }
+}
+
+export function diffText(before: string, after: string): DiffPart[] {
+  let a = tokenize(before, false)
+  let b = tokenize(after, false)
+  if (a.length * b.length > MAX_WORD_CELLS) {
+    a = tokenize(before, true)
+    b = tokenize(after, true)
+  }
+
+  // lengths[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lengths: number[][] = []
+  for (let i = a.length; i >= 0; i--) {
+    lengths[i] = []
+    for (let j = b.length; j >= 0; j--) {
+      if (i === a.length || j === b.length) {
+        lengths[i][j] = 0
+      } else if (a[i] === b[j]) {
+        lengths[i][j] = lengths[i + 1][j + 1] + 1
+      } else {
+        lengths[i][j] = Math.max(lengths[i + 1][j], lengths[i][j + 1])
+      }
+    }
+  }
+
+  const parts: DiffPart[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'equal', a[i])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushPart(parts, 'removed', a[i])
+      i++
+    } else {
+      pushPart(parts, 'added', b[j])
+      j++
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++])
+  while (j < b.length) pushPart(parts, 'added', b[j++])
+
+  return parts
+}
@@ -0,0 +1,175 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto'
+import { UserAccount, UserAccountInput } from '@/types/appraisal'
+import { readCollection, updateCollection } from '@/lib/json-store'
+
+// The local credential store and reporting directory. Passwords are kept as scrypt hashes
+// ("scrypt:<salt>:<hash>", hex); scripts/add-user.js writes the same format.
+
+const COLLECTION = 'users'
+const KEY_LENGTH = 64
+
+// AUTH_LOCAL_LOGIN=false leaves single sign-on as the only way in
+export function localLoginEnabled(): boolean {
+  return process.env.AUTH_LOCAL_LOGIN !== 'false'
+}
+
+interface StoredUser extends Omit<UserAccount, 'hasPassword'> {
+  passwordHash?: string;
+}
+
+export type SaveUserResult =
+  | { status: 'saved'; user: UserAccount }
+  | { status: 'not-found' }
+  | { status: 'conflict'; field: 'username' | 'employeeId'; error: string }
+
+function derive(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => error ? reject(error) : resolve(key))
+  })
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  return `scrypt:${salt.toString('hex')}:${(await derive(password, salt)).toString('hex')}`
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(':')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await derive(password, Buffer.from(salt, 'hex'))
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+// Hashed when the username is unknown too, so a failed login takes as long either way
+const DUMMY_HASH = `scrypt:${'0'.repeat(32)}:${'0'.repeat(KEY_LENGTH * 2)}`
+
+function toAccount(user: StoredUser): UserAccount {
+  const { passwordHash, ...account } = user
+  return { ...account, hasPassword: !!passwordHash }
+}
+
+function sameText(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+export async function listUsers(): Promise<UserAccount[]> {
+  const users = await readCollection<StoredUser>(COLLECTION)
+  return users.map(toAccount).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function getUser(id: string): Promise<UserAccount | null> {
+  const users = await readCollection<StoredUser>(COLLECTION)
+  const user = users.find(u => u.id === id)
+  return user ? toAccount(user) : null
+}
+
+// Usernames are case-insensitive
+export async function authenticateLocal(username: string, password: string): Promise<UserAccount | null> {
+  const users = await readCollection<StoredUser>(COLLECTION)
+  const user = users.find(u => sameText(u.username, username))
+  const valid = await verifyPassword(password, user?.passwordHash || DUMMY_HASH)
+  return user && user.passwordHash && valid ? toAccount(user) : null
+}
+
+// An OIDC identity maps to the account already linked to its subject, otherwise to the account
+// with the same email, which is linked from then on. Nobody gets an account by signing in.
+export function findOidcUser(subject: string, email?: string): Promise<UserAccount | null> {
+  return updateCollection<StoredUser, UserAccount | null>(COLLECTION, users => {
+    const linked = users.find(u => u.oidcSubject === subject)
+    if (linked) {
+      return { items: users, result: toAccount(linked) }
+    }
+
+    const byEmail = users.find(u => !u.oidcSubject && sameText(u.email, email))
+    if (!byEmail) {
+      return { items: users, result: null }
+    }
+
+    const user: StoredUser = { ...byEmail, oidcSubject: subject, updatedAt: new Date().toISOString() }
+    return { items: users.map(u => u.id === user.id ? user : u), result: toAccount(user) }
+  })
+}
+
+// Usernames are unique, and so is the employeeId an account is linked to
+function clash(users: StoredUser[], input: UserAccountInput, id?: string): SaveUserResult | null {
+  if (users.some(u => u.id !== id && sameText(u.username, input.username))) {
+    return { status: 'conflict', field: 'username', error: `The username ${input.username} is taken` }
+  }
+  if (input.employeeId && users.some(u => u.id !== id && u.employeeId === input.employeeId)) {
+    return { status: 'conflict', field: 'employeeId', error: `Another account is already linked to ${input.employeeId}` }
+  }
+  return null
+}
+
+function fields(input: UserAccountInput) {
+  return {
+    username: input.username.trim(),
+    name: input.name.trim(),
+    ...(input.email ? { email: input.email.trim() } : {}),
+    role: input.role,
+    ...(input.employeeId ? { employeeId: input.employeeId } : {}),
+    reports: input.reports
+  }
+}
+
+export async function createUser(input: UserAccountInput): Promise<SaveUserResult> {
+  const passwordHash = input.password ? await hashPassword(input.password) : undefined
+  return updateCollection<StoredUser, SaveUserResult>(COLLECTION, users => {
+    const conflict = clash(users, input)
+    if (conflict) {
+      return { items: users, result: conflict }
+    }
+
+    const now = new Date().toISOString()
+    const user: StoredUser = { id: randomUUID(), ...fields(input), ...(passwordHash ? { passwordHash } : {}), createdAt: now, updatedAt: now }
+    return { items: [...users, user], result: { status: 'saved', user: toAccount(user) } }
+  })
+}
+
+// The password and the OIDC link are kept unless a new password is given
+export async function updateUser(id: string, input: UserAccountInput): Promise<SaveUserResult> {
+  const passwordHash = input.password ? await hashPassword(input.password) : undefined
+  return updateCollection<StoredUser, SaveUserResult>(COLLECTION, users => {
+    const current = users.find(u => u.id === id)
+    if (!current) {
+      return { items: users, result: { status: 'not-found' } }
+    }
+
+    const conflict = clash(users, input, id)
+    if (conflict) {
+      return { items: users, result: conflict }
+    }
+
+    const user: StoredUser = {
+      id,
+      ...fields(input),
+      ...(current.oidcSubject ? { oidcSubject: current.oidcSubject } : {}),
+      ...(passwordHash || current.passwordHash ? { passwordHash: passwordHash || current.passwordHash } : {}),
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString()
+    }
+    return { items: users.map(u => u.id === id ? user : u), result: { status: 'saved', user: toAccount(user) } }
+  })
+}
+
+export function deleteUser(id: string): Promise<boolean> {
+  return updateCollection<StoredUser, boolean>(COLLECTION, users => {
+    const remaining = users.filter(u => u.id !== id)
+    return { items: remaining, result: remaining.length !== users.length }
+  })
+}
+
+// Everyone below the user: their direct reports, the reports of any of those who are
+// managers with an account, and so on down
+export function reportingLine(user: UserAccount, users: UserAccount[]): string[] {
+  const line: string[] = []
+  const queue = user.reports.slice()
+  while (queue.length > 0) {
+    const employeeId = queue.shift() as string
+    if (line.indexOf(employeeId) !== -1 || employeeId === user.employeeId) continue
+    line.push(employeeId)
+    users.filter(u => u.employeeId === employeeId).forEach(u => queue.push(...u.reports))
+  }
+  return line
+}
@@ -0,0 +1,600 @@
+import { AppraisalCategory, AppraisalData, AppraisalRating, AppraisalTemplate, CalibrationAdjustmentRequest, EmployeeSelfAssessment, EmployeeSelfRating, FeedbackRevision, FeedbackRevisionKind, PromptSection, PromptTemplate, RefinementMessage, StatusChangeRequest, UserAccountInput, ValidationIssue } from '@/types/appraisal'
+import { MAX_SCORE, MIN_SCORE, calculateOverallScore } from '@/lib/scoring'
+import { FEEDBACK_SECTIONS } from '@/lib/feedback-sections'
+import { LENGTH_PRESETS, TONE_PRESETS, unknownPromptVariables } from '@/lib/prompt-templates'
+import { DEFAULT_LANGUAGE, FEEDBACK_LANGUAGES, isFeedbackLanguage } from '@/lib/feedback-locales'
+import { APPRAISAL_ROLES, APPRAISAL_STATUSES, isAppraisalRole, isAppraisalStatus } from '@/lib/appraisal-workflow'
+import { TemplateInput } from '@/lib/template-store'
+
+// Server-side checks for AppraisalData payloads. Every problem is reported with
+// the path of the offending field (e.g. "ratings[2].score") so the client can
+// point at it. The returned value is normalized and carries a recomputed
+// overallScore - the client-sent score is never trusted.
+
+export const EMPLOYEE_GENDERS: AppraisalData['employeeGender'][] = ['male', 'female', 'other', 'prefer-not-to-say']
+
+// 'generate' needs everything the prompt uses; 'draft' (autosave) only needs the storage key
+export type ValidationMode = 'generate' | 'draft'
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: ValidationIssue[] }
+
+type Input = Record<string, unknown>
+
+function isObject(value: unknown): value is Input {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value)
+}
+
+function checkString(errors: ValidationIssue[], value: unknown, path: string, required: boolean): string {
+  if (value === undefined || value === null) {
+    if (required) errors.push({ path, message: 'is required' })
+    return ''
+  }
+  if (typeof value !== 'string') {
+    errors.push({ path, message: 'must be a string' })
+    return ''
+  }
+  if (required && !value.trim()) {
+    errors.push({ path, message: 'must not be empty' })
+  }
+  return value
+}
+
+function checkBoolean(errors: ValidationIssue[], value: unknown, path: string): boolean | undefined {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+  if (typeof value !== 'boolean') {
+    errors.push({ path, message: 'must be true or false' })
+    return undefined
+  }
+  return value
+}
+
+function validateCategory(errors: ValidationIssue[], input: unknown, path: string): AppraisalCategory {
+  if (!isObject(input)) {
+    errors.push({ path, message: 'must be an object' })
+    return { id: '', name: '', description: '', weight: 0 }
+  }
+
+  const weight = input.weight
+  if (!isFiniteNumber(weight)) {
+    errors.push({ path: `${path}.weight`, message: 'must be a number' })
+  } else if (weight < 0) {
+    errors.push({ path: `${path}.weight`, message: 'must not be negative' })
+  }
+
+  return {
+    id: checkString(errors, input.id, `${path}.id`, true),
+    name: checkString(errors, input.name, `${path}.name`, true),
+    description: checkString(errors, input.description, `${path}.description`, false),
+    weight: isFiniteNumber(weight) ? weight : 0
+  }
+}
+
+// path is the prefix of the reported paths: 'template.' inside AppraisalData, '' for a template body
+function validateCategories(errors: ValidationIssue[], input: unknown, path: string): AppraisalCategory[] {
+  const categories: AppraisalCategory[] = []
+  if (!Array.isArray(input)) {
+    errors.push({ path: `${path}categories`, message: 'must be an array' })
+  } else if (input.length === 0) {
+    errors.push({ path: `${path}categories`, message: 'must contain at least one category' })
+  } else {
+    input.forEach((category, index) => {
+      const categoryPath = `${path}categories[${index}]`
+      const validated = validateCategory(errors, category, categoryPath)
+      if (validated.id && categories.some(c => c.id === validated.id)) {
+        errors.push({ path: `${categoryPath}.id`, message: `duplicate category id "${validated.id}"` })
+      }
+      categories.push(validated)
+    })
+
+    if (categories.length > 0 && categories.reduce((sum, c) => sum + c.weight, 0) <= 0) {
+      errors.push({ path: `${path}categories`, message: 'weights must add up to more than 0' })
+    }
+  }
+  return categories
+}
+
+function validateTemplate(errors: ValidationIssue[], input: unknown, path: string): AppraisalTemplate {
+  if (!isObject(input)) {
+    errors.push({ path, message: 'must be an object' })
+    return { id: '', name: '', description: '', categories: [] }
+  }
+
+  const template: AppraisalTemplate = {
+    id: checkString(errors, input.id, `${path}.id`, true),
+    name: checkString(errors, input.name, `${path}.name`, true),
+    description: checkString(errors, input.description, `${path}.description`, false),
+    categories: validateCategories(errors, input.categories, `${path}.`)
+  }
+
+  if (input.version !== undefined) {
+    if (!isFiniteNumber(input.version) || input.version < 1 || Math.floor(input.version) !== input.version) {
+      errors.push({ path: `${path}.version`, message: 'must be a positive integer' })
+    } else {
+      template.version = input.version
+    }
+  }
+  if (input.promptTemplateId !== undefined && input.promptTemplateId !== '') {
+    template.promptTemplateId = checkString(errors, input.promptTemplateId, `${path}.promptTemplateId`, false)
+  }
+
+  return template
+}
+
+function validateRatings(errors: ValidationIssue[], input: unknown, categories: AppraisalCategory[], mode: ValidationMode): AppraisalRating[] {
+  if (!Array.isArray(input)) {
+    errors.push({ path: 'ratings', message: 'must be an array' })
+    return []
+  }
+
+  const ratings: AppraisalRating[] = []
+  input.forEach((rating, index) => {
+    const path = `ratings[${index}]`
+    if (!isObject(rating)) {
+      errors.push({ path, message: 'must be an object' })
+      return
+    }
+
+    const categoryId = checkString(errors, rating.categoryId, `${path}.categoryId`, true)
+    if (categoryId && categories.length > 0 && !categories.some(c => c.id === categoryId)) {
+      errors.push({ path: `${path}.categoryId`, message: `unknown category "${categoryId}"` })
+    } else if (categoryId && ratings.some(r => r.categoryId === categoryId)) {
+      errors.push({ path: `${path}.categoryId`, message: `category "${categoryId}" is rated more than once` })
+    }
+
+    const score = rating.score
+    if (!isFiniteNumber(score)) {
+      errors.push({ path: `${path}.score`, message: 'must be a number' })
+    } else if (score < MIN_SCORE || score > MAX_SCORE) {
+      errors.push({ path: `${path}.score`, message: `must be between ${MIN_SCORE} and ${MAX_SCORE}` })
+    }
+
+    ratings.push({
+      categoryId,
+      score: isFiniteNumber(score) ? score : 0,
+      comments: checkString(errors, rating.comments, `${path}.comments`, false)
+    })
+  })
+
+  if (mode === 'generate') {
+    categories.forEach(category => {
+      if (category.id && !ratings.some(r => r.categoryId === category.id)) {
+        errors.push({ path: 'ratings', message: `missing rating for category "${category.id}"` })
+      }
+    })
+  }
+
+  return ratings
+}
+
+// Self-ratings are optional per category, so unlike validateRatings a missing category is fine
+function validateSelfRatings(errors: ValidationIssue[], input: unknown, categories: Pick<AppraisalCategory, 'id'>[], path: string): EmployeeSelfRating[] | undefined {
+  if (input === undefined || input === null) {
+    return undefined
+  }
+  if (!Array.isArray(input)) {
+    errors.push({ path, message: 'must be an array' })
+    return undefined
+  }
+
+  const ratings: EmployeeSelfRating[] = []
+  input.forEach((rating, index) => {
+    const itemPath = `${path}[${index}]`
+    if (!isObject(rating)) {
+      errors.push({ path: itemPath, message: 'must be an object' })
+      return
+    }
+
+    const categoryId = checkString(errors, rating.categoryId, `${itemPath}.categoryId`, true)
+    if (categoryId && categories.length > 0 && !categories.some(c => c.id === categoryId)) {
+      errors.push({ path: `${itemPath}.categoryId`, message: `unknown category "${categoryId}"` })
+    } else if (categoryId && ratings.some(r => r.categoryId === categoryId)) {
+      errors.push({ path: `${itemPath}.categoryId`, message: `category "${categoryId}" is rated more than once` })
+    }
+
+    const score = rating.score
+    if (!isFiniteNumber(score)) {
+      errors.push({ path: `${itemPath}.score`, message: 'must be a number' })
+    } else if (score < MIN_SCORE || score > MAX_SCORE) {
+      errors.push({ path: `${itemPath}.score`, message: `must be between ${MIN_SCORE} and ${MAX_SCORE}` })
+    }
+
+    ratings.push({
+      categoryId,
+      score: isFiniteNumber(score) ? score : 0,
+      comments: checkString(errors, rating.comments, `${itemPath}.comments`, false)
+    })
+  })
+  return ratings
+}
+
+// A plain string is still accepted for older clients and bulk files and becomes one entry
+function validateSelfAssessment(errors: ValidationIssue[], input: unknown, categories: AppraisalCategory[]): EmployeeSelfAssessment[] | undefined {
+  if (input === undefined || input === null) {
+    return undefined
+  }
+  if (typeof input === 'string') {
+    return input.trim() ? [{ selfAssessment: input }] : undefined
+  }
+  if (!Array.isArray(input)) {
+    errors.push({ path: 'selfAssessment', message: 'must be an array' })
+    return undefined
+  }
+
+  return input.map((entry, index) => {
+    const path = `selfAssessment[${index}]`
+    if (!isObject(entry)) {
+      errors.push({ path, message: 'must be an object' })
+      return { selfAssessment: '' }
+    }
+    const ratings = validateSelfRatings(errors, entry.ratings, categories, `${path}.ratings`)
+    return {
+      selfAssessment: checkString(errors, entry.selfAssessment, `${path}.selfAssessment`, false),
+      ...(ratings ? { ratings } : {})
+    }
+  })
+}
+
+// Body of POST /api/self-assessment/[token]: the employee's text is required, self-ratings are optional
+export function validateSelfAssessmentSubmission(input: unknown, categories: Pick<AppraisalCategory, 'id'>[]): ValidationResult<EmployeeSelfAssessment> {
+  const errors: ValidationIssue[] = []
+  if (!isObject(input)) {
+    return { valid: false, errors: [{ path: '', message: 'request body must be a JSON object' }] }
+  }
+
+  const submission: EmployeeSelfAssessment = {
+    selfAssessment: checkString(errors, input.selfAssessment, 'selfAssessment', true),
+    ratings: validateSelfRatings(errors, input.ratings, categories, 'ratings') || []
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: submission }
+}
+
+function validateGapThreshold(errors: ValidationIssue[], input: unknown): number | undefined {
+  if (input === undefined || input === null) {
+    return undefined
+  }
+  if (!isFiniteNumber(input) || input < 0 || input > MAX_SCORE) {
+    errors.push({ path: 'gapThreshold', message: `must be a number between 0 and ${MAX_SCORE}` })
+    return undefined
+  }
+  return input
+}
+
+const REVISION_KINDS: FeedbackRevisionKind[] = ['generated', 'regenerated', 'edited', 'reverted', 'refined']
+
+function validateRevisions(errors: ValidationIssue[], input: unknown): FeedbackRevision[] | undefined {
+  if (input === undefined || input === null) {
+    return undefined
+  }
+  if (!Array.isArray(input)) {
+    errors.push({ path: 'feedbackRevisions', message: 'must be an array' })
+    return undefined
+  }
+
+  return input.map((entry, index) => {
+    const path = `feedbackRevisions[${index}]`
+    if (!isObject(entry)) {
+      errors.push({ path, message: 'must be an object' })
+      return { id: '', createdAt: '', kind: 'edited', feedback: '' }
+    }
+
+    if (REVISION_KINDS.indexOf(entry.kind as FeedbackRevisionKind) === -1) {
+      errors.push({ path: `${path}.kind`, message: `must be one of ${REVISION_KINDS.join(', ')}` })
+    }
+
+    const revision: FeedbackRevision = {
+      id: checkString(errors, entry.id, `${path}.id`, true),
+      createdAt: checkString(errors, entry.createdAt, `${path}.createdAt`, true),
+      kind: entry.kind as FeedbackRevisionKind,
+      feedback: checkString(errors, entry.feedback, `${path}.feedback`, false)
+    }
+    const optional: ('section' | 'instruction' | 'revertedTo' | 'provider' | 'model' | 'priorReview')[] = ['section', 'instruction', 'revertedTo', 'provider', 'model', 'priorReview']
+    optional.forEach(field => {
+      if (entry[field] !== undefined) revision[field] = checkString(errors, entry[field], `${path}.${field}`, false)
+    })
+    if (entry.source === 'llm' || entry.source === 'mock') {
+      revision.source = entry.source
+    }
+    if (isObject(entry.prompt) && typeof entry.prompt.id === 'string' && isFiniteNumber(entry.prompt.version)) {
+      revision.prompt = { id: entry.prompt.id, version: entry.prompt.version, name: String(entry.prompt.name || '') }
+    }
+    return revision
+  })
+}
+
+// Body of POST /api/templates and PUT /api/templates/:id; the id and version are the library's
+export function validateTemplateInput(input: unknown): ValidationResult<TemplateInput> {
+  const errors: ValidationIssue[] = []
+  if (!isObject(input)) {
+    return { valid: false, errors: [{ path: '', message: 'request body must be a JSON object' }] }
+  }
+
+  const template: TemplateInput = {
+    name: checkString(errors, input.name, 'name', true).trim(),
+    description: checkString(errors, input.description, 'description', false),
+    categories: validateCategories(errors, input.categories, '')
+  }
+  if (input.promptTemplateId !== undefined && input.promptTemplateId !== null && input.promptTemplateId !== '') {
+    template.promptTemplateId = checkString(errors, input.promptTemplateId, 'promptTemplateId', false)
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: template }
+}
+
+// Body of POST /api/templates/:id/clone; both fields are optional and so is the body
+export function validateTemplateClone(input: unknown): ValidationResult<{ name?: string; version?: number }> {
+  if (input === undefined) {
+    return { valid: true, value: {} }
+  }
+  if (!isObject(input)) {
+    return { valid: false, errors: [{ path: '', message: 'request body must be a JSON object' }] }
+  }
+
+  const errors: ValidationIssue[] = []
+  const options: { name?: string; version?: number } = {}
+  if (input.name !== undefined && input.name !== null && input.name !== '') {
+    options.name = checkString(errors, input.name, 'name', false)
+  }
+  if (input.version !== undefined && input.version !== null) {
+    if (!isFiniteNumber(input.version) || input.version < 1 || Math.floor(input.version) !== input.version) {
+      errors.push({ path: 'version', message: 'must be a positive integer' })
+    } else {
+      options.version = input.version
+    }
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: options }
+}
+
+// Body of POST/PUT /api/prompt-templates; the id comes from the URL or is generated
+export function validatePromptTemplateInput(input: unknown): ValidationResult<Omit<PromptTemplate, 'id'>> {
+  const errors: ValidationIssue[] = []
+  if (!isObject(input)) {
+    return { valid: false, errors: [{ path: '', message: 'request body must be a JSON object' }] }
+  }
+
+  if (!TONE_PRESETS.some(preset => preset.value === input.tone)) {
+    errors.push({ path: 'tone', message: `must be one of ${TONE_PRESETS.map(preset => preset.value).join(', ')}` })
+  }
+  if (!LENGTH_PRESETS.some(preset => preset.value === input.length)) {
+    errors.push({ path: 'length', message: `must be one of ${LENGTH_PRESETS.map(preset => preset.value).join(', ')}` })
+  }
+
+  const checkVariables = (text: string, path: string) => {
+    const unknown = unknownPromptVariables(text)
+    if (unknown.length > 0) {
+      errors.push({ path, message: `unknown variable${unknown.length > 1 ? 's' : ''} ${unknown.map(name => `{{${name}}}`).join(', ')}` })
+    }
+  }
+
+  const sections: PromptSection[] = []
+  if (!Array.isArray(input.sections) || input.sections.length === 0) {
+    errors.push({ path: 'sections', message: 'must contain at least one section' })
+  } else {
+    input.sections.forEach((section, index) => {
+      const path = `sections[${index}]`
+      if (!isObject(section)) {
+        errors.push({ path, message: 'must be an object' })
+        return
+      }
+      if (!FEEDBACK_SECTIONS.some(s => s.key === section.key)) {
+        errors.push({ path: `${path}.key`, message: `must be one of ${FEEDBACK_SECTIONS.map(s => s.key).join(', ')}` })
+      } else if (sections.some(s => s.key === section.key)) {
+        errors.push({ path: `${path}.key`, message: `duplicate section "${section.key}"` })
+      }
+      const guidance = checkString(errors, section.guidance, `${path}.guidance`, false)
+      checkVariables(guidance, `${path}.guidance`)
+      sections.push({ key: String(section.key), guidance })
+    })
+  }
+
+  const body = checkString(errors, input.body, 'body', true)
+  checkVariables(body, 'body')
+
+  const template = {
+    name: checkString(errors, input.name, 'name', true),
+    description: checkString(errors, input.description, 'description', false),
+    tone: input.tone as PromptTemplate['tone'],
+    length: input.length as PromptTemplate['length'],
+    sections,
+    body
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: template }
+}
+
+// Body of POST /api/appraisals/:id/status
+export function validateStatusChange(input: unknown): ValidationResult<StatusChangeRequest> {
+  const errors: ValidationIssue[] = []
+  if (!isObject(input)) {
+    return { valid: false, errors: [{ path: '', message: 'request body must be a JSON object' }] }
+  }
+
+  if (!isAppraisalStatus(input.to)) {
+    errors.push({ path: 'to', message: `must be one of ${APPRAISAL_STATUSES.map(s => s.value).join(', ')}` })
+  }
+  const change: StatusChangeRequest = {
+    to: input.to as StatusChangeRequest['to'],
+    note: checkString(errors, input.note, 'note', false)
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: change }
+}
+
+// Body of POST /api/calibration/adjustments
+export function validateCalibrationAdjustment(input: unknown): ValidationResult<CalibrationAdjustmentRequest> {
+  const errors: ValidationIssue[] = []
+  if (!isObject(input)) {
+    return { valid: false, errors: [{ path: '', message: 'request body must be a JSON object' }] }
+  }
+
+  const score = input.score
+  if (!isFiniteNumber(score)) {
+    errors.push({ path: 'score', message: 'must be a number' })
+  } else if (score < MIN_SCORE || score > MAX_SCORE) {
+    errors.push({ path: 'score', message: `must be between ${MIN_SCORE} and ${MAX_SCORE}` })
+  }
+
+  const adjustment: CalibrationAdjustmentRequest = {
+    appraisalId: checkString(errors, input.appraisalId, 'appraisalId', true),
+    categoryId: checkString(errors, input.categoryId, 'categoryId', true),
+    score: isFiniteNumber(score) ? score : 0,
+    reason: checkString(errors, input.reason, 'reason', true).trim()
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: adjustment }
+}
+
+const USERNAME_PATTERN = /^[A-Za-z0-9._@-]+$/
+const MIN_PASSWORD_LENGTH = 10
+
+// Body of POST/PUT /api/users. Reports are employeeIds; only managers may have them.
+export function validateUserAccount(input: unknown): ValidationResult<UserAccountInput> {
+  const errors: ValidationIssue[] = []
+  if (!isObject(input)) {
+    return { valid: false, errors: [{ path: '', message: 'request body must be a JSON object' }] }
+  }
+
+  const username = checkString(errors, input.username, 'username', true).trim()
+  if (username && !USERNAME_PATTERN.test(username)) {
+    errors.push({ path: 'username', message: 'may only contain letters, digits and . _ @ -' })
+  }
+
+  const email = checkString(errors, input.email, 'email', false).trim()
+  if (email && email.indexOf('@') === -1) {
+    errors.push({ path: 'email', message: 'must be an email address' })
+  }
+
+  if (!isAppraisalRole(input.role)) {
+    errors.push({ path: 'role', message: `must be one of ${APPRAISAL_ROLES.map(r => r.value).join(', ')}` })
+  }
+
+  let reports: string[] = []
+  if (input.reports !== undefined && input.reports !== null) {
+    if (!Array.isArray(input.reports) || !input.reports.every(report => typeof report === 'string')) {
+      errors.push({ path: 'reports', message: 'must be an array of employeeIds' })
+    } else {
+      reports = (input.reports as string[]).map(report => report.trim()).filter((report, index, all) => report && all.indexOf(report) === index)
+    }
+  }
+  if (reports.length > 0 && input.role !== 'manager') {
+    errors.push({ path: 'reports', message: 'only managers can have reports' })
+  }
+
+  const employeeId = checkString(errors, input.employeeId, 'employeeId', false).trim()
+  if (employeeId && reports.indexOf(employeeId) !== -1) {
+    errors.push({ path: 'reports', message: 'must not include the user\'s own employeeId' })
+  }
+
+  const password = checkString(errors, input.password, 'password', false)
+  if (password && password.length < MIN_PASSWORD_LENGTH) {
+    errors.push({ path: 'password', message: `must be at least ${MIN_PASSWORD_LENGTH} characters` })
+  }
+
+  const account: UserAccountInput = {
+    username,
+    name: checkString(errors, input.name, 'name', true).trim(),
+    ...(email ? { email } : {}),
+    role: input.role as UserAccountInput['role'],
+    ...(employeeId ? { employeeId } : {}),
+    reports,
+    ...(password ? { password } : {})
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: account }
+}
+
+export function validateRefinementMessages(errors: ValidationIssue[], input: unknown, path = 'refinementMessages'): RefinementMessage[] | undefined {
+  if (input === undefined || input === null) {
+    return undefined
+  }
+  if (!Array.isArray(input)) {
+    errors.push({ path, message: 'must be an array' })
+    return undefined
+  }
+
+  return input.map((entry, index) => {
+    const entryPath = `${path}[${index}]`
+    if (!isObject(entry)) {
+      errors.push({ path: entryPath, message: 'must be an object' })
+      return { role: 'user', content: '', createdAt: '' }
+    }
+
+    if (entry.role !== 'user' && entry.role !== 'assistant') {
+      errors.push({ path: `${entryPath}.role`, message: 'must be user or assistant' })
+    }
+
+    const message: RefinementMessage = {
+      role: entry.role === 'assistant' ? 'assistant' : 'user',
+      content: checkString(errors, entry.content, `${entryPath}.content`, true),
+      createdAt: checkString(errors, entry.createdAt, `${entryPath}.createdAt`, false)
+    }
+    if (entry.revisionId !== undefined) {
+      message.revisionId = checkString(errors, entry.revisionId, `${entryPath}.revisionId`, false)
+    }
+    return message
+  })
+}
+
+export function validateAppraisalData(input: unknown, mode: ValidationMode = 'generate'): ValidationResult<AppraisalData> {
+  const errors: ValidationIssue[] = []
+
+  if (!isObject(input)) {
+    return { valid: false, errors: [{ path: '', message: 'request body must be a JSON object' }] }
+  }
+
+  const complete = mode === 'generate'
+
+  const employeeGender = input.employeeGender === undefined ? 'prefer-not-to-say' : input.employeeGender
+  if (EMPLOYEE_GENDERS.indexOf(employeeGender as AppraisalData['employeeGender']) === -1) {
+    errors.push({ path: 'employeeGender', message: `must be one of ${EMPLOYEE_GENDERS.join(', ')}` })
+  }
+
+  const language = input.language === undefined ? DEFAULT_LANGUAGE : input.language
+  if (!isFeedbackLanguage(language)) {
+    errors.push({ path: 'language', message: `must be one of ${FEEDBACK_LANGUAGES.map(l => l.code).join(', ')}` })
+  }
+
+  const reviewDate = checkString(errors, input.reviewDate, 'reviewDate', false)
+  if (reviewDate && isNaN(Date.parse(reviewDate))) {
+    errors.push({ path: 'reviewDate', message: 'must be a valid date (YYYY-MM-DD)' })
+  }
+
+  const template = validateTemplate(errors, input.template, 'template')
+
+  const data: AppraisalData = {
+    employeeName: checkString(errors, input.employeeName, 'employeeName', complete),
+    employeeId: checkString(errors, input.employeeId, 'employeeId', true),
+    reviewerName: checkString(errors, input.reviewerName, 'reviewerName', complete),
+    reviewDate,
+    reviewPeriod: checkString(errors, input.reviewPeriod, 'reviewPeriod', !complete),
+    employeeGender: employeeGender as AppraisalData['employeeGender'],
+    language: language as AppraisalData['language'],
+    template,
+    ratings: validateRatings(errors, input.ratings, template.categories, mode),
+    selfAssessment: validateSelfAssessment(errors, input.selfAssessment, template.categories),
+    gapThreshold: validateGapThreshold(errors, input.gapThreshold),
+    additionalManagerComments: checkString(errors, input.additionalManagerComments, 'additionalManagerComments', false),
+    goals: checkString(errors, input.goals, 'goals', false),
+    includePriorReview: checkBoolean(errors, input.includePriorReview, 'includePriorReview'),
+    overallScore: 0,
+    generatedFeedback: checkString(errors, input.generatedFeedback, 'generatedFeedback', false),
+    feedbackRevisions: validateRevisions(errors, input.feedbackRevisions),
+    refinementMessages: validateRefinementMessages(errors, input.refinementMessages)
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors }
+  }
+
+  data.overallScore = calculateOverallScore(data.template.categories, data.ratings)
+  return { valid: true, value: data }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+// SESSION_COOKIE in lib/session, which cannot be imported here because it needs node crypto
+const SESSION_COOKIE = 'appraisal_session'
+
+// Sends visitors without a session to the login page. Only the cookie's presence is checked here;
+// the API routes verify it and decide what each user may see.
+export function middleware(request: NextRequest) {
+  if (request.cookies.get(SESSION_COOKIE)) {
+    return NextResponse.next()
+  }
+
+  const login = new URL('/login', request.url)
+  login.searchParams.set('returnTo', request.nextUrl.pathname + request.nextUrl.search)
+  return NextResponse.redirect(login)
+}
+
+// The login page, the employee's self-assessment link and the API (which answers 401 itself) stay open
+export const config = {
+  matcher: ['/((?!api|login|self-assessment|_next|favicon.ico).*)']
+}
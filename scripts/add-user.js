@@ -0,0 +1,80 @@
+/**
+ * Creates an account in the local credential store, or updates the one with the same username.
+ * This is how the first HR admin gets in; after that accounts are managed on /users.
+ *
+ *   npm run users:add -- --username hr --name "Harriet Admin" --role hr-admin --password "change-me-now"
+ *   npm run users:add -- --username morgan --name "Morgan Manager" --role manager \
+ *     --employee-id EMP100 --reports EMP200,EMP201 --email manager@example.com --password "change-me-now"
+ *
+ * Writes $APPRAISAL_DATA_DIR/users.json (default ./data). The password is stored as the same
+ * scrypt hash the app uses; leave --password out for accounts that only sign in with OIDC.
+ */
+
+const fs = require('fs')
+const path = require('path')
+const crypto = require('crypto')
+
+const ROLES = ['manager', 'hr-admin', 'employee']
+const KEY_LENGTH = 64
+
+function parseArgs(argv) {
+  const args = {}
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].indexOf('--') === 0) {
+      args[argv[i].slice(2)] = argv[i + 1] && argv[i + 1].indexOf('--') !== 0 ? argv[++i] : ''
+    }
+  }
+  return args
+}
+
+function fail(message) {
+  console.error(message)
+  process.exit(1)
+}
+
+const args = parseArgs(process.argv.slice(2))
+const username = (args.username || '').trim()
+const name = (args.name || '').trim()
+const role = args.role || ''
+const employeeId = (args['employee-id'] || '').trim()
+const reports = (args.reports || '').split(',').map(id => id.trim()).filter(Boolean)
+
+if (!/^[A-Za-z0-9._@-]+$/.test(username)) fail('--username is required (letters, digits and . _ @ - only)')
+if (!name) fail('--name is required')
+if (ROLES.indexOf(role) === -1) fail(`--role must be one of ${ROLES.join(', ')}`)
+if (args.password !== undefined && args.password.length < 10) fail('--password must be at least 10 characters')
+if (reports.length > 0 && role !== 'manager') fail('--reports is only for managers')
+if (args.email && args.email.indexOf('@') === -1) fail('--email is not an email address')
+
+const file = path.join(process.env.APPRAISAL_DATA_DIR || path.join(process.cwd(), 'data'), 'users.json')
+const users = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : []
+const current = users.filter(u => u.username.toLowerCase() === username.toLowerCase())[0]
+
+if (employeeId && users.some(u => u !== current && u.employeeId === employeeId)) {
+  fail(`Another account is already linked to ${employeeId}`)
+}
+
+let passwordHash = current && current.passwordHash
+if (args.password) {
+  const salt = crypto.randomBytes(16)
+  passwordHash = `scrypt:${salt.toString('hex')}:${crypto.scryptSync(args.password, salt, KEY_LENGTH).toString('hex')}`
+}
+
+const now = new Date().toISOString()
+const user = {
+  id: current ? current.id : crypto.randomUUID(),
+  username,
+  name,
+  ...(args.email ? { email: args.email.trim() } : {}),
+  role,
+  ...(employeeId ? { employeeId } : {}),
+  reports,
+  ...(current && current.oidcSubject ? { oidcSubject: current.oidcSubject } : {}),
+  ...(passwordHash ? { passwordHash } : {}),
+  createdAt: current ? current.createdAt : now,
+  updatedAt: now
+}
+
+fs.mkdirSync(path.dirname(file), { recursive: true })
+fs.writeFileSync(file, JSON.stringify(current ? users.map(u => u === current ? user : u) : [...users, user], null, 2), 'utf8')
+console.log(`${current ? 'Updated' : 'Created'} ${username} (${role}) in ${file}`)
@@ -0,0 +1,114 @@
+/**
+ * Local mock of an Apigee OAuth token endpoint and LLM completion proxy.
+ *
+ *   npm run mock:apigee
+ *
+ * then point the app at it:
+ *
+ *   APIGEE_BASE_URL=http://localhost:4010/v1/chat/completions
+ *   APIGEE_TOKEN_URL=http://localhost:4010/oauth/token
+ *   APIGEE_CLIENT_ID=test-client
+ *   APIGEE_CLIENT_SECRET=test-secret
+ *   APIGEE_API_KEY=test-api-key
+ *
+ * MOCK_TOKEN_TTL (seconds, default 120) makes it easy to watch tokens being renewed.
+ */
+
+const http = require('http')
+const crypto = require('crypto')
+
+const PORT = parseInt(process.env.PORT || '4010')
+const CLIENT_ID = process.env.MOCK_CLIENT_ID || 'test-client'
+const CLIENT_SECRET = process.env.MOCK_CLIENT_SECRET || 'test-secret'
+const API_KEY = process.env.MOCK_API_KEY || 'test-api-key'
+const TOKEN_TTL = parseInt(process.env.MOCK_TOKEN_TTL || '120')
+
+const accessTokens = {}  // token -> expiry (ms)
+const refreshTokens = {} // refresh token -> true
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+function issueToken() {
+  const token = crypto.randomBytes(16).toString('hex')
+  const refreshToken = crypto.randomBytes(16).toString('hex')
+  accessTokens[token] = Date.now() + TOKEN_TTL * 1000
+  refreshTokens[refreshToken] = true
+  // Apigee reports expires_in as a string
+  return { access_token: token, token_type: 'Bearer', expires_in: String(TOKEN_TTL), refresh_token: refreshToken }
+}
+
+function handleToken(req, res, body) {
+  const expected = 'Basic ' + Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64')
+  if (req.headers.authorization !== expected) {
+    return send(res, 401, { error: 'invalid_client' })
+  }
+
+  const params = new URLSearchParams(body)
+  const grantType = params.get('grant_type')
+
+  if (grantType === 'client_credentials') {
+    console.log('token: client_credentials grant')
+    return send(res, 200, issueToken())
+  }
+  if (grantType === 'refresh_token' && refreshTokens[params.get('refresh_token')]) {
+    console.log('token: refresh_token grant')
+    delete refreshTokens[params.get('refresh_token')]
+    return send(res, 200, issueToken())
+  }
+  return send(res, 400, { error: 'invalid_grant' })
+}
+
+function handleCompletion(req, res, body) {
+  if (req.headers['x-apikey'] !== API_KEY) {
+    return send(res, 401, { fault: { faultstring: 'Invalid ApiKey' } })
+  }
+
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '')
+  if (!accessTokens[token] || accessTokens[token] < Date.now()) {
+    return send(res, 401, { fault: { faultstring: 'Invalid access token' } })
+  }
+
+  const request = JSON.parse(body || '{}')
+  console.log(`completion: model=${request.model} correlation=${req.headers['x-correlation-id']}`)
+
+  send(res, 200, {
+    id: 'mock-' + Date.now(),
+    object: 'chat.completion',
+    model: request.model,
+    choices: [{
+      index: 0,
+      finish_reason: 'stop',
+      message: {
+        role: 'assistant',
+        content: [
+          '**Success & Achievements**',
+          'Mock Apigee response: strong delivery this period.',
+          '',
+          '**Areas for Focus**',
+          'Mock Apigee response: keep growing in communication.',
+          '',
+          '**Risk Overlay**',
+          'Mock Apigee response: no immediate risks.',
+          '',
+          '**Overall Summary**',
+          'Mock Apigee response: a solid period overall.'
+        ].join('\n')
+      }
+    }]
+  })
+}
+
+http.createServer((req, res) => {
+  let body = ''
+  req.on('data', chunk => { body += chunk })
+  req.on('end', () => {
+    if (req.method === 'POST' && req.url === '/oauth/token') return handleToken(req, res, body)
+    if (req.method === 'POST' && req.url === '/v1/chat/completions') return handleCompletion(req, res, body)
+    send(res, 404, { error: 'not_found' })
+  })
+}).listen(PORT, () => {
+  console.log(`Mock Apigee listening on http://localhost:${PORT}`)
+})
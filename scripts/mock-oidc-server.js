@@ -0,0 +1,172 @@
+/**
+ * Local OpenID Connect provider for trying single sign-on without a real identity provider.
+ *
+ *   npm run mock:oidc
+ *
+ * then point the app at it:
+ *
+ *   OIDC_ISSUER=http://localhost:4020
+ *   OIDC_CLIENT_ID=appraisal-app
+ *   OIDC_CLIENT_SECRET=test-secret
+ *
+ * The sign-in page lets you pick one of the test users below (or type any email). The app only
+ * lets them in when an account with the same email exists, e.g. one created with npm run users:add.
+ */
+
+const http = require('http')
+const crypto = require('crypto')
+
+const PORT = parseInt(process.env.PORT || '4020')
+const ISSUER = process.env.MOCK_ISSUER || `http://localhost:${PORT}`
+const CLIENT_ID = process.env.MOCK_CLIENT_ID || 'appraisal-app'
+const CLIENT_SECRET = process.env.MOCK_CLIENT_SECRET || 'test-secret'
+const KEY_ID = 'mock-key'
+
+const TEST_USERS = [
+  { email: 'hr@example.com', name: 'Harriet Admin' },
+  { email: 'manager@example.com', name: 'Morgan Manager' },
+  { email: 'employee@example.com', name: 'Evan Employee' }
+]
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+const codes = {} // code -> { email, name, clientId, redirectUri, nonce, challenge, expires }
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+function base64url(value) {
+  return Buffer.from(value).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_')
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c])
+}
+
+function subjectFor(email) {
+  return crypto.createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24)
+}
+
+function signIdToken(claims) {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }))
+  const payload = base64url(JSON.stringify(claims))
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey)
+  return `${header}.${payload}.${base64url(signature)}`
+}
+
+function handleAuthorize(req, res, url) {
+  const params = url.searchParams
+  if (params.get('client_id') !== CLIENT_ID || params.get('response_type') !== 'code' || !params.get('redirect_uri')) {
+    return send(res, 400, { error: 'invalid_request' })
+  }
+  if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+    return send(res, 400, { error: 'invalid_request', error_description: 'PKCE with S256 is required' })
+  }
+
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) || '')}">`)
+    .join('')
+  const options = TEST_USERS
+    .map(user => `<option value="${user.email}">${escapeHtml(user.name)} (${user.email})</option>`)
+    .join('')
+
+  res.writeHead(200, { 'Content-Type': 'text/html' })
+  res.end(`<!doctype html><html><body style="font-family:sans-serif;max-width:28rem;margin:4rem auto">
+<h1>Mock identity provider</h1>
+<form method="post" action="/authorize">${hidden}
+<p><label>Test user<br><select name="email">${options}</select></label></p>
+<p><label>or another email<br><input name="other" type="email"></label></p>
+<p><button type="submit">Sign in</button></p>
+</form></body></html>`)
+}
+
+function handleApprove(req, res, body) {
+  const form = new URLSearchParams(body)
+  const email = (form.get('other') || form.get('email') || '').trim()
+  const known = TEST_USERS.filter(user => user.email === email)[0]
+  const code = crypto.randomBytes(16).toString('hex')
+  codes[code] = {
+    email,
+    name: known ? known.name : email,
+    clientId: form.get('client_id'),
+    redirectUri: form.get('redirect_uri'),
+    nonce: form.get('nonce'),
+    challenge: form.get('code_challenge'),
+    expires: Date.now() + 60 * 1000
+  }
+  console.log(`authorize: ${email}`)
+
+  const redirect = new URL(form.get('redirect_uri'))
+  redirect.searchParams.set('code', code)
+  if (form.get('state')) redirect.searchParams.set('state', form.get('state'))
+  res.writeHead(302, { Location: redirect.toString() })
+  res.end()
+}
+
+function handleToken(req, res, body) {
+  const expected = 'Basic ' + Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64')
+  if (req.headers.authorization !== expected) {
+    return send(res, 401, { error: 'invalid_client' })
+  }
+
+  const params = new URLSearchParams(body)
+  const grant = codes[params.get('code')]
+  delete codes[params.get('code')]
+  if (params.get('grant_type') !== 'authorization_code' || !grant || grant.expires < Date.now() || grant.redirectUri !== params.get('redirect_uri')) {
+    return send(res, 400, { error: 'invalid_grant' })
+  }
+
+  const challenge = base64url(crypto.createHash('sha256').update(params.get('code_verifier') || '').digest())
+  if (challenge !== grant.challenge) {
+    return send(res, 400, { error: 'invalid_grant', error_description: 'code_verifier does not match' })
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  console.log(`token: id_token for ${grant.email}`)
+  send(res, 200, {
+    access_token: crypto.randomBytes(16).toString('hex'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: signIdToken({
+      iss: ISSUER,
+      aud: CLIENT_ID,
+      sub: subjectFor(grant.email),
+      email: grant.email,
+      email_verified: true,
+      name: grant.name,
+      nonce: grant.nonce,
+      iat: now,
+      exp: now + 300
+    })
+  })
+}
+
+http.createServer((req, res) => {
+  let body = ''
+  req.on('data', chunk => { body += chunk })
+  req.on('end', () => {
+    const url = new URL(req.url, ISSUER)
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return send(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256']
+      })
+    }
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      return send(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] })
+    }
+    if (req.method === 'GET' && url.pathname === '/authorize') return handleAuthorize(req, res, url)
+    if (req.method === 'POST' && url.pathname === '/authorize') return handleApprove(req, res, body)
+    if (req.method === 'POST' && url.pathname === '/token') return handleToken(req, res, body)
+    send(res, 404, { error: 'not_found' })
+  })
+}).listen(PORT, () => {
+  console.log(`Mock OIDC provider listening on ${ISSUER}`)
+})
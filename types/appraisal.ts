@@ -11,8 +11,23 @@ export interface AppraisalRating {
   comments: string;
 }
 
+// The employee's own rating of one category, compared with the manager's in the gap table
+export interface EmployeeSelfRating {
+  categoryId: string;
+  score: number; // 0-5 with decimal fractions, like AppraisalRating
+  comments: string;
+}
+
 export interface EmployeeSelfAssessment {
   selfAssessment: string; // Single text input for employee's self-assessment
+  ratings?: EmployeeSelfRating[]; // Per-category self-ratings; categories the employee skipped are absent
+}
+
+// What the employee sent through their self-assessment link; never changed afterwards
+export interface SubmittedSelfAssessment {
+  selfAssessment: string;
+  ratings: EmployeeSelfRating[];
+  submittedAt: string;
 }
 
 export interface AppraisalTemplate {
@@ -20,6 +35,46 @@ export interface AppraisalTemplate {
   name: string;
   description: string;
   categories: AppraisalCategory[];
+  version?: number; // Library version this snapshot was taken from; appraisals keep the snapshot they were written against
+  promptTemplateId?: string; // PromptTemplate used to write the review; the built-in default when unset
+}
+
+export interface TemplateRecord extends AppraisalTemplate {
+  version: number;
+  createdAt: string;
+  clonedFrom?: { id: string; version: number };
+}
+
+export type PromptTone = 'warm' | 'direct' | 'formal';
+export type PromptLength = 'brief' | 'standard' | 'detailed';
+
+// What the model is asked to write for one review section
+export interface PromptSection {
+  key: string; // FeedbackSectionKey
+  guidance: string; // May use the same {{variables}} as the body
+}
+
+// Instructions for the model, with {{variable}} placeholders filled from the appraisal
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  tone: PromptTone;
+  length: PromptLength;
+  sections: PromptSection[]; // In review order; sections left out are not requested
+  body: string;
+}
+
+export interface PromptTemplateRecord extends PromptTemplate {
+  version: number;
+  createdAt: string;
+}
+
+// The prompt template version that produced a piece of text
+export interface PromptVersion {
+  id: string;
+  version: number;
+  name: string;
 }
 
 export interface AppraisalData {
@@ -27,17 +82,582 @@ export interface AppraisalData {
   employeeId: string;
   reviewerName: string;
   reviewDate: string;
+  reviewPeriod: string; // e.g. "2024" or "2024-H2"; one appraisal per employee per period
   employeeGender: 'male' | 'female' | 'other' | 'prefer-not-to-say';
+  language?: FeedbackLanguage; // Language of the generated review; English when omitted
   template: AppraisalTemplate;
   ratings: AppraisalRating[];
   selfAssessment?: EmployeeSelfAssessment[]; // Optional self-assessment
+  gapThreshold?: number; // Manager-vs-self score difference treated as a perception gap; 1.0 when omitted
   additionalManagerComments?: string; // Additional manager comments across all categories
+  goals?: string; // Goals agreed with the employee for the next period; the next cycle's prompt follows up on them
+  includePriorReview?: boolean; // false keeps the previous cycle's review out of the prompt; included when omitted
   overallScore: number;
   generatedFeedback: string;
+  feedbackRevisions?: FeedbackRevision[]; // Oldest first; the last one matches generatedFeedback
+  refinementMessages?: RefinementMessage[]; // Refinement chat with the model, oldest first
+}
+
+export type FeedbackLanguage = 'en' | 'de' | 'pt-BR' | 'ja';
+
+export type FeedbackRevisionKind = 'generated' | 'regenerated' | 'edited' | 'reverted' | 'refined';
+
+// A snapshot of generatedFeedback after each change, kept so any version can be diffed or restored
+export interface FeedbackRevision {
+  id: string;
+  createdAt: string;
+  kind: FeedbackRevisionKind;
+  feedback: string; // The full feedback after this change
+  section?: string; // FeedbackSectionKey changed by 'regenerated' and 'edited'
+  instruction?: string; // What the manager asked for when regenerating or refining
+  revertedTo?: string; // Revision id restored by 'reverted'
+  source?: 'llm' | 'mock';
+  provider?: string;
+  model?: string;
+  prompt?: PromptVersion;
+  priorReview?: string; // Appraisal id of the previous cycle's review the prompt followed up on
+}
+
+// One turn of the refinement chat
+export interface RefinementMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  revisionId?: string; // FeedbackRevision created by an assistant reply that changed the draft
+}
+
+export interface ValidationIssue {
+  path: string; // e.g. "ratings[2].score"; empty for the body itself
+  message: string;
+}
+
+// Generated review text per section, without the section headings
+export interface FeedbackSections {
+  successAndAchievements: string;
+  areasForFocus: string;
+  riskOverlay: string;
+  overallSummary: string;
 }
 
 export interface LLMResponse {
   success: boolean;
-  feedback: string;
+  feedback: string; // All sections as markdown under bold headings
+  sections?: Partial<FeedbackSections>; // Only the sections the prompt template asks for
+  source?: 'llm' | 'mock'; // 'mock' means no provider produced the text and the offline template was used
+  provider?: string; // LLMProvider value that produced the feedback (absent for mock)
+  model?: string;
+  prompt?: PromptVersion;
+  fallbackReason?: string; // Why the mock was used, when it was
+  priorReview?: PriorReviewReference; // The earlier review summarized in the prompt, when one was used
+  redacted?: boolean; // Personal data was replaced with placeholders before the request left the server
+  promptHash?: string; // SHA-256 of the prompt as built, before redaction; matches the audit log
+  error?: string;
+  errors?: ValidationIssue[]; // Set on 400 when the payload failed validation
+}
+
+// The previous cycle's review a prompt followed up on
+export interface PriorReviewReference {
+  appraisalId: string;
+  reviewPeriod: string;
+  reviewDate: string;
+  reviewerName: string;
+}
+
+export type RedactionKind = 'NAME' | 'EMPLOYEE_ID' | 'EMAIL' | 'TERM';
+
+// A value that was replaced before a request went to an LLM provider, and restored in the reply
+export interface RedactionPlaceholder {
+  placeholder: string; // e.g. "[NAME_1]"
+  kind: RedactionKind;
+  value: string;
+}
+
+// The text of one provider's request exactly as it leaves the server
+export interface ProviderRequestPreview {
+  provider: string;
+  model: string;
+  redacted: boolean; // false for providers redaction is turned off for (by default OLLAMA and LOCAL)
+  system?: string;
+  messages: { role: 'user' | 'assistant'; content: string }[];
+  placeholders: RedactionPlaceholder[]; // Only the ones that occur in the request
+}
+
+export interface RequestPreviewResponse {
+  success: boolean;
+  previews: ProviderRequestPreview[]; // In fallback order; empty when no provider is configured
+  error?: string;
+  errors?: ValidationIssue[];
+}
+
+export interface SectionResponse {
+  success: boolean;
+  section?: string; // FeedbackSectionKey that was regenerated
+  text: string; // New section text, without its heading
+  source?: 'llm' | 'mock';
+  provider?: string;
+  model?: string;
+  prompt?: PromptVersion;
+  fallbackReason?: string;
   error?: string;
-} 
\ No newline at end of file
+  errors?: ValidationIssue[]; // Set on 400 when the payload failed validation
+}
+
+export interface RefineResponse {
+  success: boolean;
+  reply: string; // The model's answer to the manager's last message
+  feedback?: string; // Revised draft; absent when the reply left the draft unchanged
+  sections?: Partial<FeedbackSections>;
+  source?: 'llm' | 'mock';
+  provider?: string;
+  model?: string;
+  prompt?: PromptVersion;
+  fallbackReason?: string;
+  error?: string;
+  errors?: ValidationIssue[]; // Set on 400 when the payload failed validation
+}
+
+export type LintCategory = 'gender-coded' | 'ageist' | 'ableist' | 'personality' | 'pronoun';
+
+// A phrase in the generated feedback flagged by the inclusive-language linter
+export interface LintIssue {
+  id: string;
+  category: LintCategory;
+  section: string; // FeedbackSectionKey, or 'preamble' for the text before the first heading
+  start: number; // Offsets into that section's text
+  end: number;
+  text: string; // The flagged phrase as written
+  message: string;
+  suggestion?: string; // Replacement for text; absent when the sentence needs rewording
+  source: 'rule' | 'llm';
+}
+
+export interface LintResponse {
+  success: boolean;
+  issues: LintIssue[]; // Rule issues plus, when requested, the model's; never overlapping
+  provider?: string; // Set when the model pass ran
+  model?: string;
+  fallbackReason?: string; // Why the model pass was skipped
+  error?: string;
+  errors?: ValidationIssue[];
+}
+
+export type ConsistencyKind = 'strength-as-risk' | 'strength-as-focus' | 'praised-low-score' | 'risk-not-flagged' | 'strength-not-credited';
+
+// A place where the generated narrative contradicts a category's score
+export interface ConsistencyWarning {
+  id: string;
+  kind: ConsistencyKind;
+  categoryId: string;
+  categoryName: string;
+  score: number;
+  section: string; // FeedbackSectionKey the warning is about
+  message: string;
+}
+
+export interface StoredAppraisal extends AppraisalData {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  employeeSubmission?: SubmittedSelfAssessment; // Set by the employee's self-assessment link; saving the appraisal keeps it
+  status?: AppraisalStatus; // 'draft' when omitted (records saved before the workflow existed)
+  statusHistory?: StatusChange[]; // Oldest first; only changed through the status route
+  calibrationAdjustments?: CalibrationAdjustment[]; // Score changes HR made during calibration, oldest first
+}
+
+// One score HR changed during calibration; the rating itself holds the new score
+export interface CalibrationAdjustment {
+  categoryId: string;
+  from: number;
+  to: number;
+  reason: string;
+  by: string;
+  at: string;
+  overallFrom: number; // Weighted overall score before and after the change
+  overallTo: number;
+  feedbackStale?: boolean; // The review already had generated feedback, written against the old score
+  feedbackWarnings?: string[]; // Where that feedback contradicts the new scores, from the consistency check
+}
+
+export interface CalibrationAdjustmentRequest {
+  appraisalId: string;
+  categoryId: string;
+  score: number;
+  reason: string;
+}
+
+export type AppraisalStatus = 'draft' | 'manager-submitted' | 'hr-calibrated' | 'shared' | 'acknowledged';
+
+export type AppraisalRole = 'manager' | 'hr-admin' | 'employee';
+
+// Who moved the review forward (or back), and when
+export interface StatusChange {
+  from: AppraisalStatus;
+  to: AppraisalStatus;
+  at: string;
+  by: string; // Name of the person acting
+  role: AppraisalRole;
+  note?: string; // The employee's rebuttal on 'acknowledged', HR's reason when returning to 'draft'
+}
+
+export interface StatusChangeRequest {
+  to: AppraisalStatus;
+  note?: string;
+}
+
+// A login. Managers see and edit the reviews of everyone who reports to them, directly or
+// through another manager; HR admins see all reviews; employees see their own once shared.
+export interface UserAccount {
+  id: string;
+  username: string;
+  name: string;
+  email?: string; // Matched against the email claim on the first OIDC sign-in
+  role: AppraisalRole;
+  employeeId?: string; // The employeeId the reviews about this person are filed under
+  reports: string[]; // employeeIds of direct reports
+  oidcSubject?: string; // The identity provider's subject, linked on the first OIDC sign-in
+  hasPassword: boolean; // Whether the account can sign in with the local credential store
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Body of POST/PUT /api/users; the password is only changed when one is sent
+export interface UserAccountInput {
+  username: string;
+  name: string;
+  email?: string;
+  role: AppraisalRole;
+  employeeId?: string;
+  reports: string[];
+  password?: string;
+}
+
+// The signed-in user as the pages see it
+export interface SessionUser {
+  id: string;
+  username: string;
+  name: string;
+  role: AppraisalRole;
+  employeeId?: string;
+  reports: string[]; // Every employeeId in the user's reporting line, direct or indirect
+  method: 'local' | 'oidc';
+}
+
+export interface SessionResponse {
+  success: boolean;
+  user?: SessionUser; // Absent when nobody is signed in
+  providers?: { local: boolean; oidc?: { name: string } }; // The sign-in options the login page offers
+  error?: string;
+  errors?: ValidationIssue[]; // Set on 400 when the sign-in form is incomplete
+}
+
+export interface UserResponse {
+  success: boolean;
+  user?: UserAccount;
+  error?: string;
+  errors?: ValidationIssue[]; // Set on 400 when the account failed validation
+}
+
+export interface UserListResponse {
+  success: boolean;
+  users: UserAccount[];
+  error?: string;
+}
+
+export type AuditAction = 'generate' | 'regenerate-section' | 'refine' | 'create' | 'edit' | 'delete' | 'status-change' | 'calibration' | 'export';
+
+// One line of the append-only audit log. The generation actions fill in provider to
+// feedbackHash; the others describe what changed in detail.
+export interface AuditEntry {
+  id: string;
+  at: string;
+  action: AuditAction;
+  userId: string;
+  userName: string;
+  role: AppraisalRole;
+  employeeId?: string;
+  appraisalId?: string; // Absent for generation and exports, which work on the posted data
+  provider?: string; // The provider and model that answered (absent when the mock was used)
+  model?: string;
+  prompt?: PromptVersion;
+  promptHash?: string; // SHA-256 of the prompt as built, before redaction
+  latencyMs?: number;
+  outcome?: 'llm' | 'mock' | 'failed'; // 'mock': every provider failed or none is configured
+  reason?: string; // Why the mock was used or the generation failed
+  feedbackHash?: string; // SHA-256 of the feedback generated, saved or exported
+  detail?: string; // e.g. the fields an edit changed, "draft -> manager-submitted", "pdf"
+}
+
+// Query of GET /api/audit-log; every field is optional
+export interface AuditFilter {
+  action?: AuditAction;
+  user?: string; // Matches the user's name or id
+  employeeId?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface AuditLogResponse {
+  success: boolean;
+  entries: AuditEntry[]; // Newest first
+  error?: string;
+}
+
+export type SelfAssessmentLinkStatus = 'open' | 'expired' | 'submitted' | 'closed'; // 'closed': the review was submitted without one
+
+// An expiring link the employee uses to fill in the self-assessment for one appraisal
+export interface SelfAssessmentLink {
+  token: string;
+  appraisalId: string;
+  createdAt: string;
+  expiresAt: string;
+  submittedAt?: string;
+}
+
+export interface SelfAssessmentLinkResponse {
+  success: boolean;
+  link?: SelfAssessmentLink & { status: SelfAssessmentLinkStatus };
+  error?: string;
+  errors?: ValidationIssue[];
+}
+
+// Everything the employee's page gets: the categories to rate and nothing the manager wrote
+export interface SelfAssessmentForm {
+  employeeName: string;
+  reviewPeriod: string;
+  templateName: string;
+  categories: Pick<AppraisalCategory, 'id' | 'name' | 'description'>[];
+  status: SelfAssessmentLinkStatus;
+  expiresAt: string;
+  submission?: SubmittedSelfAssessment; // The employee's own answers once submitted
+}
+
+export interface SelfAssessmentFormResponse {
+  success: boolean;
+  form?: SelfAssessmentForm;
+  error?: string;
+  errors?: ValidationIssue[]; // Set on 400 when the submission failed validation
+}
+
+export interface AppraisalSummary {
+  id: string;
+  employeeName: string;
+  employeeId: string;
+  reviewerName: string;
+  reviewPeriod: string;
+  reviewDate: string;
+  overallScore: number;
+  hasFeedback: boolean;
+  status: AppraisalStatus;
+  updatedAt: string;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number; // Exclusive, except for the last bin which includes 5.0
+  count: number;
+}
+
+export interface CategorySpread {
+  categoryId: string;
+  categoryName: string;
+  count: number;
+  average: number;
+  min: number;
+  max: number;
+  histogram: HistogramBin[];
+}
+
+export interface ReviewerSpread {
+  reviewerName: string;
+  count: number;
+  average: number;
+  delta: number; // average minus the period average
+  tendency?: 'lenient' | 'harsh'; // Set when |delta| reaches the reviewer threshold
+}
+
+export interface CalibrationOutlier {
+  appraisalId: string;
+  employeeName: string;
+  reviewerName: string;
+  overallScore: number;
+  zScore: number;
+}
+
+// Actual share of each performance level next to the forced-distribution target
+export interface DistributionBand {
+  level: string; // PerformanceLevelKey
+  label: string;
+  targetShare: number; // 0-1
+  actualShare: number;
+  actualCount: number;
+  targetCount: number; // Target share of this period's reviews, rounded
+}
+
+export interface CalibrationEntry {
+  appraisalId: string;
+  employeeName: string;
+  employeeId: string;
+  reviewerName: string;
+  status: AppraisalStatus;
+  overallScore: number;
+  categories: AppraisalCategory[];
+  ratings: AppraisalRating[];
+  adjustments: CalibrationAdjustment[];
+}
+
+export interface CalibrationReport {
+  reviewPeriod: string;
+  count: number; // Reviews included: everything past draft
+  draftCount: number; // Reviews still in draft, left out of the statistics
+  average: number;
+  standardDeviation: number;
+  histogram: HistogramBin[];
+  categories: CategorySpread[];
+  reviewers: ReviewerSpread[];
+  outliers: CalibrationOutlier[];
+  distribution: DistributionBand[];
+  entries: CalibrationEntry[];
+}
+
+export interface CalibrationResponse {
+  success: boolean;
+  report?: CalibrationReport;
+  error?: string;
+  errors?: ValidationIssue[];
+}
+
+// One category followed across review cycles; later template versions may have renamed or reweighted it
+export interface CategorySeries {
+  key: string; // Category id the series was first seen under
+  name: string; // Name in the most recent cycle that has it
+  formerNames: string[];
+}
+
+export interface HistoryScore {
+  seriesKey: string;
+  categoryId: string;
+  categoryName: string; // As named in that cycle's template
+  weight: number;
+  score: number;
+}
+
+export interface HistoryCycle {
+  appraisalId: string;
+  reviewPeriod: string;
+  reviewDate: string;
+  reviewerName: string;
+  status: AppraisalStatus;
+  templateName: string;
+  templateVersion?: number;
+  overallScore: number;
+  scores: HistoryScore[];
+}
+
+// This cycle's rating of a category next to what last cycle said about it
+export interface FocusFollowUp {
+  seriesKey: string;
+  categoryName: string;
+  previousScore?: number; // Absent when last cycle's template did not have the category
+  score: number;
+  wasFocus: boolean; // Named in last cycle's Areas for Focus
+}
+
+export interface FocusComparison {
+  previousAppraisalId: string;
+  previousPeriod: string;
+  areasForFocus: string; // Last cycle's section text; empty when it had none
+  currentAppraisalId: string;
+  currentPeriod: string;
+  categories: FocusFollowUp[];
+}
+
+export interface EmployeeHistory {
+  employeeId: string;
+  employeeName: string; // From the most recent cycle
+  series: CategorySeries[];
+  cycles: HistoryCycle[]; // Oldest first
+  focusComparison?: FocusComparison; // Needs at least two cycles
+}
+
+export interface EmployeeHistoryResponse {
+  success: boolean;
+  history?: EmployeeHistory;
+  error?: string;
+}
+
+export interface AppraisalResponse {
+  success: boolean;
+  appraisal?: StoredAppraisal;
+  error?: string;
+  existingId?: string; // Set on 409 when another appraisal already uses the employeeId + reviewPeriod
+  errors?: ValidationIssue[]; // Set on 400 when the payload failed validation
+}
+
+export interface TemplateResponse {
+  success: boolean;
+  template?: TemplateRecord;
+  error?: string;
+  errors?: ValidationIssue[]; // Set on 400 when the template failed validation
+}
+
+export interface PromptTemplateResponse {
+  success: boolean;
+  promptTemplate?: PromptTemplateRecord;
+  error?: string;
+  errors?: ValidationIssue[]; // Set on 400 when the template failed validation
+}
+
+export interface PromptTemplateListResponse {
+  success: boolean;
+  promptTemplates: PromptTemplateRecord[];
+  error?: string;
+}
+
+export interface TemplateListResponse {
+  success: boolean;
+  templates: TemplateRecord[];
+  error?: string;
+}
+
+export interface AppraisalListResponse {
+  success: boolean;
+  appraisals: AppraisalSummary[];
+  error?: string;
+}
+
+// Returned by /api/export only when no document could be produced
+export interface ExportErrorResponse {
+  success: false;
+  error: string;
+  errors?: ValidationIssue[]; // Set on 400 when the payload failed validation
+}
+
+export type BulkRowStatus = 'invalid' | 'pending' | 'running' | 'done' | 'failed';
+
+export interface BulkRowResult {
+  row: number; // 1-based data row in the uploaded file, header excluded
+  employeeName: string;
+  employeeId: string;
+  status: BulkRowStatus;
+  overallScore?: number; // Recomputed server-side once the row validated
+  source?: 'llm' | 'mock';
+  provider?: string;
+  model?: string;
+  prompt?: PromptVersion;
+  error?: string; // Why generation failed, or why the mock was used
+  errors?: ValidationIssue[]; // Set when status is 'invalid'; paths name the CSV column
+}
+
+export interface BulkJobSummary {
+  jobId: string;
+  total: number;
+  done: number;
+  failed: number; // Includes invalid rows
+  rows: BulkRowResult[];
+}
+
+export interface BulkJobResponse {
+  success: boolean;
+  job?: BulkJobSummary;
+  error?: string;
+}